@@ -5,6 +5,7 @@ import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { ClientPicker } from '@/components/ui/ClientPicker';
 import { Button } from '@/components/ui/Button';
 import { EvaluationScorecard } from '@/components/chat/EvaluationScorecard';
+import { RedactedText } from '@/components/chat/RedactedText';
 import { cn } from '@/lib/utils';
 import toast, { Toaster } from 'react-hot-toast';
 import { 
@@ -30,7 +31,7 @@ import {
   ArrowDownIcon,
 } from '@heroicons/react/24/outline';
 import { useAuth } from '@/contexts/AuthContext';
-import { QueryRequest, RoomType } from '@/types/api';
+import { QueryRequest, RoomType, CitationSource, QueryPlan, QueryPlanPart } from '@/types/api';
 import { createClient } from '@supabase/supabase-js';
 
 interface Conversation {
@@ -52,6 +53,10 @@ interface Message {
   citations?: Citation[];
   evaluation?: EvaluationResult;
   status?: 'sending' | 'streaming' | 'complete' | 'error';
+  // How the question behind an answer was interpreted, and what to ask again when a part of it is dropped
+  plan?: QueryPlan;
+  question?: string;
+  ignore_plan?: QueryPlanPart[];
 }
 
 interface Citation {
@@ -60,6 +65,7 @@ interface Citation {
   time_span: string;
   snippet: string;
   chunk_id: string;
+  source?: CitationSource | null;
 }
 
 interface EvaluationResult {
@@ -549,8 +555,10 @@ export default function ChatConversationsPage() {
     }
   };
 
-  const sendMessage = async () => {
-    if (!newMessage.trim() || !selectedConversation || isStreaming) {
+  // `retry` asks a previous question again without the plan parts the user dropped
+  const sendMessage = async (retry?: { question: string; ignorePlan: QueryPlanPart[] }) => {
+    const question = retry?.question ?? newMessage;
+    if (!question.trim() || !selectedConversation || isStreaming) {
       return;
     }
 
@@ -559,7 +567,7 @@ export default function ChatConversationsPage() {
       id: `msg_${Date.now()}`,
       conversation_id: selectedConversation,
       role: 'user',
-      content: newMessage,
+      content: question,
       timestamp: new Date().toISOString(),
       status: 'complete',
     };
@@ -577,8 +585,10 @@ export default function ChatConversationsPage() {
 
     // Add messages to state
     setMessages(prev => [...prev, userMessage, assistantMessage]);
-    const currentMessage = newMessage;
-    setNewMessage(''); // Clear input after sending
+    const currentMessage = question;
+    if (!retry) {
+      setNewMessage(''); // Clear input after sending
+    }
     setIsStreaming(true);
 
     let streamingTimeout: NodeJS.Timeout | undefined;
@@ -603,7 +613,7 @@ export default function ChatConversationsPage() {
         client_id: parseInt(clientId),
         conversation_id: parseInt(selectedConversation!),
         question: currentMessage,
-
+        ...(retry ? { ignore_plan: retry.ignorePlan } : {}),
       };
 
       let citations: Citation[] = [];
@@ -611,7 +621,12 @@ export default function ChatConversationsPage() {
 
       const { abort } = await api.conversations.query(supabase, queryRequest, {
         onMeta: (meta: any) => {
-          // Meta event received
+          if (!meta?.plan) return;
+          setMessages(prev => prev.map(msg =>
+            msg.id === assistantMessageId
+              ? { ...msg, plan: meta.plan, question: currentMessage, ignore_plan: retry?.ignorePlan ?? [] }
+              : msg
+          ));
         },
         onToken: (token: string) => {
           // Clear timeout on first token
@@ -1049,6 +1064,10 @@ export default function ChatConversationsPage() {
                     <MessageBubble 
                       key={message.id} 
                       message={message}
+                      onCorrectPlan={isStreaming ? undefined : (part) => sendMessage({
+                        question: message.question || '',
+                        ignorePlan: [...(message.ignore_plan || []), part],
+                      })}
                     />
                   ))}
                   <div ref={messagesEndRef} />
@@ -1178,9 +1197,12 @@ export default function ChatConversationsPage() {
                   <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
                     Content
                   </h4>
-                  <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap">
-                    {selectedCitation.snippet || 'No content available'}
-                  </p>
+                  <RedactedText
+                    key={selectedCitation.id}
+                    text={selectedCitation.snippet || 'No content available'}
+                    clientId={Number(clientId)}
+                    chunkId={Number(selectedCitation.chunk_id) || undefined}
+                  />
                 </div>
                 
                 {/* Metadata Grid */}
@@ -1213,6 +1235,28 @@ export default function ChatConversationsPage() {
                     {selectedCitation.chunk_id || 'Unknown'}
                   </p>
                 </div>
+
+                {/* Original Cliq messages */}
+                {selectedCitation.source?.platform === 'zoho_cliq' && (
+                  <div className="bg-gray-50 dark:bg-gray-900/50 rounded-xl p-4">
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Cliq Messages ({selectedCitation.source.message_ids.length})
+                    </h4>
+                    {cliqChatUrl(selectedCitation.source) ? (
+                      <a
+                        href={cliqChatUrl(selectedCitation.source)!}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {selectedCitation.source.thread_id ? 'Open thread in Zoho Cliq' : 'Open chat in Zoho Cliq'}
+                      </a>
+                    ) : null}
+                    <p className="mt-2 text-xs text-gray-600 dark:text-gray-400 font-mono break-all">
+                      {selectedCitation.source.message_ids.join(', ')}
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -1538,9 +1582,10 @@ function ConversationSkeleton() {
 
 interface MessageBubbleProps {
   message: Message;
+  onCorrectPlan?: (part: QueryPlanPart) => void;
 }
 
-function MessageBubble({ message }: MessageBubbleProps) {
+function MessageBubble({ message, onCorrectPlan }: MessageBubbleProps) {
   const isUser = message.role === 'user';
   
   return (
@@ -1574,6 +1619,15 @@ function MessageBubble({ message }: MessageBubbleProps) {
           )}
         </div>
         
+        {/* Query Plan */}
+        {message.plan && (
+          <QueryPlanChips
+            plan={message.plan}
+            question={message.question || ''}
+            onRemove={onCorrectPlan}
+          />
+        )}
+
         {/* Citations */}
         {message.citations && message.citations.length > 0 && (
           <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
@@ -1606,10 +1660,79 @@ function MessageBubble({ message }: MessageBubbleProps) {
   );
 }
 
+interface QueryPlanChipsProps {
+  plan: QueryPlan;
+  question: string;
+  onRemove?: (part: QueryPlanPart) => void;
+}
+
+const ROOM_TYPE_LABELS: Record<'internal' | 'external', string> = {
+  internal: 'Zoho Cliq',
+  external: 'WhatsApp',
+};
+
+// How the question was read; removing a part asks the question again without it
+function QueryPlanChips({ plan, question, onRemove }: QueryPlanChipsProps) {
+  const parts: Array<{ part: QueryPlanPart; icon: React.ElementType; label: string }> = [];
+
+  if (plan.intent !== 'rag') {
+    parts.push({ part: 'intent', icon: SparklesIcon, label: plan.intent === 'evaluation' ? 'Evaluation' : 'General chat' });
+  }
+  if (plan.date_range) {
+    parts.push({ part: 'date_range', icon: CalendarIcon, label: plan.date_range.label });
+  }
+  if (plan.people.length > 0) {
+    parts.push({ part: 'people', icon: UserGroupIcon, label: plan.people.map(person => person.name).join(', ') });
+  }
+  if (plan.rooms.length > 0 || plan.room_types.length > 0) {
+    const rooms = plan.rooms.length > 0
+      ? plan.rooms.map(room => room.name)
+      : plan.room_types.map(type => ROOM_TYPE_LABELS[type]);
+    parts.push({ part: 'rooms', icon: ChatBubbleLeftRightIcon, label: rooms.join(', ') });
+  }
+  if (plan.search_query && plan.search_query.trim().toLowerCase() !== question.trim().toLowerCase()) {
+    parts.push({ part: 'search_query', icon: MagnifyingGlassIcon, label: `"${plan.search_query}"` });
+  }
+
+  if (parts.length === 0) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+      <span className="text-gray-500 dark:text-gray-400">Interpreted as</span>
+      {parts.map(({ part, icon: Icon, label }) => (
+        <span
+          key={part}
+          className="inline-flex items-center max-w-full px-2 py-1 rounded-full bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300"
+        >
+          <Icon className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+          <span className="truncate max-w-48">{label}</span>
+          {onRemove && question && (
+            <button
+              onClick={() => onRemove(part)}
+              title="Ask again without this"
+              className="ml-1 p-0.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <XMarkIcon className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 interface CitationChipProps {
   citation: Citation;
 }
 
+// Only link out when the Cliq web app URL is configured for this deployment
+function cliqChatUrl(source: CitationSource): string | null {
+  const baseUrl = process.env.NEXT_PUBLIC_ZOHO_CLIQ_WEB_URL;
+  const chatId = source.thread_id || source.chat_id;
+  if (!baseUrl || !chatId) return null;
+  return `${baseUrl.replace(/\/$/, '')}/chats/${encodeURIComponent(chatId)}`;
+}
+
 function CitationChip({ citation }: CitationChipProps) {
   return (
     <div className="citation-chip">
@@ -0,0 +1,543 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api-services';
+import { getErrorMessage } from '@/lib/api-client';
+import {
+  EvaluationRecordDto,
+  ReviewEventDto,
+  ReviewQueueItemDto,
+  ReviewStatus,
+  ReviewTransition,
+} from '@/types/api';
+import {
+  ChevronLeftIcon,
+  ExclamationTriangleIcon,
+  ClipboardDocumentCheckIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  PaperAirplaneIcon,
+  ArrowUturnLeftIcon,
+} from '@heroicons/react/24/outline';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+interface DriverDraft {
+  driver_key: string;
+  name: string;
+  score: string;
+  reasoning: string;
+  ai_score: number | null;
+  ai_reasoning: string | null;
+}
+
+const statusLabels: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const statusClasses: Record<ReviewStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  in_review: 'bg-[#ffe600]/20 text-gray-900 dark:text-white',
+  approved: 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+  rejected: 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400',
+};
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#ffe600]/20 focus:border-[#ffe600]';
+
+export default function EvaluationReviewsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { supabase, hasAnyRole } = useAuth();
+  const clientId = params?.clientId as string;
+  const canSignOff = hasAnyRole(['admin', 'super_admin']);
+
+  const [client, setClient] = useState<Client | null>(null);
+  const [filter, setFilter] = useState<ReviewStatus | 'pending'>('pending');
+  const [queue, setQueue] = useState<ReviewQueueItemDto[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [evaluation, setEvaluation] = useState<EvaluationRecordDto | null>(null);
+  const [events, setEvents] = useState<ReviewEventDto[]>([]);
+  const [drafts, setDrafts] = useState<DriverDraft[]>([]);
+  const [comment, setComment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [loadingRecord, setLoadingRecord] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Fetch client
+  useEffect(() => {
+    const fetchClient = async () => {
+      if (!clientId) return;
+
+      setLoading(true);
+
+      try {
+        const { data: clientData, error: clientError } = await supabase
+          .from('clients')
+          .select('id, name')
+          .eq('id', parseInt(clientId))
+          .single();
+
+        if (clientError) throw clientError;
+        setClient(clientData ? { id: String(clientData.id), name: clientData.name } : null);
+      } catch (error: any) {
+        console.error('Error fetching client:', error);
+        toast.error(getErrorMessage(error));
+        setClient(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchClient();
+  }, [clientId]);
+
+  // Fetch the review queue for the selected state
+  const fetchQueue = async () => {
+    if (!clientId) return;
+
+    try {
+      const response = await api.evaluations.reviewQueue(
+        supabase,
+        parseInt(clientId),
+        filter === 'pending' ? undefined : filter
+      );
+      setQueue(response.evaluations);
+      setSelectedId(prev =>
+        prev && response.evaluations.some(item => item.id === prev)
+          ? prev
+          : response.evaluations[0]?.id ?? null
+      );
+    } catch (error: any) {
+      console.error('Error fetching review queue:', error);
+      toast.error(getErrorMessage(error));
+      setQueue([]);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [clientId, filter]);
+
+  // Fetch the selected evaluation and its review trail
+  const applyEvaluation = (record: EvaluationRecordDto) => {
+    setEvaluation(record);
+    const drivers: any[] = record.result_json?.scores || [];
+    const keys = Array.from(new Set([
+      ...record.scores.map(score => score.driver_key),
+      ...drivers.map(score => score.driver),
+    ])).filter(Boolean);
+
+    setDrafts(keys.map(key => {
+      const stored = record.scores.find(score => score.driver_key === key);
+      const original = drivers.find(score => score.driver === key);
+      return {
+        driver_key: key,
+        name: stored?.driver_name || original?.driver_name || key,
+        score: stored ? String(Number(stored.score)) : '',
+        reasoning: stored?.reasoning || '',
+        ai_score: stored ? stored.ai_score : null,
+        ai_reasoning: stored ? stored.ai_reasoning : original?.reasoning ?? null,
+      };
+    }));
+  };
+
+  useEffect(() => {
+    const fetchRecord = async () => {
+      if (!clientId || !selectedId) {
+        setEvaluation(null);
+        setEvents([]);
+        return;
+      }
+
+      setLoadingRecord(true);
+
+      try {
+        const response = await api.evaluations.review(supabase, parseInt(clientId), selectedId);
+        applyEvaluation(response.evaluation);
+        setEvents(response.events);
+        setComment('');
+      } catch (error: any) {
+        console.error('Error fetching evaluation:', error);
+        toast.error(getErrorMessage(error));
+        setEvaluation(null);
+      } finally {
+        setLoadingRecord(false);
+      }
+    };
+
+    fetchRecord();
+  }, [clientId, selectedId]);
+
+  const refreshRecord = async () => {
+    if (!clientId || !selectedId) return;
+    const response = await api.evaluations.review(supabase, parseInt(clientId), selectedId);
+    applyEvaluation(response.evaluation);
+    setEvents(response.events);
+  };
+
+  const handleSaveScores = async () => {
+    if (!evaluation) return;
+
+    const adjustments = drafts
+      .filter(draft => draft.score !== '')
+      .filter(draft => {
+        const stored = evaluation.scores.find(score => score.driver_key === draft.driver_key);
+        return !stored || Number(stored.score) !== Number(draft.score) || (stored.reasoning || '') !== draft.reasoning;
+      })
+      .map(draft => ({
+        driver_key: draft.driver_key,
+        score: Number(draft.score),
+        reasoning: draft.reasoning || undefined,
+      }));
+
+    if (adjustments.length === 0) {
+      toast('No score changes to save');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await api.evaluations.adjust(supabase, parseInt(clientId), evaluation.id, adjustments, comment || undefined);
+      await refreshRecord();
+      setComment('');
+      toast.success('Scores updated');
+    } catch (error: any) {
+      console.error('Error adjusting scores:', error);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTransition = async (transition: ReviewTransition) => {
+    if (!evaluation) return;
+    if (transition === 'reject' && !comment.trim()) {
+      toast.error('Add a comment explaining the rejection');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await api.evaluations.transition(supabase, parseInt(clientId), evaluation.id, transition, comment || undefined);
+      setComment('');
+      toast.success(
+        transition === 'submit' ? 'Submitted for review'
+          : transition === 'approve' ? 'Evaluation approved'
+            : transition === 'reject' ? 'Evaluation rejected'
+              : 'Evaluation reopened'
+      );
+      await Promise.all([fetchQueue(), refreshRecord()]);
+    } catch (error: any) {
+      console.error('Error updating review status:', error);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComment = async () => {
+    if (!evaluation || !comment.trim()) return;
+
+    setSaving(true);
+
+    try {
+      await api.evaluations.comment(supabase, parseInt(clientId), evaluation.id, comment.trim());
+      setComment('');
+      await refreshRecord();
+    } catch (error: any) {
+      console.error('Error adding comment:', error);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Loading...">
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!client) {
+    return (
+      <DashboardLayout title="Client Not Found">
+        <div className="text-center py-12">
+          <ExclamationTriangleIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            Client Not Found
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            The client you're looking for doesn't exist or you don't have access to it.
+          </p>
+          <Button onClick={() => router.push('/clients')}>
+            <ChevronLeftIcon className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const editable = evaluation?.review_status === 'draft' || evaluation?.review_status === 'in_review';
+
+  return (
+    <DashboardLayout
+      title="Evaluation Reviews"
+      description={`Review and sign off AI evaluations for ${client.name}`}
+      allowedRoles={['super_admin', 'admin', 'manager']}
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Queue */}
+        <div className="bg-white dark:bg-gray-900 rounded-2xl p-4 border border-gray-200 dark:border-gray-800 h-fit">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as ReviewStatus | 'pending')}
+            className={cn(inputClass, 'mb-3')}
+          >
+            <option value="pending">Awaiting sign-off</option>
+            <option value="draft">Drafts</option>
+            <option value="in_review">In review</option>
+            <option value="rejected">Rejected</option>
+            <option value="approved">Approved</option>
+          </select>
+
+          {queue.length === 0 ? (
+            <p className="px-2 text-sm text-gray-500 dark:text-gray-400">Nothing to review.</p>
+          ) : (
+            <div className="space-y-1">
+              {queue.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => setSelectedId(item.id)}
+                  className={cn(
+                    'w-full px-3 py-2 rounded-xl text-left transition-colors',
+                    item.id === selectedId
+                      ? 'bg-[#ffe600]/20 text-gray-900 dark:text-white'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-medium">{item.subject_name}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">v{item.version}</span>
+                  </div>
+                  <div className="flex items-center justify-between mt-1">
+                    <ReviewStatusBadge status={item.review_status} />
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(item.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Selected evaluation */}
+        <div className="lg:col-span-3 space-y-6">
+          {!selectedId ? (
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-12 border border-gray-200 dark:border-gray-800 text-center">
+              <ClipboardDocumentCheckIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                No evaluations to review
+              </h3>
+              <p className="text-gray-600 dark:text-gray-400">
+                New AI evaluations start as drafts and appear here until they are approved.
+              </p>
+            </div>
+          ) : loadingRecord || !evaluation ? (
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800 flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      {evaluation.subject_name} <span className="text-gray-500 dark:text-gray-400">v{evaluation.version}</span>
+                    </h3>
+                    {evaluation.question && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{evaluation.question}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4 text-sm">
+                    <ReviewStatusBadge status={evaluation.review_status} />
+                    <span className="text-gray-900 dark:text-white">
+                      <span className="text-gray-500 dark:text-gray-400 mr-1">Weighted</span>
+                      <span className="font-semibold">
+                        {evaluation.weighted_total !== null ? Number(evaluation.weighted_total).toFixed(2) : 'Withheld'}
+                      </span>
+                    </span>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  {drafts.map((draft, index) => (
+                    <div key={draft.driver_key} className="p-3 rounded-xl bg-gray-50 dark:bg-gray-800">
+                      <div className="flex flex-col md:flex-row md:items-center gap-3">
+                        <div className="md:w-48 font-medium text-gray-900 dark:text-white truncate">{draft.name}</div>
+                        <input
+                          type="number"
+                          step="0.5"
+                          value={draft.score}
+                          disabled={!editable}
+                          placeholder="Not scored"
+                          onChange={(e) => setDrafts(prev => prev.map((d, i) => i === index ? { ...d, score: e.target.value } : d))}
+                          className={cn(inputClass, 'md:w-32')}
+                        />
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          AI: {draft.ai_score !== null ? Number(draft.ai_score).toFixed(1) : 'not scored'}
+                        </span>
+                      </div>
+                      <textarea
+                        value={draft.reasoning}
+                        disabled={!editable}
+                        rows={2}
+                        placeholder="Rationale"
+                        onChange={(e) => setDrafts(prev => prev.map((d, i) => i === index ? { ...d, reasoning: e.target.value } : d))}
+                        className={cn(inputClass, 'mt-2 text-sm')}
+                      />
+                      {draft.ai_reasoning && draft.ai_reasoning !== draft.reasoning && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          AI rationale: {draft.ai_reasoning}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Actions */}
+              <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={3}
+                  placeholder="Comment (required to reject)"
+                  className={cn(inputClass, 'mb-4')}
+                />
+                <div className="flex flex-wrap gap-3">
+                  {editable && (
+                    <Button variant="outline" onClick={handleSaveScores} loading={saving}>
+                      Save scores
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={handleComment} disabled={saving || !comment.trim()}>
+                    Comment
+                  </Button>
+                  {(evaluation.review_status === 'draft' || evaluation.review_status === 'rejected') && (
+                    <Button onClick={() => handleTransition('submit')} disabled={saving}>
+                      <PaperAirplaneIcon className="h-4 w-4 mr-2" />
+                      Submit for review
+                    </Button>
+                  )}
+                  {evaluation.review_status === 'in_review' && canSignOff && (
+                    <>
+                      <Button onClick={() => handleTransition('approve')} disabled={saving}>
+                        <CheckCircleIcon className="h-4 w-4 mr-2" />
+                        Approve
+                      </Button>
+                      <Button variant="outline" onClick={() => handleTransition('reject')} disabled={saving}>
+                        <XCircleIcon className="h-4 w-4 mr-2" />
+                        Reject
+                      </Button>
+                    </>
+                  )}
+                  {evaluation.review_status === 'approved' && canSignOff && (
+                    <Button variant="outline" onClick={() => handleTransition('reopen')} disabled={saving}>
+                      <ArrowUturnLeftIcon className="h-4 w-4 mr-2" />
+                      Reopen
+                    </Button>
+                  )}
+                </div>
+                {evaluation.review_status === 'in_review' && !canSignOff && (
+                  <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                    Waiting for an admin to approve or reject this evaluation.
+                  </p>
+                )}
+              </div>
+
+              {/* Review trail */}
+              <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Review trail</h3>
+                {events.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No review activity yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {events.map(event => (
+                      <ReviewEventRow key={event.id} event={event} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function ReviewStatusBadge({ status }: { status: ReviewStatus }) {
+  return (
+    <span className={cn('px-2 py-0.5 rounded-lg text-xs font-medium', statusClasses[status])}>
+      {statusLabels[status]}
+    </span>
+  );
+}
+
+const eventLabels: Record<ReviewEventDto['action'], string> = {
+  submitted: 'submitted for review',
+  approved: 'approved',
+  rejected: 'rejected',
+  reopened: 'reopened',
+  adjusted: 'adjusted scores',
+  commented: 'commented',
+};
+
+function ReviewEventRow({ event }: { event: ReviewEventDto }) {
+  const author = event.author?.full_name || event.author?.email || 'Someone';
+
+  return (
+    <div className="p-3 rounded-xl border border-gray-200 dark:border-gray-700 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-gray-900 dark:text-white">
+          <span className="font-medium">{author}</span> {eventLabels[event.action]}
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{new Date(event.created_at).toLocaleString()}</span>
+      </div>
+      {event.details?.changes && event.details.changes.length > 0 && (
+        <ul className="mt-2 space-y-1 text-gray-700 dark:text-gray-300">
+          {event.details.changes.map(change => (
+            <li key={change.driver_key}>
+              {change.driver_key}: {change.from_score !== null ? Number(change.from_score).toFixed(1) : '—'} → {Number(change.to_score).toFixed(1)}
+            </li>
+          ))}
+        </ul>
+      )}
+      {event.details?.released_total && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Released the weighted total withheld by the evidence policy</p>
+      )}
+      {event.comment && <p className="mt-2 text-gray-700 dark:text-gray-300">{event.comment}</p>}
+    </div>
+  );
+}
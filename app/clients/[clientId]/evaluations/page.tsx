@@ -0,0 +1,405 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api-services';
+import { getErrorMessage } from '@/lib/api-client';
+import {
+  DriverTrendDto,
+  EvaluationRecordDto,
+  EvaluationSubjectDto,
+  PolicyReportDto,
+  TrendBucket,
+} from '@/types/api';
+import {
+  ChevronLeftIcon,
+  ExclamationTriangleIcon,
+  UserCircleIcon,
+  ArrowTrendingUpIcon,
+  ArrowTrendingDownIcon,
+  MinusIcon,
+  ClipboardDocumentListIcon,
+} from '@heroicons/react/24/outline';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+export default function EvaluationsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { supabase } = useAuth();
+  const clientId = params?.clientId as string;
+
+  const [client, setClient] = useState<Client | null>(null);
+  const [subjects, setSubjects] = useState<EvaluationSubjectDto[]>([]);
+  const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
+  const [history, setHistory] = useState<EvaluationRecordDto[]>([]);
+  const [trends, setTrends] = useState<DriverTrendDto[]>([]);
+  const [bucket, setBucket] = useState<TrendBucket>('quarter');
+  const [loading, setLoading] = useState(true);
+  const [loadingSubject, setLoadingSubject] = useState(false);
+
+  // Fetch client and evaluated people
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!clientId) return;
+
+      setLoading(true);
+
+      try {
+        const { data: clientData, error: clientError } = await supabase
+          .from('clients')
+          .select('id, name')
+          .eq('id', parseInt(clientId))
+          .single();
+
+        if (clientError) throw clientError;
+        if (!clientData) {
+          setClient(null);
+          return;
+        }
+
+        setClient({
+          id: String(clientData.id),
+          name: clientData.name,
+        });
+
+        const response = await api.evaluations.listSubjects(supabase, parseInt(clientId));
+        setSubjects(response.subjects);
+        if (response.subjects.length > 0) {
+          setSelectedSubject(response.subjects[0].subject_key);
+        }
+      } catch (error: any) {
+        console.error('Error fetching evaluations:', error);
+        toast.error(getErrorMessage(error));
+        setClient(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [clientId]);
+
+  // Fetch the selected person's history and driver trends
+  useEffect(() => {
+    const fetchSubject = async () => {
+      if (!clientId || !selectedSubject) return;
+
+      setLoadingSubject(true);
+
+      try {
+        const [historyResponse, trendsResponse] = await Promise.all([
+          api.evaluations.history(supabase, parseInt(clientId), selectedSubject),
+          api.evaluations.trends(supabase, parseInt(clientId), selectedSubject, { bucket }),
+        ]);
+        setHistory(historyResponse.evaluations);
+        setTrends(trendsResponse.trends);
+      } catch (error: any) {
+        console.error('Error fetching evaluation history:', error);
+        toast.error(getErrorMessage(error));
+        setHistory([]);
+        setTrends([]);
+      } finally {
+        setLoadingSubject(false);
+      }
+    };
+
+    fetchSubject();
+  }, [clientId, selectedSubject, bucket]);
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Loading...">
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!client) {
+    return (
+      <DashboardLayout title="Client Not Found">
+        <div className="text-center py-12">
+          <ExclamationTriangleIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            Client Not Found
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            The client you're looking for doesn't exist or you don't have access to it.
+          </p>
+          <Button onClick={() => router.push('/clients')}>
+            <ChevronLeftIcon className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const subject = subjects.find(s => s.subject_key === selectedSubject);
+
+  return (
+    <DashboardLayout
+      title="Evaluation History"
+      description={`Evaluations over time for ${client.name}`}
+      allowedRoles={['super_admin', 'admin', 'manager']}
+    >
+      {subjects.length === 0 ? (
+        <div className="bg-white dark:bg-gray-900 rounded-2xl p-12 border border-gray-200 dark:border-gray-800 text-center">
+          <ClipboardDocumentListIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            No evaluations yet
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            Evaluations run from chat or the drivers page appear here once a reviewer approves them.
+          </p>
+          <Button variant="outline" className="mt-6" onClick={() => router.push(`/clients/${clientId}/evaluation-reviews`)}>
+            Open review queue
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* People */}
+          <div className="bg-white dark:bg-gray-900 rounded-2xl p-4 border border-gray-200 dark:border-gray-800 h-fit">
+            <h3 className="px-2 pb-3 text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+              People
+            </h3>
+            <div className="space-y-1">
+              {subjects.map(s => (
+                <button
+                  key={s.subject_key}
+                  onClick={() => setSelectedSubject(s.subject_key)}
+                  className={cn(
+                    'w-full flex items-center justify-between px-3 py-2 rounded-xl text-left transition-colors',
+                    s.subject_key === selectedSubject
+                      ? 'bg-[#ffe600]/20 text-gray-900 dark:text-white'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  )}
+                >
+                  <span className="flex items-center gap-2 truncate">
+                    <UserCircleIcon className="h-5 w-5 flex-shrink-0" />
+                    <span className="truncate">{s.subject_name}</span>
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{s.evaluation_count}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="lg:col-span-3 space-y-6">
+            {/* Driver trends */}
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {subject?.subject_name} — driver trends
+                </h3>
+                <select
+                  value={bucket}
+                  onChange={(e) => setBucket(e.target.value as TrendBucket)}
+                  className="px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#ffe600]/20 focus:border-[#ffe600]"
+                >
+                  <option value="quarter">By quarter</option>
+                  <option value="month">By month</option>
+                </select>
+              </div>
+
+              {loadingSubject ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+                </div>
+              ) : trends.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No driver scores recorded yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {trends.map(trend => (
+                    <DriverTrendRow key={trend.driver_key} trend={trend} />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Versioned history */}
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">History</h3>
+              <div className="space-y-4">
+                {history.map(record => (
+                  <EvaluationRecordCard key={record.id} record={record} />
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+function DriverTrendRow({ trend }: { trend: DriverTrendDto }) {
+  const change = trend.change;
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-xl bg-gray-50 dark:bg-gray-800">
+      <div className="md:w-48 font-medium text-gray-900 dark:text-white truncate">
+        {trend.driver_name || trend.driver_key}
+      </div>
+      <div className="flex-1 flex flex-wrap gap-2">
+        {trend.points.map(point => (
+          <div
+            key={point.period}
+            className="px-3 py-1 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-sm"
+            title={`${point.evaluations} evaluation${point.evaluations === 1 ? '' : 's'}`}
+          >
+            <span className="text-gray-500 dark:text-gray-400 mr-2">{point.period}</span>
+            <span className="font-semibold text-gray-900 dark:text-white">{point.average_score.toFixed(1)}</span>
+          </div>
+        ))}
+      </div>
+      <div
+        className={cn(
+          'flex items-center gap-1 text-sm font-semibold md:w-20 md:justify-end',
+          change === null || change === 0
+            ? 'text-gray-500 dark:text-gray-400'
+            : change > 0
+              ? 'text-green-600 dark:text-green-400'
+              : 'text-red-600 dark:text-red-400'
+        )}
+      >
+        {change === null || change === 0 ? (
+          <MinusIcon className="h-4 w-4" />
+        ) : change > 0 ? (
+          <ArrowTrendingUpIcon className="h-4 w-4" />
+        ) : (
+          <ArrowTrendingDownIcon className="h-4 w-4" />
+        )}
+        {change === null ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(1)}`}
+      </div>
+    </div>
+  );
+}
+
+function EvaluationRecordCard({ record }: { record: EvaluationRecordDto }) {
+  return (
+    <div className="p-4 rounded-xl border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-3">
+          <span className="px-2 py-1 rounded-lg bg-[#ffe600]/20 text-sm font-semibold text-gray-900 dark:text-white">
+            v{record.version}
+          </span>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {new Date(record.created_at).toLocaleString()}
+          </span>
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          {record.weighted_total !== null && (
+            <span className="text-gray-900 dark:text-white">
+              <span className="text-gray-500 dark:text-gray-400 mr-1">Weighted</span>
+              <span className="font-semibold">{Number(record.weighted_total).toFixed(2)}</span>
+            </span>
+          )}
+          {record.policy_report?.total_withheld && (
+            <span className="text-red-600 dark:text-red-400 font-medium">Weighted total withheld</span>
+          )}
+          {record.confidence !== null && (
+            <span className="text-gray-900 dark:text-white">
+              <span className="text-gray-500 dark:text-gray-400 mr-1">Confidence</span>
+              <span className="font-semibold">{Math.round(Number(record.confidence) * 100)}%</span>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {record.question && (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{record.question}</p>
+      )}
+
+      {record.scores.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+          {record.scores.map(score => (
+            <div key={score.driver_key} className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800 text-sm">
+              <div className="text-gray-500 dark:text-gray-400 truncate">{score.driver_name || score.driver_key}</div>
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {Number(score.score).toFixed(1)}
+                {score.adjusted_at && (
+                  <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                    {score.ai_score !== null ? `AI ${Number(score.ai_score).toFixed(1)}` : 'Added by reviewer'}
+                  </span>
+                )}
+              </div>
+              {score.unstable && (
+                <div
+                  className="text-xs text-orange-600 dark:text-orange-400"
+                  title={score.agreement !== null ? `${Math.round(Number(score.agreement) * 100)}% agreement across samples` : undefined}
+                >
+                  Varies across samples
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {record.policy_report && <PolicyReportPanel report={record.policy_report} />}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+        <span>{record.mode === 'general' ? 'General evaluation' : 'Driver evaluation'}</span>
+        {record.rubric_version !== null && <span>Rubric v{record.rubric_version}</span>}
+        {record.policy_version !== null && <span>Policy v{record.policy_version}</span>}
+        {record.model_name && <span>{record.model_provider}/{record.model_name}</span>}
+        {record.consistency && <span>{record.consistency.samples_used} samples</span>}
+        <span>{record.cited_chunk_ids.length} cited chunks</span>
+      </div>
+    </div>
+  );
+}
+
+function PolicyReportPanel({ report }: { report: PolicyReportDto }) {
+  const failed = report.checks.filter(check => !check.passed);
+  if (failed.length === 0 && report.withheld_scores.length === 0 && report.red_line_hits.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3 p-3 rounded-lg bg-orange-50 dark:bg-orange-900/10 border border-orange-200 dark:border-orange-900/40 text-sm">
+      <div className="flex items-center gap-2 font-medium text-orange-800 dark:text-orange-300 mb-2">
+        <ExclamationTriangleIcon className="h-4 w-4" />
+        Policy report
+      </div>
+      <ul className="space-y-1 text-gray-700 dark:text-gray-300">
+        {failed.map((check, index) => (
+          <li key={`${check.stage}-${check.rule}-${index}`}>
+            <span className="text-xs uppercase text-gray-500 dark:text-gray-400 mr-2">{check.stage}</span>
+            {check.message}
+          </li>
+        ))}
+        {report.withheld_scores.map(withheld => (
+          <li key={`withheld-${withheld.driver}`}>
+            <span className="font-medium">{withheld.driver}</span>: {withheld.reason}
+          </li>
+        ))}
+      </ul>
+      {report.red_line_hits.length > 0 && (
+        <div className="mt-2 space-y-2">
+          {report.red_line_hits.map((hit, index) => (
+            <div key={`${hit.red_line}-${index}`} className="p-2 rounded-lg bg-white dark:bg-gray-900 border border-red-200 dark:border-red-900/40">
+              <div className="font-medium text-red-700 dark:text-red-400">{hit.red_line}</div>
+              {hit.explanation && <div className="text-gray-700 dark:text-gray-300">{hit.explanation}</div>}
+              {hit.excerpt && <div className="text-xs text-gray-500 dark:text-gray-400 italic truncate">&ldquo;{hit.excerpt}&rdquo;</div>}
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {hit.source === 'model' ? 'Flagged by the evaluator' : 'Found in evidence'} · chunks {hit.chunk_ids.join(', ')}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
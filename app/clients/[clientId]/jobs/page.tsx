@@ -1,15 +1,17 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/Button';
+import { JobProgress, toastJobCompleted } from '@/components/ui/JobProgress';
 import { RoleGuard } from '@/components/auth/RoleGuard';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
 import toast from 'react-hot-toast';
 import { api } from '@/lib/api-services';
 import { getErrorMessage } from '@/lib/api-client';
+import { useJobUpdates, jobRowToDto, JobRow } from '@/hooks/useJobUpdates';
 import { JobDto, JobsResponse, JobStatus } from '@/types/api';
 import { 
   ClockIcon,
@@ -27,6 +29,8 @@ import {
   CurrencyDollarIcon,
   ChartBarIcon,
   PlayIcon,
+  StopIcon,
+  NoSymbolIcon,
 } from '@heroicons/react/24/outline';
 
 // Use the imported JobDto type instead of local interface
@@ -62,17 +66,38 @@ export default function JobsPage() {
   const [statusFilter, setStatusFilter] = useState<JobStatus | 'all'>('all');
   const [roomFilter, setRoomFilter] = useState<string>('all');
   const [dateRange, setDateRange] = useState<string>('7d');
+  // File names of uploads seen on the realtime channel, for jobs inserted after them
+  const uploadNames = useRef(new Map<number, string>());
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
 
   // Job retry function
-  const handleRetryJob = async (jobId: string) => {
+  const handleRetryJob = async (jobId: number) => {
     try {
-      await api.jobs.retry(supabase, { job_id: jobId });
+      const result = await api.jobs.retry(supabase, { job_id: jobId });
       toast.success('Job queued for retry');
       
       // Update job status optimistically
       setJobs(prev => prev.map(job => 
-        String(job.id) === jobId 
-          ? { ...job, status: 'queued' as JobStatus }
+        job.id === jobId 
+          ? { ...job, status: result.status, failed_attempts: 0, next_attempt_at: null, cancel_requested: false, error_message: undefined }
+          : job
+      ));
+    } catch (error: any) {
+      const errorMessage = getErrorMessage(error);
+      toast.error(errorMessage);
+    }
+  };
+
+  // Waiting jobs are cancelled right away; a running job stops at its next checkpoint
+  const handleCancelJob = async (jobId: number) => {
+    try {
+      const result = await api.jobs.cancel(supabase, { job_id: jobId });
+      toast.success(result.cancel_requested ? 'Job will stop at its next checkpoint' : 'Job cancelled');
+
+      setJobs(prev => prev.map(job =>
+        job.id === jobId
+          ? { ...job, status: result.status, cancel_requested: result.cancel_requested }
           : job
       ));
     } catch (error: any) {
@@ -135,15 +160,15 @@ export default function JobsPage() {
         const transformedJobs: Job[] = response.jobs.map(job => {
           return {
             ...job,
-            room_name: 'Unknown Room', // This should come from the API response
-            file_name: `upload_${job.upload_id}.txt`, // This should come from the API response
-            messages_parsed: 0, // Not available in current schema
-            chunks_created: 0, // Not available in current schema
+            room_name: job.room_name ?? 'Unknown Room',
+            file_name: job.file_name ?? `upload_${job.upload_id}`,
+            messages_parsed: job.counts_json?.messages_parsed ?? 0,
+            chunks_created: job.counts_json?.chunks_created ?? 0,
             parse_ms: null, // Not available in current schema
             embed_ms: null, // Not available in current schema
             total_ms: null, // Not available in current schema
             cost_estimate: undefined, // Changed from null to undefined to match JobDto
-            error_message: job.error_code || undefined,
+            error_message: job.error_message || job.error_code || undefined,
           };
         });
 
@@ -155,6 +180,8 @@ export default function JobsPage() {
         toast.error(errorMessage);
         setClient(null);
         setJobs([]);
+      } finally {
+        setLoading(false);
       }
     };
 
@@ -164,35 +191,51 @@ export default function JobsPage() {
   }, [clientId]);
 
   // Real-time job updates
-  useEffect(() => {
-    if (!clientId) return;
-
-    const channel = supabase
-      .channel(`realtime:jobs:${clientId}`)
-      .on('postgres_changes', {
-        event: '*',
-        schema: 'public',
-        table: 'jobs',
-        filter: `client_id=eq.${clientId}`,
-      }, (payload: any) => {
-        console.log('Job update received:', payload);
-        
-        if (payload.eventType === 'UPDATE') {
-          setJobs(prev => prev.map(job => 
-            String(job.id) === String(payload.new.id)
-              ? { ...job, ...payload.new }
-              : job
-          ));
-        } else if (payload.eventType === 'INSERT') {
-          setJobs(prev => [payload.new as Job, ...prev]);
-        }
-      })
-      .subscribe();
+  useJobUpdates(supabase, clientId, {
+    onJob: (row: JobRow, event) => {
+      if (event === 'INSERT') {
+        setJobs(prev => {
+          if (prev.some(job => job.id === row.id)) return prev;
+          const room = prev.find(job => job.room_id === row.room_id);
+          const job: Job = {
+            ...jobRowToDto(row),
+            id: row.id,
+            room_id: row.room_id ?? 0,
+            upload_id: row.upload_id ?? 0,
+            job_type: row.job_type,
+            status: row.status,
+            created_at: row.created_at,
+            updated_at: row.updated_at,
+            room_name: room?.room_name ?? 'Unknown Room',
+            file_name: (row.upload_id && uploadNames.current.get(row.upload_id)) || `upload_${row.upload_id}`,
+            messages_parsed: 0,
+            chunks_created: 0,
+            parse_ms: null,
+            embed_ms: null,
+            total_ms: null,
+            cost_estimate: undefined,
+          };
+          return [job, ...prev];
+        });
+        return;
+      }
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [clientId]);
+      const previous = jobsRef.current.find(job => job.id === row.id);
+      if (previous && row.status === 'completed' && previous.status !== 'completed') {
+        toastJobCompleted(clientId, previous.file_name);
+      }
+      setJobs(prev => prev.map(job =>
+        job.id === row.id ? { ...job, ...jobRowToDto(row) } : job
+      ));
+    },
+    onUpload: (upload) => {
+      const fileName = upload.filename;
+      uploadNames.current.set(upload.id, fileName);
+      setJobs(prev => prev.map(job =>
+        job.upload_id === upload.id && job.file_name !== fileName ? { ...job, file_name: fileName } : job
+      ));
+    },
+  });
 
   const filteredJobs = jobs.filter(job => {
     const matchesSearch = job.file_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -263,7 +306,7 @@ export default function JobsPage() {
           />
           <JobStatCard
             title="Completed"
-            value={jobs.filter(j => j.status === 'complete').length.toString()}
+            value={jobs.filter(j => j.status === 'completed').length.toString()}
             icon={<CheckCircleIcon className="h-6 w-6" />}
             color="green"
           />
@@ -301,9 +344,10 @@ export default function JobsPage() {
                 <option value="pending">Pending</option>
                 <option value="queued">Queued</option>
                 <option value="processing">Processing</option>
-                <option value="complete">Complete</option>
+                <option value="completed">Completed</option>
                 <option value="failed">Failed</option>
                 <option value="dead_letter">Dead Letter</option>
+                <option value="cancelled">Cancelled</option>
               </select>
               
               <select
@@ -351,7 +395,7 @@ export default function JobsPage() {
             </div>
           ) : (
             filteredJobs.map(job => (
-              <JobCard key={job.id} job={job} onRetry={handleRetryJob} />
+              <JobCard key={job.id} job={job} onRetry={handleRetryJob} onCancel={handleCancelJob} />
             ))
           )}
         </div>
@@ -397,17 +441,22 @@ function JobStatCard({ title, value, icon, color }: JobStatCardProps) {
 
 interface JobCardProps {
   job: Job;
-  onRetry: (jobId: string) => void;
+  onRetry: (jobId: number) => void;
+  onCancel: (jobId: number) => void;
 }
 
-function JobCard({ job, onRetry }: JobCardProps) {
+function JobCard({ job, onRetry, onCancel }: JobCardProps) {
+  const [showAttempts, setShowAttempts] = useState(false);
+  const attempts = job.attempts ?? [];
+
   const statusConfig = {
     pending: { color: 'text-gray-600', bg: 'bg-gray-100', icon: PauseCircleIcon },
     queued: { color: 'text-blue-600', bg: 'bg-blue-100', icon: ClockIcon },
     processing: { color: 'text-[#ffe600]', bg: 'bg-[#ffe600]/10', icon: PlayIcon },
-    complete: { color: 'text-green-600', bg: 'bg-green-100', icon: CheckCircleIcon },
+    completed: { color: 'text-green-600', bg: 'bg-green-100', icon: CheckCircleIcon },
     failed: { color: 'text-red-600', bg: 'bg-red-100', icon: ExclamationCircleIcon },
     dead_letter: { color: 'text-red-700', bg: 'bg-red-200', icon: XCircleIcon },
+    cancelled: { color: 'text-gray-600', bg: 'bg-gray-200', icon: NoSymbolIcon },
   };
 
   const config = statusConfig[job.status];
@@ -446,6 +495,22 @@ function JobCard({ job, onRetry }: JobCardProps) {
             </div>
           </div>
 
+          {job.status === 'processing' && job.stage && (
+            <JobProgress job={job} className="mb-3" />
+          )}
+
+          {(job.failed_attempts ?? 0) > 0 && job.max_attempts && (
+            <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>Failed attempts: {job.failed_attempts}/{job.max_attempts}</span>
+              {job.status === 'queued' && job.next_attempt_at && (
+                <>
+                  <span>•</span>
+                  <span>Next attempt {new Date(job.next_attempt_at).toLocaleString()}</span>
+                </>
+              )}
+            </div>
+          )}
+
           {job.error_message && (
             <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
               <p className="text-sm text-red-600 dark:text-red-400">
@@ -453,17 +518,66 @@ function JobCard({ job, onRetry }: JobCardProps) {
               </p>
             </div>
           )}
+
+          {attempts.length > 0 && (
+            <div className="mt-3">
+              <button
+                type="button"
+                onClick={() => setShowAttempts(!showAttempts)}
+                className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+              >
+                {showAttempts ? 'Hide' : 'Show'} attempt history ({attempts.length})
+              </button>
+              {showAttempts && (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {attempts.map(attempt => (
+                    <li key={attempt.id} className="flex flex-wrap items-center gap-2 text-gray-600 dark:text-gray-400">
+                      <span className="font-medium text-gray-900 dark:text-white">#{attempt.attempt}</span>
+                      <span>{new Date(attempt.started_at).toLocaleString()}</span>
+                      <span
+                        className={cn(
+                          "px-2 py-0.5 text-xs rounded-full",
+                          attempt.outcome === 'succeeded' ? 'bg-green-100 text-green-700' :
+                          attempt.outcome === 'failed' || attempt.outcome === 'lease_expired' ? 'bg-red-100 text-red-700' :
+                          'bg-gray-100 text-gray-700'
+                        )}
+                      >
+                        {attempt.outcome.replace('_', ' ')}
+                      </span>
+                      {attempt.error_message && (
+                        <span className="text-red-600 dark:text-red-400">
+                          {attempt.error_code ? `${attempt.error_code}: ` : ''}{attempt.error_message}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex flex-col lg:flex-row items-start lg:items-center gap-4">
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div className="text-center">
               <div className="text-gray-500 dark:text-gray-400">Messages</div>
-              <div className="font-semibold text-gray-900 dark:text-white">{job.messages_parsed}</div>
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {job.counts_json?.messages_parsed ?? job.messages_parsed}
+              </div>
+              {job.counts_json?.messages_known !== undefined && (
+                <div
+                  className="text-xs text-gray-500 dark:text-gray-400"
+                  title="Messages already in this room from an earlier export are skipped"
+                >
+                  {job.counts_json.messages_new ?? 0} new · {job.counts_json.messages_known} known
+                </div>
+              )}
             </div>
             <div className="text-center">
               <div className="text-gray-500 dark:text-gray-400">Chunks</div>
-              <div className="font-semibold text-gray-900 dark:text-white">{job.chunks_created}</div>
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {job.counts_json?.chunks_created ?? job.chunks_created}
+              </div>
             </div>
           </div>
           
@@ -492,9 +606,24 @@ function JobCard({ job, onRetry }: JobCardProps) {
               </div>
             )}
             
-            {(job.status === 'failed' || job.status === 'dead_letter') && (
+            {(job.status === 'pending' || job.status === 'queued' || job.status === 'processing') && (
+              job.cancel_requested ? (
+                <span className="text-sm text-gray-500 dark:text-gray-400">Stopping…</span>
+              ) : (
+                <Button
+                  onClick={() => onCancel(job.id)}
+                  variant="outline"
+                  size="sm"
+                >
+                  <StopIcon className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              )
+            )}
+
+            {(job.status === 'failed' || job.status === 'dead_letter' || job.status === 'cancelled') && (
               <Button
-                onClick={() => onRetry(String(job.id))}
+                onClick={() => onRetry(job.id)}
                 variant="outline"
                 size="sm"
                 className="text-[#ffe600] border-[#ffe600] hover:bg-[#ffe600] hover:text-black"
@@ -0,0 +1,540 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api-services';
+import { getErrorMessage } from '@/lib/api-client';
+import {
+  AliasSuggestionDto,
+  PersonAliasType,
+  PersonDto,
+  UnlinkedParticipantDto,
+} from '@/types/api';
+import {
+  ChevronLeftIcon,
+  ExclamationTriangleIcon,
+  IdentificationIcon,
+  PlusIcon,
+  XMarkIcon,
+  ArrowsRightLeftIcon,
+  CheckIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+const aliasTypeLabels: Record<PersonAliasType, string> = {
+  name: 'Name',
+  phone: 'Phone',
+  cliq_user_id: 'Cliq user id',
+};
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#ffe600]/20 focus:border-[#ffe600]';
+
+export default function PeoplePage() {
+  const params = useParams();
+  const router = useRouter();
+  const { supabase, hasAnyRole } = useAuth();
+  const clientId = params?.clientId as string;
+  const canMerge = hasAnyRole(['admin', 'super_admin']);
+
+  const [client, setClient] = useState<Client | null>(null);
+  const [people, setPeople] = useState<PersonDto[]>([]);
+  const [suggestions, setSuggestions] = useState<AliasSuggestionDto[]>([]);
+  const [unlinked, setUnlinked] = useState<UnlinkedParticipantDto[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [search, setSearch] = useState('');
+  const [newName, setNewName] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [aliasType, setAliasType] = useState<PersonAliasType>('name');
+  const [aliasValue, setAliasValue] = useState('');
+  const [mergeSourceId, setMergeSourceId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Fetch client
+  useEffect(() => {
+    const fetchClient = async () => {
+      if (!clientId) return;
+
+      setLoading(true);
+
+      try {
+        const { data: clientData, error: clientError } = await supabase
+          .from('clients')
+          .select('id, name')
+          .eq('id', parseInt(clientId))
+          .single();
+
+        if (clientError) throw clientError;
+        setClient(clientData ? { id: String(clientData.id), name: clientData.name } : null);
+      } catch (error: any) {
+        console.error('Error fetching client:', error);
+        toast.error(getErrorMessage(error));
+        setClient(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchClient();
+  }, [clientId]);
+
+  // Fetch the directory, open suggestions and unlinked senders
+  const fetchDirectory = async () => {
+    if (!clientId) return;
+
+    try {
+      const [peopleResponse, suggestionsResponse, unlinkedResponse] = await Promise.all([
+        api.people.list(supabase, parseInt(clientId)),
+        api.people.suggestions(supabase, parseInt(clientId)),
+        api.people.unlinked(supabase, parseInt(clientId), 50),
+      ]);
+      setPeople(peopleResponse.people);
+      setSuggestions(suggestionsResponse.suggestions);
+      setUnlinked(unlinkedResponse.participants);
+      setSelectedId(prev =>
+        prev && peopleResponse.people.some(person => person.id === prev)
+          ? prev
+          : peopleResponse.people[0]?.id ?? null
+      );
+    } catch (error: any) {
+      console.error('Error fetching people:', error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  useEffect(() => {
+    fetchDirectory();
+  }, [clientId]);
+
+  const selected = people.find(person => person.id === selectedId) || null;
+
+  useEffect(() => {
+    setDisplayName(selected?.display_name || '');
+    setNotes(selected?.notes || '');
+    setAliasValue('');
+    setMergeSourceId('');
+  }, [selectedId, selected?.display_name, selected?.notes]);
+
+  // Run a directory change, then reload everything it may have touched
+  const runChange = async (change: () => Promise<any>, message: string) => {
+    setSaving(true);
+
+    try {
+      const result = await change();
+      if (result?.person?.id) setSelectedId(result.person.id);
+      await fetchDirectory();
+      toast.success(message);
+      return true;
+    } catch (error: any) {
+      console.error('Error updating people directory:', error);
+      toast.error(getErrorMessage(error));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (name: string) => {
+    if (!name.trim()) return;
+    const created = await runChange(
+      () => api.people.create(supabase, parseInt(clientId), name.trim()),
+      `${name.trim()} added`
+    );
+    if (created) setNewName('');
+  };
+
+  const handleSaveDetails = async () => {
+    if (!selected || !displayName.trim()) return;
+    await runChange(
+      () => api.people.update(supabase, parseInt(clientId), selected.id, {
+        display_name: displayName.trim(),
+        notes: notes.trim() || null,
+      }),
+      'Person updated'
+    );
+  };
+
+  const handleAddAlias = async (personId: number, type: PersonAliasType, value: string) => {
+    if (!value.trim()) return;
+    const added = await runChange(
+      () => api.people.addAlias(supabase, parseInt(clientId), personId, { alias_type: type, value: value.trim() }),
+      'Alias added'
+    );
+    if (added) setAliasValue('');
+  };
+
+  const handleRemoveAlias = async (aliasId: number) => {
+    await runChange(() => api.people.removeAlias(supabase, parseInt(clientId), aliasId), 'Alias removed');
+  };
+
+  const handleMerge = async () => {
+    if (!selected || !mergeSourceId) return;
+    const source = people.find(person => person.id === parseInt(mergeSourceId));
+    if (!source) return;
+    if (!confirm(`Merge ${source.display_name} into ${selected.display_name}? Their aliases, chats and evaluations move to ${selected.display_name}.`)) {
+      return;
+    }
+    await runChange(
+      () => api.people.merge(supabase, parseInt(clientId), source.id, selected.id),
+      `${source.display_name} merged into ${selected.display_name}`
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!confirm(`Remove ${selected.display_name} from the directory? Their chats and evaluations become unlinked.`)) {
+      return;
+    }
+    await runChange(() => api.people.remove(supabase, parseInt(clientId), selected.id), 'Person removed');
+  };
+
+  const handleAccept = async (suggestion: AliasSuggestionDto, personId?: number) => {
+    await runChange(
+      () => api.people.acceptSuggestion(supabase, parseInt(clientId), suggestion.id, personId),
+      'Suggestion accepted'
+    );
+  };
+
+  const handleDismiss = async (suggestion: AliasSuggestionDto) => {
+    await runChange(
+      () => api.people.dismissSuggestion(supabase, parseInt(clientId), suggestion.id),
+      'Suggestion dismissed'
+    );
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Loading...">
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!client) {
+    return (
+      <DashboardLayout title="Client Not Found">
+        <div className="text-center py-12">
+          <ExclamationTriangleIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            Client Not Found
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            The client you're looking for doesn't exist or you don't have access to it.
+          </p>
+          <Button onClick={() => router.push('/clients')}>
+            <ChevronLeftIcon className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const query = search.trim().toLowerCase();
+  const visiblePeople = query
+    ? people.filter(person =>
+        person.display_name.toLowerCase().includes(query) ||
+        person.aliases.some(alias => alias.value.toLowerCase().includes(query))
+      )
+    : people;
+
+  return (
+    <DashboardLayout
+      title="People"
+      description={`One person per teammate across WhatsApp and Cliq for ${client.name}`}
+      allowedRoles={['super_admin', 'admin', 'manager']}
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Directory */}
+        <div className="bg-white dark:bg-gray-900 rounded-2xl p-4 border border-gray-200 dark:border-gray-800 h-fit space-y-3">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search names, numbers..."
+            className={inputClass}
+          />
+
+          {visiblePeople.length === 0 ? (
+            <p className="px-2 text-sm text-gray-500 dark:text-gray-400">
+              {people.length === 0 ? 'No people yet.' : 'No one matches.'}
+            </p>
+          ) : (
+            <div className="space-y-1 max-h-[28rem] overflow-y-auto">
+              {visiblePeople.map(person => (
+                <button
+                  key={person.id}
+                  onClick={() => setSelectedId(person.id)}
+                  className={cn(
+                    'w-full px-3 py-2 rounded-xl text-left transition-colors',
+                    person.id === selectedId
+                      ? 'bg-[#ffe600]/20 text-gray-900 dark:text-white'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  )}
+                >
+                  <div className="truncate font-medium">{person.display_name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {person.aliases.length} {person.aliases.length === 1 ? 'alias' : 'aliases'}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2 border-t border-gray-200 dark:border-gray-800">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate(newName)}
+              placeholder="New person"
+              className={inputClass}
+            />
+            <Button onClick={() => handleCreate(newName)} disabled={saving || !newName.trim()}>
+              <PlusIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          {/* Selected person */}
+          {!selected ? (
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-12 border border-gray-200 dark:border-gray-800 text-center">
+              <IdentificationIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                No people yet
+              </h3>
+              <p className="text-gray-600 dark:text-gray-400">
+                Add a person, or accept a suggestion below, to link their names, numbers and Cliq accounts.
+              </p>
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800 space-y-5">
+              <fieldset disabled={saving} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Field label="Display name">
+                  <input value={displayName} onChange={(e) => setDisplayName(e.target.value)} className={inputClass} />
+                </Field>
+                <div className="md:col-span-2">
+                  <Field label="Notes">
+                    <input value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+                  </Field>
+                </div>
+              </fieldset>
+              <div className="flex flex-wrap gap-3">
+                <Button
+                  variant="outline"
+                  onClick={handleSaveDetails}
+                  loading={saving}
+                  disabled={!displayName.trim() || (displayName === selected.display_name && notes === (selected.notes || ''))}
+                >
+                  Save
+                </Button>
+                {canMerge && (
+                  <Button variant="ghost" onClick={handleDelete} disabled={saving}>
+                    <TrashIcon className="h-4 w-4 mr-2" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Aliases</h4>
+                <div className="flex flex-wrap gap-2">
+                  {selected.aliases.map(alias => (
+                    <span
+                      key={alias.id}
+                      className="inline-flex items-center gap-2 px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-800 text-sm text-gray-900 dark:text-white"
+                    >
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{aliasTypeLabels[alias.alias_type]}</span>
+                      {alias.value}
+                      {alias.source !== 'manual' && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400">({alias.source})</span>
+                      )}
+                      <button
+                        onClick={() => handleRemoveAlias(alias.id)}
+                        disabled={saving}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Remove alias"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex flex-col md:flex-row gap-2 mt-3">
+                  <select
+                    value={aliasType}
+                    onChange={(e) => setAliasType(e.target.value as PersonAliasType)}
+                    className={cn(inputClass, 'md:w-44')}
+                  >
+                    {(Object.keys(aliasTypeLabels) as PersonAliasType[]).map(type => (
+                      <option key={type} value={type}>{aliasTypeLabels[type]}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={aliasValue}
+                    onChange={(e) => setAliasValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddAlias(selected.id, aliasType, aliasValue)}
+                    placeholder={aliasType === 'phone' ? '+91 98765 43210' : aliasType === 'cliq_user_id' ? 'Cliq user id' : 'Name as it appears in chats'}
+                    className={inputClass}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleAddAlias(selected.id, aliasType, aliasValue)}
+                    disabled={saving || !aliasValue.trim()}
+                  >
+                    Add alias
+                  </Button>
+                </div>
+              </div>
+
+              {canMerge && people.length > 1 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Merge a duplicate</h4>
+                  <div className="flex flex-col md:flex-row gap-2">
+                    <select
+                      value={mergeSourceId}
+                      onChange={(e) => setMergeSourceId(e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">Choose a person to merge into {selected.display_name}</option>
+                      {people.filter(person => person.id !== selected.id).map(person => (
+                        <option key={person.id} value={person.id}>{person.display_name}</option>
+                      ))}
+                    </select>
+                    <Button variant="outline" onClick={handleMerge} disabled={saving || !mergeSourceId}>
+                      <ArrowsRightLeftIcon className="h-4 w-4 mr-2" />
+                      Merge
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Suggestions from ingest */}
+          <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Suggested aliases</h3>
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No open suggestions. New uploads suggest aliases for senders that look like someone already here.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {suggestions.map(suggestion => (
+                  <SuggestionRow
+                    key={suggestion.id}
+                    suggestion={suggestion}
+                    selected={selected}
+                    saving={saving}
+                    onAccept={handleAccept}
+                    onDismiss={handleDismiss}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Unlinked senders */}
+          <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Unlinked senders</h3>
+            {unlinked.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Every sender in this client's chats is linked to a person.</p>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-800">
+                {unlinked.map(row => (
+                  <div key={row.participant} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                    <div>
+                      <span className="font-medium text-gray-900 dark:text-white">{row.participant}</span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{row.chunk_count} chunks</span>
+                    </div>
+                    <div className="flex gap-2">
+                      {selected && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={saving}
+                          onClick={() => handleAddAlias(
+                            selected.id,
+                            /^[+\d][\d\s().-]{6,}$/.test(row.participant) ? 'phone' : 'name',
+                            row.participant
+                          )}
+                        >
+                          Add to {selected.display_name}
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" disabled={saving} onClick={() => handleCreate(row.participant)}>
+                        New person
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function SuggestionRow({ suggestion, selected, saving, onAccept, onDismiss }: {
+  suggestion: AliasSuggestionDto;
+  selected: PersonDto | null;
+  saving: boolean;
+  onAccept: (suggestion: AliasSuggestionDto, personId?: number) => void;
+  onDismiss: (suggestion: AliasSuggestionDto) => void;
+}) {
+  const target = suggestion.person?.display_name || suggestion.candidate_value;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-xl border border-gray-200 dark:border-gray-700 text-sm">
+      <div>
+        <div className="text-gray-900 dark:text-white">
+          <span className="font-medium">{suggestion.value}</span>
+          {' '}may be{' '}
+          <span className="font-medium">{target}</span>
+          {!suggestion.person_id && <span className="text-gray-500 dark:text-gray-400"> (not in the directory yet)</span>}
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {suggestion.reason} · {Math.round(Number(suggestion.score) * 100)}% match
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => onAccept(suggestion)} disabled={saving}>
+          <CheckIcon className="h-4 w-4 mr-1" />
+          {suggestion.person_id ? 'Accept' : 'Create person'}
+        </Button>
+        {selected && selected.id !== suggestion.person_id && (
+          <Button size="sm" variant="outline" onClick={() => onAccept(suggestion, selected.id)} disabled={saving}>
+            Add to {selected.display_name}
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={() => onDismiss(suggestion)} disabled={saving}>
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+}
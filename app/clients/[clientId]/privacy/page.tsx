@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/Button';
+import { RedactedText } from '@/components/chat/RedactedText';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api-services';
+import { getErrorMessage } from '@/lib/api-client';
+import {
+  PiiCategory,
+  RedactedMatchDto,
+  RedactionAction,
+  RedactionPolicyDto,
+} from '@/types/api';
+import {
+  ChevronLeftIcon,
+  ExclamationTriangleIcon,
+  ShieldCheckIcon,
+} from '@heroicons/react/24/outline';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+const categories: Array<{ key: PiiCategory; label: string; example: string }> = [
+  { key: 'phone', label: 'Phone numbers', example: '+91 98765 43210' },
+  { key: 'email', label: 'Email addresses', example: 'name@example.com' },
+  { key: 'card', label: 'Card numbers', example: '4111 1111 1111 1111' },
+  { key: 'bank_account', label: 'Bank account numbers', example: 'A/C no: 1234 5678 9012' },
+  { key: 'iban', label: 'IBANs', example: 'DE89 3704 0044 0532 0130 00' },
+  { key: 'ifsc', label: 'IFSC codes', example: 'HDFC0001234' },
+  { key: 'pan', label: 'PAN', example: 'ABCDE1234F' },
+  { key: 'aadhaar', label: 'Aadhaar numbers', example: '2345 6789 0123' },
+  { key: 'address', label: 'Postal addresses', example: 'Flat 4B, ... Bangalore 560034' },
+];
+
+const actionLabels: Record<RedactionAction, string> = {
+  tokenize: 'Tokenise (revealable)',
+  mask: 'Mask (discard)',
+  keep: 'Keep',
+};
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#ffe600]/20 focus:border-[#ffe600]';
+
+export default function PrivacyPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { supabase } = useAuth();
+  const clientId = params?.clientId as string;
+
+  const [client, setClient] = useState<Client | null>(null);
+  const [policy, setPolicy] = useState<RedactionPolicyDto | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [actions, setActions] = useState<Partial<Record<PiiCategory, RedactionAction>>>({});
+  const [sample, setSample] = useState('');
+  const [preview, setPreview] = useState<{ text: string; matches: RedactedMatchDto[] } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+
+  // Fetch client and its redaction policy
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!clientId) return;
+
+      setLoading(true);
+
+      try {
+        const { data: clientData, error: clientError } = await supabase
+          .from('clients')
+          .select('id, name')
+          .eq('id', parseInt(clientId))
+          .single();
+
+        if (clientError) throw clientError;
+        setClient(clientData ? { id: String(clientData.id), name: clientData.name } : null);
+
+        const response = await api.pii.getPolicy(supabase, parseInt(clientId));
+        setPolicy(response.policy);
+        setEnabled(response.policy.enabled);
+        setActions(response.policy.categories);
+      } catch (error: any) {
+        console.error('Error fetching redaction policy:', error);
+        toast.error(getErrorMessage(error));
+        setClient(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [clientId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const response = await api.pii.updatePolicy(supabase, parseInt(clientId), { enabled, categories: actions });
+      setPolicy(response.policy);
+      setActions(response.policy.categories);
+      toast.success('Redaction policy saved');
+    } catch (error: any) {
+      console.error('Error saving redaction policy:', error);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!sample.trim()) return;
+    setPreviewing(true);
+
+    try {
+      setPreview(await api.pii.preview(supabase, parseInt(clientId), sample, actions));
+    } catch (error: any) {
+      console.error('Error previewing redaction:', error);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Loading...">
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!client) {
+    return (
+      <DashboardLayout title="Client Not Found">
+        <div className="text-center py-12">
+          <ExclamationTriangleIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            Client Not Found
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            The client you're looking for doesn't exist or you don't have access to it.
+          </p>
+          <Button onClick={() => router.push('/clients')}>
+            <ChevronLeftIcon className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const dirty = policy !== null && (
+    enabled !== policy.enabled ||
+    categories.some(({ key }) => actions[key] !== policy.categories[key])
+  );
+
+  return (
+    <DashboardLayout
+      title="Privacy"
+      description={`Personal data redacted from ${client.name}'s chats at ingestion`}
+      allowedRoles={['super_admin', 'admin']}
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Policy */}
+        <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800 space-y-5">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+                <ShieldCheckIcon className="h-5 w-5 mr-2" />
+                Redaction policy
+              </h3>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                Applies to uploads ingested after it is enabled. Retry older uploads to redact them.
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
+              <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+              Enabled
+            </label>
+          </div>
+
+          <fieldset disabled={saving} className={cn('space-y-3', !enabled && 'opacity-60')}>
+            {categories.map(({ key, label, example }) => (
+              <div key={key} className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">{label}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{example}</div>
+                </div>
+                <select
+                  value={actions[key] || 'tokenize'}
+                  onChange={(e) => setActions({ ...actions, [key]: e.target.value as RedactionAction })}
+                  className={cn(inputClass, 'w-56 py-2')}
+                >
+                  {(Object.keys(actionLabels) as RedactionAction[]).map(action => (
+                    <option key={action} value={action}>{actionLabels[action]}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </fieldset>
+
+          <div className="flex items-center justify-between pt-4 border-t border-gray-200 dark:border-gray-800">
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {policy?.updated_at ? `Last changed ${new Date(policy.updated_at).toLocaleString()}` : 'Not configured yet'}
+            </span>
+            <Button onClick={handleSave} loading={saving} disabled={!dirty}>Save policy</Button>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800 space-y-4 h-fit">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Try it</h3>
+          <textarea
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            rows={6}
+            placeholder="Paste a few chat lines to see what the policy above would redact"
+            className={inputClass}
+          />
+          <Button variant="outline" onClick={handlePreview} loading={previewing} disabled={!sample.trim()}>
+            Preview redaction
+          </Button>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="bg-gray-50 dark:bg-gray-800/50 rounded-xl p-4">
+                <RedactedText text={preview.text} />
+              </div>
+              {preview.matches.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Nothing to redact.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {preview.matches.map((match, index) => (
+                    <li key={index} className="flex items-center justify-between gap-4">
+                      <span className="truncate text-gray-700 dark:text-gray-300">{match.value}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {categories.find(category => category.key === match.category)?.label} · {actionLabels[match.action]}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
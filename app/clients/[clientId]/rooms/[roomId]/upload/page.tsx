@@ -5,6 +5,9 @@ import { useParams, useRouter } from 'next/navigation';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { UploadWidget } from '@/components/ui/UploadWidget';
 import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { api } from '@/lib/api-services';
+import { RoomIngestSettings, IngestFormat, DateOrder } from '@/types/api';
 import { cn } from '@/lib/utils';
 import toast from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
@@ -19,6 +22,7 @@ import {
   ClockIcon,
   ExclamationTriangleIcon,
   ArrowTopRightOnSquareIcon,
+  AdjustmentsHorizontalIcon,
 } from '@heroicons/react/24/outline';
 
 interface Room {
@@ -27,6 +31,7 @@ interface Room {
   room_type: 'internal' | 'external';
   description?: string;
   is_active: boolean;
+  ingest_settings?: RoomIngestSettings;
 }
 
 interface Client {
@@ -102,7 +107,7 @@ export default function UploadPage() {
         // Fetch room data
         const { data: roomData, error: roomError } = await supabase
           .from('rooms')
-          .select('id, name, room_type, description, is_active')
+          .select('id, name, room_type, description, is_active, ingest_settings')
           .eq('id', roomId)
           .eq('client_id', clientId)
           .single();
@@ -120,6 +125,7 @@ export default function UploadPage() {
           room_type: roomData.room_type,
           description: roomData.description,
           is_active: roomData.is_active,
+          ingest_settings: roomData.ingest_settings || {},
         });
 
       } catch (error: any) {
@@ -271,13 +277,13 @@ export default function UploadPage() {
                 <li className="flex items-start space-x-2">
                   <div className="w-1.5 h-1.5 bg-blue-600 dark:bg-blue-400 rounded-full mt-2 flex-shrink-0" />
                   <span>
-                    <strong>File Types:</strong> TXT files are supported by default. Enable advanced mode for CSV and JSON files.
+                    <strong>File Types:</strong> WhatsApp TXT exports, Zoho Cliq JSON exports and CSV files (timestamp, sender, text). The format is detected automatically.
                   </span>
                 </li>
                 <li className="flex items-start space-x-2">
                   <div className="w-1.5 h-1.5 bg-blue-600 dark:bg-blue-400 rounded-full mt-2 flex-shrink-0" />
                   <span>
-                    <strong>File Size:</strong> Maximum 25MB per file. Larger files will be rejected.
+                    <strong>File Size:</strong> Up to the platform limit shown above. Large files are sent in parts; if an upload is interrupted, select the same file again to continue where it stopped.
                   </span>
                 </li>
                 <li className="flex items-start space-x-2">
@@ -297,6 +303,13 @@ export default function UploadPage() {
           </div>
         </div>
 
+        {/* Import Settings */}
+        <ImportSettingsCard
+          room={room}
+          supabase={supabase}
+          onSaved={(ingest_settings) => setRoom({ ...room, ingest_settings })}
+        />
+
         {/* Auth Test Button */}
         <div className="mb-6">
           <Button 
@@ -351,8 +364,6 @@ export default function UploadPage() {
           supabase={supabase}
           onUploadComplete={handleUploadComplete}
           onUploadError={handleUploadError}
-          maxFileSize={25}
-          allowedTypes={['.txt']}
         />
 
         {/* Upload Results */}
@@ -453,3 +464,124 @@ function UploadResultCard({ result }: UploadResultCardProps) {
     </div>
   );
 }
+
+interface ImportSettingsCardProps {
+  room: Room;
+  supabase: any;
+  onSaved: (settings: RoomIngestSettings) => void;
+}
+
+function ImportSettingsCard({ room, supabase, onSaved }: ImportSettingsCardProps) {
+  const current = room.ingest_settings || {};
+  const [format, setFormat] = useState<IngestFormat>(current.format || 'auto');
+  const [dateOrder, setDateOrder] = useState<DateOrder | ''>(current.date_order || '');
+  const [columns, setColumns] = useState({
+    timestamp: current.column_mapping?.timestamp || '',
+    sender: current.column_mapping?.sender || '',
+    text: current.column_mapping?.text || '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Blank column names fall back to header auto-detection in the worker
+      const columnMapping = Object.fromEntries(
+        Object.entries(columns).filter(([, value]) => value.trim()).map(([key, value]) => [key, value.trim()])
+      );
+      const settings: RoomIngestSettings = {
+        format,
+        ...(dateOrder ? { date_order: dateOrder } : {}),
+        ...(Object.keys(columnMapping).length > 0 ? { column_mapping: columnMapping } : {}),
+      };
+
+      const response = await api.rooms.updateIngestSettings(supabase, {
+        room_id: room.id,
+        ingest_settings: settings,
+      });
+      onSaved(response.ingest_settings);
+      toast.success('Import settings saved');
+    } catch (error: any) {
+      console.error('Error saving import settings:', error);
+      toast.error(error.message || 'Failed to save import settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white";
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800 shadow-sm">
+      <div className="flex items-center space-x-3 mb-4">
+        <AdjustmentsHorizontalIcon className="h-5 w-5 text-gray-500" />
+        <h4 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Import Settings
+        </h4>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Format</label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as IngestFormat)}
+            className={selectClasses}
+          >
+            <option value="auto">Detect automatically</option>
+            <option value="whatsapp_txt">WhatsApp export (.txt)</option>
+            <option value="cliq_json">Zoho Cliq export (.json)</option>
+            <option value="csv">CSV (.csv)</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Date order</label>
+          <select
+            value={dateOrder}
+            onChange={(e) => setDateOrder(e.target.value as DateOrder | '')}
+            className={selectClasses}
+          >
+            <option value="">Detect automatically</option>
+            <option value="DMY">Day / Month / Year</option>
+            <option value="MDY">Month / Day / Year</option>
+            <option value="YMD">Year / Month / Day</option>
+          </select>
+        </div>
+      </div>
+
+      {(format === 'csv' || format === 'auto') && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            CSV columns — header names or zero-based column numbers. Leave blank to match headers like timestamp, sender and text.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Input
+              label="Timestamp column"
+              placeholder="timestamp"
+              value={columns.timestamp}
+              onChange={(e) => setColumns({ ...columns, timestamp: e.target.value })}
+            />
+            <Input
+              label="Sender column"
+              placeholder="sender"
+              value={columns.sender}
+              onChange={(e) => setColumns({ ...columns, sender: e.target.value })}
+            />
+            <Input
+              label="Text column"
+              placeholder="text"
+              value={columns.text}
+              onChange={(e) => setColumns({ ...columns, text: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end mt-4">
+        <Button onClick={handleSave} loading={saving}>
+          Save Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,620 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api-services';
+import { getErrorMessage } from '@/lib/api-client';
+import {
+  RubricDriverDto,
+  RubricInstanceDto,
+  RubricPolicyDto,
+  RubricResponse,
+  RubricVersionDto,
+} from '@/types/api';
+import {
+  ChevronLeftIcon,
+  ExclamationTriangleIcon,
+  PlusIcon,
+  TrashIcon,
+  GlobeAltIcon,
+  BuildingOfficeIcon,
+  ClockIcon,
+} from '@heroicons/react/24/outline';
+
+type Scope = 'client' | 'global';
+
+interface DriverForm {
+  id?: number;
+  name: string;
+  key: string;
+  description: string;
+  weight: string;
+  negative_indicators: string;
+  positive_examples: string;
+  negative_examples: string;
+}
+
+interface PolicyForm {
+  name: string;
+  guidance: string;
+  min_evidence_items: string;
+  min_rooms_required: string;
+  require_citations: boolean;
+  scale_min: string;
+  scale_max: string;
+  consistency_samples: string;
+  shuffle_evidence: boolean;
+  red_lines: string;
+}
+
+const inputClass = 'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#ffe600]/20 focus:border-[#ffe600]';
+
+const emptyDriverForm: DriverForm = {
+  name: '',
+  key: '',
+  description: '',
+  weight: '1.0',
+  negative_indicators: '',
+  positive_examples: '',
+  negative_examples: '',
+};
+
+const emptyInstanceForm = { title: '', narrative: '', takeaway: '', tags: '' };
+
+// One entry per line (or comma for short lists) in, trimmed array out
+const toList = (value: string, separator: RegExp = /\n/) =>
+  value.split(separator).map(item => item.trim()).filter(Boolean);
+
+export default function RubricPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { supabase } = useAuth();
+  const clientId = params?.clientId as string;
+
+  const [clientName, setClientName] = useState<string | null>(null);
+  const [scope, setScope] = useState<Scope>('client');
+  const [rubric, setRubric] = useState<RubricResponse | null>(null);
+  const [versions, setVersions] = useState<RubricVersionDto[]>([]);
+  const [selectedDriverId, setSelectedDriverId] = useState<number | 'new' | null>(null);
+  const [driverForm, setDriverForm] = useState<DriverForm>(emptyDriverForm);
+  const [policyForm, setPolicyForm] = useState<PolicyForm | null>(null);
+  const [instanceForm, setInstanceForm] = useState(emptyInstanceForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const scopeClientId = scope === 'client' ? parseInt(clientId) : null;
+
+  const loadRubric = async () => {
+    const [rubricResponse, versionsResponse] = await Promise.all([
+      api.drivers.getRubric(supabase, scopeClientId),
+      api.drivers.listRubricVersions(supabase, scopeClientId),
+    ]);
+    setRubric(rubricResponse);
+    setVersions(versionsResponse.versions);
+    setPolicyForm(toPolicyForm(scopePolicy(rubricResponse.policies, scopeClientId)));
+    return rubricResponse;
+  };
+
+  // Fetch client and rubric for the selected scope
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!clientId) return;
+
+      setLoading(true);
+
+      try {
+        const { data: clientData, error: clientError } = await supabase
+          .from('clients')
+          .select('id, name')
+          .eq('id', parseInt(clientId))
+          .single();
+
+        if (clientError) throw clientError;
+        setClientName(clientData?.name ?? null);
+
+        const loaded = await loadRubric();
+        setSelectedDriverId(loaded.drivers[0]?.id ?? null);
+      } catch (error: any) {
+        console.error('Error fetching rubric:', error);
+        toast.error(getErrorMessage(error));
+        setRubric(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [clientId, scope]);
+
+  // Populate the driver form when the selection changes
+  useEffect(() => {
+    if (!rubric || selectedDriverId === null) return;
+
+    if (selectedDriverId === 'new') {
+      setDriverForm(emptyDriverForm);
+      return;
+    }
+
+    const driver = rubric.drivers.find(d => d.id === selectedDriverId);
+    if (!driver) return;
+
+    const behaviors = rubric.behaviors.find(b => b.driver_id === driver.id);
+    setDriverForm({
+      id: driver.id,
+      name: driver.name,
+      key: driver.key,
+      description: driver.description || '',
+      weight: String(driver.weight ?? 1),
+      negative_indicators: (driver.negative_indicators || []).join(', '),
+      positive_examples: (behaviors?.positive_examples || []).join('\n'),
+      negative_examples: (behaviors?.negative_examples || []).join('\n'),
+    });
+    setInstanceForm(emptyInstanceForm);
+  }, [rubric, selectedDriverId]);
+
+  // Run an edit, then reload so the new rubric version shows up
+  const runEdit = async (request: any, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await api.drivers.createOrUpdate(supabase, request);
+      await loadRubric();
+      const version = response?.rubric_version?.version;
+      toast.success(version ? `${successMessage} (rubric v${version})` : successMessage);
+      return response;
+    } catch (error: any) {
+      toast.error(getErrorMessage(error));
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveDriver = async () => {
+    if (!driverForm.name.trim()) {
+      toast.error('Driver name is required');
+      return;
+    }
+
+    const driver = {
+      id: driverForm.id,
+      name: driverForm.name.trim(),
+      key: driverForm.key.trim() || undefined,
+      description: driverForm.description.trim(),
+      weight: parseFloat(driverForm.weight) || 1.0,
+      client_id: scopeClientId,
+      negative_indicators: toList(driverForm.negative_indicators, /[,\n]/),
+    };
+
+    setSaving(true);
+    try {
+      const saved = await api.drivers.createOrUpdate(supabase, {
+        action: driverForm.id ? 'update_driver' : 'create_driver',
+        driver,
+      });
+      const behaviors = await api.drivers.createOrUpdate(supabase, {
+        action: 'create_behaviors',
+        behaviors: {
+          driver_id: saved.driver.id,
+          positive_examples: toList(driverForm.positive_examples),
+          negative_examples: toList(driverForm.negative_examples),
+        },
+      });
+      await loadRubric();
+      setSelectedDriverId(saved.driver.id);
+      toast.success(`${driverForm.id ? 'Driver updated' : 'Driver created'} (rubric v${behaviors.rubric_version.version})`);
+    } catch (error: any) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (driver: RubricDriverDto) => {
+    await runEdit(
+      { action: 'set_driver_active', driver_id: driver.id, is_active: !driver.is_active },
+      driver.is_active ? 'Driver disabled' : 'Driver enabled'
+    );
+  };
+
+  const handleAddInstance = async () => {
+    if (typeof selectedDriverId !== 'number') return;
+    if (!instanceForm.title.trim() || !instanceForm.narrative.trim() || !instanceForm.takeaway.trim()) {
+      toast.error('Title, narrative and takeaway are required');
+      return;
+    }
+
+    const response = await runEdit(
+      {
+        action: 'create_instance',
+        instances: {
+          driver_id: selectedDriverId,
+          title: instanceForm.title.trim(),
+          narrative: instanceForm.narrative.trim(),
+          takeaway: instanceForm.takeaway.trim(),
+          tags: toList(instanceForm.tags, /,/),
+        },
+      },
+      'Instance added'
+    );
+    if (response) setInstanceForm(emptyInstanceForm);
+  };
+
+  const handleDeleteInstance = async (instance: RubricInstanceDto) => {
+    if (!confirm(`Remove "${instance.title}"?`)) return;
+    await runEdit({ action: 'delete_instance', instance_id: instance.id }, 'Instance removed');
+  };
+
+  const handleSavePolicy = async () => {
+    if (!policyForm) return;
+
+    await runEdit(
+      {
+        action: 'update_policy',
+        policy: {
+          client_id: scopeClientId,
+          name: policyForm.name.trim() || undefined,
+          guidance: policyForm.guidance.trim(),
+          min_evidence_items: parseInt(policyForm.min_evidence_items) || 0,
+          min_rooms_required: Math.max(1, parseInt(policyForm.min_rooms_required) || 1),
+          require_citations: policyForm.require_citations,
+          scale_min: parseInt(policyForm.scale_min),
+          scale_max: parseInt(policyForm.scale_max),
+          consistency_samples: Math.min(5, Math.max(1, parseInt(policyForm.consistency_samples) || 1)),
+          shuffle_evidence: policyForm.shuffle_evidence,
+          red_lines: toList(policyForm.red_lines),
+        },
+      },
+      'Policy saved'
+    );
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Loading...">
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!rubric) {
+    return (
+      <DashboardLayout title="Rubric Not Available">
+        <div className="text-center py-12">
+          <ExclamationTriangleIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            Rubric Not Available
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            The client doesn't exist or you don't have permission to edit its rubric.
+          </p>
+          <Button onClick={() => router.push('/clients')}>
+            <ChevronLeftIcon className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const selectedDriver = rubric.drivers.find(d => d.id === selectedDriverId);
+  const selectedInstances = rubric.instances.filter(i => i.driver_id === selectedDriverId);
+  // Global drivers are shown in the client scope but edited from the global scope
+  const driverEditable = selectedDriverId === 'new' || (selectedDriver && (scope === 'global' || selectedDriver.client_id !== null));
+  const inheritedPolicy = scopeClientId !== null && !rubric.policies.some(p => p.client_id === scopeClientId);
+
+  return (
+    <DashboardLayout
+      title="Drivers & Values"
+      description={scope === 'client'
+        ? `Rubric used to evaluate people at ${clientName ?? 'this client'}`
+        : 'Global drivers and policy shared by every client'}
+      allowedRoles={['super_admin', 'admin']}
+    >
+      <div className="space-y-6">
+        {/* Scope */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="inline-flex rounded-xl border border-gray-200 dark:border-gray-800 p-1 bg-white dark:bg-gray-900">
+            <ScopeButton active={scope === 'client'} onClick={() => setScope('client')} icon={<BuildingOfficeIcon className="h-4 w-4" />}>
+              {clientName ?? 'Client'}
+            </ScopeButton>
+            <ScopeButton active={scope === 'global'} onClick={() => setScope('global')} icon={<GlobeAltIcon className="h-4 w-4" />}>
+              Global
+            </ScopeButton>
+          </div>
+          {rubric.rubric_version && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              Current rubric v{rubric.rubric_version.version} · {new Date(rubric.rubric_version.created_at).toLocaleString()}
+            </span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Drivers */}
+          <div className="bg-white dark:bg-gray-900 rounded-2xl p-4 border border-gray-200 dark:border-gray-800 h-fit">
+            <div className="flex items-center justify-between px-2 pb-3">
+              <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">Drivers</h3>
+              <button
+                onClick={() => setSelectedDriverId('new')}
+                className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500"
+                title="Add driver"
+              >
+                <PlusIcon className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="space-y-1">
+              {rubric.drivers.map(driver => (
+                <button
+                  key={driver.id}
+                  onClick={() => setSelectedDriverId(driver.id)}
+                  className={cn(
+                    'w-full flex items-center justify-between px-3 py-2 rounded-xl text-left transition-colors',
+                    driver.id === selectedDriverId
+                      ? 'bg-[#ffe600]/20 text-gray-900 dark:text-white'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800',
+                    !driver.is_active && 'opacity-50'
+                  )}
+                >
+                  <span className="truncate">{driver.name}</span>
+                  <span className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    {driver.client_id === null && scope === 'client' && (
+                      <span title="Global driver"><GlobeAltIcon className="h-3 w-3" /></span>
+                    )}
+                    {Number(driver.weight).toFixed(1)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="lg:col-span-3 space-y-6">
+            {/* Driver editor */}
+            {selectedDriverId !== null && (
+              <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {selectedDriverId === 'new' ? 'New driver' : driverForm.name}
+                  </h3>
+                  {selectedDriver && driverEditable && (
+                    <Button variant="outline" size="sm" onClick={() => handleToggleActive(selectedDriver)} disabled={saving}>
+                      {selectedDriver.is_active ? 'Disable' : 'Enable'}
+                    </Button>
+                  )}
+                </div>
+
+                {!driverEditable && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    This is a global driver. Switch to the Global scope to edit it for every client.
+                  </p>
+                )}
+
+                <fieldset disabled={!driverEditable || saving} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <Field label="Name">
+                      <input className={inputClass} value={driverForm.name} onChange={(e) => setDriverForm({ ...driverForm, name: e.target.value })} />
+                    </Field>
+                    <Field label="Key">
+                      <input className={inputClass} value={driverForm.key} placeholder="generated from name" onChange={(e) => setDriverForm({ ...driverForm, key: e.target.value })} />
+                    </Field>
+                    <Field label="Weight (0–2)">
+                      <input type="number" step="0.1" min="0" max="2" className={inputClass} value={driverForm.weight} onChange={(e) => setDriverForm({ ...driverForm, weight: e.target.value })} />
+                    </Field>
+                  </div>
+                  <Field label="Description">
+                    <textarea rows={2} className={inputClass} value={driverForm.description} onChange={(e) => setDriverForm({ ...driverForm, description: e.target.value })} />
+                  </Field>
+                  <Field label="Negative indicators (comma separated)">
+                    <input className={inputClass} value={driverForm.negative_indicators} onChange={(e) => setDriverForm({ ...driverForm, negative_indicators: e.target.value })} />
+                  </Field>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Field label="Positive behaviors (one per line)">
+                      <textarea rows={5} className={inputClass} value={driverForm.positive_examples} onChange={(e) => setDriverForm({ ...driverForm, positive_examples: e.target.value })} />
+                    </Field>
+                    <Field label="Negative behaviors (one per line)">
+                      <textarea rows={5} className={inputClass} value={driverForm.negative_examples} onChange={(e) => setDriverForm({ ...driverForm, negative_examples: e.target.value })} />
+                    </Field>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={handleSaveDriver} loading={saving}>
+                      {selectedDriverId === 'new' ? 'Create driver' : 'Save driver'}
+                    </Button>
+                  </div>
+                </fieldset>
+
+                {/* Instances */}
+                {typeof selectedDriverId === 'number' && (
+                  <div className="pt-4 border-t border-gray-200 dark:border-gray-800 space-y-3">
+                    <h4 className="font-semibold text-gray-900 dark:text-white">Instances</h4>
+                    {selectedInstances.length === 0 && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">No stories recorded for this driver.</p>
+                    )}
+                    {selectedInstances.map(instance => (
+                      <div key={instance.id} className="flex items-start justify-between gap-4 p-3 rounded-xl bg-gray-50 dark:bg-gray-800">
+                        <div>
+                          <div className="font-medium text-gray-900 dark:text-white">{instance.title}</div>
+                          <p className="text-sm text-gray-600 dark:text-gray-400">{instance.takeaway}</p>
+                        </div>
+                        {driverEditable && (
+                          <button
+                            onClick={() => handleDeleteInstance(instance)}
+                            className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                            disabled={saving}
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {driverEditable && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input className={inputClass} placeholder="Title" value={instanceForm.title} onChange={(e) => setInstanceForm({ ...instanceForm, title: e.target.value })} />
+                        <input className={inputClass} placeholder="Tags (comma separated)" value={instanceForm.tags} onChange={(e) => setInstanceForm({ ...instanceForm, tags: e.target.value })} />
+                        <textarea rows={3} className={cn(inputClass, 'md:col-span-2')} placeholder="Narrative" value={instanceForm.narrative} onChange={(e) => setInstanceForm({ ...instanceForm, narrative: e.target.value })} />
+                        <input className={cn(inputClass, 'md:col-span-2')} placeholder="Takeaway" value={instanceForm.takeaway} onChange={(e) => setInstanceForm({ ...instanceForm, takeaway: e.target.value })} />
+                        <div className="md:col-span-2 flex justify-end">
+                          <Button variant="outline" onClick={handleAddInstance} disabled={saving}>
+                            <PlusIcon className="h-4 w-4 mr-2" />
+                            Add instance
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Evaluation policy */}
+            {policyForm && (
+              <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800 space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Evaluation policy</h3>
+                {inheritedPolicy && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    This client uses the global policy. Saving creates a client-specific policy.
+                  </p>
+                )}
+                <fieldset disabled={saving} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+                    <Field label="Name">
+                      <input className={inputClass} value={policyForm.name} onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })} />
+                    </Field>
+                    <Field label="Minimum evidence items">
+                      <input type="number" min="0" className={inputClass} value={policyForm.min_evidence_items} onChange={(e) => setPolicyForm({ ...policyForm, min_evidence_items: e.target.value })} />
+                    </Field>
+                    <Field label="Minimum rooms">
+                      <input type="number" min="1" className={inputClass} value={policyForm.min_rooms_required} onChange={(e) => setPolicyForm({ ...policyForm, min_rooms_required: e.target.value })} />
+                    </Field>
+                    <Field label="Scale min">
+                      <input type="number" className={inputClass} value={policyForm.scale_min} onChange={(e) => setPolicyForm({ ...policyForm, scale_min: e.target.value })} />
+                    </Field>
+                    <Field label="Scale max">
+                      <input type="number" className={inputClass} value={policyForm.scale_max} onChange={(e) => setPolicyForm({ ...policyForm, scale_max: e.target.value })} />
+                    </Field>
+                    <Field label="Consistency samples">
+                      <input type="number" min="1" max="5" className={inputClass} value={policyForm.consistency_samples} onChange={(e) => setPolicyForm({ ...policyForm, consistency_samples: e.target.value })} />
+                    </Field>
+                  </div>
+                  <Field label="Guidance">
+                    <textarea rows={3} className={inputClass} value={policyForm.guidance} onChange={(e) => setPolicyForm({ ...policyForm, guidance: e.target.value })} />
+                  </Field>
+                  <Field label="Red lines (one per line, /pattern/ for a regular expression)">
+                    <textarea rows={3} className={inputClass} value={policyForm.red_lines} onChange={(e) => setPolicyForm({ ...policyForm, red_lines: e.target.value })} />
+                  </Field>
+                  <div className="flex items-center justify-between">
+                    <div className="flex flex-wrap items-center gap-6">
+                      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={policyForm.require_citations}
+                          onChange={(e) => setPolicyForm({ ...policyForm, require_citations: e.target.checked })}
+                        />
+                        Require citations
+                      </label>
+                      <label
+                        className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                        title="Show the evidence in a different order to every consistency sample after the first"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={policyForm.shuffle_evidence}
+                          disabled={(parseInt(policyForm.consistency_samples) || 1) < 2}
+                          onChange={(e) => setPolicyForm({ ...policyForm, shuffle_evidence: e.target.checked })}
+                        />
+                        Shuffle evidence between samples
+                      </label>
+                    </div>
+                    <Button onClick={handleSavePolicy} loading={saving}>Save policy</Button>
+                  </div>
+                </fieldset>
+              </div>
+            )}
+
+            {/* Versions */}
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Rubric versions</h3>
+              {versions.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No versions yet. The first edit or evaluation stores version 1.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {versions.map(version => (
+                    <div key={version.id} className="flex items-center justify-between gap-4 p-3 rounded-xl bg-gray-50 dark:bg-gray-800 text-sm">
+                      <div className="flex items-center gap-3">
+                        <span className="px-2 py-1 rounded-lg bg-[#ffe600]/20 font-semibold text-gray-900 dark:text-white">
+                          v{version.version}
+                        </span>
+                        <span className="text-gray-700 dark:text-gray-300">{version.change_note || 'Snapshot'}</span>
+                      </div>
+                      <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        <ClockIcon className="h-4 w-4" />
+                        {new Date(version.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+// The scope's own policy, falling back to the global one a client inherits
+function scopePolicy(policies: RubricPolicyDto[], clientId: number | null): RubricPolicyDto | null {
+  return policies.find(p => p.client_id === clientId) || policies.find(p => p.client_id === null) || null;
+}
+
+function toPolicyForm(policy: RubricPolicyDto | null): PolicyForm {
+  return {
+    name: policy?.name || '',
+    guidance: policy?.guidance || '',
+    min_evidence_items: String(policy?.min_evidence_items ?? 3),
+    min_rooms_required: String(policy?.min_rooms_required ?? 1),
+    require_citations: policy?.require_citations ?? true,
+    scale_min: String(policy?.scale_min ?? 1),
+    scale_max: String(policy?.scale_max ?? 5),
+    consistency_samples: String(policy?.consistency_samples ?? 1),
+    shuffle_evidence: policy?.shuffle_evidence ?? true,
+    red_lines: (policy?.red_lines || []).join('\n'),
+  };
+}
+
+function ScopeButton({ active, onClick, icon, children }: {
+  active: boolean;
+  onClick: () => void;
+  icon: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors',
+        active
+          ? 'bg-[#ffe600] text-black'
+          : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+      )}
+    >
+      {icon}
+      {children}
+    </button>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
@@ -0,0 +1,496 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api-services';
+import { getErrorMessage } from '@/lib/api-client';
+import {
+  TeamEvaluationDto,
+  TeamEvaluationReportDto,
+  TeamMemberStatus,
+} from '@/types/api';
+import {
+  ChevronLeftIcon,
+  ExclamationTriangleIcon,
+  UserGroupIcon,
+  ArrowDownTrayIcon,
+  PlayIcon,
+} from '@heroicons/react/24/outline';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+// Refresh the batch list while a batch is still being evaluated
+const POLL_INTERVAL_MS = 5000;
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#ffe600]/20 focus:border-[#ffe600]';
+
+export default function TeamEvaluationsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { supabase } = useAuth();
+  const clientId = params?.clientId as string;
+
+  const [client, setClient] = useState<Client | null>(null);
+  const [batches, setBatches] = useState<TeamEvaluationDto[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [report, setReport] = useState<TeamEvaluationReportDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [form, setForm] = useState({
+    title: '',
+    dateFrom: '',
+    dateTo: '',
+    minChunks: 3,
+  });
+
+  const hasActiveBatch = batches.some(b => b.status === 'queued' || b.status === 'running');
+
+  // Fetch client and its team evaluations
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!clientId) return;
+
+      setLoading(true);
+
+      try {
+        const { data: clientData, error: clientError } = await supabase
+          .from('clients')
+          .select('id, name')
+          .eq('id', parseInt(clientId))
+          .single();
+
+        if (clientError) throw clientError;
+        if (!clientData) {
+          setClient(null);
+          return;
+        }
+
+        setClient({
+          id: String(clientData.id),
+          name: clientData.name,
+        });
+
+        const response = await api.teamEvaluations.list(supabase, parseInt(clientId));
+        setBatches(response.team_evaluations);
+        if (response.team_evaluations.length > 0) {
+          setSelectedId(response.team_evaluations[0].id);
+        }
+      } catch (error: any) {
+        console.error('Error fetching team evaluations:', error);
+        toast.error(getErrorMessage(error));
+        setClient(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [clientId]);
+
+  // Poll batch progress while anything is queued or running
+  useEffect(() => {
+    if (!clientId || !hasActiveBatch) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await api.teamEvaluations.list(supabase, parseInt(clientId));
+        setBatches(response.team_evaluations);
+      } catch (error) {
+        console.error('Error refreshing team evaluations:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [clientId, hasActiveBatch]);
+
+  // Load the selected report; reload as its batch makes progress
+  const selectedBatch = batches.find(b => b.id === selectedId);
+  const selectedProgress = selectedBatch?.job?.processed_items ?? 0;
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      if (!clientId || !selectedId) return;
+
+      setLoadingReport(report?.team_evaluation.id !== selectedId);
+
+      try {
+        const response = await api.teamEvaluations.report(supabase, parseInt(clientId), selectedId);
+        setReport(response.report);
+      } catch (error: any) {
+        console.error('Error fetching team report:', error);
+        toast.error(getErrorMessage(error));
+        setReport(null);
+      } finally {
+        setLoadingReport(false);
+      }
+    };
+
+    fetchReport();
+  }, [clientId, selectedId, selectedProgress, selectedBatch?.status]);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clientId) return;
+
+    setStarting(true);
+
+    try {
+      const response = await api.teamEvaluations.start(supabase, {
+        client_id: parseInt(clientId),
+        title: form.title.trim() || undefined,
+        date_from: form.dateFrom ? new Date(`${form.dateFrom}T00:00:00`).toISOString() : undefined,
+        date_to: form.dateTo ? new Date(`${form.dateTo}T23:59:59`).toISOString() : undefined,
+        min_chunks: form.minChunks,
+      });
+
+      toast.success(`Evaluating ${response.team_evaluation.member_count} people`);
+      setBatches(prev => [response.team_evaluation, ...prev]);
+      setSelectedId(response.team_evaluation.id);
+      setForm(prev => ({ ...prev, title: '' }));
+    } catch (error: any) {
+      console.error('Error starting team evaluation:', error);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Loading...">
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!client) {
+    return (
+      <DashboardLayout title="Client Not Found">
+        <div className="text-center py-12">
+          <ExclamationTriangleIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            Client Not Found
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            The client you're looking for doesn't exist or you don't have access to it.
+          </p>
+          <Button onClick={() => router.push('/clients')}>
+            <ChevronLeftIcon className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout
+      title="Team Evaluations"
+      description={`Evaluate everyone in ${client.name} and compare driver scores`}
+      allowedRoles={['super_admin', 'admin', 'manager']}
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="space-y-6">
+          {/* New batch */}
+          <form
+            onSubmit={handleStart}
+            className="bg-white dark:bg-gray-900 rounded-2xl p-4 border border-gray-200 dark:border-gray-800 space-y-3"
+          >
+            <h3 className="px-2 text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+              New team evaluation
+            </h3>
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="Title (optional)"
+              className={inputClass}
+            />
+            <div>
+              <label className="block px-2 pb-1 text-xs text-gray-500 dark:text-gray-400">From</label>
+              <input
+                type="date"
+                value={form.dateFrom}
+                onChange={(e) => setForm(prev => ({ ...prev, dateFrom: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block px-2 pb-1 text-xs text-gray-500 dark:text-gray-400">To</label>
+              <input
+                type="date"
+                value={form.dateTo}
+                onChange={(e) => setForm(prev => ({ ...prev, dateTo: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block px-2 pb-1 text-xs text-gray-500 dark:text-gray-400">
+                Minimum chunks per person
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={form.minChunks}
+                onChange={(e) => setForm(prev => ({ ...prev, minChunks: Math.max(1, parseInt(e.target.value) || 1) }))}
+                className={inputClass}
+              />
+            </div>
+            <Button type="submit" loading={starting} className="w-full">
+              <PlayIcon className="h-4 w-4 mr-2" />
+              Evaluate team
+            </Button>
+          </form>
+
+          {/* Batches */}
+          <div className="bg-white dark:bg-gray-900 rounded-2xl p-4 border border-gray-200 dark:border-gray-800">
+            <h3 className="px-2 pb-3 text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+              Batches
+            </h3>
+            {batches.length === 0 ? (
+              <p className="px-2 text-sm text-gray-500 dark:text-gray-400">No team evaluations yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {batches.map(batch => (
+                  <BatchRow
+                    key={batch.id}
+                    batch={batch}
+                    selected={batch.id === selectedId}
+                    onSelect={() => setSelectedId(batch.id)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Report */}
+        <div className="lg:col-span-3">
+          {!selectedId ? (
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-12 border border-gray-200 dark:border-gray-800 text-center">
+              <UserGroupIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                No team report yet
+              </h3>
+              <p className="text-gray-600 dark:text-gray-400">
+                Start a team evaluation to score every participant in a date range side by side.
+              </p>
+            </div>
+          ) : loadingReport || !report ? (
+            <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800 flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ffe600]"></div>
+            </div>
+          ) : (
+            <TeamReport report={report} />
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function BatchRow({
+  batch,
+  selected,
+  onSelect,
+}: {
+  batch: TeamEvaluationDto;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const progress = batch.status === 'completed' ? 100 : batch.job?.progress ?? 0;
+
+  return (
+    <button
+      onClick={onSelect}
+      className={cn(
+        'w-full px-3 py-2 rounded-xl text-left transition-colors',
+        selected
+          ? 'bg-[#ffe600]/20 text-gray-900 dark:text-white'
+          : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate font-medium">{batch.title}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{batch.member_count}</span>
+      </div>
+      <div className="mt-2 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+        <div
+          className={cn('h-full rounded-full', batch.status === 'failed' ? 'bg-red-500' : 'bg-[#ffe600]')}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        {batch.status === 'failed'
+          ? batch.job?.error_message || 'Failed'
+          : batch.status === 'completed'
+            ? `Completed ${new Date(batch.completed_at || batch.created_at).toLocaleDateString()}`
+            : `${batch.job?.processed_items ?? 0} of ${batch.member_count} evaluated`}
+      </div>
+    </button>
+  );
+}
+
+const memberStatusClasses: Record<TeamMemberStatus, string> = {
+  pending: 'text-gray-500 dark:text-gray-400',
+  completed: 'text-green-600 dark:text-green-400',
+  skipped: 'text-orange-600 dark:text-orange-400',
+  failed: 'text-red-600 dark:text-red-400',
+};
+
+function formatScore(value: number | null, digits = 1): string {
+  return value === null ? '—' : Number(value).toFixed(digits);
+}
+
+function exportReportCsv(report: TeamEvaluationReportDto) {
+  const escape = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = ['Person', 'Status', 'Review', ...report.drivers.map(d => d.name), 'Weighted total', 'Confidence', 'Chunks', 'Reason'];
+  const rows = report.members.map(member => [
+    member.subject_name,
+    member.status,
+    member.review_status,
+    ...report.drivers.map(d => member.scores[d.key]),
+    member.weighted_total,
+    member.confidence,
+    member.chunk_count,
+    member.reason,
+  ]);
+  const averages = [
+    'Team average',
+    '',
+    '',
+    ...report.drivers.map(d => report.driver_averages[d.key]),
+    report.average_weighted_total,
+    null,
+    null,
+    null,
+  ];
+
+  const csv = [header, ...rows, averages].map(row => row.map(escape).join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `team-evaluation-${report.team_evaluation.id}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function TeamReport({ report }: { report: TeamEvaluationReportDto }) {
+  const team = report.team_evaluation;
+  const range = [team.date_from, team.date_to]
+    .map(value => (value ? new Date(value).toLocaleDateString() : '…'))
+    .join(' – ');
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 border border-gray-200 dark:border-gray-800">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{team.title}</h3>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400 mt-1">
+            <span>{range}</span>
+            <span>{team.member_count} people</span>
+            {team.rubric_version !== null && <span>Rubric v{team.rubric_version}</span>}
+            <span>At least {team.min_chunks} chunks each</span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Only approved evaluations are scored in this report.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => exportReportCsv(report)}>
+          <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {report.job && team.status !== 'completed' && (
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+          {team.status === 'failed'
+            ? `Batch failed: ${report.job.error_message || 'unknown error'}`
+            : `Evaluating… ${report.job.processed_items} of ${team.member_count} done`}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-500 dark:text-gray-400">
+              <th className="py-2 pr-4 font-medium">Person</th>
+              {report.drivers.map(driver => (
+                <th key={driver.key} className="py-2 px-2 font-medium text-center" title={`Weight ${driver.weight}`}>
+                  {driver.name}
+                </th>
+              ))}
+              <th className="py-2 px-2 font-medium text-center">Weighted</th>
+              <th className="py-2 pl-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.members.map(member => (
+              <tr key={member.id} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                  {member.subject_name}
+                </td>
+                {report.drivers.map(driver => (
+                  <td key={driver.key} className="py-2 px-2 text-center text-gray-900 dark:text-white">
+                    {formatScore(member.scores[driver.key])}
+                  </td>
+                ))}
+                <td className="py-2 px-2 text-center font-semibold text-gray-900 dark:text-white">
+                  {member.total_withheld ? (
+                    <span className="text-red-600 dark:text-red-400" title="Weighted total withheld by the evidence policy">
+                      Withheld
+                    </span>
+                  ) : (
+                    formatScore(member.weighted_total, 2)
+                  )}
+                </td>
+                <td className={cn('py-2 pl-2 capitalize', memberStatusClasses[member.status])} title={member.reason || undefined}>
+                  {member.status}
+                  {member.status === 'completed' && member.review_status !== 'approved' && (
+                    <span className="block normal-case text-xs text-gray-500 dark:text-gray-400">
+                      {member.review_status === 'rejected' ? 'Rejected in review' : 'Awaiting review'}
+                    </span>
+                  )}
+                  {member.reason && (
+                    <span className="block normal-case text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs">
+                      {member.reason}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="text-gray-700 dark:text-gray-300">
+              <td className="py-2 pr-4 font-medium">Team average</td>
+              {report.drivers.map(driver => (
+                <td key={driver.key} className="py-2 px-2 text-center font-medium">
+                  {formatScore(report.driver_averages[driver.key])}
+                </td>
+              ))}
+              <td className="py-2 px-2 text-center font-semibold">{formatScore(report.average_weighted_total, 2)}</td>
+              <td />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,12 @@ import {
   ExclamationCircleIcon,
   Cog6ToothIcon,
   ClockIcon,
+  ChartBarIcon,
+  UserGroupIcon,
+  ClipboardDocumentCheckIcon,
+  IdentificationIcon,
+  ShieldCheckIcon,
+  AdjustmentsHorizontalIcon,
   ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 
@@ -477,6 +483,52 @@ function ClientCard({ client, onEdit, onDelete, onNavigate }: ClientCardProps) {
                     <ClockIcon className="h-4 w-4 mr-2" />
                     View Jobs
                   </button>
+                  <button
+                    onClick={() => onNavigate(`/clients/${client.id}/evaluations`)}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center min-h-[44px] touch-target"
+                  >
+                    <ChartBarIcon className="h-4 w-4 mr-2" />
+                    Evaluation History
+                  </button>
+                  <button
+                    onClick={() => onNavigate(`/clients/${client.id}/team-evaluations`)}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center min-h-[44px] touch-target"
+                  >
+                    <UserGroupIcon className="h-4 w-4 mr-2" />
+                    Team Evaluations
+                  </button>
+                  <button
+                    onClick={() => onNavigate(`/clients/${client.id}/evaluation-reviews`)}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center min-h-[44px] touch-target"
+                  >
+                    <ClipboardDocumentCheckIcon className="h-4 w-4 mr-2" />
+                    Evaluation Reviews
+                  </button>
+                  <button
+                    onClick={() => onNavigate(`/clients/${client.id}/people`)}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center min-h-[44px] touch-target"
+                  >
+                    <IdentificationIcon className="h-4 w-4 mr-2" />
+                    People
+                  </button>
+                  {(hasRole('admin') || hasRole('super_admin')) && (
+                    <button
+                      onClick={() => onNavigate(`/clients/${client.id}/rubric`)}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center min-h-[44px] touch-target"
+                    >
+                      <AdjustmentsHorizontalIcon className="h-4 w-4 mr-2" />
+                      Drivers & Values
+                    </button>
+                  )}
+                  {(hasRole('admin') || hasRole('super_admin')) && (
+                    <button
+                      onClick={() => onNavigate(`/clients/${client.id}/privacy`)}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center min-h-[44px] touch-target"
+                    >
+                      <ShieldCheckIcon className="h-4 w-4 mr-2" />
+                      Privacy
+                    </button>
+                  )}
                   <div className="border-t border-gray-200 dark:border-gray-700 my-1" />
                   <button
                     onClick={() => onNavigate(`/chat/${client.id}/conversations`)}
@@ -5,6 +5,7 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/contexts/AuthContext';
+import { api } from '@/lib/api-services';
 import toast from 'react-hot-toast';
 import { 
   Cog6ToothIcon,
@@ -32,6 +33,7 @@ interface PlatformSettings {
   session_timeout_minutes: number;
   max_file_size_mb: number;
   max_concurrent_jobs: number;
+  max_concurrent_jobs_per_client: number;
   
   // Security
   password_min_length: number;
@@ -72,6 +74,7 @@ export default function PlatformPage() {
     session_timeout_minutes: 30,
     max_file_size_mb: 50,
     max_concurrent_jobs: 10,
+    max_concurrent_jobs_per_client: 3,
     
     password_min_length: 8,
     password_require_uppercase: true,
@@ -102,7 +105,7 @@ export default function PlatformPage() {
     loadPlatformSettings();
   }, []);
 
-  const loadPlatformSettings = () => {
+  const loadPlatformSettings = async () => {
     try {
       setLoading(true);
       
@@ -115,6 +118,11 @@ export default function PlatformPage() {
           ...parsedSettings
         }));
       }
+
+      // The upload limit and job caps are enforced server-side, so they live in platform_settings
+      const maxFileSizeMb = await api.uploads.getMaxFileSizeMb(supabase);
+      const jobLimits = await api.jobs.getConcurrencyLimits(supabase);
+      setSettings(prev => ({ ...prev, max_file_size_mb: maxFileSizeMb, ...jobLimits }));
     } catch (error) {
       console.error('Error loading platform settings:', error);
       toast.error('Failed to load platform settings');
@@ -152,24 +160,42 @@ export default function PlatformPage() {
       newErrors.session_timeout_minutes = 'Session timeout must be between 5 and 1440 minutes';
     }
 
-    if (settings.max_file_size_mb < 1 || settings.max_file_size_mb > 1000) {
-      newErrors.max_file_size_mb = 'File size limit must be between 1 and 1000 MB';
+    if (settings.max_file_size_mb < 1 || settings.max_file_size_mb > 100) {
+      newErrors.max_file_size_mb = 'File size limit must be between 1 and 100 MB';
     }
 
     if (settings.max_concurrent_jobs < 1 || settings.max_concurrent_jobs > 100) {
       newErrors.max_concurrent_jobs = 'Concurrent jobs must be between 1 and 100';
     }
 
+    if (settings.max_concurrent_jobs_per_client < 1 || settings.max_concurrent_jobs_per_client > settings.max_concurrent_jobs) {
+      newErrors.max_concurrent_jobs_per_client = 'Per-client jobs must be between 1 and the platform limit';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!validateSettings()) return;
 
     try {
       setSaving(true);
 
+      const updatedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('platform_settings')
+        .upsert(
+          (['max_file_size_mb', 'max_concurrent_jobs', 'max_concurrent_jobs_per_client'] as const).map(key => ({
+            key,
+            value: settings[key],
+            updated_by: platformUser?.id,
+            updated_at: updatedAt,
+          }))
+        );
+
+      if (error) throw error;
+
       // Save settings to localStorage
       localStorage.setItem('platform_settings', JSON.stringify(settings));
 
@@ -335,9 +361,9 @@ export default function PlatformPage() {
                 error={errors.max_file_size_mb}
                 placeholder="50"
                 startIcon={<DocumentTextIcon className="h-5 w-5" />}
-                helperText="Maximum file size for uploads"
+                helperText="Maximum size of a chat export upload, checked when the upload starts (at most 100 MB)"
                 min={1}
-                max={1000}
+                max={100}
               />
 
               <Input
@@ -348,7 +374,20 @@ export default function PlatformPage() {
                 error={errors.max_concurrent_jobs}
                 placeholder="10"
                 startIcon={<Cog6ToothIcon className="h-5 w-5" />}
-                helperText="Maximum number of jobs that can run simultaneously"
+                helperText="Maximum number of jobs that can run simultaneously across all clients"
+                min={1}
+                max={100}
+              />
+
+              <Input
+                label="Max Concurrent Jobs per Client"
+                type="number"
+                value={settings.max_concurrent_jobs_per_client.toString()}
+                onChange={(e) => handleSettingChange('max_concurrent_jobs_per_client', parseInt(e.target.value) || 0)}
+                error={errors.max_concurrent_jobs_per_client}
+                placeholder="3"
+                startIcon={<Cog6ToothIcon className="h-5 w-5" />}
+                helperText="Keeps one client's uploads from holding every worker slot"
                 min={1}
                 max={100}
               />
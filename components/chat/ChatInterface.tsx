@@ -2,6 +2,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/Button';
+import { RedactedText } from '@/components/chat/RedactedText';
 import { cn } from '@/lib/utils';
 import toast from 'react-hot-toast';
 import { api } from '@/lib/api-services';
@@ -247,11 +248,11 @@ export function ChatInterface({
       {/* Messages Area - Mobile Optimized */}
       <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-3 sm:space-y-4">
         {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <MessageBubble key={message.id} message={message} clientId={clientId} />
         ))}
         
         {currentStreamingMessage && (
-          <MessageBubble message={currentStreamingMessage} />
+          <MessageBubble message={currentStreamingMessage} clientId={clientId} />
         )}
         
         <div ref={messagesEndRef} />
@@ -298,9 +299,12 @@ export function ChatInterface({
 
 interface MessageBubbleProps {
   message: ChatMessage;
+  clientId: string;
 }
 
-function MessageBubble({ message }: MessageBubbleProps) {
+function MessageBubble({ message, clientId }: MessageBubbleProps) {
+  const [openCitation, setOpenCitation] = useState<CitationDto | null>(null);
+
   return (
     <div className={cn(
       "flex",
@@ -325,9 +329,24 @@ function MessageBubble({ message }: MessageBubbleProps) {
             <div className="text-xs text-gray-600 dark:text-gray-400 mb-2">Sources:</div>
             <div className="flex flex-wrap gap-1 sm:gap-2">
               {message.citations.map((citation) => (
-                <CitationChip key={citation.chunk_id} citation={citation} />
+                <CitationChip
+                  key={citation.chunk_id}
+                  citation={citation}
+                  open={openCitation?.chunk_id === citation.chunk_id}
+                  onToggle={() => setOpenCitation(openCitation?.chunk_id === citation.chunk_id ? null : citation)}
+                />
               ))}
             </div>
+            {/* Same masked PII pills as the conversations page and the scorecard */}
+            {openCitation?.preview && (
+              <RedactedText
+                key={openCitation.chunk_id}
+                text={openCitation.preview}
+                clientId={Number(clientId)}
+                chunkId={openCitation.chunk_id}
+                className="mt-2 text-xs text-gray-700 dark:text-gray-300"
+              />
+            )}
           </div>
         )}
         
@@ -342,12 +361,28 @@ function MessageBubble({ message }: MessageBubbleProps) {
   );
 }
 
-function CitationChip({ citation }: { citation: CitationDto }) {
+interface CitationChipProps {
+  citation: CitationDto;
+  open: boolean;
+  onToggle: () => void;
+}
+
+function CitationChip({ citation, open, onToggle }: CitationChipProps) {
+  const messageCount = citation.source?.message_ids.length ?? 0;
   return (
-    <div className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+    <button
+      type="button"
+      onClick={onToggle}
+      className={cn(
+        "inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+        open && "ring-1 ring-blue-400"
+      )}
+      title={messageCount > 0 ? `Cliq messages: ${citation.source!.message_ids.join(', ')}` : undefined}
+    >
       <InformationCircleIcon className="h-3 w-3 mr-1" />
       <span className="truncate max-w-20">{citation.room_name}</span>
-    </div>
+      {messageCount > 0 && <span className="ml-1 opacity-75">· {messageCount} msg</span>}
+    </button>
   );
 }
 
@@ -355,9 +390,16 @@ function EvaluationScorecard({ evaluation }: { evaluation: EvaluationPayload })
   return (
     <div className="bg-white dark:bg-gray-900 rounded-lg p-3 sm:p-4 border border-gray-200 dark:border-gray-700">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-3 space-y-2 sm:space-y-0">
-        <h4 className="font-semibold text-gray-900 dark:text-white text-sm sm:text-base">
-          Evaluation Results
-        </h4>
+        <div>
+          <h4 className="font-semibold text-gray-900 dark:text-white text-sm sm:text-base">
+            Evaluation Results
+          </h4>
+          {evaluation.review_status && evaluation.review_status !== 'approved' && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Draft — counts in history once a reviewer approves it
+            </div>
+          )}
+        </div>
         <div className="text-left sm:text-right">
           <div className="text-lg sm:text-xl font-bold text-[#ffe600]">
             {evaluation.summary.weighted_total.toFixed(1)}/5.0
@@ -373,18 +415,32 @@ function EvaluationScorecard({ evaluation }: { evaluation: EvaluationPayload })
           <div key={driver.key} className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-1 sm:space-y-0">
             <span className="text-xs sm:text-sm text-gray-700 dark:text-gray-300">
               {driver.name}
+              {driver.consistency?.unstable && (
+                <span
+                  className="ml-2 text-xs text-orange-600 dark:text-orange-400"
+                  title={`${Math.round(driver.consistency.agreement * 100)}% agreement across ${driver.consistency.samples} samples`}
+                >
+                  High variance
+                </span>
+              )}
             </span>
-            <div className="flex items-center space-x-2">
-              <div className="w-16 sm:w-20 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-                <div
-                  className="bg-[#ffe600] h-2 rounded-full"
-                  style={{ width: `${(driver.score / 5) * 100}%` }}
-                />
-              </div>
-              <span className="text-xs sm:text-sm font-medium w-6 sm:w-8 text-right">
-                {driver.score.toFixed(1)}
+            {driver.score === null ? (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                Insufficient evidence
               </span>
-            </div>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <div className="w-16 sm:w-20 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                  <div
+                    className="bg-[#ffe600] h-2 rounded-full"
+                    style={{ width: `${(driver.score / 5) * 100}%` }}
+                  />
+                </div>
+                <span className="text-xs sm:text-sm font-medium w-6 sm:w-8 text-right">
+                  {driver.score.toFixed(1)}
+                </span>
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -2,7 +2,9 @@
 
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/Button';
+import { RedactedText } from '@/components/chat/RedactedText';
 import { cn } from '@/lib/utils';
+import { ScoreConsistency } from '@/types/api';
 import {
   ChartBarIcon,
   DocumentArrowDownIcon,
@@ -31,6 +33,8 @@ interface DriverResult {
   citations: Citation[];
   insufficient_evidence?: boolean;
   missing_citations?: boolean;
+  // Present when the evaluation merged several samples
+  consistency?: ScoreConsistency;
 }
 
 interface EvaluationResult {
@@ -43,6 +47,8 @@ interface EvaluationResult {
   subject_user: string;
   evaluation_timestamp: string;
   result_json?: any;
+  record_id?: number;
+  review_status?: 'draft' | 'in_review' | 'approved' | 'rejected';
 }
 
 interface EvaluationScorecardProps {
@@ -114,6 +120,13 @@ export function EvaluationScorecard({ evaluation, className }: EvaluationScoreca
                 Subject: <span className="font-medium">{evaluation.subject_user}</span> • 
                 {new Date(evaluation.evaluation_timestamp).toLocaleString()}
               </p>
+              {evaluation.review_status && evaluation.review_status !== 'approved' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {evaluation.review_status === 'rejected'
+                    ? 'Rejected in review — not counted in history'
+                    : 'Awaiting review — counts in history once approved'}
+                </p>
+              )}
             </div>
           </div>
           
@@ -226,7 +239,8 @@ function DriverCard({
                          driver.score >= 2.5 ? 'text-orange-600 dark:text-orange-400 bg-orange-100 dark:bg-orange-900/20' :
                          'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/20';
 
-  const hasIssues = driver.insufficient_evidence || driver.missing_citations;
+  const unstable = !!driver.consistency?.unstable;
+  const hasIssues = driver.insufficient_evidence || driver.missing_citations || unstable;
 
   return (
     <div className="border border-gray-200 dark:border-gray-700 rounded-xl overflow-hidden">
@@ -251,6 +265,11 @@ function DriverCard({
           </div>
           
           <div className="flex items-center space-x-4">
+            {unstable && (
+              <div className="px-2 py-1 bg-orange-100 dark:bg-orange-900/20 text-orange-700 dark:text-orange-400 text-xs font-medium rounded-full">
+                High Variance
+              </div>
+            )}
             {driver.missing_citations ? (
               <div className="px-2 py-1 bg-orange-100 dark:bg-orange-900/20 text-orange-700 dark:text-orange-400 text-xs font-medium rounded-full">
                 Missing Citations
@@ -356,6 +375,32 @@ function DriverCard({
               </p>
             </div>
           )}
+
+          {driver.consistency && (
+            <div className={cn(
+              "mt-4 p-3 rounded-lg border",
+              unstable
+                ? "bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800"
+                : "bg-gray-50 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700"
+            )}>
+              <div className="flex items-center space-x-2 mb-2">
+                <ChartBarIcon className={cn("h-4 w-4", unstable ? "text-orange-500" : "text-gray-500")} />
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Consistency across {driver.consistency.samples} samples
+                </span>
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Mean {driver.consistency.mean !== null ? driver.consistency.mean.toFixed(2) : '—'} ·
+                variance {driver.consistency.variance !== null ? driver.consistency.variance.toFixed(2) : '—'} ·
+                {' '}{Math.round(driver.consistency.agreement * 100)}% agreement
+              </p>
+              {unstable && (
+                <p className="mt-1 text-sm text-orange-600 dark:text-orange-400">
+                  Independent samples disagreed on this score. Treat it as a rough indication and check the evidence.
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -394,9 +439,7 @@ function CitationCard({ citation, showPreview, onTogglePreview }: CitationCardPr
       {showPreview && (
         <div className="px-3 pb-3 border-t border-gray-200 dark:border-gray-700">
           <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
-            <p className="text-sm text-gray-600 dark:text-gray-400 italic">
-              "{citation.snippet}"
-            </p>
+            <RedactedText text={citation.snippet} className="italic" />
           </div>
         </div>
       )}
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import toast from 'react-hot-toast';
+import { api } from '@/lib/api-services';
+import { getErrorMessage } from '@/lib/api-client';
+import { useAuth } from '@/contexts/AuthContext';
+import { EyeIcon, EyeSlashIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+
+// Tokens ([PHONE_3f9a0c12de]) can be revealed from the vault; masks ([PHONE]) cannot
+const REDACTION_PATTERN = /\[(EMAIL|PHONE|CARD|IBAN|BANK_ACCOUNT|IFSC|PAN|AADHAAR|ADDRESS)(?:_([0-9a-f]{10}))?\]/g;
+
+const categoryLabels: Record<string, string> = {
+  EMAIL: 'Email',
+  PHONE: 'Phone',
+  CARD: 'Card',
+  IBAN: 'IBAN',
+  BANK_ACCOUNT: 'Account no.',
+  IFSC: 'IFSC',
+  PAN: 'PAN',
+  AADHAAR: 'Aadhaar',
+  ADDRESS: 'Address',
+};
+
+interface RedactedTextProps {
+  text: string;
+  // Reveal is offered to admins when the client is known
+  clientId?: number;
+  chunkId?: number;
+  className?: string;
+}
+
+/**
+ * Chunk text with redacted PII shown as masked pills. Admins can reveal the
+ * tokenised values; each reveal is audited server-side.
+ */
+export function RedactedText({ text, clientId, chunkId, className }: RedactedTextProps) {
+  const { supabase, hasRole } = useAuth();
+  const [revealed, setRevealed] = useState<Record<string, string> | null>(null);
+  const [revealing, setRevealing] = useState(false);
+
+  const parts = splitRedactions(text);
+  const tokens = Array.from(new Set(parts.filter((part) => part.token).map((part) => part.raw)));
+  const canReveal = clientId !== undefined && tokens.length > 0 && (hasRole('admin') || hasRole('super_admin'));
+
+  const handleReveal = async () => {
+    if (clientId === undefined) return;
+    setRevealing(true);
+    try {
+      const response = await api.pii.reveal(supabase, clientId, tokens, chunkId);
+      setRevealed(Object.fromEntries(response.values.map((entry) => [entry.token, entry.value])));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap">
+        {parts.map((part, index) => {
+          if (!part.category) return <React.Fragment key={index}>{part.raw}</React.Fragment>;
+
+          const original = part.token ? revealed?.[part.raw] : undefined;
+          if (original !== undefined) {
+            return (
+              <span
+                key={index}
+                className="px-1 rounded bg-[#ffe600]/30 text-gray-900 dark:text-white"
+                title={`${categoryLabels[part.category]} (revealed)`}
+              >
+                {original}
+              </span>
+            );
+          }
+
+          return (
+            <span
+              key={index}
+              className="inline-flex items-center px-1.5 rounded bg-gray-200 dark:bg-gray-700 text-xs font-medium text-gray-600 dark:text-gray-300 align-baseline"
+              title={part.token ? `Redacted ${categoryLabels[part.category].toLowerCase()}` : `Masked ${categoryLabels[part.category].toLowerCase()}`}
+            >
+              <LockClosedIcon className="h-3 w-3 mr-1" />
+              {categoryLabels[part.category]}
+            </span>
+          );
+        })}
+      </p>
+
+      {canReveal && (
+        <button
+          onClick={revealed ? () => setRevealed(null) : handleReveal}
+          disabled={revealing}
+          className={cn(
+            'mt-3 inline-flex items-center text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white',
+            revealing && 'opacity-50'
+          )}
+        >
+          {revealed ? <EyeSlashIcon className="h-4 w-4 mr-1" /> : <EyeIcon className="h-4 w-4 mr-1" />}
+          {revealed ? 'Hide personal data' : revealing ? 'Revealing...' : `Reveal ${tokens.length} redacted value${tokens.length === 1 ? '' : 's'}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function splitRedactions(text: string): Array<{ raw: string; category?: string; token?: boolean }> {
+  const parts: Array<{ raw: string; category?: string; token?: boolean }> = [];
+  const pattern = new RegExp(REDACTION_PATTERN.source, 'g');
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > cursor) parts.push({ raw: text.slice(cursor, match.index) });
+    parts.push({ raw: match[0], category: match[1], token: Boolean(match[2]) });
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < text.length) parts.push({ raw: text.slice(cursor) });
+  return parts;
+}
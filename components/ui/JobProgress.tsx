@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { cn } from '@/lib/utils';
+import { JobDto, JobStage } from '@/types/api';
+
+const STAGES: Array<{ key: JobStage; label: string }> = [
+  { key: 'parsing', label: 'Parsing' },
+  { key: 'chunking', label: 'Chunking' },
+  { key: 'embedding', label: 'Embedding' },
+  { key: 'indexing', label: 'Indexing' },
+];
+
+interface JobProgressProps {
+  job: Pick<Partial<JobDto>, 'status' | 'stage' | 'counts_json' | 'total_items'>;
+  className?: string;
+}
+
+/**
+ * Ingest stages with the counts the worker reports for each
+ */
+export function JobProgress({ job, className }: JobProgressProps) {
+  const counts = job.counts_json ?? {};
+  const current = job.status === 'completed'
+    ? STAGES.length
+    : STAGES.findIndex(stage => stage.key === job.stage);
+
+  const details: Record<JobStage, string | null> = {
+    parsing: counts.messages_parsed !== undefined
+      ? `${counts.messages_parsed.toLocaleString()} messages` +
+        (counts.messages_known ? ` (${(counts.messages_new ?? 0).toLocaleString()} new)` : '')
+      : null,
+    chunking: counts.chunks_created !== undefined ? `${counts.chunks_created.toLocaleString()} chunks` : null,
+    embedding: job.total_items
+      ? `${(counts.embeddings_generated ?? 0).toLocaleString()} / ${job.total_items.toLocaleString()}`
+      : null,
+    indexing: null,
+  };
+
+  return (
+    <div className={cn("grid grid-cols-4 gap-2", className)}>
+      {STAGES.map((stage, index) => {
+        const done = index < current;
+        const active = index === current && job.status === 'processing';
+
+        return (
+          <div key={stage.key} className="min-w-0">
+            <div
+              className={cn(
+                "h-1.5 rounded-full transition-colors duration-300",
+                done ? 'bg-green-500' : active ? 'bg-[#ffe600] animate-pulse' : 'bg-gray-200 dark:bg-gray-700'
+              )}
+            />
+            <div
+              className={cn(
+                "mt-1 text-xs truncate",
+                active ? 'font-medium text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'
+              )}
+            >
+              {stage.label}
+            </div>
+            {details[stage.key] && (done || active) && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {details[stage.key]}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Success toast for a processed export, linking to the chat for its client
+ */
+export function toastJobCompleted(clientId: string | number, fileName: string) {
+  toast.success((t) => (
+    <span className="text-sm">
+      {fileName} is ready to search.{' '}
+      <Link
+        href={`/chat/${clientId}/conversations`}
+        onClick={() => toast.dismiss(t.id)}
+        className="font-medium underline"
+      >
+        Ask questions
+      </Link>
+    </span>
+  ), { duration: 8000 });
+}
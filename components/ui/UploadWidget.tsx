@@ -1,11 +1,13 @@
 'use client';
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { cn } from '@/lib/utils';
 import toast from 'react-hot-toast';
-import { api } from '@/lib/api-services';
+import { api, fileValidation } from '@/lib/api-services';
 import { getErrorMessage } from '@/lib/api-client';
-import { UploadProgress } from '@/types/api';
+import { JobDto, SavedUploadSession, UploadProgress } from '@/types/api';
+import { useJobUpdates, jobRowToDto, JobRow } from '@/hooks/useJobUpdates';
+import { JobProgress, toastJobCompleted } from './JobProgress';
 import {
   DocumentArrowUpIcon,
   CloudArrowUpIcon,
@@ -14,18 +16,8 @@ import {
   ArrowPathIcon,
   XMarkIcon,
   DocumentTextIcon,
-  InformationCircleIcon,
 } from '@heroicons/react/24/outline';
 
-// SHA-256 calculation utility
-async function calculateSHA256(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  return hashHex;
-}
-
 interface UploadFile {
   file: File;
   id: string;
@@ -33,7 +25,11 @@ interface UploadFile {
   progress: number;
   digest?: string;
   jobId?: number;
+  // Ingest job of the upload, followed live until it completes or fails
+  job?: Partial<JobDto>;
   error?: string;
+  message?: string;
+  resumed?: boolean;
   stats?: {
     conversations: number;
     participants: number;
@@ -51,7 +47,7 @@ interface UploadWidgetProps {
   supabase: any; // Add supabase client
   onUploadComplete?: (jobId: number, fileName: string) => void;
   onUploadError?: (error: string, fileName: string) => void;
-  maxFileSize?: number; // in MB
+  maxFileSize?: number; // in MB; defaults to the platform setting max_file_size_mb
   allowedTypes?: string[];
   className?: string;
 }
@@ -62,18 +58,71 @@ export function UploadWidget({
   supabase,
   onUploadComplete,
   onUploadError,
-  maxFileSize = 25,
-  allowedTypes = ['.txt', '.log', '.csv'],
+  maxFileSize: maxFileSizeOverride,
+  allowedTypes = fileValidation.supportedExtensions,
   className
 }: UploadWidgetProps) {
   const [files, setFiles] = useState<UploadFile[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [platformMaxFileSize, setPlatformMaxFileSize] = useState<number | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SavedUploadSession[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  const maxFileSize = maxFileSizeOverride ?? platformMaxFileSize;
+
+  useEffect(() => {
+    if (maxFileSizeOverride === undefined) {
+      api.uploads.getMaxFileSizeMb(supabase).then(setPlatformMaxFileSize);
+    }
+  }, [maxFileSizeOverride]);
+
+  // Uploads interrupted by a reload or a dropped connection in this room
+  useEffect(() => {
+    setSavedSessions(api.uploads.savedSessions(roomId));
+  }, [roomId]);
+
+  // Move a file through processing as its ingest job advances
+  const applyJobRow = (row: JobRow) => {
+    const uploadFile = filesRef.current.find(f => f.jobId === row.id);
+    if (!uploadFile || uploadFile.status === 'completed') return;
+
+    const job = jobRowToDto(row);
+    const failed = row.status === 'failed' || row.status === 'dead_letter' || row.status === 'cancelled';
+
+    if (row.status === 'completed') {
+      toastJobCompleted(clientId, uploadFile.file.name);
+    }
+
+    setFiles(prev => prev.map(f => {
+      if (f.id !== uploadFile.id) return f;
+      if (row.status === 'completed') {
+        return { ...f, job, status: 'completed' as const, progress: 100, message: undefined, error: undefined };
+      }
+      if (failed) {
+        return {
+          ...f,
+          job,
+          status: 'error' as const,
+          error: row.status === 'cancelled' ? 'Processing was cancelled' : row.error_message || 'Processing failed',
+        };
+      }
+      return {
+        ...f,
+        job,
+        status: 'processing' as const,
+        progress: row.progress ?? 0,
+        message: row.status === 'queued' && row.failed_attempts > 0
+          ? `Attempt ${row.failed_attempts} failed, retrying`
+          : row.status === 'processing' ? undefined : 'Waiting to be processed',
+      };
+    }));
+  };
 
-  // Advanced file types
-  const advancedTypes = ['.csv', '.json'];
-  const currentAllowedTypes = showAdvanced ? [...allowedTypes, ...advancedTypes] : allowedTypes;
+  useJobUpdates(supabase, clientId, {
+    onJob: applyJobRow,
+  });
 
   const parseChatFile = (content: string) => {
     const lines = content.split('\n').filter(line => line.trim());
@@ -167,15 +216,16 @@ export function UploadWidget({
   };
 
   const validateFile = (file: File): string | null => {
-    // Check file size
-    if (file.size > maxFileSize * 1024 * 1024) {
-      return `File size exceeds ${maxFileSize}MB limit`;
+    // Shared checks: supported format, size limit, not empty
+    const validation = fileValidation.validateFile(file, maxFileSize ?? undefined);
+    if (!validation.valid) {
+      return validation.error || 'Invalid file';
     }
 
-    // Check file type
+    // Pages can narrow the accepted formats further
     const extension = '.' + file.name.split('.').pop()?.toLowerCase();
-    if (!currentAllowedTypes.includes(extension)) {
-      return `File type not supported. Allowed: ${currentAllowedTypes.join(', ')}`;
+    if (!allowedTypes.includes(extension)) {
+      return `File type not supported. Allowed: ${allowedTypes.join(', ')}`;
     }
 
     return null;
@@ -193,72 +243,57 @@ export function UploadWidget({
     setFiles(prev => [...prev, uploadFile]);
 
     try {
-      // Step 1: Calculate SHA-256 digest
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { ...f, status: 'calculating' as const, progress: 10 } : f
-      ));
-
-      const digest = await calculateSHA256(file);
-      
-      // Parse chat file to extract statistics
-      const fileContent = await file.text();
-      const stats = parseChatFile(fileContent);
-      
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { ...f, digest, stats, progress: 20 } : f
-      ));
+      // Parse chat file to extract statistics (CSV and JSON are parsed server-side only)
+      const stats = file.name.toLowerCase().endsWith('.txt')
+        ? parseChatFile(await file.text())
+        : undefined;
 
-      // Step 2: Get signed upload URL
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { ...f, status: 'uploading' as const, progress: 30 } : f
+      setFiles(prev => prev.map(f =>
+        f.id === fileId ? { ...f, stats } : f
       ));
 
-      const requestData = {
-        client_id: parseInt(clientId),
-        room_id: parseInt(roomId),
-        file_name: file.name,
-        file_digest: digest,
-      };
-
-      const uploadUrlResponse = await api.uploads.requestUploadUrl(supabase, requestData);
-
-      const { signed_url, job_id } = uploadUrlResponse;
+      const { job_id } = await api.uploads.uploadResumable(
+        supabase,
+        clientId,
+        roomId,
+        file,
+        (update: UploadProgress) => {
+          if (update.stage === 'error') return;
+          // Once uploaded, the file is processing until its ingest job finishes
+          const status = update.stage === 'complete'
+            ? 'processing' as const
+            : update.stage === 'preparing' ? 'calculating' as const : update.stage;
+          setFiles(prev => prev.map(f =>
+            f.id === fileId
+              ? {
+                  ...f,
+                  status,
+                  progress: update.stage === 'complete' ? 0 : update.progress,
+                  message: update.stage === 'complete' ? 'Waiting to be processed' : update.message,
+                  jobId: update.job_id,
+                  resumed: update.resumed,
+                }
+              : f
+          ));
+          if (update.upload_id) {
+            setSavedSessions(api.uploads.savedSessions(roomId));
+          }
+        }
+      );
 
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { ...f, jobId: job_id, progress: 40 } : f
-      ));
+      setSavedSessions(api.uploads.savedSessions(roomId));
+      onUploadComplete?.(job_id, file.name);
 
-      // Step 3: Upload file to signed URL
-      const uploadResponse = await fetch(signed_url, {
-        method: 'PUT',
-        body: file,
-        headers: {
-          'Content-Type': file.type || 'application/octet-stream',
-        },
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error('Failed to upload file');
+      // The job may have advanced before the realtime channel saw it
+      const { data: jobRow } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('id', job_id)
+        .maybeSingle();
+      if (jobRow) {
+        applyJobRow(jobRow as JobRow);
       }
 
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { ...f, progress: 70 } : f
-      ));
-
-      // Step 4: Trigger ingestion
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { ...f, status: 'processing' as const, progress: 80 } : f
-      ));
-
-      await api.uploads.confirmIngest(supabase, { job_id });
-
-      // Complete
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { ...f, status: 'completed' as const, progress: 100 } : f
-      ));
-
-      onUploadComplete?.(job_id, file.name);
-
     } catch (error: any) {
       console.error('❌ DEBUG - Upload error:', error);
       console.error('❌ DEBUG - Error type:', typeof error);
@@ -270,10 +305,16 @@ export function UploadWidget({
       setFiles(prev => prev.map(f => 
         f.id === fileId ? { ...f, status: 'error' as const, error: errorMessage } : f
       ));
+      setSavedSessions(api.uploads.savedSessions(roomId));
       onUploadError?.(errorMessage, file.name);
     }
   };
 
+  const discardSession = (uploadId: number) => {
+    api.uploads.forgetSession(uploadId);
+    setSavedSessions(api.uploads.savedSessions(roomId));
+  };
+
   const handleFileSelect = useCallback((selectedFiles: FileList | File[]) => {
     const fileArray = Array.from(selectedFiles);
     
@@ -285,7 +326,7 @@ export function UploadWidget({
       }
       processFile(file);
     }
-  }, [clientId, roomId, maxFileSize, currentAllowedTypes]);
+  }, [clientId, roomId, maxFileSize, allowedTypes]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -336,7 +377,7 @@ export function UploadWidget({
           ref={fileInputRef}
           type="file"
           multiple
-          accept={currentAllowedTypes.join(',')}
+          accept={allowedTypes.join(',')}
           onChange={(e) => e.target.files && handleFileSelect(e.target.files)}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         />
@@ -351,7 +392,7 @@ export function UploadWidget({
               Drop files here or click to browse
             </h3>
             <p className="text-gray-600 dark:text-gray-400 text-sm">
-              Supported formats: {currentAllowedTypes.join(', ')} • Max size: {maxFileSize}MB
+              Supported formats: {allowedTypes.join(', ')}{maxFileSize ? ` • Max size: ${maxFileSize}MB` : ''}
             </p>
           </div>
           
@@ -366,29 +407,38 @@ export function UploadWidget({
         </div>
       </div>
 
-      {/* Advanced Toggle */}
-      <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl">
-        <div className="flex items-center space-x-2">
-          <InformationCircleIcon className="h-5 w-5 text-gray-500" />
-          <span className="text-sm text-gray-600 dark:text-gray-400">
-            Advanced file types (.csv, .json)
-          </span>
+      {/* Interrupted Uploads (not the ones running on this page) */}
+      {savedSessions.filter(session => !files.some(f => f.jobId === session.job_id && f.status !== 'error')).length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Interrupted Uploads
+          </h4>
+          {savedSessions
+            .filter(session => !files.some(f => f.jobId === session.job_id && f.status !== 'error'))
+            .map(session => (
+              <div
+                key={session.upload_id}
+                className="flex items-center justify-between gap-4 bg-amber-50 dark:bg-amber-900/20 rounded-xl p-4 border border-amber-200 dark:border-amber-800"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {session.file_name}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {session.uploaded_parts} of {session.part_count} parts uploaded • Select this file again to continue
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => discardSession(session.upload_id)}
+                  className="text-xs font-medium text-gray-500 hover:text-red-600 transition-colors duration-200"
+                >
+                  Discard
+                </button>
+              </div>
+            ))}
         </div>
-        <button
-          onClick={() => setShowAdvanced(!showAdvanced)}
-          className={cn(
-            "relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200",
-            showAdvanced ? "bg-[#ffe600]" : "bg-gray-200 dark:bg-gray-700"
-          )}
-        >
-          <span
-            className={cn(
-              "inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200",
-              showAdvanced ? "translate-x-6" : "translate-x-1"
-            )}
-          />
-        </button>
-      </div>
+      )}
 
       {/* File List */}
       {files.length > 0 && (
@@ -419,7 +469,7 @@ interface FileUploadCardProps {
 }
 
 function FileUploadCard({ uploadFile, onRemove, onRetry }: FileUploadCardProps) {
-  const { file, status, progress, error, jobId } = uploadFile;
+  const { file, status, progress, error, jobId, job, message, resumed } = uploadFile;
 
   const statusConfig = {
     pending: { color: 'text-gray-500', bg: 'bg-gray-100', icon: DocumentTextIcon },
@@ -445,7 +495,8 @@ function FileUploadCard({ uploadFile, onRemove, onRetry }: FileUploadCardProps)
               {file.name}
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400">
-              {(file.size / 1024 / 1024).toFixed(2)} MB • {status === 'calculating' ? 'parsing file...' : status.replace('_', ' ')}
+              {(file.size / 1024 / 1024).toFixed(2)} MB • {(status === 'uploading' || status === 'processing') && message ? message : status === 'calculating' ? 'preparing...' : status.replace('_', ' ')}
+              {resumed && status !== 'completed' && ' (resumed)'}
             </p>
           </div>
         </div>
@@ -470,6 +521,11 @@ function FileUploadCard({ uploadFile, onRemove, onRetry }: FileUploadCardProps)
         </div>
       </div>
 
+      {/* Ingest Stages */}
+      {status === 'processing' && job?.status === 'processing' && job.stage && (
+        <JobProgress job={job} className="mb-2" />
+      )}
+
       {/* Progress Bar */}
       {status !== 'completed' && status !== 'error' && (
         <div className="mb-2">
@@ -528,7 +584,7 @@ function FileUploadCard({ uploadFile, onRemove, onRetry }: FileUploadCardProps)
       {status === 'completed' && jobId && (
         <div className="mt-2 p-2 bg-green-50 dark:bg-green-900/20 rounded-lg">
           <p className="text-xs text-green-600 dark:text-green-400">
-            Upload successful! Job ID: {jobId}
+            Processed{job?.counts_json?.chunks_created !== undefined ? ` into ${job.counts_json.chunks_created.toLocaleString()} chunks` : ''}. Job ID: {jobId}
           </p>
         </div>
       )}
@@ -98,14 +98,26 @@ link_project() {
 FUNCTIONS=(
     "clients-create"
     "rooms-create"
+    "rooms-settings"
     "upload-url"
+    "upload-session"
     "ingest"
+    "ingest-worker"
     "jobs"
     "conversations-create"
     "query"
+    "conversation-memory"
+    "retrieval-eval"
+    "evaluations"
+    "team-evaluations"
+    "team-evaluation-worker"
+    "people"
+    "pii"
     "feedback"
     "job-retry"
+    "job-cancel"
     "reindex"
+    "reindex-worker"
 )
 
 # Function to deploy a single function
@@ -0,0 +1,111 @@
+import { useEffect, useRef } from 'react';
+import { JobDto, JobStage, JobStatus } from '@/types/api';
+
+// Rows as Realtime delivers them: table columns, not the jobs API's DTO
+export interface JobRow {
+  id: number;
+  client_id: number;
+  room_id: number | null;
+  upload_id: number | null;
+  job_type: string;
+  status: JobStatus;
+  stage: JobStage | null;
+  progress: number | null;
+  total_items: number | null;
+  processed_items: number | null;
+  counts_json: JobDto['counts_json'] | null;
+  error_code: string | null;
+  error_message: string | null;
+  failed_attempts: number;
+  max_attempts: number;
+  run_after: string | null;
+  cancel_requested_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UploadRow {
+  id: number;
+  client_id: number;
+  room_id: number;
+  filename: string;
+  original_filename: string;
+  status: string;
+}
+
+type ChangeEvent = 'INSERT' | 'UPDATE';
+
+interface UseJobUpdatesHandlers {
+  onJob?: (job: JobRow, event: ChangeEvent) => void;
+  onUpload?: (upload: UploadRow, event: ChangeEvent) => void;
+}
+
+/**
+ * The JobDto fields a Realtime job row carries
+ */
+export function jobRowToDto(row: JobRow): Partial<JobDto> {
+  return {
+    status: row.status,
+    stage: row.stage,
+    progress: row.progress ?? 0,
+    total_items: row.total_items,
+    processed_items: row.processed_items ?? 0,
+    counts_json: row.counts_json ?? {},
+    error_code: row.error_code ?? undefined,
+    error_message: row.error_message ?? undefined,
+    failed_attempts: row.failed_attempts,
+    max_attempts: row.max_attempts,
+    next_attempt_at: row.status === 'queued' ? row.run_after : null,
+    cancel_requested: !!row.cancel_requested_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Follow inserts and updates of a client's jobs and uploads. RLS limits the
+ * rows to clients the user can access.
+ */
+export const useJobUpdates = (
+  supabase: any,
+  clientId: string | undefined,
+  { onJob, onUpload }: UseJobUpdatesHandlers
+) => {
+  // Latest handlers, so a re-render does not resubscribe
+  const handlers = useRef<UseJobUpdatesHandlers>({ onJob, onUpload });
+  handlers.current = { onJob, onUpload };
+
+  // Two components may follow the same client; each needs its own channel
+  const channelId = useRef(Math.random().toString(36).substring(2, 10));
+
+  useEffect(() => {
+    if (!supabase || !clientId) return;
+
+    const channel = supabase
+      .channel(`realtime:jobs:${clientId}:${channelId.current}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'jobs',
+        filter: `client_id=eq.${clientId}`,
+      }, (payload: any) => {
+        if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+          handlers.current.onJob?.(payload.new as JobRow, payload.eventType);
+        }
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'uploads',
+        filter: `client_id=eq.${clientId}`,
+      }, (payload: any) => {
+        if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+          handlers.current.onUpload?.(payload.new as UploadRow, payload.eventType);
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, clientId]);
+};
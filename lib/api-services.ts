@@ -3,19 +3,29 @@
  * Organized by feature area with proper typing
  */
 
-import { apiFetch, apiSSE, calculateSHA256, uploadFile, retryWithBackoff, SSEHandlers } from './api-client';
+import { apiFetch, apiSSE, calculateSHA256, uploadFile, retryWithBackoff, getErrorMessage, SSEHandlers } from './api-client';
+import { Sha256 } from './sha256';
 import {
   CreateClientRequest,
   CreateClientResponse,
   CreateRoomRequest,
   CreateRoomResponse,
+  UpdateRoomSettingsRequest,
+  UpdateRoomSettingsResponse,
   UploadUrlRequest,
   UploadUrlResponse,
   IngestRequest,
   IngestResponse,
+  StartUploadSessionRequest,
+  UploadSessionResponse,
+  UploadSessionStatusResponse,
+  SignPartsResponse,
+  SavedUploadSession,
   JobsResponse,
   JobRetryRequest,
   JobRetryResponse,
+  JobCancelRequest,
+  JobCancelResponse,
   CreateConversationRequest,
   CreateConversationResponse,
   QueryRequest,
@@ -23,6 +33,33 @@ import {
   FeedbackResponse,
   ReindexRequest,
   ReindexResponse,
+  EvaluationSubjectsResponse,
+  EvaluationHistoryResponse,
+  EvaluationRecordDto,
+  DriverTrendsResponse,
+  TrendBucket,
+  ReviewStatus,
+  ReviewTransition,
+  ReviewQueueResponse,
+  EvaluationReviewResponse,
+  ReviewEventDto,
+  ScoreAdjustmentRequest,
+  StartTeamEvaluationRequest,
+  StartTeamEvaluationResponse,
+  TeamEvaluationsResponse,
+  TeamEvaluationReportResponse,
+  PeopleResponse,
+  PersonResponse,
+  NewPersonAlias,
+  AliasSuggestionsResponse,
+  UnlinkedParticipantsResponse,
+  PiiCategory,
+  RedactionAction,
+  RedactionPolicyResponse,
+  RedactionPreviewResponse,
+  RevealResponse,
+  RubricResponse,
+  RubricVersionDto,
   UploadProgress,
 } from '@/types/api';
 
@@ -54,9 +91,35 @@ export const roomServices = {
       })
     );
   },
+
+  /**
+   * Save a room's import format and CSV column mapping
+   */
+  async updateIngestSettings(
+    supabase: any,
+    request: UpdateRoomSettingsRequest
+  ): Promise<UpdateRoomSettingsResponse> {
+    return apiFetch<UpdateRoomSettingsResponse>(supabase, '/rooms-settings', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  },
 };
 
 // Upload & Ingestion Services
+
+// Used when platform_settings has no max_file_size_mb
+const DEFAULT_MAX_FILE_SIZE_MB = 50;
+
+// Ceiling enforced by upload-session whatever max_file_size_mb says
+const MAX_INGEST_FILE_SIZE_MB = 100;
+
+// localStorage key of interrupted resumable uploads
+const UPLOAD_SESSIONS_KEY = 'upload_sessions';
+
+// Parts signed per sign_parts call
+const SIGN_BATCH_SIZE = 20;
+
 export const uploadServices = {
   /**
    * Request upload URL for a file
@@ -158,9 +221,251 @@ export const uploadServices = {
       throw error;
     }
   },
+
+  /**
+   * Upload size limit in MB, from the platform setting max_file_size_mb
+   */
+  async getMaxFileSizeMb(supabase: any): Promise<number> {
+    const { data, error } = await supabase
+      .from('platform_settings')
+      .select('value')
+      .eq('key', 'max_file_size_mb')
+      .maybeSingle();
+
+    if (error) {
+      console.warn('Could not load max_file_size_mb:', error.message);
+    }
+    const value = Number(data?.value);
+    return Math.min(Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_FILE_SIZE_MB, MAX_INGEST_FILE_SIZE_MB);
+  },
+
+  /**
+   * Start a resumable upload session
+   */
+  async startSession(supabase: any, request: StartUploadSessionRequest): Promise<UploadSessionResponse> {
+    return apiFetch<UploadSessionResponse>(supabase, '/upload-session', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'start', ...request }),
+    });
+  },
+
+  /**
+   * Signed URLs for up to 20 parts of a session
+   */
+  async signParts(supabase: any, uploadId: number, partNumbers: number[]): Promise<SignPartsResponse> {
+    return apiFetch<SignPartsResponse>(supabase, '/upload-session', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'sign_parts', upload_id: uploadId, part_numbers: partNumbers }),
+    });
+  },
+
+  /**
+   * Parts of a session already stored
+   */
+  async sessionStatus(supabase: any, uploadId: number): Promise<UploadSessionStatusResponse> {
+    return apiFetch<UploadSessionStatusResponse>(supabase, '/upload-session', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'status', upload_id: uploadId }),
+    });
+  },
+
+  /**
+   * Finish a session once every part is stored
+   */
+  async completeSession(supabase: any, uploadId: number, fileDigest: string): Promise<UploadSessionResponse> {
+    return apiFetch<UploadSessionResponse>(supabase, '/upload-session', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'complete', upload_id: uploadId, file_digest: fileDigest }),
+    });
+  },
+
+  /**
+   * Interrupted uploads saved in this browser, optionally for one room
+   */
+  savedSessions(roomId?: string): SavedUploadSession[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const saved: SavedUploadSession[] = JSON.parse(localStorage.getItem(UPLOAD_SESSIONS_KEY) || '[]');
+      return roomId ? saved.filter(session => String(session.room_id) === roomId) : saved;
+    } catch {
+      return [];
+    }
+  },
+
+  saveSession(session: SavedUploadSession): void {
+    const others = this.savedSessions().filter(saved => saved.upload_id !== session.upload_id);
+    localStorage.setItem(UPLOAD_SESSIONS_KEY, JSON.stringify([...others, session]));
+  },
+
+  forgetSession(uploadId: number): void {
+    const remaining = this.savedSessions().filter(saved => saved.upload_id !== uploadId);
+    localStorage.setItem(UPLOAD_SESSIONS_KEY, JSON.stringify(remaining));
+  },
+
+  /**
+   * Resumable upload flow: send the file in parts, hashing as it goes, then
+   * complete the session and confirm ingest. Progress is saved in the browser;
+   * selecting the same file again in the same room continues with the parts
+   * that are not stored yet.
+   */
+  async uploadResumable(
+    supabase: any,
+    clientId: string,
+    roomId: string,
+    file: File,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<{ job_id: number; upload_id: number }> {
+    try {
+      onProgress?.({
+        stage: 'preparing',
+        progress: 0,
+        message: 'Starting upload...',
+      });
+
+      // Pick up an interrupted session for this exact file, if there is one
+      const saved = this.savedSessions(roomId).find(session =>
+        session.file_name === file.name &&
+        session.file_size === file.size &&
+        session.file_last_modified === file.lastModified
+      );
+
+      let session: UploadSessionStatusResponse['status'] | null = null;
+      if (saved) {
+        try {
+          session = (await this.sessionStatus(supabase, saved.upload_id)).status;
+        } catch (error) {
+          console.warn('Saved upload session is no longer available, starting over:', error);
+          this.forgetSession(saved.upload_id);
+        }
+      }
+
+      if (session?.completed) {
+        // Completed before the page went away; only ingest may still be unconfirmed
+        await this.confirmIngest(supabase, { job_id: session.job_id }).catch((error: any) => {
+          if (!getErrorMessage(error).includes('E_INVALID_JOB_STATUS')) throw error;
+        });
+        this.forgetSession(session.upload_id);
+        onProgress?.({
+          stage: 'complete',
+          progress: 100,
+          message: 'Upload complete!',
+          job_id: session.job_id,
+          upload_id: session.upload_id,
+          resumed: true,
+        });
+        return { job_id: session.job_id, upload_id: session.upload_id };
+      }
+
+      if (!session) {
+        const started = await this.startSession(supabase, {
+          client_id: parseInt(clientId),
+          room_id: parseInt(roomId),
+          file_name: file.name,
+          file_size: file.size,
+        });
+        session = { ...started.session, uploaded_parts: [], completed: false };
+      }
+
+      const { upload_id, job_id, part_size, part_count } = session;
+      const stored = new Set(session.uploaded_parts);
+      const resumed = stored.size > 0;
+      const remember = () => this.saveSession({
+        upload_id,
+        job_id,
+        client_id: parseInt(clientId),
+        room_id: parseInt(roomId),
+        file_name: file.name,
+        file_size: file.size,
+        file_last_modified: file.lastModified,
+        part_count,
+        uploaded_parts: stored.size,
+        saved_at: new Date().toISOString(),
+      });
+      remember();
+
+      // Every part is hashed in order; only the missing ones are sent
+      const hash = new Sha256();
+      let signed = new Map<number, string>();
+
+      for (let part = 1; part <= part_count; part++) {
+        const blob = file.slice((part - 1) * part_size, Math.min(part * part_size, file.size));
+        hash.update(new Uint8Array(await blob.arrayBuffer()));
+
+        if (!stored.has(part)) {
+          if (!signed.has(part)) {
+            const next = Array.from({ length: part_count - part + 1 }, (_, index) => part + index)
+              .filter(candidate => !stored.has(candidate))
+              .slice(0, SIGN_BATCH_SIZE);
+            const response = await this.signParts(supabase, upload_id, next);
+            signed = new Map(response.parts.map(signedPart => [signedPart.part_number, signedPart.signed_url]));
+          }
+
+          await retryWithBackoff(async () => {
+            const response = await fetch(signed.get(part)!, {
+              method: 'PUT',
+              body: blob,
+              headers: { 'Content-Type': 'application/octet-stream' },
+            });
+            if (!response.ok) {
+              throw new Error(`Failed to upload part ${part} of ${part_count}`);
+            }
+          });
+
+          stored.add(part);
+          remember();
+        }
+
+        onProgress?.({
+          stage: 'uploading',
+          progress: Math.round((part / part_count) * 90),
+          message: `Uploading part ${part} of ${part_count}...`,
+          job_id,
+          upload_id,
+          resumed,
+        });
+      }
+
+      onProgress?.({
+        stage: 'processing',
+        progress: 95,
+        message: 'Confirming upload...',
+        job_id,
+        upload_id,
+        resumed,
+      });
+
+      await this.completeSession(supabase, upload_id, hash.digestHex());
+      await this.confirmIngest(supabase, { job_id });
+      this.forgetSession(upload_id);
+
+      onProgress?.({
+        stage: 'complete',
+        progress: 100,
+        message: 'Upload complete!',
+        job_id,
+        upload_id,
+        resumed,
+      });
+
+      return { job_id, upload_id };
+
+    } catch (error: any) {
+      onProgress?.({
+        stage: 'error',
+        progress: 0,
+        message: error.message || 'Upload failed',
+      });
+      throw error;
+    }
+  },
 };
 
 // Job Management Services
+
+// Used when platform_settings has no concurrency caps
+const DEFAULT_MAX_CONCURRENT_JOBS = 10;
+const DEFAULT_MAX_CONCURRENT_JOBS_PER_CLIENT = 3;
+
 export const jobServices = {
   /**
    * List jobs for a client
@@ -188,10 +493,43 @@ export const jobServices = {
   },
 
   /**
-   * Retry a failed job
+   * Queue a failed, dead-lettered or cancelled job again
    */
   async retry(supabase: any, request: JobRetryRequest): Promise<JobRetryResponse> {
-    return apiFetch<JobRetryResponse>(supabase, '/jobs', {
+    return apiFetch<JobRetryResponse>(supabase, '/job-retry', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  },
+
+  /**
+   * Caps on running jobs, from the platform settings max_concurrent_jobs and
+   * max_concurrent_jobs_per_client
+   */
+  async getConcurrencyLimits(supabase: any): Promise<{ max_concurrent_jobs: number; max_concurrent_jobs_per_client: number }> {
+    const { data, error } = await supabase
+      .from('platform_settings')
+      .select('key, value')
+      .in('key', ['max_concurrent_jobs', 'max_concurrent_jobs_per_client']);
+
+    if (error) {
+      console.warn('Could not load job concurrency limits:', error.message);
+    }
+    const setting = (key: string, fallback: number) => {
+      const value = Number((data || []).find((row: any) => row.key === key)?.value);
+      return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+    return {
+      max_concurrent_jobs: setting('max_concurrent_jobs', DEFAULT_MAX_CONCURRENT_JOBS),
+      max_concurrent_jobs_per_client: setting('max_concurrent_jobs_per_client', DEFAULT_MAX_CONCURRENT_JOBS_PER_CLIENT),
+    };
+  },
+
+  /**
+   * Cancel a waiting job, or ask a running one to stop
+   */
+  async cancel(supabase: any, request: JobCancelRequest): Promise<JobCancelResponse> {
+    return apiFetch<JobCancelResponse>(supabase, '/job-cancel', {
       method: 'POST',
       body: JSON.stringify(request),
     });
@@ -250,6 +588,36 @@ export const adminServices = {
 
 // Drivers Management Services
 export const driversServices = {
+  /**
+   * Load the editable rubric for a client, or the global rubric when clientId is null
+   */
+  async getRubric(supabase: any, clientId: number | null): Promise<RubricResponse> {
+    return apiFetch<RubricResponse>(supabase, '/drivers-create', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'get_rubric', client_id: clientId }),
+    });
+  },
+
+  /**
+   * List immutable rubric versions for a scope, newest first
+   */
+  async listRubricVersions(supabase: any, clientId: number | null): Promise<{ versions: RubricVersionDto[] }> {
+    return apiFetch<{ versions: RubricVersionDto[] }>(supabase, '/drivers-create', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'list_versions', client_id: clientId }),
+    });
+  },
+
+  /**
+   * Load one rubric version with its full snapshot
+   */
+  async getRubricVersion(supabase: any, versionId: number): Promise<{ version: RubricVersionDto }> {
+    return apiFetch<{ version: RubricVersionDto }>(supabase, '/drivers-create', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'get_version', version_id: versionId }),
+    });
+  },
+
   /**
    * Create or update drivers, behaviors, and instances
    */
@@ -281,22 +649,338 @@ export const driversServices = {
   },
 };
 
+// Evaluation History Services
+export const evaluationServices = {
+  /**
+   * List everyone evaluated for a client
+   */
+  async listSubjects(supabase: any, clientId: number): Promise<EvaluationSubjectsResponse> {
+    return apiFetch<EvaluationSubjectsResponse>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'list_subjects', client_id: clientId }),
+    });
+  },
+
+  /**
+   * Versioned evaluations for one person, newest first
+   */
+  async history(
+    supabase: any,
+    clientId: number,
+    subject: string,
+    limit?: number
+  ): Promise<EvaluationHistoryResponse> {
+    return apiFetch<EvaluationHistoryResponse>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'history', client_id: clientId, subject, limit }),
+    });
+  },
+
+  /**
+   * Load a single evaluation record
+   */
+  async get(supabase: any, clientId: number, recordId: number): Promise<{ evaluation: EvaluationRecordDto }> {
+    return apiFetch<{ evaluation: EvaluationRecordDto }>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'get', client_id: clientId, record_id: recordId }),
+    });
+  },
+
+  /**
+   * Average driver scores per month or quarter for one person
+   */
+  async trends(
+    supabase: any,
+    clientId: number,
+    subject: string,
+    options?: {
+      bucket?: TrendBucket;
+      driverKey?: string;
+    }
+  ): Promise<DriverTrendsResponse> {
+    return apiFetch<DriverTrendsResponse>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({
+        action: 'trends',
+        client_id: clientId,
+        subject,
+        bucket: options?.bucket,
+        driver_key: options?.driverKey,
+      }),
+    });
+  },
+
+  /**
+   * Evaluations awaiting sign-off, or all evaluations in one review state
+   */
+  async reviewQueue(supabase: any, clientId: number, status?: ReviewStatus): Promise<ReviewQueueResponse> {
+    return apiFetch<ReviewQueueResponse>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'review_queue', client_id: clientId, status }),
+    });
+  },
+
+  /**
+   * Load an evaluation with its review trail
+   */
+  async review(supabase: any, clientId: number, recordId: number): Promise<EvaluationReviewResponse> {
+    return apiFetch<EvaluationReviewResponse>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'review', client_id: clientId, record_id: recordId }),
+    });
+  },
+
+  /**
+   * Submit for review, approve, reject or reopen an evaluation
+   */
+  async transition(
+    supabase: any,
+    clientId: number,
+    recordId: number,
+    transition: ReviewTransition,
+    comment?: string
+  ): Promise<{ evaluation: EvaluationRecordDto }> {
+    return apiFetch<{ evaluation: EvaluationRecordDto }>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: transition, client_id: clientId, record_id: recordId, comment }),
+    });
+  },
+
+  /**
+   * Adjust driver scores and reasoning; the AI originals are kept
+   */
+  async adjust(
+    supabase: any,
+    clientId: number,
+    recordId: number,
+    adjustments: ScoreAdjustmentRequest[],
+    comment?: string
+  ): Promise<{ evaluation: EvaluationRecordDto }> {
+    return apiFetch<{ evaluation: EvaluationRecordDto }>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'adjust', client_id: clientId, record_id: recordId, adjustments, comment }),
+    });
+  },
+
+  /**
+   * Leave a review comment
+   */
+  async comment(supabase: any, clientId: number, recordId: number, comment: string): Promise<{ event: ReviewEventDto }> {
+    return apiFetch<{ event: ReviewEventDto }>(supabase, '/evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'comment', client_id: clientId, record_id: recordId, comment }),
+    });
+  },
+};
+
+// Team Evaluation Services
+export const teamEvaluationServices = {
+  /**
+   * Queue an evaluation of every participant in the date range
+   */
+  async start(supabase: any, request: StartTeamEvaluationRequest): Promise<StartTeamEvaluationResponse> {
+    return apiFetch<StartTeamEvaluationResponse>(supabase, '/team-evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'start', ...request }),
+    });
+  },
+
+  /**
+   * Team evaluations of a client with job progress, newest first
+   */
+  async list(supabase: any, clientId: number, limit?: number): Promise<TeamEvaluationsResponse> {
+    return apiFetch<TeamEvaluationsResponse>(supabase, '/team-evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'list', client_id: clientId, limit }),
+    });
+  },
+
+  /**
+   * Driver scores of every member side by side
+   */
+  async report(supabase: any, clientId: number, teamEvaluationId: number): Promise<TeamEvaluationReportResponse> {
+    return apiFetch<TeamEvaluationReportResponse>(supabase, '/team-evaluations', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'report', client_id: clientId, team_evaluation_id: teamEvaluationId }),
+    });
+  },
+};
+
+// People Directory Services
+export const peopleServices = {
+  /**
+   * Everyone in the client's people directory with their aliases
+   */
+  async list(supabase: any, clientId: number): Promise<PeopleResponse> {
+    return apiFetch<PeopleResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'list', client_id: clientId }),
+    });
+  },
+
+  async create(supabase: any, clientId: number, displayName: string, aliases: NewPersonAlias[] = []): Promise<PersonResponse> {
+    return apiFetch<PersonResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'create', client_id: clientId, display_name: displayName, aliases }),
+    });
+  },
+
+  async update(
+    supabase: any,
+    clientId: number,
+    personId: number,
+    changes: { display_name?: string; notes?: string | null }
+  ): Promise<PersonResponse> {
+    return apiFetch<PersonResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'update', client_id: clientId, person_id: personId, ...changes }),
+    });
+  },
+
+  async remove(supabase: any, clientId: number, personId: number): Promise<{ deleted: boolean }> {
+    return apiFetch<{ deleted: boolean }>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'delete', client_id: clientId, person_id: personId }),
+    });
+  },
+
+  async addAlias(supabase: any, clientId: number, personId: number, alias: NewPersonAlias): Promise<PersonResponse> {
+    return apiFetch<PersonResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'add_alias', client_id: clientId, person_id: personId, alias }),
+    });
+  },
+
+  async removeAlias(supabase: any, clientId: number, aliasId: number): Promise<PersonResponse> {
+    return apiFetch<PersonResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'remove_alias', client_id: clientId, alias_id: aliasId }),
+    });
+  },
+
+  /**
+   * Fold one person into another; aliases, chunks and evaluations move to the target
+   */
+  async merge(supabase: any, clientId: number, sourcePersonId: number, targetPersonId: number): Promise<PersonResponse> {
+    return apiFetch<PersonResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({
+        action: 'merge',
+        client_id: clientId,
+        source_person_id: sourcePersonId,
+        target_person_id: targetPersonId,
+      }),
+    });
+  },
+
+  /**
+   * Open alias suggestions left by ingest, best first
+   */
+  async suggestions(supabase: any, clientId: number): Promise<AliasSuggestionsResponse> {
+    return apiFetch<AliasSuggestionsResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'suggestions', client_id: clientId }),
+    });
+  },
+
+  async acceptSuggestion(supabase: any, clientId: number, suggestionId: number, personId?: number): Promise<PersonResponse> {
+    return apiFetch<PersonResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({
+        action: 'accept_suggestion',
+        client_id: clientId,
+        suggestion_id: suggestionId,
+        person_id: personId,
+      }),
+    });
+  },
+
+  async dismissSuggestion(supabase: any, clientId: number, suggestionId: number): Promise<{ dismissed: boolean }> {
+    return apiFetch<{ dismissed: boolean }>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'dismiss_suggestion', client_id: clientId, suggestion_id: suggestionId }),
+    });
+  },
+
+  /**
+   * Senders in the client's chats that are not linked to anyone, most active first
+   */
+  async unlinked(supabase: any, clientId: number, limit?: number): Promise<UnlinkedParticipantsResponse> {
+    return apiFetch<UnlinkedParticipantsResponse>(supabase, '/people', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'unlinked', client_id: clientId, limit }),
+    });
+  },
+};
+
+// PII redaction services (admin only)
+export const piiServices = {
+  async getPolicy(supabase: any, clientId: number): Promise<RedactionPolicyResponse> {
+    return apiFetch<RedactionPolicyResponse>(supabase, '/pii', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'get_policy', client_id: clientId }),
+    });
+  },
+
+  async updatePolicy(
+    supabase: any,
+    clientId: number,
+    changes: { enabled?: boolean; categories?: Partial<Record<PiiCategory, RedactionAction>> }
+  ): Promise<RedactionPolicyResponse> {
+    return apiFetch<RedactionPolicyResponse>(supabase, '/pii', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'update_policy', client_id: clientId, ...changes }),
+    });
+  },
+
+  /**
+   * Run the policy (with unsaved category changes) over sample text without storing anything
+   */
+  async preview(
+    supabase: any,
+    clientId: number,
+    text: string,
+    categories?: Partial<Record<PiiCategory, RedactionAction>>
+  ): Promise<RedactionPreviewResponse> {
+    return apiFetch<RedactionPreviewResponse>(supabase, '/pii', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'preview', client_id: clientId, text, categories }),
+    });
+  },
+
+  /**
+   * Originals behind tokens; every call is recorded in the reveal audit log
+   */
+  async reveal(supabase: any, clientId: number, tokens: string[], chunkId?: number): Promise<RevealResponse> {
+    return apiFetch<RevealResponse>(supabase, '/pii', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'reveal', client_id: clientId, tokens, chunk_id: chunkId }),
+    });
+  },
+};
+
 // Utility function to check file constraints
 export const fileValidation = {
+  /**
+   * Extensions the ingest worker can parse (WhatsApp .txt, Cliq .json, generic .csv)
+   */
+  supportedExtensions: ['.txt', '.csv', '.json'],
+
   /**
    * Validate file for upload
    */
-  validateFile(file: File): { valid: boolean; error?: string } {
+  validateFile(file: File, maxSizeMb: number = DEFAULT_MAX_FILE_SIZE_MB): { valid: boolean; error?: string } {
     // Check file type
-    if (!file.name.toLowerCase().endsWith('.txt')) {
+    const extension = '.' + (file.name.split('.').pop() || '').toLowerCase();
+    if (!this.supportedExtensions.includes(extension)) {
       return {
         valid: false,
-        error: 'Only .txt files are supported',
+        error: `Only ${this.supportedExtensions.join(', ')} files are supported`,
       };
     }
 
-    // Check file size (default 25MB)
-    const maxSize = 25 * 1024 * 1024; // 25MB
+    // Check file size against the platform limit
+    const maxSize = maxSizeMb * 1024 * 1024;
     if (file.size > maxSize) {
       return {
         valid: false,
@@ -401,6 +1085,10 @@ export const api = {
   feedback: feedbackServices,
   admin: adminServices,
   drivers: driversServices,
+  evaluations: evaluationServices,
+  teamEvaluations: teamEvaluationServices,
+  people: peopleServices,
+  pii: piiServices,
   validation: {
     file: fileValidation,
     query: queryValidation,
@@ -221,6 +221,24 @@ export async function assertRoleIn(
   }
 }
 
+/**
+ * Ensure the request was made with the service role key (cron and internal workers)
+ */
+export function assertServiceRole(req: Request): void {
+  const authHeader = req.headers.get('Authorization');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!serviceKey || authHeader !== `Bearer ${serviceKey}`) {
+    throw new Response(
+      JSON.stringify({
+        error_code: 'E_UNAUTHORIZED',
+        message: 'Service role authorization required',
+      }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
 /**
  * Check if user can create clients
  */
@@ -294,6 +312,29 @@ export function createErrorResponse(
   return addCorsHeaders(response);
 }
 
+/**
+ * Expected failure raised by a shared module (not found, invalid state, a
+ * conflicting change), carrying the error code and HTTP status to respond with
+ */
+export class ApiError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 409) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Error response for an ApiError, or null for any other error
+ */
+export function apiErrorResponse(error: unknown, correlationId?: string): Response | null {
+  if (!(error instanceof ApiError)) return null;
+  return createErrorResponse(error.code, error.message, error.status, undefined, correlationId);
+}
+
 /**
  * Create standardized success response
  */
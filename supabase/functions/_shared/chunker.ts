@@ -0,0 +1,168 @@
+// Conversation chunker
+// Groups parsed messages into retrieval-sized windows for embedding
+
+import type { ParsedMessage, ThreadContext } from './parsers.ts';
+
+interface ChunkOptions {
+  maxTokens?: number;
+  maxGapMinutes?: number;
+  includeMedia?: boolean;
+}
+
+interface ConversationChunk {
+  chunk_index: number;
+  text: string;
+  first_ts: string;
+  last_ts: string;
+  participants: string[];
+  token_count: number;
+  message_count: number;
+  // Source message ids (Cliq) so citations can point at the exact messages
+  message_ids: string[];
+  // Cliq thread chat id when the chunk holds thread replies
+  thread_id: string | null;
+}
+
+const DEFAULT_CHUNK_OPTIONS: Required<ChunkOptions> = {
+  maxTokens: 400,
+  maxGapMinutes: 45,
+  includeMedia: true,
+};
+
+/**
+ * Rough token estimate (~4 characters per token), matching what the
+ * embedding and generation models bill for English chat text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function formatLine(message: ParsedMessage, senders: Map<string, string | null>): string {
+  const stamp = message.ts.slice(0, 16).replace('T', ' ');
+  let line = `[${stamp}] ${message.sender ?? 'System'}`;
+
+  if (message.reply_to) {
+    const target = senders.get(message.reply_to);
+    line += target ? ` (replying to ${target})` : ' (reply)';
+  }
+  line += `: ${message.text}`;
+
+  if (message.edited) line += ' (edited)';
+  if (message.reactions?.length) {
+    line += ` [${message.reactions.map((r) => `${r.emoji} ${r.count}`).join(', ')}]`;
+  }
+  return line;
+}
+
+// Lines every chunk of a thread starts with, so replies keep their parent as context
+function threadHeader(thread: ThreadContext | undefined, parent: ParsedMessage | undefined, senders: Map<string, string | null>): string {
+  const title = thread?.title ? `Thread "${thread.title}"` : 'Thread';
+  if (!parent) return `${title}:`;
+  return `${title}, replying to:\n${formatLine(parent, senders)}\n---`;
+}
+
+/**
+ * Split a conversation into chunks. A new chunk starts when the token budget
+ * would be exceeded or when the gap between two messages is long enough to
+ * count as a separate conversation. System lines and deleted messages never
+ * reach the index. Thread replies are chunked per thread, after the main
+ * conversation, with the thread's parent message repeated at the top of each
+ * chunk.
+ */
+export function chunkMessages(
+  messages: ParsedMessage[],
+  options: ChunkOptions = {},
+  threads: ThreadContext[] = []
+): ConversationChunk[] {
+  const config = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const maxGapMs = config.maxGapMinutes * 60_000;
+  const chunks: ConversationChunk[] = [];
+  const senders = new Map<string, string | null>();
+  const byId = new Map<string, ParsedMessage>();
+  for (const message of messages) {
+    if (message.source_id) {
+      senders.set(message.source_id, message.sender);
+      byId.set(message.source_id, message);
+    }
+  }
+  for (const thread of threads) {
+    if (thread.parent?.source_id) senders.set(thread.parent.source_id, thread.parent.sender);
+  }
+
+  const chunkGroup = (group: ParsedMessage[], threadId: string | null, header: string | null) => {
+    const headerTokens = header ? estimateTokens(header) + 1 : 0;
+    let lines: string[] = [];
+    let tokens = headerTokens;
+    let firstTs = '';
+    let lastTs = '';
+    let participants = new Set<string>();
+    let messageIds: string[] = [];
+
+    const flush = () => {
+      if (lines.length === 0) return;
+      const text = (header ? [header, ...lines] : lines).join('\n');
+      chunks.push({
+        chunk_index: chunks.length,
+        text,
+        first_ts: firstTs,
+        last_ts: lastTs,
+        participants: Array.from(participants),
+        token_count: estimateTokens(text),
+        message_count: lines.length,
+        message_ids: messageIds,
+        thread_id: threadId,
+      });
+      lines = [];
+      tokens = headerTokens;
+      participants = new Set<string>();
+      messageIds = [];
+    };
+
+    for (const message of group) {
+      if (message.kind === 'system' || message.kind === 'deleted') continue;
+      if (message.kind === 'media' && !config.includeMedia) continue;
+
+      const line = formatLine(message, senders);
+      const lineTokens = estimateTokens(line) + 1;
+      const gap = lastTs ? Date.parse(message.ts) - Date.parse(lastTs) : 0;
+
+      // Replies in a thread belong together however far apart they are
+      if (lines.length > 0 && (tokens + lineTokens > config.maxTokens || (!threadId && gap > maxGapMs))) {
+        flush();
+      }
+
+      if (lines.length === 0) firstTs = message.ts;
+      lines.push(line);
+      tokens += lineTokens;
+      lastTs = message.ts;
+      if (message.sender) participants.add(message.sender);
+      if (message.source_id) messageIds.push(message.source_id);
+    }
+    flush();
+  };
+
+  const main: ParsedMessage[] = [];
+  const replies = new Map<string, ParsedMessage[]>();
+  for (const message of messages) {
+    if (!message.thread_id) {
+      main.push(message);
+      continue;
+    }
+    if (!replies.has(message.thread_id)) replies.set(message.thread_id, []);
+    replies.get(message.thread_id)!.push(message);
+  }
+
+  chunkGroup(main, null, null);
+
+  const threadsById = new Map(threads.map((thread) => [thread.thread_id, thread]));
+  replies.forEach((group, threadId) => {
+    const thread = threadsById.get(threadId);
+    const parentId = thread?.parent?.source_id ?? group.find((m) => m.thread_parent_id)?.thread_parent_id;
+    const parent = thread?.parent ?? (parentId ? byId.get(parentId) : undefined);
+    chunkGroup(group, threadId, threadHeader(thread, parent, senders));
+  });
+
+  return chunks;
+}
+
+export type { ChunkOptions, ConversationChunk };
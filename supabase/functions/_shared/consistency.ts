@@ -0,0 +1,291 @@
+// Consistency sampling
+// Runs several independent evaluation samples, reports per-driver mean, variance and agreement, and derives confidence from their stability
+
+import type { Driver, DriverInstance, EvaluationPolicy } from './drivers.ts';
+
+interface SamplingParams {
+  subject: string;
+  question: string;
+  drivers: Driver[];
+  instances: DriverInstance[];
+  policy: EvaluationPolicy;
+  // Compacted evidence, in ranked order
+  evidence: any[];
+  insufficientDrivers?: string[];
+}
+
+interface DriverConsistency {
+  driver: string;
+  // One entry per usable sample; null where the sample left the driver unscored
+  scores: Array<number | null>;
+  scored_samples: number;
+  // False when most samples left the driver unscored; it is reported as insufficient evidence
+  is_scored: boolean;
+  mean: number | null;
+  variance: number | null;
+  std_dev: number | null;
+  // Share of samples that gave the most common score (unscored counts as an answer)
+  agreement: number;
+  // Stability of this driver's score, 0-1
+  confidence: number;
+  unstable: boolean;
+}
+
+interface ConsistencyReport {
+  samples_requested: number;
+  samples_used: number;
+  shuffled_evidence: boolean;
+  temperature: number;
+  drivers: DriverConsistency[];
+  unstable_drivers: string[];
+  // Weighted mean of the scored drivers' stability; replaces the model's overall_confidence
+  overall_confidence: number;
+  // Mean of the confidence the samples reported themselves, for comparison
+  model_reported_confidence: number | null;
+}
+
+// Temperature for samples after the first, so independent samples can actually differ
+const SAMPLE_TEMPERATURE = 0.7;
+
+// A driver is unstable when its standard deviation exceeds this share of the scale range,
+// or when fewer than MIN_AGREEMENT of the samples agree on its score
+const UNSTABLE_STD_RATIO = 0.15;
+const MIN_AGREEMENT = 0.6;
+
+class ConsistencySampler {
+  /**
+   * Evaluate once, or `policy.consistency_samples` times and merge the samples into one
+   * evaluation. The merged evaluation has the same shape as a single sample, plus a
+   * `consistency` report and a per-score `consistency` block.
+   */
+  async evaluate(llm: any, params: SamplingParams): Promise<any> {
+    const samples = Math.max(1, Math.min(5, params.policy.consistency_samples ?? 1));
+    const shuffle = params.policy.shuffle_evidence ?? true;
+
+    const generate = (evidence: any[], temperature?: number) => llm.generateEvaluation(
+      params.subject,
+      params.question,
+      params.drivers,
+      params.instances,
+      params.policy,
+      evidence,
+      {
+        insufficientDrivers: params.insufficientDrivers || [],
+        ...(temperature !== undefined ? { temperature } : {})
+      }
+    );
+
+    if (samples === 1) {
+      return await generate(params.evidence);
+    }
+
+    // The first sample is the regular evaluation; the others see reshuffled evidence
+    const results = await Promise.all(
+      Array.from({ length: samples }, (_, index) => index === 0
+        ? generate(params.evidence)
+        : generate(shuffle ? shuffled(params.evidence) : params.evidence, SAMPLE_TEMPERATURE))
+    );
+
+    // Fallback evaluations are placeholders, not model answers
+    const usable = results.filter((result) => result && !result.fallback && Array.isArray(result.scores));
+    if (usable.length === 0) {
+      return results[0];
+    }
+    if (usable.length === 1) {
+      console.warn(`Consistency sampling: only 1 of ${samples} samples was usable`);
+    }
+
+    return this.merge(usable, params, { samples, shuffle });
+  }
+
+  private merge(results: any[], params: SamplingParams, options: { samples: number; shuffle: boolean }): any {
+    const range = Math.max(1, (params.policy.scale_max ?? 5) - (params.policy.scale_min ?? 1));
+    const driverStats: DriverConsistency[] = [];
+    const scores: any[] = [];
+
+    for (const driver of params.drivers) {
+      const entries = results.map((result) => result.scores.find((score: any) => score.driver === driver.key) || null);
+      const values = entries.map((entry) => scoreValue(entry));
+      const numeric = values.filter((value): value is number => value !== null);
+
+      const mean = numeric.length > 0 ? numeric.reduce((sum, value) => sum + value, 0) / numeric.length : null;
+      const variance = mean !== null
+        ? numeric.reduce((sum, value) => sum + (value - mean) ** 2, 0) / numeric.length
+        : null;
+      const stdDev = variance !== null ? Math.sqrt(variance) : null;
+      const { share: agreement } = mostCommon(values);
+
+      const stability = stdDev !== null ? 1 - Math.min(1, stdDev / (range / 2)) : 1;
+      const confidence = round(agreement * stability, 3);
+      const unstable = results.length > 1 && (
+        agreement < MIN_AGREEMENT || (stdDev !== null && stdDev > range * UNSTABLE_STD_RATIO)
+      );
+
+      const stats: DriverConsistency = {
+        driver: driver.key,
+        scores: values,
+        scored_samples: numeric.length,
+        is_scored: numeric.length * 2 > values.length,
+        mean: mean !== null ? round(mean, 2) : null,
+        variance: variance !== null ? round(variance, 3) : null,
+        std_dev: stdDev !== null ? round(stdDev, 3) : null,
+        agreement: round(agreement, 3),
+        confidence,
+        unstable
+      };
+      driverStats.push(stats);
+
+      // Most samples found nothing to score: report the driver as unscored
+      if (!stats.is_scored || mean === null) {
+        const unscored = entries.find((entry) => entry && scoreValue(entry) === null) || entries.find(Boolean);
+        scores.push({
+          ...(unscored || { driver: driver.key, weight: driver.weight }),
+          score: null,
+          insufficient_evidence: true,
+          evidence_strength: 'none',
+          consistency: consistencyBlock(stats)
+        });
+        continue;
+      }
+
+      // Reasoning and citations come from the sample closest to the mean
+      const representative = entries
+        .filter((entry) => scoreValue(entry) !== null)
+        .sort((a, b) => Math.abs(scoreValue(a)! - mean) - Math.abs(scoreValue(b)! - mean))[0];
+
+      scores.push({
+        ...representative,
+        score: round(mean, 2),
+        insufficient_evidence: false,
+        citations: Array.from(new Set(
+          entries
+            .filter((entry) => scoreValue(entry) !== null)
+            .flatMap((entry) => Array.isArray(entry.citations) ? entry.citations.map(String) : [])
+        )),
+        consistency: consistencyBlock(stats)
+      });
+    }
+
+    const scored = driverStats.filter((stats) => stats.is_scored);
+    const weightOf = (key: string) => params.drivers.find((driver) => driver.key === key)?.weight ?? 1;
+    const totalWeight = scored.reduce((sum, stats) => sum + weightOf(stats.driver), 0);
+    const overallConfidence = totalWeight > 0
+      ? round(scored.reduce((sum, stats) => sum + stats.confidence * weightOf(stats.driver), 0) / totalWeight, 3)
+      : 0;
+
+    const claimed = results
+      .map((result) => Number(result.confidence_analysis?.overall_confidence))
+      .filter((value) => Number.isFinite(value));
+
+    const report: ConsistencyReport = {
+      samples_requested: options.samples,
+      samples_used: results.length,
+      shuffled_evidence: options.shuffle,
+      temperature: SAMPLE_TEMPERATURE,
+      drivers: driverStats,
+      unstable_drivers: driverStats.filter((stats) => stats.unstable).map((stats) => stats.driver),
+      overall_confidence: overallConfidence,
+      model_reported_confidence: claimed.length > 0
+        ? round(claimed.reduce((sum, value) => sum + value, 0) / claimed.length, 3)
+        : null
+    };
+
+    // Narrative fields come from the first sample, which saw the evidence in ranked order
+    const base = results[0];
+    const unstableNote = report.unstable_drivers.length > 0
+      ? [`Scores varied across ${report.samples_used} samples for: ${report.unstable_drivers.join(', ')}`]
+      : [];
+
+    return {
+      ...base,
+      scores,
+      red_line_flags: mergeRedLineFlags(results),
+      confidence_analysis: {
+        ...(base.confidence_analysis || {}),
+        overall_confidence: report.overall_confidence,
+        model_reported_confidence: report.model_reported_confidence,
+        confidence_method: 'consistency_sampling',
+        reliability_factors: [
+          ...(base.confidence_analysis?.reliability_factors || []),
+          ...unstableNote
+        ]
+      },
+      consistency: report
+    };
+  }
+}
+
+function scoreValue(entry: any): number | null {
+  if (!entry || entry.insufficient_evidence || entry.score === null || entry.score === undefined) return null;
+  const value = Number(entry.score);
+  return Number.isFinite(value) ? value : null;
+}
+
+function mostCommon(values: Array<number | null>): { value: number | null; share: number } {
+  const counts = new Map<number | null, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+  let best: number | null = null;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    // Prefer a score over "unscored" on ties
+    if (count > bestCount || (count === bestCount && best === null && value !== null)) {
+      best = value;
+      bestCount = count;
+    }
+  });
+
+  return { value: best, share: values.length > 0 ? bestCount / values.length : 0 };
+}
+
+function consistencyBlock(stats: DriverConsistency) {
+  return {
+    mean: stats.mean,
+    variance: stats.variance,
+    std_dev: stats.std_dev,
+    agreement: stats.agreement,
+    samples: stats.scores.length,
+    unstable: stats.unstable
+  };
+}
+
+function mergeRedLineFlags(results: any[]): any[] {
+  const byRedLine = new Map<string, any>();
+
+  for (const result of results) {
+    for (const flag of Array.isArray(result.red_line_flags) ? result.red_line_flags : []) {
+      const key = String(flag?.red_line || '').trim().toLowerCase();
+      if (!key) continue;
+
+      const existing = byRedLine.get(key);
+      const chunkIds = Array.isArray(flag.chunk_ids) ? flag.chunk_ids.map(String) : [];
+      if (existing) {
+        existing.chunk_ids = Array.from(new Set([...existing.chunk_ids, ...chunkIds]));
+      } else {
+        byRedLine.set(key, { ...flag, chunk_ids: chunkIds });
+      }
+    }
+  }
+
+  return Array.from(byRedLine.values());
+}
+
+function shuffled<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Export singleton instance
+export const consistencySampler = new ConsistencySampler();
+
+// Export types
+export type { SamplingParams, DriverConsistency, ConsistencyReport };
@@ -0,0 +1,453 @@
+// Conversation memory
+// Rolling summary and established facts per conversation, and standalone rewrites of follow-up questions
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiError } from './auth.ts';
+import { geminiClient } from './gemini.ts';
+
+interface MemoryFact {
+  id: string;
+  text: string;
+  // 'conversation' facts are picked up when turns are summarised; 'user' facts were pinned by hand
+  source: 'conversation' | 'user';
+  query_id: number | null;
+  created_at: string;
+}
+
+interface ConversationTurn {
+  id: number;
+  question: string;
+  answer: string | null;
+  created_at: string;
+}
+
+interface ConversationMemoryState {
+  conversation_id: number;
+  client_id: number;
+  summary: string;
+  summarized_through: number | null;
+  summarized_turns: number;
+  facts: MemoryFact[];
+  // Turns after the summary, oldest first
+  recent: ConversationTurn[];
+  updated_at: string | null;
+}
+
+interface RewrittenQuestion {
+  // Query used for classification and retrieval
+  query: string;
+  rewritten: boolean;
+}
+
+// Turns kept verbatim after a fold; older ones live on in the summary
+const RECENT_TURNS = 3;
+
+// Unsummarised turns that trigger a fold, so the summary is not rewritten after every question
+const FOLD_AFTER_TURNS = 6;
+
+// Verbatim turns passed to the model, in case folding has fallen behind
+const MAX_VERBATIM_TURNS = 8;
+
+// Answers are cut to this length in the prompt; long answers otherwise dominate it
+const ANSWER_PREVIEW_CHARS = 600;
+const FOLD_ANSWER_CHARS = 1500;
+
+const SUMMARY_MAX_CHARS = 2400;
+const MAX_FACTS = 25;
+
+// Questions that lean on earlier turns: pronouns, "what about ...", "and ...", very short questions
+const FOLLOW_UP_PATTERN = /\b(he|she|him|her|hers|his|they|them|their|it|its|that|those|these|this one|same|else|what about|how about|and what|also|too|instead)\b/i;
+const SHORT_QUESTION_WORDS = 5;
+
+class ConversationMemoryError extends ApiError {}
+
+class ConversationMemory {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Summary, facts and the turns after the summary for a conversation. A
+   * conversation without a memory row yet has an empty summary.
+   */
+  async load(conversationId: number, clientId: number): Promise<ConversationMemoryState> {
+    const { data, error } = await this.supabase
+      .from('conversation_memory')
+      .select('conversation_id, client_id, summary, summarized_through, summarized_turns, facts, updated_at')
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load conversation memory: ${error.message}`);
+    }
+
+    const memory: ConversationMemoryState = {
+      conversation_id: conversationId,
+      client_id: clientId,
+      summary: data?.summary || '',
+      summarized_through: data?.summarized_through ?? null,
+      summarized_turns: data?.summarized_turns ?? 0,
+      facts: data?.facts || [],
+      recent: [],
+      updated_at: data?.updated_at ?? null,
+    };
+
+    const turns = await this.turnsAfter(conversationId, memory.summarized_through, MAX_VERBATIM_TURNS, false);
+    memory.recent = turns.reverse();
+    return memory;
+  }
+
+  /**
+   * Memory as prompt context: the summary, the established facts and the recent
+   * turns with long answers cut short. Empty for a new conversation.
+   */
+  format(memory: ConversationMemoryState): string {
+    const sections: string[] = [];
+
+    if (memory.summary) {
+      sections.push(`Summary of the earlier conversation:\n${memory.summary}`);
+    }
+    if (memory.facts.length > 0) {
+      sections.push(`Facts the user established:\n${memory.facts.map(fact => `- ${fact.text}`).join('\n')}`);
+    }
+    if (memory.recent.length > 0) {
+      const turns = memory.recent
+        .map(turn => `User: ${turn.question}\nAssistant: ${this.preview(turn.answer, ANSWER_PREVIEW_CHARS)}`)
+        .join('\n\n');
+      sections.push(`Recent turns:\n${turns}`);
+    }
+
+    return sections.length > 0 ? `Previous conversation context:\n${sections.join('\n\n')}` : '';
+  }
+
+  /**
+   * Rewrite a follow-up ("what about her deadlines?") into a query that stands
+   * on its own, using the conversation memory. Questions that do not look like
+   * follow-ups, and any failure, keep the question as asked.
+   */
+  async rewrite(llm: any, question: string, memory: ConversationMemoryState): Promise<RewrittenQuestion> {
+    const unchanged = { query: question, rewritten: false };
+    const hasHistory = memory.summary || memory.facts.length > 0 || memory.recent.length > 0;
+    if (!hasHistory || !this.looksLikeFollowUp(question)) {
+      return unchanged;
+    }
+
+    try {
+      const response = await llm.generateContent({
+        contents: [{
+          role: 'user',
+          parts: [{
+            text: `${this.format(memory)}\n\nLatest question: ${question}\n\n` +
+              'Rewrite the latest question as a standalone search query over the chat logs. Replace pronouns and ' +
+              'references ("her", "that project", "the same week") with the people, topics and dates they refer to. ' +
+              'Keep the wording of the question otherwise. If it already stands on its own, return it unchanged.',
+          }],
+        }],
+        systemInstruction: {
+          parts: [{ text: 'You rewrite follow-up questions for a chat-log search system. Reply with JSON only.' }],
+        },
+        generationConfig: {
+          temperature: 0,
+          maxOutputTokens: 256,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: 'object',
+            properties: { query: { type: 'string' } },
+            required: ['query'],
+          },
+        },
+      }, false);
+
+      const raw = response.candidates?.[0]?.content?.parts?.[0]?.text || '{}';
+      const query = String(JSON.parse(raw).query || '').trim();
+      if (!query || query.length > 1000) {
+        return unchanged;
+      }
+      return { query, rewritten: query !== question.trim() };
+    } catch (error) {
+      console.warn('Follow-up rewrite failed, searching with the question as asked:', error.message);
+      return unchanged;
+    }
+  }
+
+  /**
+   * Fold older turns into the summary once enough have piled up, keeping the
+   * newest RECENT_TURNS verbatim. Facts the user established in the folded
+   * turns are added to the conversation's facts. Never throws; the memory just
+   * stays behind until the next question.
+   */
+  async refresh(conversationId: number, clientId: number): Promise<void> {
+    try {
+      const memory = await this.load(conversationId, clientId);
+      const pending = await this.turnsAfter(conversationId, memory.summarized_through, FOLD_AFTER_TURNS + MAX_VERBATIM_TURNS, true);
+      if (pending.length < FOLD_AFTER_TURNS) return;
+
+      const folded = pending.slice(0, pending.length - RECENT_TURNS);
+      const llm = await geminiClient.forClient(clientId);
+      const { summary, facts } = await this.summarise(llm, memory, folded);
+
+      const now = new Date().toISOString();
+      const conversationFacts: MemoryFact[] = facts.map(text => ({
+        id: crypto.randomUUID(),
+        text,
+        source: 'conversation' as const,
+        query_id: folded[folded.length - 1].id,
+        created_at: now,
+      }));
+
+      await this.save(memory, {
+        summary,
+        summarized_through: folded[folded.length - 1].id,
+        summarized_turns: memory.summarized_turns + folded.length,
+        facts: this.mergeFacts(memory.facts, conversationFacts),
+      });
+      console.log(`Conversation ${conversationId}: folded ${folded.length} turns into the summary`);
+    } catch (error) {
+      console.warn(`Conversation memory refresh failed for conversation ${conversationId}:`, error.message);
+    }
+  }
+
+  /**
+   * Memory of a conversation of the client, for display
+   */
+  async get(clientId: number, conversationId: number): Promise<ConversationMemoryState> {
+    await this.assertConversation(clientId, conversationId);
+    return await this.load(conversationId, clientId);
+  }
+
+  /**
+   * Pin a fact by hand; pinned facts are kept when the summary is rewritten
+   */
+  async pin(clientId: number, conversationId: number, text: string): Promise<MemoryFact> {
+    const memory = await this.get(clientId, conversationId);
+    const fact: MemoryFact = {
+      id: crypto.randomUUID(),
+      text: text.trim(),
+      source: 'user',
+      query_id: null,
+      created_at: new Date().toISOString(),
+    };
+
+    const facts = this.mergeFacts(memory.facts, [fact]);
+    if (!facts.some(existing => existing.id === fact.id)) {
+      throw new ConversationMemoryError('E_FACT_EXISTS', 'This fact is already pinned, or the conversation has too many facts');
+    }
+
+    await this.save(memory, { facts });
+    return fact;
+  }
+
+  /**
+   * Drop a fact, whether it was pinned by hand or picked up from the conversation
+   */
+  async unpin(clientId: number, conversationId: number, factId: string): Promise<void> {
+    const memory = await this.get(clientId, conversationId);
+    if (!memory.facts.some(fact => fact.id === factId)) {
+      throw new ConversationMemoryError('E_FACT_NOT_FOUND', 'Fact not found', 404);
+    }
+    await this.save(memory, { facts: memory.facts.filter(fact => fact.id !== factId) });
+  }
+
+  /**
+   * Forget everything said so far: the next question starts without context
+   */
+  async reset(clientId: number, conversationId: number): Promise<void> {
+    const memory = await this.get(clientId, conversationId);
+    const latest = memory.recent[memory.recent.length - 1];
+    await this.save(memory, {
+      summary: '',
+      summarized_through: latest?.id ?? memory.summarized_through,
+      summarized_turns: memory.summarized_turns + memory.recent.length,
+      facts: [],
+    });
+  }
+
+  private async summarise(
+    llm: any,
+    memory: ConversationMemoryState,
+    turns: ConversationTurn[]
+  ): Promise<{ summary: string; facts: string[] }> {
+    const transcript = turns
+      .map(turn => `User: ${turn.question}\nAssistant: ${this.preview(turn.answer, FOLD_ANSWER_CHARS)}`)
+      .join('\n\n');
+    const knownFacts = memory.facts.map(fact => `- ${fact.text}`).join('\n');
+
+    const response = await llm.generateContent({
+      contents: [{
+        role: 'user',
+        parts: [{
+          text: `Current summary:\n${memory.summary || '(none)'}\n\n` +
+            `Known facts:\n${knownFacts || '(none)'}\n\n` +
+            `New turns:\n${transcript}\n\n` +
+            `Update the summary so it also covers the new turns: who and what was asked about, and the answers' ` +
+            `key findings. Keep it under ${SUMMARY_MAX_CHARS} characters. Then list new facts the user established ` +
+            `in these turns that later questions may rely on (who a name refers to, the client, project, channel ` +
+            `or period in scope, preferences for answers). Do not repeat known facts or the assistant's findings.`,
+        }],
+      }],
+      systemInstruction: {
+        parts: [{ text: 'You maintain the memory of a chat-analysis conversation. Reply with JSON only.' }],
+      },
+      generationConfig: {
+        temperature: 0.2,
+        maxOutputTokens: 1024,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: 'object',
+          properties: {
+            summary: { type: 'string' },
+            facts: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['summary', 'facts'],
+        },
+      },
+    }, false);
+
+    const raw = response.candidates?.[0]?.content?.parts?.[0]?.text || '{}';
+    const parsed = JSON.parse(raw);
+    const summary = String(parsed.summary || '').trim();
+    if (!summary) {
+      throw new Error('Summariser returned an empty summary');
+    }
+
+    return {
+      summary: summary.slice(0, SUMMARY_MAX_CHARS),
+      facts: (Array.isArray(parsed.facts) ? parsed.facts : [])
+        .map((fact: unknown) => String(fact).trim())
+        .filter((fact: string) => fact.length > 0 && fact.length <= 300),
+    };
+  }
+
+  // Add facts not already known; facts pinned by hand take precedence when the list is full
+  private mergeFacts(existing: MemoryFact[], added: MemoryFact[]): MemoryFact[] {
+    const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+    const seen = new Set(existing.map(fact => normalize(fact.text)));
+    const merged = [...existing];
+
+    for (const fact of added) {
+      const key = normalize(fact.text);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(fact);
+    }
+
+    if (merged.length <= MAX_FACTS) return merged;
+
+    // Over the cap, the oldest facts picked up from the conversation go first
+    const userFacts = merged.filter(fact => fact.source === 'user');
+    const conversationFacts = merged.filter(fact => fact.source === 'conversation');
+    const room = MAX_FACTS - userFacts.length;
+    const kept = new Set(
+      (room > 0 ? [...userFacts, ...conversationFacts.slice(-room)] : userFacts.slice(0, MAX_FACTS))
+        .map(fact => fact.id)
+    );
+    return merged.filter(fact => kept.has(fact.id));
+  }
+
+  // Write the memory row, unless it changed since it was loaded
+  private async save(
+    memory: ConversationMemoryState,
+    patch: Partial<Pick<ConversationMemoryState, 'summary' | 'summarized_through' | 'summarized_turns' | 'facts'>>
+  ): Promise<void> {
+    const row = {
+      summary: memory.summary,
+      summarized_through: memory.summarized_through,
+      summarized_turns: memory.summarized_turns,
+      facts: memory.facts,
+      ...patch,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (!memory.updated_at) {
+      const { error } = await this.supabase
+        .from('conversation_memory')
+        .insert({ conversation_id: memory.conversation_id, client_id: memory.client_id, ...row });
+
+      if (error?.code === '23505') {
+        throw new ConversationMemoryError('E_MEMORY_CHANGED', 'Conversation memory changed; reload and try again');
+      }
+      if (error) {
+        throw new Error(`Failed to save conversation memory: ${error.message}`);
+      }
+      return;
+    }
+
+    const { data, error } = await this.supabase
+      .from('conversation_memory')
+      .update(row)
+      .eq('conversation_id', memory.conversation_id)
+      .eq('updated_at', memory.updated_at)
+      .select('conversation_id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to save conversation memory: ${error.message}`);
+    }
+    if (!data) {
+      throw new ConversationMemoryError('E_MEMORY_CHANGED', 'Conversation memory changed; reload and try again');
+    }
+  }
+
+  private async turnsAfter(
+    conversationId: number,
+    afterQueryId: number | null,
+    limit: number,
+    oldestFirst: boolean
+  ): Promise<ConversationTurn[]> {
+    let query = this.supabase
+      .from('queries')
+      .select('id, question, answer, created_at')
+      .eq('conversation_id', conversationId);
+
+    if (afterQueryId !== null) {
+      query = query.gt('id', afterQueryId);
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: oldestFirst })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load conversation turns: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  private async assertConversation(clientId: number, conversationId: number): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .select('id')
+      .eq('id', conversationId)
+      .eq('client_id', clientId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load conversation: ${error.message}`);
+    }
+    if (!data) {
+      throw new ConversationMemoryError('E_CONVERSATION_NOT_FOUND', 'Conversation not found', 404);
+    }
+  }
+
+  private looksLikeFollowUp(question: string): boolean {
+    return FOLLOW_UP_PATTERN.test(question) || question.trim().split(/\s+/).length <= SHORT_QUESTION_WORDS;
+  }
+
+  private preview(text: string | null, maxChars: number): string {
+    if (!text) return '(no answer)';
+    return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+  }
+}
+
+// Export singleton instance
+export const conversationMemory = new ConversationMemory();
+
+export { ConversationMemoryError };
+
+// Export types
+export type { MemoryFact, ConversationTurn, ConversationMemoryState, RewrittenQuestion };
@@ -0,0 +1,233 @@
+// Per-driver evidence retrieval
+// Searches a subject's conversations once per driver using the driver's embedding, and returns a balanced, driver-tagged evidence set
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { db } from './db.ts';
+import { rankChunks, getReranker } from './ranking.ts';
+import { providerRegistry } from './providers.ts';
+import { driverEmbeddingText } from './drivers.ts';
+import { peopleDirectory } from './people.ts';
+import type { Driver, DriversPayload } from './drivers.ts';
+import type { RankableChunk } from './ranking.ts';
+
+interface GatherEvidenceParams {
+  client_id: number;
+  subject: string;
+  rubric: DriversPayload;
+  filters?: Record<string, any>;
+  // Chunks kept for each driver
+  perDriver?: number;
+  // Minimum cosine similarity between a chunk and the driver embedding
+  matchThreshold?: number;
+}
+
+interface DriverTaggedChunk extends RankableChunk {
+  // Keys of the drivers this chunk was retrieved for
+  driver_keys: string[];
+}
+
+interface DriverEvidenceSet {
+  // Union of every driver's evidence, interleaved so each driver leads in turn
+  chunks: DriverTaggedChunk[];
+  byDriver: Record<string, Array<number | string>>;
+  // Driver keys no evidence was found for
+  insufficient: string[];
+  // Sender names the subject resolved to; empty when matching fell back to mentions
+  participants: string[];
+}
+
+const DEFAULT_PER_DRIVER = 4;
+const DEFAULT_MATCH_THRESHOLD = 0.3;
+const CANDIDATES_PER_DRIVER = 40;
+
+class DriverEvidenceRetriever {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Retrieve evidence for every driver in the rubric. Each driver is searched with its
+   * own embedding over the chunks the subject took part in, so a driver the subject
+   * rarely shows cannot be crowded out by one that dominates the conversation.
+   */
+  async gather(params: GatherEvidenceParams): Promise<DriverEvidenceSet> {
+    const perDriver = params.perDriver ?? DEFAULT_PER_DRIVER;
+    const drivers = params.rubric.drivers;
+
+    const [participants, vectors] = await Promise.all([
+      this.resolveParticipants(params.client_id, params.subject),
+      this.driverVectors(params.client_id, params.rubric)
+    ]);
+
+    // The subject's own participation replaces any participant filter from the request
+    const filters = { ...(params.filters || {}) };
+    delete filters.participants;
+    if (participants.length > 0) {
+      filters.participants = participants;
+    }
+
+    const ranked = await Promise.all(drivers.map(async (driver) => {
+      const { vectorTop, textTop } = await db.hybridSearch({
+        client_id: params.client_id,
+        filters,
+        queryVec: vectors.get(driver.id) || null,
+        question: driver.name,
+        matchThreshold: params.matchThreshold ?? DEFAULT_MATCH_THRESHOLD,
+        matchCount: CANDIDATES_PER_DRIVER
+      });
+
+      // Without a resolved sender name, keep only chunks that mention the subject
+      const keep = (chunk: any) => participants.length > 0 || mentionsSubject(chunk.text || chunk.content || '', params.subject);
+
+      // Driver searches run in parallel, so skip the LLM reranker and rely on fusion and MMR
+      const chunks = await rankChunks({
+        question: driver.description ? `${driver.name}: ${driver.description}` : driver.name,
+        vectorResults: vectorTop.filter(keep),
+        textResults: textTop.filter(keep),
+        reranker: getReranker('none'),
+        mmr: { lambda: 0.7, maxResults: perDriver }
+      });
+
+      return { driver, chunks: chunks.slice(0, perDriver) };
+    }));
+
+    const selected = new Map<number | string, DriverTaggedChunk>();
+    const byDriver: Record<string, Array<number | string>> = {};
+    for (const { driver } of ranked) {
+      byDriver[driver.key] = [];
+    }
+
+    // Interleave drivers round by round; a chunk found for several drivers carries every key
+    for (let round = 0; round < perDriver; round++) {
+      for (const { driver, chunks } of ranked) {
+        const chunk = chunks[round];
+        if (!chunk) continue;
+
+        const existing = selected.get(chunk.id);
+        if (existing) {
+          if (!existing.driver_keys.includes(driver.key)) {
+            existing.driver_keys.push(driver.key);
+          }
+        } else {
+          selected.set(chunk.id, { ...chunk, driver_keys: [driver.key] });
+        }
+        byDriver[driver.key].push(chunk.id);
+      }
+    }
+
+    const insufficient = ranked
+      .filter(({ driver }) => byDriver[driver.key].length === 0)
+      .map(({ driver }) => driver.key);
+
+    console.log(
+      `Driver evidence for ${params.subject}: ${selected.size} chunks across ${drivers.length} drivers, ` +
+      `${insufficient.length} without evidence, participants [${participants.join(', ')}]`
+    );
+
+    return {
+      chunks: Array.from(selected.values()),
+      byDriver,
+      insufficient,
+      participants
+    };
+  }
+
+  /**
+   * Sender names in the client's chunks that refer to the subject: every alias of the
+   * person in the people directory, or else the names that contain the subject
+   */
+  async resolveParticipants(clientId: number, subject: string): Promise<string[]> {
+    const person = await peopleDirectory.resolve(clientId, subject);
+    if (person) {
+      const aliases = await peopleDirectory.participantsOf(clientId, [person.person_id]);
+      if (aliases.length > 0) return aliases;
+    }
+
+    const { data, error } = await this.supabase.rpc('match_participants', {
+      p_client_id: clientId,
+      p_name: subject
+    });
+
+    if (error) {
+      console.warn(`Could not resolve participants for ${subject}:`, error.message);
+      return [];
+    }
+
+    return (data || []).map((row: any) => row.participant);
+  }
+
+  /**
+   * Embedding per driver id. Vectors stored by drivers-vectorize are reused when they
+   * were produced by the client's embedding model; the rest are embedded now.
+   */
+  private async driverVectors(clientId: number, rubric: DriversPayload): Promise<Map<number, number[]>> {
+    const vectors = new Map<number, number[]>();
+    if (rubric.drivers.length === 0) return vectors;
+
+    const binding = await providerRegistry.resolve(clientId);
+
+    const { data, error } = await this.supabase
+      .from('embeddings')
+      .select('content_id, embedding, model_name')
+      .eq('content_type', 'driver')
+      .in('content_id', rubric.drivers.map(driver => driver.id));
+
+    if (error) {
+      console.warn('Failed to load driver embeddings:', error.message);
+    }
+
+    for (const row of data || []) {
+      if (row.model_name && row.model_name !== binding.embeddingModel) continue;
+      const vector = typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding;
+      if (Array.isArray(vector)) vectors.set(Number(row.content_id), vector);
+    }
+
+    const missing = rubric.drivers.filter(driver => !vectors.has(driver.id));
+    if (missing.length === 0) return vectors;
+
+    try {
+      const texts = missing.map(driver => this.embeddingText(driver, rubric));
+      const embedded = await binding.provider.embed(texts, { model: binding.embeddingModel });
+      missing.forEach((driver, index) => {
+        if (embedded[index]) vectors.set(driver.id, embedded[index]);
+      });
+    } catch (embedError) {
+      // Text search on the driver name still runs for these drivers
+      console.warn('Failed to embed drivers without stored vectors:', embedError);
+    }
+
+    return vectors;
+  }
+
+  private embeddingText(driver: Driver, rubric: DriversPayload): string {
+    const behaviors = rubric.behaviors.find(behavior => behavior.driver_id === driver.id) || null;
+    const instances = rubric.instances.filter(instance => instance.driver_id === driver.id);
+
+    return driverEmbeddingText(driver, behaviors, instances);
+  }
+}
+
+/**
+ * Whether a chunk's text names the subject, by full name or any name part of three letters or more
+ */
+function mentionsSubject(text: string, subject: string): boolean {
+  const haystack = text.toLowerCase();
+  const name = subject.trim().toLowerCase();
+  if (!name) return false;
+  if (haystack.includes(name)) return true;
+
+  return name.split(/\s+/)
+    .filter(part => part.length >= 3)
+    .some(part => new RegExp(`\\b${part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(haystack));
+}
+
+// Export singleton instance
+export const driverEvidence = new DriverEvidenceRetriever();
+
+// Export types
+export type { GatherEvidenceParams, DriverTaggedChunk, DriverEvidenceSet };
@@ -2,6 +2,7 @@
 // Handles loading rubrics and enforcing evaluation policies
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { computeWeightedTotal } from './policy.ts';
 
 interface Driver {
   id: number;
@@ -20,6 +21,7 @@ interface DriverBehavior {
 }
 
 interface DriverInstance {
+  driver_id: number;
   title: string;
   takeaway: string;
 }
@@ -27,12 +29,22 @@ interface DriverInstance {
 interface EvaluationPolicy {
   id: number;
   name: string;
+  version: number;
   guidance: string;
   min_evidence_items: number;
+  min_rooms_required: number;
   require_citations: boolean;
   scale_min: number;
   scale_max: number;
   red_lines: string[];
+  // Independent evaluation samples to merge (1 = single evaluation)
+  consistency_samples: number;
+  shuffle_evidence: boolean;
+}
+
+interface RubricVersionRef {
+  id: number;
+  version: number;
 }
 
 interface DriversPayload {
@@ -40,19 +52,19 @@ interface DriversPayload {
   behaviors: DriverBehavior[];
   instances: DriverInstance[];
   policy: EvaluationPolicy;
+  // Set by getVersionedPayload: the stored snapshot this payload matches
+  rubric_version?: RubricVersionRef | null;
 }
 
-interface EvidencePolicy {
-  min_evidence_items: number;
-  min_rooms_required: number;
-  require_citations: boolean;
-  scale_min: number;
-  scale_max: number;
-}
-
-interface PolicyCheckResult {
-  ok: boolean;
-  reason?: string;
+interface RubricVersion {
+  id: number;
+  client_id: number | null;
+  version: number;
+  content_hash: string;
+  rubric_json: DriversPayload;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
 }
 
 class DriversManager {
@@ -66,12 +78,12 @@ class DriversManager {
   }
 
   /**
-   * Load complete drivers payload for a client
+   * Load complete drivers payload for a client, or the global rubric alone when clientId is null
    */
-  async getDriversPayload(clientId: number): Promise<DriversPayload> {
+  async getDriversPayload(clientId: number | null): Promise<DriversPayload> {
     try {
       // Load drivers, behaviors, and instance summaries
-      const { data: driversData, error: driversError } = await this.supabase
+      let driversQuery = this.supabase
         .from('drivers')
         .select(`
           id,
@@ -82,9 +94,15 @@ class DriversManager {
           client_id,
           negative_indicators
         `)
-        .or(`client_id.is.null,client_id.eq.${clientId}`)
         .eq('is_active', true)
-        .order('weight', { ascending: false });
+        .order('weight', { ascending: false })
+        .order('id', { ascending: true });
+
+      driversQuery = clientId === null
+        ? driversQuery.is('client_id', null)
+        : driversQuery.or(`client_id.is.null,client_id.eq.${clientId}`);
+
+      const { data: driversData, error: driversError } = await driversQuery;
 
       if (driversError) {
         throw new Error(`Failed to load drivers: ${driversError.message}`);
@@ -98,7 +116,8 @@ class DriversManager {
           positive_examples,
           negative_examples
         `)
-        .in('driver_id', driversData.map(d => d.id));
+        .in('driver_id', driversData.map(d => d.id))
+        .order('driver_id', { ascending: true });
 
       if (behaviorsError) {
         throw new Error(`Failed to load driver behaviors: ${behaviorsError.message}`);
@@ -113,27 +132,38 @@ class DriversManager {
           takeaway
         `)
         .in('driver_id', driversData.map(d => d.id))
-        .order('created_at', { ascending: true });
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
 
       if (instancesError) {
         throw new Error(`Failed to load driver instances: ${instancesError.message}`);
       }
 
-      // Load evaluation policy
-      const { data: policyData, error: policyError } = await this.supabase
+      // Load evaluation policy, preferring the client's own over the global one
+      let policyQuery = this.supabase
         .from('evaluation_policies')
         .select(`
           id,
           name,
+          version,
           guidance,
           min_evidence_items,
+          min_rooms_required,
           require_citations,
           scale_min,
           scale_max,
-          red_lines
+          red_lines,
+          consistency_samples,
+          shuffle_evidence
         `)
-        .or(`client_id.is.null,client_id.eq.${clientId}`)
-        .eq('is_active', true)
+        .eq('is_active', true);
+
+      policyQuery = clientId === null
+        ? policyQuery.is('client_id', null)
+        : policyQuery.or(`client_id.is.null,client_id.eq.${clientId}`);
+
+      const { data: policyData, error: policyError } = await policyQuery
+        .order('client_id', { ascending: true, nullsFirst: false })
         .order('created_at', { ascending: false })
         .limit(1)
         .single();
@@ -143,12 +173,16 @@ class DriversManager {
         const defaultPolicy: EvaluationPolicy = {
           id: 0,
           name: 'Default Policy',
+          version: 0,
           guidance: 'Always provide evidence and cite messages. Use only retrieved chat evidence for scoring.',
           min_evidence_items: 3,
+          min_rooms_required: 1,
           require_citations: true,
           scale_min: 1,
           scale_max: 5,
-          red_lines: []
+          red_lines: [],
+          consistency_samples: 1,
+          shuffle_evidence: true
         };
         return {
           drivers: driversData,
@@ -171,51 +205,118 @@ class DriversManager {
   }
 
   /**
-   * Enforce evidence policy before calling Gemini
+   * Load the drivers payload and tag it with the rubric version it matches,
+   * storing a new version first if the rubric changed since the last snapshot
    */
-  enforceEvidencePolicy(
-    retrievedChunks: any[],
-    policy: EvaluationPolicy
-  ): PolicyCheckResult {
-    try {
-      // Check minimum evidence items
-      if (retrievedChunks.length < policy.min_evidence_items) {
-        return {
-          ok: false,
-          reason: `Insufficient evidence: found ${retrievedChunks.length} items, need at least ${policy.min_evidence_items}`
-        };
-      }
+  async getVersionedPayload(clientId: number): Promise<DriversPayload> {
+    const payload = await this.getDriversPayload(clientId);
+    const version = await this.storeRubricVersion(clientId, payload, {
+      note: 'Captured for evaluation'
+    });
+    return { ...payload, rubric_version: { id: version.id, version: version.version } };
+  }
 
-      // Check minimum rooms required (if policy specifies)
-      if (policy.min_evidence_items > 1) {
-        const uniqueRooms = new Set(retrievedChunks.map(chunk => chunk.room_id)).size;
-        if (uniqueRooms < 2) {
-          return {
-            ok: false,
-            reason: `Insufficient room diversity: evidence from ${uniqueRooms} room(s), need at least 2 different rooms`
-          };
-        }
-      }
+  /**
+   * Snapshot the current rubric for a scope (null = global) as an immutable version
+   */
+  async snapshotRubric(
+    clientId: number | null,
+    options: { createdBy?: string | null; note?: string | null } = {}
+  ): Promise<RubricVersion> {
+    const payload = await this.getDriversPayload(clientId);
+    return await this.storeRubricVersion(clientId, payload, options);
+  }
 
-      return { ok: true };
-    } catch (error) {
-      console.error('Error enforcing evidence policy:', error);
-      return {
-        ok: false,
-        reason: 'Error checking evidence policy'
-      };
+  /**
+   * Rubric versions for a scope, newest first
+   */
+  async listRubricVersions(clientId: number | null, limit = 50): Promise<Omit<RubricVersion, 'rubric_json'>[]> {
+    let query = this.supabase
+      .from('rubric_versions')
+      .select('id, client_id, version, content_hash, change_note, created_by, created_at')
+      .order('version', { ascending: false })
+      .limit(limit);
+
+    query = clientId === null ? query.is('client_id', null) : query.eq('client_id', clientId);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list rubric versions: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * A stored rubric version with its full snapshot
+   */
+  async getRubricVersion(versionId: number): Promise<RubricVersion | null> {
+    const { data, error } = await this.supabase
+      .from('rubric_versions')
+      .select('*')
+      .eq('id', versionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load rubric version: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Store the payload as the scope's next version unless the latest version already matches it
+   */
+  private async storeRubricVersion(
+    clientId: number | null,
+    payload: DriversPayload,
+    options: { createdBy?: string | null; note?: string | null }
+  ): Promise<RubricVersion> {
+    const { rubric_version: _ignored, ...rubric } = payload;
+    const contentHash = await sha256Hex(JSON.stringify(rubric));
+
+    let latestQuery = this.supabase
+      .from('rubric_versions')
+      .select('*')
+      .order('version', { ascending: false })
+      .limit(1);
+
+    latestQuery = clientId === null ? latestQuery.is('client_id', null) : latestQuery.eq('client_id', clientId);
+
+    const { data: latest, error: latestError } = await latestQuery.maybeSingle();
+    if (latestError) {
+      throw new Error(`Failed to load latest rubric version: ${latestError.message}`);
     }
+    if (latest && latest.content_hash === contentHash) {
+      return latest;
+    }
+
+    const { data: created, error: createError } = await this.supabase
+      .from('rubric_versions')
+      .insert({
+        client_id: clientId,
+        content_hash: contentHash,
+        rubric_json: rubric,
+        change_note: options.note ?? null,
+        created_by: options.createdBy ?? null
+      })
+      .select('*')
+      .single();
+
+    if (createError) {
+      throw new Error(`Failed to store rubric version: ${createError.message}`);
+    }
+    return created;
   }
 
   /**
-   * Compact evidence for Gemini prompt
+   * Compact evidence for Gemini prompt, keeping the drivers each chunk was retrieved for
    */
   compactEvidence(chunks: any[]): any[] {
     return chunks.map(chunk => ({
       chunk_id: chunk.id,
       room: chunk.room_name || 'Unknown Room',
       ts: chunk.first_ts || chunk.created_at,
-      preview: chunk.text?.substring(0, 200) || 'No preview available'
+      preview: (chunk.text || chunk.content)?.substring(0, 200) || 'No preview available',
+      ...(chunk.driver_keys ? { drivers: chunk.driver_keys } : {})
     }));
   }
 
@@ -235,23 +336,17 @@ class DriversManager {
         throw new Error('Invalid scores array in evaluation');
       }
 
-      // Clamp scores to policy range
+      // Clamp scores to policy range; drivers without evidence stay unscored
       validated.scores = validated.scores.map((score: any) => ({
         ...score,
-        score: Math.max(policy.scale_min, Math.min(policy.scale_max, score.score || 1)),
+        score: score.insufficient_evidence
+          ? null
+          : Math.max(policy.scale_min, Math.min(policy.scale_max, score.score || 1)),
         weight: Math.max(0, Math.min(2, score.weight || 1.0))
       }));
 
-      // Recompute weighted total
-      let totalWeight = 0;
-      let weightedSum = 0;
-
-      validated.scores.forEach((score: any) => {
-        totalWeight += score.weight;
-        weightedSum += (score.score * score.weight);
-      });
-
-      validated.weighted_total = totalWeight > 0 ? weightedSum / totalWeight : 0;
+      // Recompute weighted total over the scored drivers only
+      validated.weighted_total = computeWeightedTotal(validated.scores);
 
       // Ensure confidence is within bounds
       if (validated.confidence !== undefined) {
@@ -270,7 +365,8 @@ class DriversManager {
    */
   createShortSummary(evaluation: any): string {
     try {
-      const scores = evaluation.scores || [];
+      const scores = (evaluation.scores || []).filter((s: any) => s.score !== null);
+      const unscored = (evaluation.scores || []).length - scores.length;
       const avgScore = scores.length > 0 
         ? scores.reduce((sum: number, s: any) => sum + s.score, 0) / scores.length 
         : 0;
@@ -278,7 +374,22 @@ class DriversManager {
       const strengths = evaluation.strengths || [];
       const risks = evaluation.risks || [];
 
-      let summary = `Evaluation complete. Average score: ${avgScore.toFixed(1)}/5. `;
+      let summary = scores.length > 0
+        ? `Evaluation complete. Average score: ${avgScore.toFixed(1)}/5. `
+        : 'Evaluation complete. No driver had enough evidence to score. ';
+
+      const withheld = (evaluation.scores || []).filter((s: any) => s.withheld).length;
+      if (unscored - withheld > 0 && scores.length > 0) {
+        summary += `${unscored - withheld} driver(s) not scored for lack of evidence. `;
+      }
+
+      if (withheld > 0) {
+        summary += `${withheld} score(s) withheld by the evaluation policy. `;
+      }
+
+      if (evaluation.policy_report?.total_withheld) {
+        summary += 'The overall score is withheld because the evidence crosses a red line; see the policy report. ';
+      }
       
       if (strengths.length > 0) {
         summary += `Key strengths: ${strengths.slice(0, 2).join(', ')}. `;
@@ -296,6 +407,50 @@ class DriversManager {
   }
 }
 
+/**
+ * Text a driver is embedded from: name, description, behaviors and instance takeaways.
+ * drivers-vectorize stores this embedding; evidence retrieval recomputes it when missing.
+ */
+export function driverEmbeddingText(
+  driver: { name: string; description?: string | null; key?: string | null },
+  behaviors: { positive_examples?: string[] | null; negative_examples?: string[] | null } | null,
+  instances: Array<{ title: string; takeaway: string }> | null
+): string {
+  let content = `Driver: ${driver.name}\n`;
+
+  if (driver.description) {
+    content += `Description: ${driver.description}\n`;
+  }
+
+  if (driver.key) {
+    content += `Key: ${driver.key}\n`;
+  }
+
+  if (behaviors) {
+    if (behaviors.positive_examples && behaviors.positive_examples.length > 0) {
+      content += `Positive Examples: ${behaviors.positive_examples.join(', ')}\n`;
+    }
+
+    if (behaviors.negative_examples && behaviors.negative_examples.length > 0) {
+      content += `Negative Examples: ${behaviors.negative_examples.join(', ')}\n`;
+    }
+  }
+
+  if (instances && instances.length > 0) {
+    content += `Instances:\n`;
+    instances.forEach(instance => {
+      content += `- ${instance.title}: ${instance.takeaway}\n`;
+    });
+  }
+
+  return content;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 // Export singleton instance
 export const driversManager = new DriversManager();
 
@@ -306,6 +461,6 @@ export type {
   DriverInstance,
   EvaluationPolicy,
   DriversPayload,
-  EvidencePolicy,
-  PolicyCheckResult
+  RubricVersionRef,
+  RubricVersion
 };
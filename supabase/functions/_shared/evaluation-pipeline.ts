@@ -0,0 +1,151 @@
+// Evaluation pipeline
+// Retrieves evidence for one subject, applies the evidence policy and scores them against the rubric
+
+import { db } from './db.ts';
+import { driversManager } from './drivers.ts';
+import type { DriversPayload } from './drivers.ts';
+import { driverEvidence } from './driver-evidence.ts';
+import { consistencySampler } from './consistency.ts';
+import { geminiClient } from './gemini.ts';
+import { policyEngine } from './policy.ts';
+import type { PolicyReport } from './policy.ts';
+import { rankChunks } from './ranking.ts';
+
+interface EvaluateSubjectParams {
+  client_id: number;
+  subject: string;
+  question: string;
+  filters?: Record<string, any>;
+  // Rubric to score against; loaded (and versioned) for the client when omitted
+  rubric?: DriversPayload;
+}
+
+type EvaluationOutcome =
+  | {
+      status: 'evaluated';
+      rubric: DriversPayload;
+      evidence: any[];
+      // Validated evaluation with policy_report attached
+      evaluation: any;
+      insufficient_drivers: string[];
+      model_provider: string;
+      model_name: string;
+    }
+  | {
+      status: 'no_evidence';
+      rubric: DriversPayload;
+      reason: string;
+    }
+  | {
+      status: 'policy_blocked';
+      rubric: DriversPayload;
+      reason: string;
+      policy_report: PolicyReport;
+    };
+
+class EvaluationPipeline {
+  /**
+   * Evaluate one subject. Nothing is stored: callers record the outcome with
+   * evaluationStore once they have the query or batch it belongs to.
+   */
+  async run(params: EvaluateSubjectParams): Promise<EvaluationOutcome> {
+    const rubric = params.rubric ?? await driversManager.getVersionedPayload(params.client_id);
+
+    // One search per driver over the subject's messages, or a single hybrid search
+    // on the question when the rubric has no drivers
+    let evidence: any[];
+    let insufficientDrivers: string[] = [];
+
+    if (rubric.drivers.length > 0) {
+      const gathered = await driverEvidence.gather({
+        client_id: params.client_id,
+        subject: params.subject,
+        rubric,
+        filters: params.filters
+      });
+      evidence = gathered.chunks;
+      insufficientDrivers = gathered.insufficient;
+    } else {
+      evidence = await this.searchQuestion(params);
+    }
+
+    if (evidence.length === 0) {
+      return {
+        status: 'no_evidence',
+        rubric,
+        reason: 'No relevant information found in the chat data for evaluation'
+      };
+    }
+
+    // Enforce the evidence rules of the policy before calling the model
+    const preReport = policyEngine.preCheck(evidence, rubric.policy);
+    if (!preReport.passed) {
+      return {
+        status: 'policy_blocked',
+        rubric,
+        reason: policyEngine.failureReason(preReport) || 'Insufficient evidence for evaluation',
+        policy_report: preReport
+      };
+    }
+
+    // One evaluation, or several merged samples when the policy asks for consistency sampling
+    const llm = await geminiClient.forClient(params.client_id);
+    const evalJson = await consistencySampler.evaluate(llm, {
+      subject: params.subject,
+      question: params.question,
+      drivers: rubric.drivers,
+      instances: rubric.instances,
+      policy: rubric.policy,
+      evidence: driversManager.compactEvidence(evidence),
+      insufficientDrivers
+    });
+
+    // Validate and clamp scores, then apply the citation and red-line rules
+    const evaluation = policyEngine.postCheck(
+      driversManager.validateAndClamp(evalJson, rubric.policy, rubric.drivers),
+      evidence,
+      rubric.policy,
+      preReport
+    );
+
+    return {
+      status: 'evaluated',
+      rubric,
+      evidence,
+      evaluation,
+      insufficient_drivers: insufficientDrivers,
+      model_provider: llm.provider.name,
+      model_name: llm.model
+    };
+  }
+
+  private async searchQuestion(params: EvaluateSubjectParams): Promise<any[]> {
+    let queryVec: number[] | null = null;
+    try {
+      queryVec = await db.getEmbeddings(params.question, params.client_id);
+    } catch (error) {
+      console.warn('Failed to get embeddings, proceeding with text search only:', error);
+    }
+
+    const { vectorTop, textTop } = await db.hybridSearch({
+      client_id: params.client_id,
+      filters: params.filters,
+      queryVec,
+      question: params.question
+    });
+
+    // Fuse both legs, rerank and pick a diverse evidence set
+    return await rankChunks({
+      question: params.question,
+      vectorResults: vectorTop,
+      textResults: textTop,
+      mmr: { lambda: 0.7, maxResults: 12 }
+    });
+  }
+}
+
+// Export singleton instance
+export const evaluationPipeline = new EvaluationPipeline();
+
+// Export types
+export type { EvaluateSubjectParams, EvaluationOutcome };
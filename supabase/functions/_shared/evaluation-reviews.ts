@@ -0,0 +1,372 @@
+// Evaluation reviews
+// Moves evaluation records through draft, in review and approved / rejected, with reviewer score adjustments and an audit trail
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiError } from './auth.ts';
+import { evaluationStore } from './evaluations.ts';
+import type { EvaluationRecord, ReviewStatus } from './evaluations.ts';
+import { computeWeightedTotal } from './policy.ts';
+
+type ReviewTransition = 'submit' | 'approve' | 'reject' | 'reopen';
+
+type ReviewAction = 'submitted' | 'approved' | 'rejected' | 'reopened' | 'adjusted' | 'commented';
+
+interface ScoreAdjustment {
+  driver_key: string;
+  score: number;
+  reasoning?: string;
+}
+
+interface ReviewEvent {
+  id: number;
+  record_id: number;
+  action: ReviewAction;
+  from_status: ReviewStatus | null;
+  to_status: ReviewStatus | null;
+  comment: string | null;
+  details: any;
+  created_by: string | null;
+  created_at: string;
+  author?: { email: string | null; full_name: string | null } | null;
+}
+
+interface ReviewQueueItem {
+  id: number;
+  subject_name: string;
+  version: number;
+  question: string | null;
+  review_status: ReviewStatus;
+  weighted_total: number | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+// Allowed source states and the resulting state of every transition
+const TRANSITIONS: Record<ReviewTransition, { from: ReviewStatus[]; to: ReviewStatus; action: ReviewAction }> = {
+  submit: { from: ['draft', 'rejected'], to: 'in_review', action: 'submitted' },
+  approve: { from: ['in_review'], to: 'approved', action: 'approved' },
+  reject: { from: ['in_review'], to: 'rejected', action: 'rejected' },
+  reopen: { from: ['approved'], to: 'in_review', action: 'reopened' },
+};
+
+// Scores can only be changed before sign-off
+const ADJUSTABLE: ReviewStatus[] = ['draft', 'in_review'];
+
+class ReviewError extends ApiError {}
+
+class EvaluationReviewManager {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Records of a client awaiting sign-off (or in the given state), newest first
+   */
+  async queue(clientId: number, status?: ReviewStatus): Promise<ReviewQueueItem[]> {
+    let query = this.supabase
+      .from('evaluation_records')
+      .select('id, subject_name, version, question, review_status, weighted_total, created_at, reviewed_at')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    query = status ? query.eq('review_status', status) : query.neq('review_status', 'approved');
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load review queue: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Review trail of a record, oldest first
+   */
+  async events(clientId: number, recordId: number): Promise<ReviewEvent[]> {
+    const { data, error } = await this.supabase
+      .from('evaluation_review_events')
+      .select('id, record_id, action, from_status, to_status, comment, details, created_by, created_at, author:platform_users(email, full_name)')
+      .eq('client_id', clientId)
+      .eq('record_id', recordId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load review events: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Move a record to its next review state. Rejecting needs a comment; approving
+   * releases a weighted total that the evidence policy withheld for review.
+   */
+  async transition(
+    clientId: number,
+    recordId: number,
+    transition: ReviewTransition,
+    userId: string,
+    comment?: string
+  ): Promise<EvaluationRecord> {
+    const record = await this.load(clientId, recordId);
+    const rule = TRANSITIONS[transition];
+
+    if (!rule.from.includes(record.review_status)) {
+      throw new ReviewError(
+        'E_INVALID_TRANSITION',
+        `Cannot ${transition} an evaluation that is ${record.review_status.replace('_', ' ')}`
+      );
+    }
+    if (transition === 'reject' && !comment?.trim()) {
+      throw new ReviewError('E_COMMENT_REQUIRED', 'A comment is required to reject an evaluation', 400);
+    }
+
+    const update: Record<string, unknown> = { review_status: rule.to };
+    const details: Record<string, unknown> = {};
+
+    if (transition === 'approve' || transition === 'reject') {
+      update.reviewed_by = userId;
+      update.reviewed_at = new Date().toISOString();
+    }
+    if (transition === 'approve' && record.policy_report?.total_withheld) {
+      update.weighted_total = roundTotal(computeWeightedTotal(record.scores.map(toWeighted)));
+      details.released_total = true;
+    }
+
+    // Guard on the current state so two reviewers cannot both move the same record
+    const { data, error } = await this.supabase
+      .from('evaluation_records')
+      .update(update)
+      .eq('id', recordId)
+      .eq('review_status', record.review_status)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update review status: ${error.message}`);
+    }
+    if (!data) {
+      throw new ReviewError('E_CONFLICT', 'The evaluation was changed by someone else; reload and try again');
+    }
+
+    await this.logEvent(clientId, recordId, {
+      action: rule.action,
+      from_status: record.review_status,
+      to_status: rule.to,
+      comment,
+      details,
+      created_by: userId,
+    });
+
+    return await this.load(clientId, recordId);
+  }
+
+  /**
+   * Replace driver scores and reasoning. The model's values stay in ai_score and
+   * ai_reasoning, and the weighted total is recomputed unless a red line withheld it.
+   */
+  async adjust(
+    clientId: number,
+    recordId: number,
+    adjustments: ScoreAdjustment[],
+    userId: string,
+    comment?: string
+  ): Promise<EvaluationRecord> {
+    const record = await this.load(clientId, recordId);
+
+    if (!ADJUSTABLE.includes(record.review_status)) {
+      throw new ReviewError(
+        'E_INVALID_TRANSITION',
+        `Scores of a ${record.review_status.replace('_', ' ')} evaluation cannot be adjusted`
+      );
+    }
+
+    const rubric = await this.rubric(recordId);
+    const rubricDrivers: any[] = rubric?.drivers || [];
+    const scaleMin = rubric?.policy?.scale_min ?? 1;
+    const scaleMax = rubric?.policy?.scale_max ?? 5;
+    const now = new Date().toISOString();
+    const changes: any[] = [];
+
+    const outOfScale = adjustments.find((adjustment) => adjustment.score < scaleMin || adjustment.score > scaleMax);
+    if (outOfScale) {
+      throw new ReviewError(
+        'E_SCORE_OUT_OF_RANGE',
+        `Score for ${outOfScale.driver_key} must be between ${scaleMin} and ${scaleMax}`,
+        400
+      );
+    }
+
+    for (const adjustment of adjustments) {
+      const existing = record.scores.find((score) => score.driver_key === adjustment.driver_key);
+      const reasoning = adjustment.reasoning?.trim() || existing?.reasoning || null;
+
+      if (existing) {
+        if (Number(existing.score) === adjustment.score && existing.reasoning === reasoning) continue;
+
+        const { error } = await this.supabase
+          .from('evaluation_record_scores')
+          .update({ score: adjustment.score, reasoning, adjusted_by: userId, adjusted_at: now })
+          .eq('record_id', recordId)
+          .eq('driver_key', adjustment.driver_key);
+
+        if (error) {
+          throw new Error(`Failed to adjust ${adjustment.driver_key}: ${error.message}`);
+        }
+      } else {
+        // A driver the model left unscored (insufficient evidence or withheld by the policy)
+        const driver = rubricDrivers.find((d) => d.key === adjustment.driver_key);
+        if (!driver) {
+          throw new ReviewError('E_UNKNOWN_DRIVER', `Driver ${adjustment.driver_key} is not part of this evaluation's rubric`, 400);
+        }
+
+        const { error } = await this.supabase
+          .from('evaluation_record_scores')
+          .insert({
+            record_id: recordId,
+            client_id: clientId,
+            subject_key: record.subject_key,
+            person_id: record.person_id,
+            driver_id: driver.id ?? null,
+            driver_key: driver.key,
+            driver_name: driver.name ?? null,
+            score: adjustment.score,
+            weight: driver.weight ?? null,
+            reasoning,
+            review_status: record.review_status,
+            adjusted_by: userId,
+            adjusted_at: now,
+          });
+
+        if (error) {
+          throw new Error(`Failed to add a score for ${adjustment.driver_key}: ${error.message}`);
+        }
+      }
+
+      changes.push({
+        driver_key: adjustment.driver_key,
+        from_score: existing ? Number(existing.score) : null,
+        to_score: adjustment.score,
+        from_reasoning: existing?.reasoning ?? null,
+        to_reasoning: reasoning,
+      });
+    }
+
+    if (changes.length === 0) {
+      if (comment?.trim()) await this.comment(clientId, recordId, userId, comment);
+      return record;
+    }
+
+    const updated = await this.load(clientId, recordId);
+    if (!updated.policy_report?.total_withheld) {
+      const { error } = await this.supabase
+        .from('evaluation_records')
+        .update({ weighted_total: roundTotal(computeWeightedTotal(updated.scores.map(toWeighted))) })
+        .eq('id', recordId);
+
+      if (error) {
+        throw new Error(`Failed to update the weighted total: ${error.message}`);
+      }
+    }
+
+    await this.logEvent(clientId, recordId, {
+      action: 'adjusted',
+      from_status: record.review_status,
+      to_status: record.review_status,
+      comment,
+      details: { changes },
+      created_by: userId,
+    });
+
+    return await this.load(clientId, recordId);
+  }
+
+  /**
+   * Leave a reviewer comment; allowed in every state
+   */
+  async comment(clientId: number, recordId: number, userId: string, comment: string): Promise<ReviewEvent> {
+    const record = await this.load(clientId, recordId);
+    return await this.logEvent(clientId, recordId, {
+      action: 'commented',
+      from_status: record.review_status,
+      to_status: record.review_status,
+      comment,
+      details: {},
+      created_by: userId,
+    });
+  }
+
+  private async load(clientId: number, recordId: number): Promise<EvaluationRecord> {
+    const record = await evaluationStore.get(clientId, recordId);
+    if (!record) {
+      throw new ReviewError('E_NOT_FOUND', 'Evaluation not found', 404);
+    }
+    return record;
+  }
+
+  private async rubric(recordId: number): Promise<any | null> {
+    const { data, error } = await this.supabase
+      .from('evaluation_records')
+      .select('rubric_json')
+      .eq('id', recordId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to load the evaluation rubric: ${error.message}`);
+    }
+    return data?.rubric_json ?? null;
+  }
+
+  private async logEvent(
+    clientId: number,
+    recordId: number,
+    event: {
+      action: ReviewAction;
+      from_status: ReviewStatus;
+      to_status: ReviewStatus;
+      comment?: string;
+      details: Record<string, unknown>;
+      created_by: string;
+    }
+  ): Promise<ReviewEvent> {
+    const { data, error } = await this.supabase
+      .from('evaluation_review_events')
+      .insert({
+        record_id: recordId,
+        client_id: clientId,
+        action: event.action,
+        from_status: event.from_status,
+        to_status: event.to_status,
+        comment: event.comment?.trim() || null,
+        details: event.details,
+        created_by: event.created_by,
+      })
+      .select('id, record_id, action, from_status, to_status, comment, details, created_by, created_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record review event: ${error.message}`);
+    }
+    return data;
+  }
+}
+
+function toWeighted(score: { score: number; weight: number | null }): { score: number; weight?: number } {
+  return { score: Number(score.score), weight: score.weight !== null ? Number(score.weight) : undefined };
+}
+
+function roundTotal(total: number | null): number | null {
+  return total === null ? null : Math.round(total * 100) / 100;
+}
+
+// Export singleton instance
+export const evaluationReviews = new EvaluationReviewManager();
+
+export { ReviewError };
+
+// Export types
+export type { ReviewTransition, ReviewAction, ScoreAdjustment, ReviewEvent, ReviewQueueItem };
@@ -0,0 +1,419 @@
+// Evaluation records
+// Stores structured evaluations as versioned records per client and subject, and reads them back as history and trends
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { DriversPayload } from './drivers.ts';
+import type { PolicyReport } from './policy.ts';
+import type { ConsistencyReport } from './consistency.ts';
+import { peopleDirectory } from './people.ts';
+
+interface RecordEvaluationParams {
+  client_id: number;
+  subject: string;
+  query_id?: number | null;
+  conversation_id?: number | null;
+  question?: string | null;
+  mode?: 'drivers' | 'general';
+  rubric: DriversPayload;
+  // Validated model output (scores, strengths, growth_opportunities, confidence_analysis, ...)
+  result: any;
+  cited_chunk_ids: Array<number | string>;
+  model_provider?: string | null;
+  model_name?: string | null;
+  created_by?: string | null;
+}
+
+type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected';
+
+interface EvaluationRecordScore {
+  driver_id: number | null;
+  driver_key: string;
+  driver_name: string | null;
+  score: number;
+  weight: number | null;
+  evidence_strength: string | null;
+  reasoning: string | null;
+  // Spread across consistency samples; null for single-sample evaluations
+  score_variance: number | null;
+  agreement: number | null;
+  unstable: boolean;
+  // Model originals, kept when a reviewer adjusts the score; null for reviewer-added scores
+  ai_score: number | null;
+  ai_reasoning: string | null;
+  adjusted_by: string | null;
+  adjusted_at: string | null;
+}
+
+interface EvaluationRecord {
+  id: number;
+  client_id: number;
+  subject_key: string;
+  subject_name: string;
+  // Person in the people directory the subject resolved to
+  person_id: number | null;
+  version: number;
+  query_id: number | null;
+  conversation_id: number | null;
+  question: string | null;
+  mode: 'drivers' | 'general';
+  policy_id: number | null;
+  policy_version: number | null;
+  rubric_version_id: number | null;
+  rubric_version: number | null;
+  result_json: any;
+  policy_report: PolicyReport | null;
+  consistency: ConsistencyReport | null;
+  weighted_total: number | null;
+  confidence: number | null;
+  cited_chunk_ids: number[];
+  model_provider: string | null;
+  model_name: string | null;
+  review_status: ReviewStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  scores: EvaluationRecordScore[];
+}
+
+interface SubjectSummary {
+  subject_key: string;
+  subject_name: string;
+  evaluation_count: number;
+  latest_version: number;
+  latest_weighted_total: number | null;
+  latest_at: string;
+}
+
+type TrendBucket = 'month' | 'quarter';
+
+interface DriverTrendPoint {
+  period: string;
+  average_score: number;
+  evaluations: number;
+}
+
+interface DriverTrend {
+  driver_key: string;
+  driver_name: string | null;
+  points: DriverTrendPoint[];
+  // Difference between the last two periods, null with fewer than two
+  change: number | null;
+}
+
+const RECORD_COLUMNS = `
+  id,
+  client_id,
+  subject_key,
+  subject_name,
+  person_id,
+  version,
+  query_id,
+  conversation_id,
+  question,
+  mode,
+  policy_id,
+  policy_version,
+  rubric_version_id,
+  rubric_version,
+  result_json,
+  policy_report,
+  consistency,
+  weighted_total,
+  confidence,
+  cited_chunk_ids,
+  model_provider,
+  model_name,
+  review_status,
+  reviewed_by,
+  reviewed_at,
+  created_by,
+  created_at,
+  scores:evaluation_record_scores(
+    driver_id,
+    driver_key,
+    driver_name,
+    score,
+    weight,
+    evidence_strength,
+    reasoning,
+    score_variance,
+    agreement,
+    unstable,
+    ai_score,
+    ai_reasoning,
+    adjusted_by,
+    adjusted_at
+  )
+`;
+
+/**
+ * Key a subject by name so "Priya", "priya " and "PRIYA" share one history
+ */
+export function normalizeSubjectKey(subject: string): string {
+  return subject.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Subject key of a person in the people directory, so all of their aliases share one history
+ */
+export function personSubjectKey(personId: number): string {
+  return `person:${personId}`;
+}
+
+/**
+ * Restrict a records or scores query to a subject key. Person keys also match
+ * records made under one of the person's aliases before it was linked.
+ */
+function whereSubject(query: any, subject: string): any {
+  const match = /^person:(\d+)$/.exec(subject.trim());
+  return match ? query.eq('person_id', Number(match[1])) : query.eq('subject_key', normalizeSubjectKey(subject));
+}
+
+/**
+ * Calendar bucket for a timestamp, e.g. "2025-Q2" or "2025-04" (UTC)
+ */
+export function trendPeriod(timestamp: string, bucket: TrendBucket): string {
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  return bucket === 'quarter'
+    ? `${year}-Q${Math.floor(month / 3) + 1}`
+    : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+class EvaluationStore {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Store an evaluation as the subject's next version, with one score row per driver.
+   * Records start as drafts and only count in history once a reviewer approves them.
+   */
+  async record(params: RecordEvaluationParams): Promise<EvaluationRecord> {
+    const result = params.result || {};
+    // Aliases of a known person ("Monica", "Monica R") share the person's history
+    const person = await peopleDirectory.resolve(params.client_id, params.subject);
+    const subjectKey = person ? personSubjectKey(person.person_id) : normalizeSubjectKey(params.subject);
+
+    const { data: record, error } = await this.supabase
+      .from('evaluation_records')
+      .insert({
+        client_id: params.client_id,
+        subject_key: subjectKey,
+        subject_name: person ? person.display_name : params.subject.trim(),
+        person_id: person?.person_id ?? null,
+        query_id: params.query_id ?? null,
+        conversation_id: params.conversation_id ?? null,
+        question: params.question ?? null,
+        mode: params.mode ?? 'drivers',
+        policy_id: params.rubric.policy?.id || null,
+        policy_version: params.rubric.policy?.version ?? null,
+        rubric_version_id: params.rubric.rubric_version?.id ?? null,
+        rubric_version: params.rubric.rubric_version?.version ?? null,
+        rubric_json: params.rubric,
+        result_json: result,
+        policy_report: result.policy_report ?? null,
+        consistency: result.consistency ?? null,
+        weighted_total: toNumber(result.weighted_total),
+        confidence: toNumber(result.confidence_analysis?.overall_confidence ?? result.confidence),
+        cited_chunk_ids: Array.from(new Set(params.cited_chunk_ids.map(Number).filter(Number.isFinite))),
+        model_provider: params.model_provider ?? null,
+        model_name: params.model_name ?? null,
+        created_by: params.created_by ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store evaluation record: ${error.message}`);
+    }
+
+    const driversByKey = new Map(params.rubric.drivers.map((driver) => [driver.key, driver]));
+    const scoreRows = (Array.isArray(result.scores) ? result.scores : [])
+      .filter((score: any) => score?.driver && toNumber(score.score) !== null)
+      .map((score: any) => {
+        const driver = driversByKey.get(score.driver);
+        return {
+          record_id: record.id,
+          client_id: params.client_id,
+          subject_key: subjectKey,
+          person_id: person?.person_id ?? null,
+          driver_id: driver?.id ?? null,
+          driver_key: score.driver,
+          driver_name: driver?.name ?? null,
+          score: toNumber(score.score),
+          weight: toNumber(score.weight),
+          evidence_strength: score.evidence_strength ?? null,
+          reasoning: score.reasoning ?? null,
+          score_variance: toNumber(score.consistency?.variance),
+          agreement: toNumber(score.consistency?.agreement),
+          unstable: !!score.consistency?.unstable,
+          ai_score: toNumber(score.score),
+          ai_reasoning: score.reasoning ?? null,
+        };
+      });
+
+    if (scoreRows.length > 0) {
+      const { error: scoresError } = await this.supabase.from('evaluation_record_scores').insert(scoreRows);
+      if (scoresError) {
+        // Don't leave a record whose trend rows are missing
+        await this.supabase.from('evaluation_records').delete().eq('id', record.id);
+        throw new Error(`Failed to store evaluation scores: ${scoresError.message}`);
+      }
+    }
+
+    return await this.get(params.client_id, record.id) as EvaluationRecord;
+  }
+
+  /**
+   * One record by id, scoped to the client
+   */
+  async get(clientId: number, recordId: number): Promise<EvaluationRecord | null> {
+    const { data, error } = await this.supabase
+      .from('evaluation_records')
+      .select(RECORD_COLUMNS)
+      .eq('client_id', clientId)
+      .eq('id', recordId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load evaluation record: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Everyone with an approved evaluation for a client, most recently evaluated first
+   */
+  async listSubjects(clientId: number): Promise<SubjectSummary[]> {
+    const { data, error } = await this.supabase
+      .from('evaluation_records')
+      .select('subject_key, subject_name, person_id, version, weighted_total, created_at')
+      .eq('client_id', clientId)
+      .eq('review_status', 'approved')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list evaluated subjects: ${error.message}`);
+    }
+
+    const subjects = new Map<string, SubjectSummary>();
+    for (const row of data || []) {
+      // Records of a person's aliases made before they were linked list under the person
+      const key = row.person_id ? personSubjectKey(row.person_id) : row.subject_key;
+      const existing = subjects.get(key);
+      if (existing) {
+        existing.evaluation_count++;
+        continue;
+      }
+      // Rows arrive newest first, so the first row per subject is the latest
+      subjects.set(key, {
+        subject_key: key,
+        subject_name: row.subject_name,
+        evaluation_count: 1,
+        latest_version: row.version,
+        latest_weighted_total: toNumber(row.weighted_total),
+        latest_at: row.created_at,
+      });
+    }
+    return Array.from(subjects.values());
+  }
+
+  /**
+   * A subject's approved evaluations, newest first
+   */
+  async history(clientId: number, subject: string, limit = 50): Promise<EvaluationRecord[]> {
+    const { data, error } = await whereSubject(
+      this.supabase
+        .from('evaluation_records')
+        .select(RECORD_COLUMNS)
+        .eq('client_id', clientId),
+      subject
+    )
+      .eq('review_status', 'approved')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load evaluation history: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Average approved score per driver per month or quarter, oldest period first
+   */
+  async driverTrends(
+    clientId: number,
+    subject: string,
+    options: { bucket?: TrendBucket; driverKey?: string } = {}
+  ): Promise<DriverTrend[]> {
+    const bucket = options.bucket ?? 'quarter';
+    let query = whereSubject(
+      this.supabase
+        .from('evaluation_record_scores')
+        .select('driver_key, driver_name, score, created_at')
+        .eq('client_id', clientId),
+      subject
+    )
+      .eq('review_status', 'approved')
+      .order('created_at', { ascending: true });
+
+    if (options.driverKey) {
+      query = query.eq('driver_key', options.driverKey);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load driver trends: ${error.message}`);
+    }
+
+    const drivers = new Map<string, { name: string | null; periods: Map<string, number[]> }>();
+    for (const row of data || []) {
+      const driver = drivers.get(row.driver_key) ?? { name: row.driver_name, periods: new Map<string, number[]>() };
+      const period = trendPeriod(row.created_at, bucket);
+      driver.periods.set(period, [...(driver.periods.get(period) ?? []), Number(row.score)]);
+      drivers.set(row.driver_key, driver);
+    }
+
+    return Array.from(drivers.entries()).map(([driverKey, driver]) => {
+      const points = Array.from(driver.periods.entries()).map(([period, scores]) => ({
+        period,
+        average_score: Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100,
+        evaluations: scores.length,
+      }));
+      const change = points.length >= 2
+        ? Math.round((points[points.length - 1].average_score - points[points.length - 2].average_score) * 100) / 100
+        : null;
+      return { driver_key: driverKey, driver_name: driver.name, points, change };
+    });
+  }
+}
+
+// Export singleton instance
+export const evaluationStore = new EvaluationStore();
+
+// Export types
+export type {
+  ReviewStatus,
+  RecordEvaluationParams,
+  EvaluationRecordScore,
+  EvaluationRecord,
+  SubjectSummary,
+  TrendBucket,
+  DriverTrendPoint,
+  DriverTrend,
+};
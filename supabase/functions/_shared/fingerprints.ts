@@ -0,0 +1,124 @@
+// Message fingerprints
+// Identifies messages across overlapping exports of a room so re-uploads only ingest what is new
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ParsedMessage } from './parsers.ts';
+
+interface FingerprintedMessage {
+  message: ParsedMessage;
+  fingerprint: string;
+}
+
+interface PartitionResult {
+  fresh: FingerprintedMessage[];
+  known: number;
+}
+
+// Fingerprints per known_message_fingerprints call and per insert
+const LOOKUP_BATCH_SIZE = 2000;
+const INSERT_BATCH_SIZE = 500;
+
+class MessageFingerprints {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Fingerprint every message of an export. Cliq messages carry their own id.
+   * WhatsApp messages are keyed by minute and text, plus how often that pair
+   * already occurred in the export, so two "ok"s in one minute stay two messages.
+   * The sender is left out on purpose: each exporter's phone shows the contact
+   * names it has saved, so the same message can carry different sender names.
+   */
+  async fingerprint(messages: ParsedMessage[]): Promise<FingerprintedMessage[]> {
+    const occurrences = new Map<string, number>();
+    const result: FingerprintedMessage[] = [];
+
+    for (const message of messages) {
+      if (message.source_id) {
+        result.push({ message, fingerprint: `id:${message.source_id}` });
+        continue;
+      }
+
+      const key = `${message.ts.slice(0, 16)}|${message.kind}|${normalizeText(message.text)}`;
+      const occurrence = occurrences.get(key) ?? 0;
+      occurrences.set(key, occurrence + 1);
+
+      result.push({ message, fingerprint: await sha256Hex(`${key}|${occurrence}`) });
+    }
+
+    return result;
+  }
+
+  /**
+   * Split an export into messages the room has not seen and a count of those it has
+   */
+  async partition(roomId: number, uploadId: number, messages: ParsedMessage[]): Promise<PartitionResult> {
+    const fingerprinted = await this.fingerprint(messages);
+    const known = new Set<string>();
+
+    for (let i = 0; i < fingerprinted.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = fingerprinted.slice(i, i + LOOKUP_BATCH_SIZE).map((entry) => entry.fingerprint);
+      const { data, error } = await this.supabase.rpc('known_message_fingerprints', {
+        p_room_id: roomId,
+        p_upload_id: uploadId,
+        p_fingerprints: batch,
+      });
+
+      if (error) {
+        throw new Error(`Failed to look up known messages: ${error.message}`);
+      }
+      (data || []).forEach((row: { fingerprint: string }) => known.add(row.fingerprint));
+    }
+
+    const fresh = fingerprinted.filter((entry) => !known.has(entry.fingerprint));
+    return { fresh, known: fingerprinted.length - fresh.length };
+  }
+
+  /**
+   * Add an upload's new messages to the room's history. Rows a previous attempt of
+   * the same upload already wrote are left as they are.
+   */
+  async record(clientId: number, roomId: number, uploadId: number, entries: FingerprintedMessage[]): Promise<void> {
+    for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+      const rows = entries.slice(i, i + INSERT_BATCH_SIZE).map((entry) => ({
+        client_id: clientId,
+        room_id: roomId,
+        fingerprint: entry.fingerprint,
+        ts: entry.message.ts,
+        upload_id: uploadId,
+      }));
+
+      const { error } = await this.supabase
+        .from('room_messages')
+        .upsert(rows, { onConflict: 'room_id,fingerprint', ignoreDuplicates: true });
+
+      if (error) {
+        throw new Error(`Failed to record message fingerprints: ${error.message}`);
+      }
+    }
+  }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\s*<This message was edited>\s*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Export singleton instance
+export const messageFingerprints = new MessageFingerprints();
+
+// Export types
+export type { FingerprintedMessage, PartitionResult };
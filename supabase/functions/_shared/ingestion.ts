@@ -0,0 +1,480 @@
+// Ingestion pipeline
+// Claims queued jobs, parses the stored export, skips messages the room already has, chunks, embeds and indexes it
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { db } from './db.ts';
+import { providerRegistry } from './providers.ts';
+import { parseExport } from './parsers.ts';
+import type { ParseResult, ParsedMessage, ExportFormat, CsvColumnMapping, DateOrder } from './parsers.ts';
+import { chunkMessages } from './chunker.ts';
+import type { ConversationChunk } from './chunker.ts';
+import { peopleDirectory } from './people.ts';
+import { piiRedactor } from './redaction.ts';
+import type { RedactionSummary } from './redaction.ts';
+import { messageFingerprints } from './fingerprints.ts';
+import { partPath } from './resumable-uploads.ts';
+import { jobQueue, JobQueueError } from './job-queue.ts';
+
+interface IngestJob {
+  id: number;
+  upload_id: number;
+  client_id: number;
+  room_id: number;
+  job_type: string;
+  status: string;
+  current_attempt_id: number | null;
+}
+
+interface StoredExport {
+  raw: string;
+  filename: string;
+}
+
+// Per-room import settings kept in rooms.ingest_settings
+interface RoomIngestSettings {
+  format?: ExportFormat | 'auto';
+  column_mapping?: CsvColumnMapping;
+  date_order?: DateOrder;
+  utc_offset_minutes?: number;
+}
+
+// Where a chunk's messages live upstream, stored in chunks.metadata.source
+interface ChunkSource {
+  platform: 'zoho_cliq';
+  chat_id: string | null;
+  thread_id: string | null;
+  message_ids: string[];
+}
+
+interface JobCounts {
+  messages_parsed: number;
+  // Split of messages_parsed: not in the room yet, or already ingested from an earlier export
+  messages_new: number;
+  messages_known: number;
+  system_messages: number;
+  media_omitted: number;
+  chunks_created: number;
+  embeddings_generated: number;
+  // PII values tokenised or masked under the client's redaction policy
+  pii_redacted: number;
+}
+
+// Stage the worker is in, stored in jobs.stage for live progress
+type JobStage = 'parsing' | 'chunking' | 'embedding' | 'indexing';
+
+interface JobTimings {
+  download_ms: number;
+  parse_ms: number;
+  chunk_ms: number;
+  embed_ms: number;
+  total_ms: number;
+}
+
+interface JobOutcome {
+  job_id: number;
+  // Status the job was left in; queued means a retry is scheduled
+  status: 'completed' | 'queued' | 'failed' | 'dead_letter' | 'cancelled';
+  counts?: JobCounts;
+  timings?: JobTimings;
+  error_code?: string;
+  error_message?: string;
+}
+
+const STORAGE_BUCKET = 'chats-raw';
+const INSERT_BATCH_SIZE = 100;
+const JOB_TYPES = ['file_ingestion', 'chat_processing'];
+const WORKER_NAME = 'ingest-worker';
+
+// Errors another attempt cannot fix; the job fails without using its remaining attempts
+const PERMANENT_ERRORS = ['E_UPLOAD_NOT_FOUND', 'E_PARSE_FAILED', 'E_PARSE_EMPTY'];
+
+class IngestionError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+class IngestionPipeline {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Lease up to `limit` due ingest jobs from the queue
+   */
+  async claimJobs(limit: number): Promise<IngestJob[]> {
+    return jobQueue.claim<IngestJob>(JOB_TYPES, limit, WORKER_NAME);
+  }
+
+  /**
+   * Lease a single job by id, only if it is queued and due
+   */
+  async claimJob(jobId: number): Promise<IngestJob | null> {
+    return jobQueue.claimJob<IngestJob>(jobId, JOB_TYPES, WORKER_NAME);
+  }
+
+  /**
+   * Run a claimed job end to end and record counts, timings and final status.
+   * A failed attempt is retried by the queue after a backoff until the job runs
+   * out of attempts; a cancel request stops the job at the next progress update.
+   */
+  async processJob(job: IngestJob): Promise<JobOutcome> {
+    const startedAt = Date.now();
+    const timings: JobTimings = { download_ms: 0, parse_ms: 0, chunk_ms: 0, embed_ms: 0, total_ms: 0 };
+    const counts: JobCounts = {
+      messages_parsed: 0,
+      messages_new: 0,
+      messages_known: 0,
+      system_messages: 0,
+      media_omitted: 0,
+      chunks_created: 0,
+      embeddings_generated: 0,
+      pii_redacted: 0,
+    };
+
+    try {
+      await this.updateProgress(job, 'parsing', 0, counts, timings);
+
+      let stepStart = Date.now();
+      const stored = await this.downloadExport(job.upload_id);
+      const settings = await this.getRoomSettings(job.room_id);
+      timings.download_ms = Date.now() - stepStart;
+
+      stepStart = Date.now();
+      const parsed = this.parseExport(stored, settings);
+      timings.parse_ms = Date.now() - stepStart;
+      counts.messages_parsed = parsed.stats.messages;
+      counts.system_messages = parsed.stats.system;
+      counts.media_omitted = parsed.stats.media;
+
+      if (parsed.messages.length === 0) {
+        throw new IngestionError('E_PARSE_EMPTY', 'No messages could be parsed from the export');
+      }
+
+      // Exports usually repeat the room's whole history; only new messages are indexed
+      const { fresh, known } = await messageFingerprints.partition(job.room_id, job.upload_id, parsed.messages);
+      counts.messages_new = fresh.length;
+      counts.messages_known = known;
+      await this.updateProgress(job, 'chunking', 20, counts, timings);
+
+      stepStart = Date.now();
+      const chunks = chunkMessages(fresh.map((entry) => entry.message), {}, parsed.threads);
+      const redaction = await this.redactChunks(job, chunks);
+      counts.pii_redacted = redaction.redacted;
+      timings.chunk_ms = Date.now() - stepStart;
+
+      const chunkIds = await this.insertChunks(job, chunks, parsed);
+      counts.chunks_created = chunkIds.length;
+      await this.linkPeople(job, fresh.map((entry) => entry.message), redaction.senders);
+      await this.updateProgress(job, 'embedding', 40, counts, timings, chunks.length);
+
+      stepStart = Date.now();
+      counts.embeddings_generated = await this.embedChunks(job, chunks.map((c) => c.text), chunkIds, counts, timings);
+      timings.embed_ms = Date.now() - stepStart;
+
+      await this.updateProgress(job, 'indexing', 95, counts, timings, chunks.length, chunks.length);
+      // The messages only count as known once every chunk is searchable; when any
+      // embedding fails the job is retried, and a later upload of the export indexes them again
+      await messageFingerprints.record(job.client_id, job.room_id, job.upload_id, fresh);
+      timings.total_ms = Date.now() - startedAt;
+
+      const status = await jobQueue.finish(job, 'succeeded', {
+        progress: 100,
+        total_items: chunks.length,
+        processed_items: chunks.length,
+        counts_json: counts,
+        timings_json: timings,
+        error_code: null,
+        error_message: null,
+      });
+
+      if (!status) {
+        return { job_id: job.id, status: 'failed', error_code: 'E_LEASE_LOST', error_message: 'Job was taken back before it finished' };
+      }
+
+      await this.supabase.from('uploads').update({ status: 'processed' }).eq('id', job.upload_id);
+
+      return { job_id: job.id, status: 'completed', counts, timings };
+    } catch (error) {
+      timings.total_ms = Date.now() - startedAt;
+      const code = error instanceof IngestionError || error instanceof JobQueueError
+        ? error.code
+        : 'E_PROCESSING_FAILED';
+
+      // Another worker holds the job now; leave it alone
+      if (code === 'E_LEASE_LOST') {
+        console.warn(error.message);
+        return { job_id: job.id, status: 'failed', error_code: code, error_message: error.message };
+      }
+
+      const patch = { counts_json: counts, timings_json: timings };
+      let status: string | null;
+      if (code === 'E_JOB_CANCELLED') {
+        console.log(`Ingestion cancelled for job ${job.id}`);
+        status = await jobQueue.finish(job, 'cancelled', patch);
+      } else {
+        console.error(`Ingestion failed for job ${job.id}:`, error);
+        status = await jobQueue.finish(job, 'failed', patch, {
+          code,
+          message: error.message,
+          retryable: !PERMANENT_ERRORS.includes(code),
+        });
+      }
+
+      // The upload stays processing while a retry is scheduled
+      if (status === 'cancelled' || status === 'failed' || status === 'dead_letter') {
+        await this.supabase
+          .from('uploads')
+          .update({ status: status === 'cancelled' ? 'cancelled' : 'failed' })
+          .eq('id', job.upload_id);
+      }
+
+      return {
+        job_id: job.id,
+        status: (status ?? 'failed') as JobOutcome['status'],
+        error_code: code,
+        error_message: error.message,
+      };
+    }
+  }
+
+  private async downloadExport(uploadId: number): Promise<StoredExport> {
+    const { data: upload, error } = await this.supabase
+      .from('uploads')
+      .select('id, filename, storage_path, part_count')
+      .eq('id', uploadId)
+      .single();
+
+    if (error || !upload) {
+      throw new IngestionError('E_UPLOAD_NOT_FOUND', `Upload ${uploadId} not found`);
+    }
+
+    if (!upload.part_count) {
+      const file = await this.downloadObject(upload.storage_path);
+      return { raw: await file.text(), filename: upload.filename };
+    }
+
+    // Resumable uploads are stored in parts. Each part is decoded as it arrives, so only
+    // one part's bytes are held at a time; the streaming decoder carries a character
+    // split across two parts over to the next one. upload-session caps the file size.
+    const decoder = new TextDecoder();
+    let raw = '';
+    for (let part = 1; part <= upload.part_count; part++) {
+      const file = await this.downloadObject(partPath(upload.storage_path, part));
+      raw += decoder.decode(new Uint8Array(await file.arrayBuffer()), { stream: true });
+    }
+    raw += decoder.decode();
+
+    return { raw, filename: upload.filename };
+  }
+
+  private async downloadObject(path: string): Promise<Blob> {
+    const { data: file, error: downloadError } = await this.supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(path);
+
+    if (downloadError || !file) {
+      throw new IngestionError(
+        'E_STORAGE_DOWNLOAD',
+        `Failed to download ${path}: ${downloadError?.message ?? 'empty file'}`
+      );
+    }
+    return file;
+  }
+
+  private async getRoomSettings(roomId: number): Promise<RoomIngestSettings> {
+    const { data, error } = await this.supabase
+      .from('rooms')
+      .select('ingest_settings')
+      .eq('id', roomId)
+      .single();
+
+    if (error) {
+      console.warn(`Could not load ingest settings for room ${roomId}:`, error.message);
+      return {};
+    }
+    return data?.ingest_settings || {};
+  }
+
+  private parseExport(stored: StoredExport, settings: RoomIngestSettings): ParseResult {
+    try {
+      return parseExport(stored.raw, {
+        fileName: stored.filename,
+        format: settings.format,
+        columnMapping: settings.column_mapping,
+        dateOrder: settings.date_order,
+        utcOffsetMinutes: settings.utc_offset_minutes,
+      });
+    } catch (error) {
+      throw new IngestionError('E_PARSE_FAILED', error.message);
+    }
+  }
+
+  private async insertChunks(job: IngestJob, chunks: ConversationChunk[], parsed: ParseResult): Promise<number[]> {
+    const ids: number[] = [];
+    const isCliq = parsed.format === 'cliq_json' || parsed.format === 'cliq_jsonl';
+    const chatId = parsed.messages.find((m) => m.chat_id)?.chat_id ?? null;
+
+    // Retries re-run the whole upload, so drop anything a previous attempt left behind
+    const { error: cleanupError } = await this.supabase
+      .from('chunks')
+      .delete()
+      .eq('source_upload_id', job.upload_id);
+    if (cleanupError) {
+      throw new IngestionError('E_CHUNK_CLEANUP', `Failed to clear previous chunks: ${cleanupError.message}`);
+    }
+
+    for (let i = 0; i < chunks.length; i += INSERT_BATCH_SIZE) {
+      const rows = chunks.slice(i, i + INSERT_BATCH_SIZE).map((chunk) => ({
+        client_id: job.client_id,
+        room_id: job.room_id,
+        source_upload_id: job.upload_id,
+        chunk_index: chunk.chunk_index,
+        text: chunk.text,
+        first_ts: chunk.first_ts,
+        last_ts: chunk.last_ts,
+        participants: chunk.participants,
+        token_count: chunk.token_count,
+        metadata: {
+          message_count: chunk.message_count,
+          job_id: job.id,
+          format: parsed.format,
+          ...(isCliq && chunk.message_ids.length > 0
+            ? {
+                source: {
+                  platform: 'zoho_cliq',
+                  chat_id: chatId,
+                  thread_id: chunk.thread_id,
+                  message_ids: chunk.message_ids,
+                } as ChunkSource,
+              }
+            : {}),
+        },
+      }));
+
+      const { data, error } = await this.supabase.from('chunks').insert(rows).select('id');
+      if (error) {
+        throw new IngestionError('E_CHUNK_INSERT', `Failed to insert chunks: ${error.message}`);
+      }
+      ids.push(...data.map((row: { id: number }) => row.id));
+    }
+
+    return ids;
+  }
+
+  /**
+   * Apply the client's PII policy to chunk text and participants before anything is
+   * stored or embedded. Unlike the people directory this fails the job: indexing text
+   * the policy says must be redacted is worse than not indexing it.
+   */
+  private async redactChunks(job: IngestJob, chunks: ConversationChunk[]): Promise<RedactionSummary> {
+    try {
+      return await piiRedactor.redactChunks(job.client_id, job.upload_id, chunks);
+    } catch (error) {
+      throw new IngestionError('E_PII_REDACTION', `PII redaction failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Attach the new chunks to the people directory and queue alias suggestions for
+   * unknown senders. Senders are passed as the chunks store them, so a redacted sender
+   * reaches the directory as its token. The directory is an aid, so a failure here
+   * does not fail the job.
+   */
+  private async linkPeople(job: IngestJob, messages: ParsedMessage[], redacted: Record<string, string>): Promise<void> {
+    const senders = messages
+      .filter((message) => message.sender && message.kind !== 'system')
+      .map((message) => ({ name: redacted[message.sender!] ?? message.sender!, sender_id: message.sender_id ?? null }));
+
+    try {
+      const { linked, suggested } = await peopleDirectory.linkIngest(job.client_id, job.upload_id, senders);
+      console.log(`Job ${job.id}: linked ${linked} chunks to people, ${suggested} alias suggestions`);
+    } catch (error) {
+      console.warn(`Could not link people for job ${job.id}:`, error.message);
+    }
+  }
+
+  private async embedChunks(
+    job: IngestJob,
+    texts: string[],
+    chunkIds: number[],
+    counts: JobCounts,
+    timings: JobTimings
+  ): Promise<number> {
+    let embedded = 0;
+    const { embeddingModel } = await providerRegistry.resolve(job.client_id);
+
+    for (let i = 0; i < texts.length; i++) {
+      const vector = await db.getEmbeddings(texts[i], job.client_id);
+      if (!vector) continue;
+
+      const { error } = await this.supabase.from('embeddings').insert({
+        chunk_id: chunkIds[i],
+        client_id: job.client_id,
+        room_id: job.room_id,
+        embedding: vector,
+        model_name: embeddingModel,
+        dimension: vector.length,
+      });
+      if (error) {
+        console.error(`Failed to store embedding for chunk ${chunkIds[i]}:`, error);
+        continue;
+      }
+      embedded++;
+
+      if ((i + 1) % 10 === 0) {
+        counts.embeddings_generated = embedded;
+        await this.updateProgress(job, 'embedding', 40 + Math.round(((i + 1) / texts.length) * 55), counts, timings, texts.length, i + 1);
+      }
+    }
+
+    if (texts.length > 0 && embedded === 0) {
+      throw new IngestionError('E_EMBEDDING_FAILED', 'No embeddings could be generated for this export');
+    }
+    // Fingerprints are recorded per message, not per chunk, so a partly embedded upload is
+    // retried as a whole rather than leaving unsearchable messages marked as known
+    if (embedded < texts.length) {
+      throw new IngestionError(
+        'E_EMBEDDING_INCOMPLETE',
+        `${texts.length - embedded} of ${texts.length} chunks could not be embedded`
+      );
+    }
+    return embedded;
+  }
+
+  // Also the job's checkpoint: renews the lease and stops the job once it is cancelled
+  private async updateProgress(
+    job: IngestJob,
+    stage: JobStage,
+    progress: number,
+    counts: JobCounts,
+    timings: JobTimings,
+    totalItems?: number,
+    processedItems?: number
+  ): Promise<void> {
+    const update: Record<string, unknown> = {
+      stage,
+      progress: Math.min(progress, 99),
+      counts_json: counts,
+      timings_json: timings,
+    };
+    if (totalItems !== undefined) update.total_items = totalItems;
+    if (processedItems !== undefined) update.processed_items = processedItems;
+
+    await jobQueue.checkpoint(job, update);
+  }
+}
+
+// Export singleton instance
+export const ingestionPipeline = new IngestionPipeline();
+
+// Export types
+export type { IngestJob, RoomIngestSettings, ChunkSource, JobCounts, JobStage, JobTimings, JobOutcome };
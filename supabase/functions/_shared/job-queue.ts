@@ -0,0 +1,345 @@
+// Job queue
+// Leased claiming for the workers, lease renewal, retries with backoff, dead-lettering and cancellation
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiError } from './auth.ts';
+
+// The columns every worker needs to hold and finish a claimed job
+interface LeasedJob {
+  id: number;
+  client_id: number;
+  job_type: string;
+  // Set by claim_jobs; finishing or renewing with a stale one is refused
+  current_attempt_id: number | null;
+}
+
+type AttemptOutcome = 'succeeded' | 'requeued' | 'failed' | 'cancelled';
+
+interface AttemptFailure {
+  code: string;
+  message: string;
+  // False for errors another attempt cannot fix; the job fails without retrying
+  retryable?: boolean;
+}
+
+interface JobAttempt {
+  id: number;
+  job_id: number;
+  attempt: number;
+  worker: string | null;
+  outcome: 'running' | AttemptOutcome | 'lease_expired';
+  error_code: string | null;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+interface JobControlResult {
+  job_id: number;
+  status: string;
+  // Set when a running job was asked to stop; it is cancelled at the worker's next checkpoint
+  cancel_requested: boolean;
+}
+
+interface QueueJobRow {
+  id: number;
+  client_id: number;
+  job_type: string;
+  status: string;
+  upload_id: number | null;
+  params_json: { team_evaluation_id?: number } | null;
+}
+
+// A worker renews its lease at every checkpoint; after this long without one the job is retried
+const LEASE_SECONDS = 600;
+
+// Worker function that processes each job type
+const WORKER_FUNCTIONS: Record<string, string> = {
+  file_ingestion: 'ingest-worker',
+  chat_processing: 'ingest-worker',
+  team_evaluation: 'team-evaluation-worker',
+};
+
+const CANCELLABLE_STATUSES = ['pending', 'queued', 'processing'];
+const RETRYABLE_STATUSES = ['failed', 'dead_letter', 'cancelled'];
+
+class JobQueueError extends ApiError {}
+
+class JobQueue {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Lease up to `limit` due queued jobs of the given types, within the global and
+   * per-client concurrency caps. Jobs whose lease expired are taken back first.
+   */
+  async claim<T extends LeasedJob>(jobTypes: string[], limit: number, worker: string): Promise<T[]> {
+    const { data, error } = await this.supabase.rpc('claim_jobs', {
+      p_job_types: jobTypes,
+      p_limit: limit,
+      p_worker: worker,
+      p_lease_seconds: LEASE_SECONDS,
+    });
+    if (error) {
+      throw new Error(`Failed to claim jobs: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Lease a single job by id, only if it is queued, due and within the caps
+   */
+  async claimJob<T extends LeasedJob>(jobId: number, jobTypes: string[], worker: string): Promise<T | null> {
+    const { data, error } = await this.supabase.rpc('claim_jobs', {
+      p_job_types: jobTypes,
+      p_limit: 1,
+      p_worker: worker,
+      p_lease_seconds: LEASE_SECONDS,
+      p_job_id: jobId,
+    });
+    if (error) {
+      throw new Error(`Failed to claim job ${jobId}: ${error.message}`);
+    }
+    return data?.[0] ?? null;
+  }
+
+  /**
+   * Record progress and renew the lease. Throws E_JOB_CANCELLED once the job was
+   * asked to stop, and E_LEASE_LOST when the job was taken back from this worker.
+   */
+  async checkpoint(job: LeasedJob, patch: Record<string, unknown> = {}): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('jobs')
+      .update({
+        ...patch,
+        lease_expires_at: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', job.id)
+      .eq('current_attempt_id', job.current_attempt_id)
+      .select('cancel_requested_at')
+      .maybeSingle();
+
+    if (error) {
+      // A missed renewal is not fatal; the lease is long enough to reach the next checkpoint
+      console.error(`Failed to renew lease of job ${job.id}:`, error);
+      return;
+    }
+    if (!data) {
+      throw new JobQueueError('E_LEASE_LOST', `Job ${job.id} is no longer leased to this worker`);
+    }
+    if (data.cancel_requested_at) {
+      throw new JobQueueError('E_JOB_CANCELLED', `Job ${job.id} was cancelled`);
+    }
+  }
+
+  /**
+   * Close the current attempt. `patch` is written first (counts, progress) while
+   * the lease is still held. Returns the job's new status, or null when the lease
+   * was lost and the job belongs to another attempt.
+   */
+  async finish(
+    job: LeasedJob,
+    outcome: AttemptOutcome,
+    patch: Record<string, unknown> = {},
+    failure?: AttemptFailure
+  ): Promise<string | null> {
+    if (Object.keys(patch).length > 0) {
+      const { error } = await this.supabase
+        .from('jobs')
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq('id', job.id)
+        .eq('current_attempt_id', job.current_attempt_id);
+
+      if (error) {
+        console.error(`Failed to update job ${job.id}:`, error);
+      }
+    }
+
+    const { data, error } = await this.supabase.rpc('finish_job_attempt', {
+      p_job_id: job.id,
+      p_attempt_id: job.current_attempt_id,
+      p_outcome: outcome,
+      p_error_code: failure?.code ?? null,
+      p_error_message: failure?.message ?? null,
+      p_retryable: failure?.retryable ?? true,
+    });
+
+    if (error) {
+      throw new Error(`Failed to finish job ${job.id}: ${error.message}`);
+    }
+    if (!data) {
+      console.warn(`Job ${job.id} attempt ${job.current_attempt_id} lost its lease before finishing`);
+    }
+    return data ?? null;
+  }
+
+  /**
+   * Cancel a job. Pending and queued jobs stop right away; a running job is
+   * flagged and its worker stops at the next checkpoint (or the job is cancelled
+   * when its lease expires).
+   */
+  async cancel(jobId: number, userId: string): Promise<JobControlResult> {
+    const job = await this.load(jobId);
+    if (!CANCELLABLE_STATUSES.includes(job.status)) {
+      throw new JobQueueError('E_INVALID_JOB_STATUS', `A ${job.status} job cannot be cancelled`, 400);
+    }
+
+    const now = new Date().toISOString();
+    const running = job.status === 'processing';
+    const { data, error } = await this.supabase
+      .from('jobs')
+      .update({
+        ...(running ? {} : { status: 'cancelled', completed_at: now }),
+        cancel_requested_at: now,
+        cancelled_by: userId,
+        updated_at: now,
+      })
+      .eq('id', jobId)
+      .eq('status', job.status)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to cancel job ${jobId}: ${error.message}`);
+    }
+    if (!data) {
+      throw new JobQueueError('E_JOB_CHANGED', `Job ${jobId} changed status; reload and try again`);
+    }
+
+    if (!running) {
+      await this.markOwner(job, 'cancelled');
+    }
+
+    return { job_id: jobId, status: running ? 'processing' : 'cancelled', cancel_requested: running };
+  }
+
+  /**
+   * Queue a failed, dead-lettered or cancelled job again with a fresh set of
+   * attempts, and kick its worker
+   */
+  async retry(jobId: number): Promise<JobControlResult> {
+    const job = await this.load(jobId);
+    if (!RETRYABLE_STATUSES.includes(job.status)) {
+      throw new JobQueueError('E_INVALID_JOB_STATUS', 'Only failed, dead-lettered or cancelled jobs can be retried', 400);
+    }
+
+    const { data, error } = await this.supabase
+      .from('jobs')
+      .update({
+        status: 'queued',
+        failed_attempts: 0,
+        run_after: null,
+        error_code: null,
+        error_message: null,
+        cancel_requested_at: null,
+        cancelled_by: null,
+        completed_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('status', job.status)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to retry job ${jobId}: ${error.message}`);
+    }
+    if (!data) {
+      throw new JobQueueError('E_JOB_CHANGED', `Job ${jobId} changed status; reload and try again`);
+    }
+
+    await this.markOwner(job, 'queued');
+    this.kick(job);
+
+    return { job_id: jobId, status: 'queued', cancel_requested: false };
+  }
+
+  /**
+   * Every attempt of a job, oldest first, with the error each one ended with
+   */
+  async attempts(jobId: number): Promise<JobAttempt[]> {
+    const { data, error } = await this.supabase
+      .from('job_attempts')
+      .select('id, job_id, attempt, worker, outcome, error_code, error_message, started_at, finished_at')
+      .eq('job_id', jobId)
+      .order('attempt', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load attempts of job ${jobId}: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Client the job belongs to, for access checks before cancel or retry
+   */
+  async clientOf(jobId: number): Promise<number> {
+    return (await this.load(jobId)).client_id;
+  }
+
+  /**
+   * Start the job's worker right away; the worker's cron trigger picks the job up if this fails
+   */
+  kick(job: { id: number; job_type: string }): void {
+    const worker = WORKER_FUNCTIONS[job.job_type];
+    if (!worker) return;
+
+    fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${worker}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+      },
+      body: JSON.stringify({ job_id: job.id })
+    }).catch((kickError) => {
+      console.error(`Error kicking ${worker}:`, kickError);
+    });
+  }
+
+  private async load(jobId: number): Promise<QueueJobRow> {
+    const { data, error } = await this.supabase
+      .from('jobs')
+      .select('id, client_id, job_type, status, upload_id, params_json')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load job ${jobId}: ${error.message}`);
+    }
+    if (!data) {
+      throw new JobQueueError('E_JOB_NOT_FOUND', 'Job not found', 404);
+    }
+    return data;
+  }
+
+  // Keep the upload or team evaluation behind a job in step with it
+  private async markOwner(job: QueueJobRow, status: 'queued' | 'cancelled'): Promise<void> {
+    if (job.upload_id) {
+      await this.supabase
+        .from('uploads')
+        .update({ status: status === 'queued' ? 'processing' : 'cancelled' })
+        .eq('id', job.upload_id);
+    }
+    if (job.params_json?.team_evaluation_id) {
+      await this.supabase
+        .from('team_evaluations')
+        .update({ status: status === 'queued' ? 'queued' : 'failed' })
+        .eq('id', job.params_json.team_evaluation_id);
+    }
+  }
+}
+
+// Export singleton instance
+export const jobQueue = new JobQueue();
+
+export { JobQueueError };
+
+// Export types
+export type { LeasedJob, AttemptOutcome, AttemptFailure, JobAttempt, JobControlResult };
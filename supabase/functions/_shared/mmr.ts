@@ -36,8 +36,14 @@
   return union.size > 0 ? intersection.size / union.size : 0;
 }
 /**
- * Calculate semantic similarity between two chunks
+ * Calculate semantic similarity between two chunks - embedding cosine when both
+ * chunks carry one (see ranking.ts), word-overlap Jaccard otherwise
  */ function semanticSimilarity(chunk1, chunk2) {
+  const vec1 = chunk1.embedding;
+  const vec2 = chunk2.embedding;
+  if (Array.isArray(vec1) && Array.isArray(vec2) && vec1.length > 0 && vec1.length === vec2.length) {
+    return Math.max(0, cosineSimilarity(vec1, vec2));
+  }
   const text1 = chunk1.text || chunk1.content || '';
   const text2 = chunk2.text || chunk2.content || '';
   return jaccardSimilarity(text1, text2);
@@ -151,45 +157,60 @@
   return unique;
 }
 /**
- * Enhanced hybrid search result fusion
- */ export function fuseSearchResults(vectorResults, textResults, vectorWeight = 0.7) {
-  const allChunks = [
-    ...vectorResults,
-    ...textResults
-  ];
-  // Create a map to track chunks and their scores
+ * Reciprocal rank fusion of the vector and text legs. Each leg contributes
+ * weight / (k + rank) per chunk, so only the order within a leg matters and
+ * the two legs' incomparable scores never get mixed. Leg lists may contain
+ * the same chunk more than once (merged broader searches); its best rank counts.
+ * similarity_score is the fused score scaled to 0-1 for mmr(); the vector
+ * cosine is kept as vector_similarity.
+ */ export function fuseSearchResults(vectorResults, textResults, options = {}) {
+  const { k = 60, vectorWeight = 1, textWeight = 1 } = options;
   const chunkMap = new Map();
-  // Process vector results
-  vectorResults.forEach((chunk, index)=>{
-    const score = (chunk.similarity_score || chunk.similarity || 0) * vectorWeight;
-    chunkMap.set(chunk.id, {
-      chunk,
-      score,
-      source: 'vector'
-    });
-  });
-  // Process text results
-  textResults.forEach((chunk, index)=>{
-    const existing = chunkMap.get(chunk.id);
-    if (existing) {
-      // Boost score if found in both searches
-      existing.score += (chunk.similarity_score || chunk.similarity || 0) * (1 - vectorWeight) * 1.2;
-      existing.source = 'both';
-    } else {
-      const score = (chunk.similarity_score || chunk.similarity || 0) * (1 - vectorWeight);
-      chunkMap.set(chunk.id, {
-        chunk,
-        score,
-        source: 'text'
-      });
+  const addLeg = (results, weight, source)=>{
+    const seen = new Set();
+    let rank = 0;
+    for (const chunk of results || []){
+      if (chunk?.id == null || seen.has(chunk.id)) continue;
+      seen.add(chunk.id);
+      rank++;
+      const contribution = weight / (k + rank);
+      const existing = chunkMap.get(chunk.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.sources.push(source);
+        existing.ranks[source] = rank;
+        if (source === 'vector') {
+          existing.vectorSimilarity = chunk.similarity_score ?? chunk.similarity ?? null;
+        }
+      } else {
+        chunkMap.set(chunk.id, {
+          chunk,
+          score: contribution,
+          sources: [
+            source
+          ],
+          ranks: {
+            [source]: rank
+          },
+          vectorSimilarity: source === 'vector' ? chunk.similarity_score ?? chunk.similarity ?? null : null
+        });
+      }
     }
-  });
-  // Convert back to array and sort by score
-  const fused = Array.from(chunkMap.values()).sort((a, b)=>b.score - a.score).map((item)=>({
+  };
+  addLeg(vectorResults, vectorWeight, 'vector');
+  addLeg(textResults, textWeight, 'text');
+  const entries = Array.from(chunkMap.values()).sort((a, b)=>b.score - a.score);
+  const topScore = entries[0]?.score || 1;
+  const fused = entries.map((item)=>({
       ...item.chunk,
-      similarity_score: item.score,
-      similarity: item.score
+      fusion_score: item.score,
+      fusion_ranks: item.ranks,
+      retrieval_sources: item.sources,
+      vector_similarity: item.vectorSimilarity,
+      similarity_score: item.score / topScore,
+      similarity: item.score / topScore
     }));
+  console.log(`RRF fused ${vectorResults?.length || 0} vector + ${textResults?.length || 0} text results into ${fused.length} chunks`);
   return fused;
 }
 /**
@@ -255,7 +276,8 @@
       time_span: `${chunk.first_ts ? new Date(chunk.first_ts).toLocaleDateString() : 'Unknown'} - ${chunk.last_ts ? new Date(chunk.last_ts).toLocaleDateString() : 'Unknown'}`,
       snippet: chunk.text || chunk.content || 'No content available',  // ✅ Use both text and content fields
       preview: chunk.text?.substring(0, 200) || chunk.content?.substring(0, 200) || 'No preview available',
-      similarity: chunk.similarity_score || chunk.similarity || null
+      similarity: chunk.similarity_score || chunk.similarity || null,
+      source: chunk.metadata?.source || null  // Upstream Cliq message ids, when the chunk came from a sync
     };
   });
   
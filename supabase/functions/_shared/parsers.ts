@@ -0,0 +1,625 @@
+// Chat export parsers
+// Turns raw chat exports into a flat list of timestamped messages for the chunker
+
+type MessageKind = 'message' | 'system' | 'media' | 'deleted';
+
+type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+type ExportFormat = 'whatsapp_txt' | 'cliq_json' | 'cliq_jsonl' | 'csv';
+
+interface MessageReaction {
+  emoji: string;
+  count: number;
+}
+
+interface ParsedMessage {
+  ts: string;
+  sender: string | null;
+  text: string;
+  kind: MessageKind;
+  line: number;
+  source_id?: string;
+  sender_id?: string;
+  chat_id?: string;
+  thread_id?: string;
+  thread_parent_id?: string;
+  reply_to?: string;
+  reactions?: MessageReaction[];
+  edited?: boolean;
+}
+
+interface ParseStats {
+  lines: number;
+  messages: number;
+  system: number;
+  media: number;
+  deleted: number;
+  skipped_lines: number;
+}
+
+// A Cliq thread and the channel message it was started from
+interface ThreadContext {
+  thread_id: string;
+  title: string | null;
+  parent: ParsedMessage | null;
+}
+
+interface ParseResult {
+  format: ExportFormat;
+  messages: ParsedMessage[];
+  stats: ParseStats;
+  threads?: ThreadContext[];
+}
+
+interface WhatsAppParseOptions {
+  dateOrder?: DateOrder;
+  utcOffsetMinutes?: number;
+}
+
+// Column names (or zero-based indexes) holding each field in a CSV export
+interface CsvColumnMapping {
+  timestamp?: string;
+  sender?: string;
+  text?: string;
+}
+
+interface ExportParseOptions extends WhatsAppParseOptions {
+  format?: ExportFormat | 'auto';
+  fileName?: string;
+  columnMapping?: CsvColumnMapping;
+}
+
+// Android: "31/12/2020, 23:59 - Name: text" / "12/31/20, 11:59 PM - Name: text"
+// iOS:     "[31/12/20, 11:59:59 PM] Name: text"
+const WHATSAPP_HEADER =
+  /^[\u200e\u200f]?\[?(\d{1,4})[\/.\-](\d{1,2})[\/.\-](\d{1,4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:[\s\u202f\u00a0]*([AaPp])\.?\s?[Mm]\.?)?\]?\s*(?:-\s+)?(.*)$/;
+
+const MEDIA_PATTERNS = [
+  /^<media omitted>$/i,
+  /^(image|video|audio|sticker|gif|document) omitted$/i,
+  /^<attached: .+>$/i,
+  /\(file attached\)$/i,
+];
+
+const DELETED_PATTERNS = [
+  /^this message was deleted\.?$/i,
+  /^you deleted this message\.?$/i,
+];
+
+// Lines carrying a sender prefix that are still generated by WhatsApp itself
+const SYSTEM_PATTERNS = [
+  /messages and calls are end-to-end encrypted/i,
+  /^missed (voice|video) call$/i,
+  /security code (with .+ )?changed/i,
+];
+
+// Same group layout as WHATSAPP_HEADER so buildTimestamp can read either
+const CSV_TIMESTAMP =
+  /^(\d{1,4})[\/.\-](\d{1,2})[\/.\-](\d{1,4})(?:[\sT,]+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\.\d+)?(?:\s*([AaPp])\.?\s?[Mm]\.?)?)?$/;
+
+const CSV_COLUMN_ALIASES: Record<keyof CsvColumnMapping, string[]> = {
+  timestamp: ['timestamp', 'time', 'date', 'datetime', 'date_time', 'created_at', 'created time', 'sent_at'],
+  sender: ['sender', 'from', 'author', 'user', 'name', 'sender_name', 'owner'],
+  text: ['text', 'message', 'body', 'content', 'note', 'notes', 'description'],
+};
+
+function createStats(): ParseStats {
+  return { lines: 0, messages: 0, system: 0, media: 0, deleted: 0, skipped_lines: 0 };
+}
+
+function stripMarks(value: string): string {
+  return value.replace(/[\u200e\u200f\u202a-\u202e]/g, '').trim();
+}
+
+/**
+ * Exports use the device (or CRM) locale for dates, so the day/month order
+ * has to be inferred from the file itself before any line can be parsed.
+ */
+function detectDateOrder(values: string[], pattern: RegExp): DateOrder {
+  let firstOver12 = false;
+  let secondOver12 = false;
+
+  for (const value of values) {
+    const match = pattern.exec(value);
+    if (!match) continue;
+    if (match[1].length === 4) return 'YMD';
+    if (parseInt(match[1], 10) > 12) firstOver12 = true;
+    if (parseInt(match[2], 10) > 12) secondOver12 = true;
+    if (firstOver12 || secondOver12) break;
+  }
+
+  if (secondOver12 && !firstOver12) return 'MDY';
+  return 'DMY';
+}
+
+function buildTimestamp(
+  match: RegExpExecArray,
+  order: DateOrder,
+  utcOffsetMinutes: number
+): string | null {
+  const a = parseInt(match[1], 10);
+  const b = parseInt(match[2], 10);
+  const c = parseInt(match[3], 10);
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (order === 'YMD') {
+    [year, month, day] = [a, b, c];
+  } else if (order === 'MDY') {
+    [month, day, year] = [a, b, c];
+  } else {
+    [day, month, year] = [a, b, c];
+  }
+  if (year < 100) year += 2000;
+
+  let hours = match[4] ? parseInt(match[4], 10) : 0;
+  const minutes = match[5] ? parseInt(match[5], 10) : 0;
+  const seconds = match[6] ? parseInt(match[6], 10) : 0;
+  const meridiem = match[7]?.toUpperCase();
+  if (meridiem === 'P' && hours < 12) hours += 12;
+  if (meridiem === 'A' && hours === 12) hours = 0;
+
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  const utc = Date.UTC(year, month - 1, day, hours, minutes, seconds) - utcOffsetMinutes * 60_000;
+  return new Date(utc).toISOString();
+}
+
+function classifyText(text: string): MessageKind {
+  if (MEDIA_PATTERNS.some((pattern) => pattern.test(text))) return 'media';
+  if (DELETED_PATTERNS.some((pattern) => pattern.test(text))) return 'deleted';
+  if (SYSTEM_PATTERNS.some((pattern) => pattern.test(text))) return 'system';
+  return 'message';
+}
+
+function finalizeResult(format: ExportFormat, messages: ParsedMessage[], stats: ParseStats): ParseResult {
+  for (const message of messages) {
+    message.text = message.text.trimEnd();
+    if (message.kind === 'system') stats.system++;
+    else if (message.kind === 'media') stats.media++;
+    else if (message.kind === 'deleted') stats.deleted++;
+    stats.messages++;
+  }
+
+  return { format, messages, stats };
+}
+
+function byTimestamp(a: ParsedMessage, b: ParsedMessage): number {
+  return Date.parse(a.ts) - Date.parse(b.ts);
+}
+
+/**
+ * Parse a WhatsApp "Export chat" .txt file (Android or iOS layout).
+ * Continuation lines are folded into the previous message; lines before the
+ * first header are counted as skipped.
+ */
+export function parseWhatsAppExport(raw: string, options: WhatsAppParseOptions = {}): ParseResult {
+  const lines = raw.replace(/^\ufeff/, '').split(/\r?\n/);
+  const order = options.dateOrder ?? detectDateOrder(lines, WHATSAPP_HEADER);
+  const utcOffsetMinutes = options.utcOffsetMinutes ?? 0;
+  const stats = createStats();
+  const messages: ParsedMessage[] = [];
+  let current: ParsedMessage | null = null;
+
+  lines.forEach((line, index) => {
+    stats.lines++;
+    const match = WHATSAPP_HEADER.exec(line);
+    const ts = match ? buildTimestamp(match, order, utcOffsetMinutes) : null;
+
+    if (!match || !ts) {
+      if (current) {
+        current.text += `\n${line}`;
+      } else if (line.trim()) {
+        stats.skipped_lines++;
+      }
+      return;
+    }
+
+    const body = match[8] ?? '';
+    const separator = body.indexOf(': ');
+    if (separator === -1) {
+      current = { ts, sender: null, text: stripMarks(body), kind: 'system', line: index + 1 };
+    } else {
+      const rawText = body.slice(separator + 2);
+      const text = stripMarks(rawText);
+      let kind = classifyText(text);
+      // iOS marks generated lines (and media placeholders) with a leading LRM
+      if (kind === 'message' && /^[\u200e\u200f]/.test(rawText)) kind = 'system';
+      current = {
+        ts,
+        sender: stripMarks(body.slice(0, separator)),
+        text,
+        kind,
+        line: index + 1,
+      };
+    }
+    messages.push(current);
+  });
+
+  return finalizeResult('whatsapp_txt', messages, stats);
+}
+
+/**
+ * Map one Cliq message (see cliq-openapi-all/bulkexport.yml ChatMessagesResponse)
+ * to its display text and kind.
+ */
+function describeCliqMessage(message: any): { text: string; kind: MessageKind } {
+  const content = message.content;
+
+  if (typeof content === 'string') {
+    return { text: content, kind: message.type === 'info' ? 'system' : classifyText(content) };
+  }
+  if (content?.file?.name) {
+    const comment = content.comment ? ` ${content.comment}` : '';
+    return { text: `[File: ${content.file.name}]${comment}`, kind: 'media' };
+  }
+  if (content?.type === 'call_notification') {
+    const data = content.data || {};
+    const details = [data.call_type, data.duration].filter(Boolean).join(', ');
+    return { text: `Call ${data.status || 'ended'}${details ? ` (${details})` : ''}`, kind: 'system' };
+  }
+  if (typeof content?.text === 'string') {
+    return { text: content.text, kind: message.type === 'info' ? 'system' : 'message' };
+  }
+  return { text: `[${message.type || 'unknown'} message]`, kind: 'system' };
+}
+
+/**
+ * Parse a Zoho Cliq message export: `{ data: [...] }` from the maintenance
+ * export / messages APIs, or a bare array of the same message objects.
+ */
+export function parseCliqExport(raw: string): ParseResult {
+  const stats = createStats();
+  let payload: any;
+  try {
+    payload = JSON.parse(raw.replace(/^\ufeff/, ''));
+  } catch (error) {
+    throw new Error(`Invalid Cliq JSON export: ${error.message}`);
+  }
+
+  const items: any[] = Array.isArray(payload) ? payload : payload?.data ?? payload?.messages ?? [];
+  const messages: ParsedMessage[] = [];
+
+  items.forEach((item, index) => {
+    stats.lines++;
+    const time = typeof item?.time === 'string' ? parseInt(item.time, 10) : item?.time;
+    if (!time || Number.isNaN(time)) {
+      stats.skipped_lines++;
+      return;
+    }
+
+    const { text, kind } = describeCliqMessage(item);
+    messages.push({
+      ts: new Date(time).toISOString(),
+      sender: item.sender?.name ?? null,
+      sender_id: item.sender?.id,
+      source_id: item.id,
+      text,
+      kind,
+      line: index + 1,
+    });
+  });
+
+  return finalizeResult('cliq_json', messages.sort(byTimestamp), stats);
+}
+
+/**
+ * Cliq sends times as epoch milliseconds, as a number or a numeric string
+ * ("1629465328414"). Null when the time is missing or does not parse.
+ */
+function cliqTimestamp(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const time = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  const date = new Date(time as string | number);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parse the JSONL message stream written by zoho-sync (one record per line,
+ * see ZohoMessageSyncer.buildMessageStream). Unlike the flat export this keeps
+ * message ids, reply/thread links, reactions and edits. `record: 'thread'`
+ * lines describe a thread and its parent message rather than a message.
+ */
+export function parseCliqMessageStream(raw: string): ParseResult {
+  const stats = createStats();
+  const messages: ParsedMessage[] = [];
+  const threads: ThreadContext[] = [];
+
+  raw.replace(/^\ufeff/, '').split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    stats.lines++;
+
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      stats.skipped_lines++;
+      return;
+    }
+    if (record?.record === 'thread') {
+      if (!record.thread_id) {
+        stats.skipped_lines++;
+        return;
+      }
+      const parent = record.parent;
+      const parentTs = cliqTimestamp(parent?.time);
+      threads.push({
+        thread_id: record.thread_id,
+        title: record.title ?? null,
+        parent: parent?.id && parentTs
+          ? {
+              ts: parentTs,
+              sender: parent.sender?.name ?? null,
+              sender_id: parent.sender?.id ?? undefined,
+              source_id: parent.id,
+              chat_id: record.chat_id ?? undefined,
+              text: parent.text || '',
+              kind: 'message',
+              line: index + 1,
+            }
+          : null,
+      });
+      return;
+    }
+    const ts = cliqTimestamp(record?.time);
+    if (!record?.id || !ts) {
+      stats.skipped_lines++;
+      return;
+    }
+
+    let kind: MessageKind = record.type === 'info' || record.content_type === 'call_notification' ? 'system' : 'message';
+    let text = record.text || '';
+    if (record.file?.name) {
+      kind = 'media';
+      text = `[File: ${record.file.name}]${text ? ` ${text}` : ''}`;
+    }
+    if (!text) text = `[${record.type || 'unknown'} message]`;
+
+    messages.push({
+      ts,
+      sender: record.sender?.name ?? null,
+      sender_id: record.sender?.id ?? undefined,
+      source_id: record.id,
+      chat_id: record.chat_id ?? undefined,
+      thread_id: record.thread_id ?? undefined,
+      thread_parent_id: record.thread_parent_id ?? undefined,
+      reply_to: record.reply_to ?? undefined,
+      reactions: Array.isArray(record.reactions) && record.reactions.length > 0 ? record.reactions : undefined,
+      edited: record.edited || undefined,
+      text,
+      kind,
+      line: index + 1,
+    });
+  });
+
+  const result = finalizeResult('cliq_jsonl', messages.sort(byTimestamp), stats);
+  if (threads.length > 0) result.threads = threads;
+  return result;
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = headerLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes and embedded newlines
+ */
+function readCsvRows(raw: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (inQuotes) {
+      if (char === '"' && raw[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && raw[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+function resolveColumn(header: string[], field: keyof CsvColumnMapping, mapping: CsvColumnMapping): number {
+  const normalized = header.map((name) => name.trim().toLowerCase());
+  const configured = mapping[field]?.trim();
+
+  if (configured) {
+    if (/^\d+$/.test(configured)) return parseInt(configured, 10);
+    return normalized.indexOf(configured.toLowerCase());
+  }
+  return normalized.findIndex((name) => CSV_COLUMN_ALIASES[field].includes(name));
+}
+
+function parseLooseTimestamp(value: string, order: DateOrder, utcOffsetMinutes: number): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d{10}$/.test(trimmed)) return new Date(parseInt(trimmed, 10) * 1000).toISOString();
+  if (/^\d{13}$/.test(trimmed)) return new Date(parseInt(trimmed, 10)).toISOString();
+
+  // Values carrying their own zone (ISO 8601 with Z or an offset) are already absolute
+  if (/T.*(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const parsed = Date.parse(trimmed);
+    return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+  }
+
+  const match = CSV_TIMESTAMP.exec(trimmed);
+  if (match) return buildTimestamp(match, order, utcOffsetMinutes);
+
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+/**
+ * Parse a generic CSV export with one message per row. Columns are found via
+ * the room's column mapping, falling back to common header names
+ * (timestamp/sender/text and friends).
+ */
+export function parseCsvExport(
+  raw: string,
+  mapping: CsvColumnMapping = {},
+  options: WhatsAppParseOptions = {}
+): ParseResult {
+  const content = raw.replace(/^\ufeff/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+  const [header = [], ...rows] = readCsvRows(content, delimiter);
+  const stats = createStats();
+
+  const tsIndex = resolveColumn(header, 'timestamp', mapping);
+  const senderIndex = resolveColumn(header, 'sender', mapping);
+  const textIndex = resolveColumn(header, 'text', mapping);
+
+  if (tsIndex < 0 || textIndex < 0) {
+    throw new Error(
+      `CSV export is missing a ${tsIndex < 0 ? 'timestamp' : 'text'} column (header: ${header.join(', ')})`
+    );
+  }
+
+  const order = options.dateOrder ?? detectDateOrder(rows.map((row) => (row[tsIndex] ?? '').trim()), CSV_TIMESTAMP);
+  const utcOffsetMinutes = options.utcOffsetMinutes ?? 0;
+  const messages: ParsedMessage[] = [];
+
+  rows.forEach((row, index) => {
+    stats.lines++;
+    const ts = parseLooseTimestamp(row[tsIndex] ?? '', order, utcOffsetMinutes);
+    const text = (row[textIndex] ?? '').trim();
+    if (!ts || !text) {
+      stats.skipped_lines++;
+      return;
+    }
+
+    const sender = senderIndex >= 0 ? (row[senderIndex] ?? '').trim() || null : null;
+    messages.push({
+      ts,
+      sender,
+      text,
+      kind: classifyText(text),
+      // +2: one for the header row, one for 1-based line numbers
+      line: index + 2,
+    });
+  });
+
+  return finalizeResult('csv', messages.sort(byTimestamp), stats);
+}
+
+/**
+ * Work out which parser a file needs. Content wins over the file extension,
+ * which is only used when the content is ambiguous.
+ */
+export function detectExportFormat(raw: string, fileName?: string): ExportFormat | null {
+  const content = raw.replace(/^\ufeff/, '').trimStart();
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+
+  // zoho-sync message stream: every line is a standalone Cliq record, thread records
+  // (which have no message id) first
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  if (firstLine.startsWith('{')) {
+    try {
+      const record = JSON.parse(firstLine);
+      if (record?.source === 'zoho_cliq' && (record.id || record.record === 'thread')) return 'cliq_jsonl';
+    } catch {
+      // A pretty-printed JSON export spans lines, handled below
+    }
+  }
+
+  if (content.startsWith('{') || content.startsWith('[')) {
+    try {
+      const payload = JSON.parse(content);
+      const items = Array.isArray(payload) ? payload : payload?.data ?? payload?.messages;
+      if (Array.isArray(items)) return 'cliq_json';
+    } catch {
+      // iOS WhatsApp lines also start with "[", fall through to the text checks
+    }
+  }
+
+  const lines = content.split(/\r?\n/).filter((line) => line.trim()).slice(0, 20);
+  const headerLine = lines[0] ?? '';
+  const header = headerLine.split(detectDelimiter(headerLine)).map((name) => name.trim().replace(/^"|"$/g, '').toLowerCase());
+  const knownColumns = Object.values(CSV_COLUMN_ALIASES).flat();
+  if (header.length >= 2 && header.filter((name) => knownColumns.includes(name)).length >= 2) {
+    return 'csv';
+  }
+
+  const headerMatches = lines.filter((line) => WHATSAPP_HEADER.exec(line)?.[8]).length;
+  if (lines.length > 0 && headerMatches / lines.length >= 0.5) return 'whatsapp_txt';
+
+  if (extension === 'jsonl') return 'cliq_jsonl';
+  if (extension === 'json') return 'cliq_json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'txt') return 'whatsapp_txt';
+  return null;
+}
+
+/**
+ * Detect (unless forced) and run the parser for a stored export
+ */
+export function parseExport(raw: string, options: ExportParseOptions = {}): ParseResult {
+  const format = options.format && options.format !== 'auto'
+    ? options.format
+    : detectExportFormat(raw, options.fileName);
+
+  switch (format) {
+    case 'cliq_json':
+      return parseCliqExport(raw);
+    case 'cliq_jsonl':
+      return parseCliqMessageStream(raw);
+    case 'csv':
+      return parseCsvExport(raw, options.columnMapping, options);
+    case 'whatsapp_txt':
+      return parseWhatsAppExport(raw, options);
+    default:
+      throw new Error(`Unrecognised export format${options.fileName ? ` for ${options.fileName}` : ''}`);
+  }
+}
+
+export type {
+  MessageKind,
+  DateOrder,
+  ExportFormat,
+  MessageReaction,
+  ParsedMessage,
+  ParseStats,
+  ParseResult,
+  ThreadContext,
+  WhatsAppParseOptions,
+  CsvColumnMapping,
+  ExportParseOptions,
+};
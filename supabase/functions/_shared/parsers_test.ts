@@ -0,0 +1,42 @@
+// Chat export parser tests
+// Run with: deno test supabase/functions/_shared/parsers_test.ts
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { parseCliqMessageStream } from './parsers.ts';
+
+Deno.test('parseCliqMessageStream reads epoch-millisecond times sent as strings', () => {
+  const raw = [
+    {
+      record: 'thread',
+      source: 'zoho_cliq',
+      thread_id: 'T1',
+      chat_id: 'C1',
+      title: 'Invoices',
+      parent: { id: 'M0', time: '1629465300000', sender: { id: 'U1', name: 'Priya' }, text: 'Invoice sent?' },
+    },
+    { source: 'zoho_cliq', id: 'M1', chat_id: 'C1', time: '1629465328414', sender: { id: 'U2', name: 'Ravi' }, text: 'Yes' },
+    { source: 'zoho_cliq', id: 'M2', chat_id: 'C1', time: 1629465400000, sender: { id: 'U1', name: 'Priya' }, text: 'Thanks' },
+  ].map((record) => JSON.stringify(record)).join('\n');
+
+  const result = parseCliqMessageStream(raw);
+
+  assertEquals(result.messages.map((message) => message.ts), [
+    '2021-08-20T13:15:28.414Z',
+    '2021-08-20T13:16:40.000Z',
+  ]);
+  assertEquals(result.threads?.[0].parent?.ts, '2021-08-20T13:15:00.000Z');
+  assertEquals(result.stats.skipped_lines, 0);
+});
+
+Deno.test('parseCliqMessageStream skips records whose time does not parse', () => {
+  const raw = [
+    { source: 'zoho_cliq', id: 'M1', time: 'yesterday', sender: { name: 'Ravi' }, text: 'Lost' },
+    { source: 'zoho_cliq', id: 'M2', sender: { name: 'Ravi' }, text: 'No time' },
+    { source: 'zoho_cliq', id: 'M3', time: '1629465328414', sender: { name: 'Ravi' }, text: 'Kept' },
+  ].map((record) => JSON.stringify(record)).join('\n');
+
+  const result = parseCliqMessageStream(raw);
+
+  assertEquals(result.messages.map((message) => message.text), ['Kept']);
+  assertEquals(result.stats.skipped_lines, 2);
+});
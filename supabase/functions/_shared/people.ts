@@ -0,0 +1,699 @@
+// People directory
+// Resolves sender names, phone numbers and Cliq user ids to one canonical person per client, and suggests aliases at ingest
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiError } from './auth.ts';
+
+type AliasType = 'name' | 'phone' | 'cliq_user_id';
+
+interface PersonAlias {
+  id: number;
+  person_id: number;
+  alias_type: AliasType;
+  value: string;
+  normalized: string;
+  source: 'manual' | 'ingest' | 'suggestion';
+  created_at: string;
+}
+
+interface Person {
+  id: number;
+  client_id: number;
+  display_name: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  aliases: PersonAlias[];
+}
+
+interface ResolvedPerson {
+  person_id: number;
+  display_name: string;
+  matched_by: 'alias' | 'first_name';
+}
+
+interface AliasSuggestion {
+  id: number;
+  alias_type: AliasType;
+  value: string;
+  person_id: number | null;
+  candidate_value: string | null;
+  reason: string;
+  score: number;
+  status: 'pending' | 'accepted' | 'dismissed';
+  source_upload_id: number | null;
+  created_at: string;
+  person?: { display_name: string } | null;
+}
+
+interface UnlinkedParticipant {
+  participant: string;
+  chunk_count: number;
+}
+
+// A sender seen at ingest, with the Cliq user id when the export had one
+interface IngestSender {
+  name: string;
+  sender_id?: string | null;
+}
+
+interface NewAlias {
+  alias_type: AliasType;
+  value: string;
+}
+
+// Suggestions below this score are not worth a reviewer's time
+const MIN_SUGGESTION_SCORE = 0.6;
+
+const PERSON_COLUMNS = `
+  id,
+  client_id,
+  display_name,
+  notes,
+  created_at,
+  updated_at,
+  aliases:person_aliases(id, person_id, alias_type, value, normalized, source, created_at)
+`;
+
+class PeopleError extends ApiError {}
+
+/**
+ * Same normalisation as normalize_person_alias in the database
+ */
+export function normalizeAlias(type: AliasType, value: string): string {
+  if (type === 'phone') return value.replace(/\D/g, '');
+  if (type === 'cliq_user_id') return value.trim();
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * WhatsApp shows unsaved contacts as their number ("+91 98765 43210")
+ */
+export function looksLikePhone(value: string): boolean {
+  return /^[+\d][\d\s().\-]{6,}$/.test(value.trim()) && value.replace(/\D/g, '').length >= 7;
+}
+
+class PeopleDirectory {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Everyone in a client's directory with their aliases, by name
+   */
+  async list(clientId: number): Promise<Person[]> {
+    const { data, error } = await this.supabase
+      .from('people')
+      .select(PERSON_COLUMNS)
+      .eq('client_id', clientId)
+      .order('display_name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load people: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  async get(clientId: number, personId: number): Promise<Person> {
+    const { data, error } = await this.supabase
+      .from('people')
+      .select(PERSON_COLUMNS)
+      .eq('client_id', clientId)
+      .eq('id', personId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load person: ${error.message}`);
+    }
+    if (!data) {
+      throw new PeopleError('E_NOT_FOUND', 'Person not found', 404);
+    }
+    return data;
+  }
+
+  /**
+   * Add a person. The display name is always one of their name aliases.
+   */
+  async create(clientId: number, displayName: string, aliases: NewAlias[], userId: string): Promise<Person> {
+    const { data: person, error } = await this.supabase
+      .from('people')
+      .insert({ client_id: clientId, display_name: displayName.trim(), created_by: userId })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create person: ${error.message}`);
+    }
+
+    try {
+      await this.insertAliases(clientId, person.id, [{ alias_type: 'name', value: displayName }, ...aliases], userId);
+    } catch (aliasError) {
+      // Don't leave a person behind whose aliases belong to someone else
+      await this.supabase.from('people').delete().eq('id', person.id);
+      throw aliasError;
+    }
+
+    await this.refresh(clientId);
+    return await this.get(clientId, person.id);
+  }
+
+  /**
+   * Rename a person or change their notes. A new display name is added as an alias
+   * and the old one is kept, so chunks under the old name stay linked.
+   */
+  async update(
+    clientId: number,
+    personId: number,
+    changes: { display_name?: string; notes?: string | null },
+    userId: string
+  ): Promise<Person> {
+    const person = await this.get(clientId, personId);
+    const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (changes.display_name !== undefined && changes.display_name.trim() !== person.display_name) {
+      update.display_name = changes.display_name.trim();
+      const key = normalizeAlias('name', changes.display_name);
+      if (!person.aliases.some((alias) => alias.alias_type === 'name' && alias.normalized === key)) {
+        await this.insertAliases(clientId, personId, [{ alias_type: 'name', value: changes.display_name }], userId);
+      }
+    }
+    if (changes.notes !== undefined) {
+      update.notes = changes.notes?.trim() || null;
+    }
+
+    const { error } = await this.supabase.from('people').update(update).eq('id', personId);
+    if (error) {
+      throw new Error(`Failed to update person: ${error.message}`);
+    }
+
+    await this.refresh(clientId);
+    return await this.get(clientId, personId);
+  }
+
+  /**
+   * Remove a person; their chunks and evaluations become unlinked
+   */
+  async remove(clientId: number, personId: number): Promise<void> {
+    await this.get(clientId, personId);
+
+    const { error } = await this.supabase.from('people').delete().eq('id', personId);
+    if (error) {
+      throw new Error(`Failed to delete person: ${error.message}`);
+    }
+    await this.refresh(clientId);
+  }
+
+  async addAlias(clientId: number, personId: number, alias: NewAlias, userId: string): Promise<Person> {
+    await this.get(clientId, personId);
+    await this.insertAliases(clientId, personId, [alias], userId);
+    await this.resolveSuggestionsFor(clientId, [alias], userId);
+    await this.refresh(clientId);
+    return await this.get(clientId, personId);
+  }
+
+  async removeAlias(clientId: number, aliasId: number): Promise<Person> {
+    const { data: alias, error } = await this.supabase
+      .from('person_aliases')
+      .select('id, person_id, alias_type, normalized, person:people(display_name)')
+      .eq('client_id', clientId)
+      .eq('id', aliasId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load alias: ${error.message}`);
+    }
+    if (!alias) {
+      throw new PeopleError('E_NOT_FOUND', 'Alias not found', 404);
+    }
+    if (alias.alias_type === 'name' && alias.normalized === normalizeAlias('name', alias.person?.display_name || '')) {
+      throw new PeopleError('E_DISPLAY_NAME_ALIAS', 'Rename the person before removing their display name');
+    }
+
+    const { error: deleteError } = await this.supabase.from('person_aliases').delete().eq('id', aliasId);
+    if (deleteError) {
+      throw new Error(`Failed to remove alias: ${deleteError.message}`);
+    }
+
+    await this.refresh(clientId);
+    return await this.get(clientId, alias.person_id);
+  }
+
+  /**
+   * Fold `sourceId` into `targetId`. Everything pointing at the source moves to the
+   * target in one transaction (merge_people) and the source is deleted.
+   */
+  async merge(clientId: number, sourceId: number, targetId: number): Promise<Person> {
+    if (sourceId === targetId) {
+      throw new PeopleError('E_INVALID_MERGE', 'Cannot merge a person into itself', 400);
+    }
+    await Promise.all([this.get(clientId, sourceId), this.get(clientId, targetId)]);
+
+    const { error } = await this.supabase.rpc('merge_people', {
+      p_client_id: clientId,
+      p_source_id: sourceId,
+      p_target_id: targetId
+    });
+    if (error) {
+      throw new Error(`Failed to merge people: ${error.message}`);
+    }
+
+    await this.refresh(clientId);
+    return await this.get(clientId, targetId);
+  }
+
+  /**
+   * The person a name, phone number or Cliq user id refers to, or null
+   */
+  async resolve(clientId: number, value: string): Promise<ResolvedPerson | null> {
+    if (!value?.trim()) return null;
+
+    const { data, error } = await this.supabase.rpc('resolve_person', {
+      p_client_id: clientId,
+      p_value: value
+    });
+
+    if (error) {
+      console.warn(`Could not resolve person for ${value}:`, error.message);
+      return null;
+    }
+    return data?.[0] ?? null;
+  }
+
+  /**
+   * Participant strings, as stored on chunks, of the given people
+   */
+  async participantsOf(clientId: number, personIds: number[]): Promise<string[]> {
+    if (personIds.length === 0) return [];
+
+    const { data, error } = await this.supabase.rpc('person_participants', {
+      p_client_id: clientId,
+      p_person_ids: personIds
+    });
+
+    if (error) {
+      console.warn('Could not load participants of people:', error.message);
+      return [];
+    }
+    return (data || []).map((row: any) => row.participant);
+  }
+
+  /**
+   * Expand a participant filter so that any alias selects every alias of the same
+   * person ("Monica" also matches "Monica R" and her phone number). Names the
+   * directory does not know are kept as they are.
+   */
+  async expandParticipants(clientId: number, participants: string[]): Promise<{ participants: string[]; person_ids: number[] }> {
+    if (participants.length === 0) return { participants, person_ids: [] };
+
+    const resolved = await Promise.all(participants.map((name) => this.resolve(clientId, name)));
+    const personIds = Array.from(new Set(
+      resolved.filter((person): person is ResolvedPerson => person !== null).map((person) => person.person_id)
+    ));
+    const aliases = await this.participantsOf(clientId, personIds);
+
+    return {
+      participants: Array.from(new Set([...participants, ...aliases])),
+      person_ids: personIds
+    };
+  }
+
+  /**
+   * Same as expandParticipants, applied to a request's filters
+   */
+  async expandFilters<T extends { participants?: string[] }>(clientId: number, filters: T | undefined): Promise<T | undefined> {
+    if (!filters?.participants?.length) return filters;
+    const { participants } = await this.expandParticipants(clientId, filters.participants);
+    return { ...filters, participants };
+  }
+
+  /**
+   * Link the chunks of a freshly ingested upload. Cliq user ids already in the
+   * directory teach it the sender's display name; senders it still cannot place
+   * become alias suggestions.
+   */
+  async linkIngest(clientId: number, uploadId: number, senders: IngestSender[]): Promise<{ linked: number; suggested: number }> {
+    const unique = new Map<string, IngestSender>();
+    for (const sender of senders) {
+      if (sender.name?.trim() && !unique.has(sender.name)) unique.set(sender.name, sender);
+    }
+    if (unique.size === 0) return { linked: 0, suggested: 0 };
+
+    const people = await this.list(clientId);
+    const byAlias = new Map<string, Person>();
+    for (const person of people) {
+      for (const alias of person.aliases) {
+        byAlias.set(`${alias.alias_type}:${alias.normalized}`, person);
+      }
+    }
+
+    const known = (sender: IngestSender) =>
+      byAlias.has(`name:${normalizeAlias('name', sender.name)}`) ||
+      (looksLikePhone(sender.name) && byAlias.has(`phone:${normalizeAlias('phone', sender.name)}`));
+
+    // A Cliq user id is unambiguous, so its display name is added without review
+    for (const sender of Array.from(unique.values())) {
+      if (!sender.sender_id || known(sender)) continue;
+      const person = byAlias.get(`cliq_user_id:${normalizeAlias('cliq_user_id', sender.sender_id)}`);
+      if (!person) continue;
+
+      try {
+        await this.insertAliases(clientId, person.id, [{ alias_type: 'name', value: sender.name }], null, 'ingest');
+        byAlias.set(`name:${normalizeAlias('name', sender.name)}`, person);
+      } catch (error) {
+        console.warn(`Could not add ${sender.name} to ${person.display_name}:`, error.message);
+      }
+    }
+
+    const { data: linked, error } = await this.supabase.rpc('refresh_person_links', {
+      p_client_id: clientId,
+      p_upload_id: uploadId
+    });
+    if (error) {
+      throw new Error(`Failed to link chunks to people: ${error.message}`);
+    }
+
+    const unknown = Array.from(unique.values()).filter((sender) => !known(sender));
+    const suggestions = await this.suggest(clientId, uploadId, unknown, people);
+
+    return { linked: linked ?? 0, suggested: suggestions };
+  }
+
+  /**
+   * Open (or all) alias suggestions, best first
+   */
+  async suggestions(clientId: number, status: AliasSuggestion['status'] = 'pending'): Promise<AliasSuggestion[]> {
+    const { data, error } = await this.supabase
+      .from('person_alias_suggestions')
+      .select('id, alias_type, value, person_id, candidate_value, reason, score, status, source_upload_id, created_at, person:people(display_name)')
+      .eq('client_id', clientId)
+      .eq('status', status)
+      .order('score', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      throw new Error(`Failed to load alias suggestions: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Accept a suggestion: the sender becomes an alias of the suggested person (or of
+   * `personId`). A suggestion pairing two unknown senders creates a new person.
+   */
+  async acceptSuggestion(clientId: number, suggestionId: number, userId: string, personId?: number): Promise<Person> {
+    const suggestion = await this.loadSuggestion(clientId, suggestionId);
+    const targetId = personId ?? suggestion.person_id;
+    const alias: NewAlias = { alias_type: suggestion.alias_type, value: suggestion.value };
+
+    let person: Person;
+    if (targetId) {
+      person = await this.get(clientId, targetId);
+      await this.insertAliases(clientId, targetId, [alias], userId, 'suggestion');
+    } else if (suggestion.candidate_value) {
+      // Name the person after the longer of the two, usually the fuller name
+      const names = [suggestion.value, suggestion.candidate_value].sort((a, b) => b.length - a.length);
+      const aliases: NewAlias[] = [alias, { alias_type: 'name', value: suggestion.candidate_value }];
+      person = await this.create(clientId, names[0], aliases.filter((a) => a.value !== names[0]), userId);
+    } else {
+      throw new PeopleError('E_PERSON_REQUIRED', 'Choose the person this alias belongs to', 400);
+    }
+
+    await this.resolveSuggestionsFor(clientId, [alias], userId);
+    await this.refresh(clientId);
+    return await this.get(clientId, person.id);
+  }
+
+  async dismissSuggestion(clientId: number, suggestionId: number, userId: string): Promise<void> {
+    await this.loadSuggestion(clientId, suggestionId);
+
+    const { error } = await this.supabase
+      .from('person_alias_suggestions')
+      .update({ status: 'dismissed', resolved_by: userId, resolved_at: new Date().toISOString() })
+      .eq('id', suggestionId);
+
+    if (error) {
+      throw new Error(`Failed to dismiss suggestion: ${error.message}`);
+    }
+  }
+
+  /**
+   * Senders with no person in the directory, most active first
+   */
+  async unlinked(clientId: number, limit = 100): Promise<UnlinkedParticipant[]> {
+    const { data, error } = await this.supabase.rpc('list_participants', {
+      p_client_id: clientId,
+      p_min_chunks: 1
+    });
+
+    if (error) {
+      throw new Error(`Failed to list participants: ${error.message}`);
+    }
+    return (data || [])
+      .filter((row: any) => row.person_id === null)
+      .slice(0, limit)
+      .map((row: any) => ({ participant: row.participant, chunk_count: Number(row.chunk_count) || 0 }));
+  }
+
+  /**
+   * Re-resolve every chunk and evaluation of a client after the directory changed
+   */
+  private async refresh(clientId: number): Promise<void> {
+    const { error } = await this.supabase.rpc('refresh_person_links', { p_client_id: clientId });
+    if (error) {
+      throw new Error(`Failed to refresh person links: ${error.message}`);
+    }
+  }
+
+  private async insertAliases(
+    clientId: number,
+    personId: number,
+    aliases: NewAlias[],
+    userId: string | null,
+    source: PersonAlias['source'] = 'manual'
+  ): Promise<void> {
+    const rows = aliases
+      .filter((alias) => normalizeAlias(alias.alias_type, alias.value).length > 0)
+      .map((alias) => ({
+        client_id: clientId,
+        person_id: personId,
+        alias_type: alias.alias_type,
+        value: alias.value.trim(),
+        source,
+        created_by: userId
+      }));
+    if (rows.length === 0) return;
+
+    // Re-adding an alias the person already has is a no-op
+    const { data: existing, error: existingError } = await this.supabase
+      .from('person_aliases')
+      .select('person_id, alias_type, normalized, person:people(display_name)')
+      .eq('client_id', clientId)
+      .in('normalized', rows.map((row) => normalizeAlias(row.alias_type, row.value)));
+
+    if (existingError) {
+      throw new Error(`Failed to check aliases: ${existingError.message}`);
+    }
+
+    const fresh = rows.filter((row) => {
+      const key = normalizeAlias(row.alias_type, row.value);
+      const owner = (existing || []).find((alias: any) => alias.alias_type === row.alias_type && alias.normalized === key);
+      if (!owner) return true;
+      if (owner.person_id !== personId) {
+        throw new PeopleError(
+          'E_ALIAS_TAKEN',
+          `${row.value} already belongs to ${owner.person?.display_name ?? 'another person'}; merge the two people instead`
+        );
+      }
+      return false;
+    });
+    if (fresh.length === 0) return;
+
+    const { error } = await this.supabase.from('person_aliases').insert(fresh);
+    if (error) {
+      if (error.code === '23505') {
+        throw new PeopleError('E_ALIAS_TAKEN', 'One of these aliases already belongs to another person');
+      }
+      throw new Error(`Failed to add aliases: ${error.message}`);
+    }
+  }
+
+  /**
+   * Close open suggestions for senders that now have a person
+   */
+  private async resolveSuggestionsFor(clientId: number, aliases: NewAlias[], userId: string): Promise<void> {
+    for (const alias of aliases) {
+      const { error } = await this.supabase
+        .from('person_alias_suggestions')
+        .update({ status: 'accepted', resolved_by: userId, resolved_at: new Date().toISOString() })
+        .eq('client_id', clientId)
+        .eq('status', 'pending')
+        .eq('alias_type', alias.alias_type)
+        .eq('normalized', normalizeAlias(alias.alias_type, alias.value));
+
+      if (error) {
+        throw new Error(`Failed to update suggestions: ${error.message}`);
+      }
+    }
+  }
+
+  private async loadSuggestion(clientId: number, suggestionId: number): Promise<AliasSuggestion> {
+    const { data, error } = await this.supabase
+      .from('person_alias_suggestions')
+      .select('id, alias_type, value, person_id, candidate_value, reason, score, status, source_upload_id, created_at')
+      .eq('client_id', clientId)
+      .eq('id', suggestionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load suggestion: ${error.message}`);
+    }
+    if (!data) {
+      throw new PeopleError('E_NOT_FOUND', 'Suggestion not found', 404);
+    }
+    if (data.status !== 'pending') {
+      throw new PeopleError('E_SUGGESTION_CLOSED', `This suggestion was already ${data.status}`);
+    }
+    return data;
+  }
+
+  /**
+   * Store suggestions for senders the directory does not know: a person whose name
+   * looks like the sender's, or else another unknown sender with a similar name.
+   */
+  private async suggest(clientId: number, uploadId: number, senders: IngestSender[], people: Person[]): Promise<number> {
+    if (senders.length === 0) return 0;
+
+    const { data: open, error: openError } = await this.supabase
+      .from('person_alias_suggestions')
+      .select('alias_type, normalized, person_id, candidate_value, status')
+      .eq('client_id', clientId)
+      .in('status', ['pending', 'dismissed']);
+
+    if (openError) {
+      throw new Error(`Failed to load alias suggestions: ${openError.message}`);
+    }
+
+    // Unknown senders of earlier uploads can pair up with this upload's senders
+    const unlinked = (await this.unlinked(clientId, 500)).map((row) => row.participant);
+    const rows: any[] = [];
+
+    for (const sender of senders) {
+      const aliasType: AliasType = looksLikePhone(sender.name) ? 'phone' : 'name';
+      // Phone numbers carry no name to compare
+      if (aliasType === 'phone') continue;
+
+      const normalized = normalizeAlias(aliasType, sender.name);
+      const seen = (personId: number | null, candidate: string | null) => (open || []).some((row: any) =>
+        row.alias_type === aliasType &&
+        row.normalized === normalized &&
+        (row.person_id ?? null) === personId &&
+        (row.candidate_value ?? null) === candidate
+      );
+
+      let best: { person_id: number | null; candidate_value: string | null; score: number; reason: string } | null = null;
+
+      for (const person of people) {
+        for (const alias of person.aliases.filter((a) => a.alias_type === 'name')) {
+          const match = nameSimilarity(sender.name, alias.value);
+          if (match && (!best || match.score > best.score)) {
+            best = { person_id: person.id, candidate_value: null, ...match };
+          }
+        }
+      }
+
+      if (!best) {
+        for (const other of unlinked) {
+          if (normalizeAlias('name', other) === normalized) continue;
+          const match = nameSimilarity(sender.name, other);
+          if (match && (!best || match.score > best.score)) {
+            best = { person_id: null, candidate_value: other, ...match };
+          }
+        }
+      }
+
+      if (!best || best.score < MIN_SUGGESTION_SCORE || seen(best.person_id, best.candidate_value)) continue;
+
+      rows.push({
+        client_id: clientId,
+        alias_type: aliasType,
+        value: sender.name,
+        person_id: best.person_id,
+        candidate_value: best.candidate_value,
+        reason: best.reason,
+        score: best.score,
+        source_upload_id: uploadId
+      });
+    }
+
+    if (rows.length === 0) return 0;
+
+    const { error } = await this.supabase.from('person_alias_suggestions').insert(rows);
+    if (error) {
+      throw new Error(`Failed to store alias suggestions: ${error.message}`);
+    }
+    return rows.length;
+  }
+}
+
+/**
+ * How likely two sender names are the same person, or null when they clearly are not.
+ * Works on name tokens, so "Monica", "Monica R", "monica.r" and "R Monica" compare.
+ */
+function nameSimilarity(a: string, b: string): { score: number; reason: string } | null {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return null;
+
+  if (tokensA.join(' ') === tokensB.join(' ')) {
+    return { score: 0.95, reason: 'Same name apart from punctuation or case' };
+  }
+  if ([...tokensA].sort().join(' ') === [...tokensB].sort().join(' ')) {
+    return { score: 0.9, reason: 'Same name in a different order' };
+  }
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  if (shorter[0] !== longer[0] || shorter[0].length < 3) return null;
+
+  // "Monica R" and "Monica Rao": the remaining tokens agree as initials
+  const restMatches = shorter.slice(1).every((token, index) => {
+    const other = longer[index + 1];
+    return other !== undefined && (other.startsWith(token) || token.startsWith(other));
+  });
+  if (!restMatches) return null;
+
+  return shorter.length === 1
+    ? { score: 0.6, reason: 'Same first name' }
+    : { score: 0.8, reason: 'Same first name and matching initials' };
+}
+
+function nameTokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/[._\-]+/g, ' ')
+    .replace(/['"`’(),:;!?@#*+]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Export singleton instance
+export const peopleDirectory = new PeopleDirectory();
+
+export { PeopleError };
+
+// Export types
+export type {
+  AliasType,
+  PersonAlias,
+  Person,
+  ResolvedPerson,
+  AliasSuggestion,
+  UnlinkedParticipant,
+  IngestSender,
+  NewAlias,
+};
@@ -0,0 +1,299 @@
+// Evidence policy engine
+// Evaluates every rule of an evaluation policy before and after the model call, and explains the outcome in a policy report
+
+import type { EvaluationPolicy } from './drivers.ts';
+
+type PolicyRule = 'min_evidence_items' | 'min_rooms_required' | 'require_citations' | 'red_lines';
+
+interface PolicyCheck {
+  rule: PolicyRule;
+  stage: 'pre' | 'post';
+  passed: boolean;
+  // A failed blocking pre-check stops the evaluation; a failed blocking post-check withholds scores
+  blocking: boolean;
+  message: string;
+}
+
+interface RedLineHit {
+  red_line: string;
+  chunk_ids: Array<number | string>;
+  // evidence_scan: the red line text was found in the evidence; model: flagged by the evaluator and verified against the evidence
+  source: 'evidence_scan' | 'model';
+  excerpt?: string;
+  explanation?: string;
+}
+
+interface WithheldScore {
+  driver: string;
+  reason: string;
+}
+
+interface PolicyReport {
+  policy_id: number;
+  policy_version: number;
+  // False when a blocking pre-check failed and the evaluation was not run
+  passed: boolean;
+  checks: PolicyCheck[];
+  red_line_hits: RedLineHit[];
+  withheld_scores: WithheldScore[];
+  // Set when a red line was hit: the weighted total is withheld until someone reviews it
+  total_withheld: boolean;
+  evaluated_at: string;
+}
+
+const EXCERPT_RADIUS = 80;
+
+class EvidencePolicyEngine {
+  /**
+   * Rules that can be checked on the retrieved evidence alone. Red-line hits found here
+   * do not stop the evaluation; they are carried into the post-check, which withholds the total.
+   */
+  preCheck(chunks: any[], policy: EvaluationPolicy): PolicyReport {
+    const checks: PolicyCheck[] = [];
+
+    const minItems = policy.min_evidence_items ?? 0;
+    checks.push({
+      rule: 'min_evidence_items',
+      stage: 'pre',
+      passed: chunks.length >= minItems,
+      blocking: true,
+      message: chunks.length >= minItems
+        ? `Found ${chunks.length} evidence items (minimum ${minItems})`
+        : `Insufficient evidence: found ${chunks.length} items, need at least ${minItems}`
+    });
+
+    const minRooms = policy.min_rooms_required ?? 1;
+    const rooms = new Set(chunks.map(chunk => chunk.room_id)).size;
+    checks.push({
+      rule: 'min_rooms_required',
+      stage: 'pre',
+      passed: rooms >= minRooms,
+      blocking: true,
+      message: rooms >= minRooms
+        ? `Evidence from ${rooms} room(s) (minimum ${minRooms})`
+        : `Insufficient room diversity: evidence from ${rooms} room(s), need at least ${minRooms}`
+    });
+
+    const hits = this.scanRedLines(chunks, policy.red_lines || []);
+    if ((policy.red_lines || []).length > 0) {
+      checks.push({
+        rule: 'red_lines',
+        stage: 'pre',
+        passed: hits.length === 0,
+        blocking: false,
+        message: hits.length === 0
+          ? `No evidence matches the ${policy.red_lines.length} red line(s)`
+          : `Evidence matches red line(s): ${Array.from(new Set(hits.map(hit => hit.red_line))).join('; ')}`
+      });
+    }
+
+    return {
+      policy_id: policy.id,
+      policy_version: policy.version,
+      passed: checks.every(check => check.passed || !check.blocking),
+      checks,
+      red_line_hits: hits,
+      withheld_scores: [],
+      total_withheld: false,
+      evaluated_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Rules that need the model's output. Scores without valid citations are withheld when
+   * the policy requires citations, red lines flagged by the model are verified against the
+   * evidence, and any red-line hit withholds the weighted total. Returns the evaluation
+   * with the report attached as policy_report.
+   */
+  postCheck(evaluation: any, chunks: any[], policy: EvaluationPolicy, preReport: PolicyReport): any {
+    const evidenceIds = new Set(chunks.map(chunk => String(chunk.id)));
+    const checks = [...preReport.checks];
+    const withheld: WithheldScore[] = [];
+
+    const scores = (evaluation.scores || []).map((score: any) => {
+      // Keep only citations that point at evidence the model was actually given
+      const citations = (Array.isArray(score.citations) ? score.citations : [])
+        .filter((id: any) => evidenceIds.has(String(id)));
+
+      if (policy.require_citations && score.score !== null && citations.length === 0) {
+        const reason = 'No citation to the retrieved evidence, which the policy requires';
+        withheld.push({ driver: score.driver, reason });
+        return { ...score, citations, score: null, withheld: true, withheld_reason: reason };
+      }
+
+      return { ...score, citations };
+    });
+
+    if (policy.require_citations) {
+      const scored = scores.filter((score: any) => score.score !== null).length;
+      checks.push({
+        rule: 'require_citations',
+        stage: 'post',
+        passed: withheld.length === 0,
+        blocking: true,
+        message: withheld.length === 0
+          ? `All ${scored} scored driver(s) cite evidence`
+          : `${withheld.length} score(s) withheld for missing citations: ${withheld.map(w => w.driver).join(', ')}`
+      });
+    }
+
+    const hits = [
+      ...preReport.red_line_hits,
+      ...this.verifyRedLineFlags(evaluation.red_line_flags, chunks, policy.red_lines || [], evidenceIds)
+    ];
+
+    if ((policy.red_lines || []).length > 0) {
+      checks.push({
+        rule: 'red_lines',
+        stage: 'post',
+        passed: hits.length === 0,
+        blocking: true,
+        message: hits.length === 0
+          ? 'No red lines crossed'
+          : `Red line(s) crossed, weighted total withheld for review: ${Array.from(new Set(hits.map(hit => hit.red_line))).join('; ')}`
+      });
+    }
+
+    const report: PolicyReport = {
+      ...preReport,
+      checks,
+      red_line_hits: hits,
+      withheld_scores: withheld,
+      total_withheld: hits.length > 0,
+      evaluated_at: new Date().toISOString()
+    };
+
+    const { red_line_flags: _flags, ...rest } = evaluation;
+    return {
+      ...rest,
+      scores,
+      weighted_total: report.total_withheld ? null : computeWeightedTotal(scores),
+      policy_report: report
+    };
+  }
+
+  /**
+   * Messages of the blocking checks that failed, for callers that explain a refusal in text
+   */
+  failureReason(report: PolicyReport): string {
+    return report.checks
+      .filter(check => check.blocking && !check.passed)
+      .map(check => check.message)
+      .join('; ');
+  }
+
+  /**
+   * Literal scan of the evidence for each red line. Red lines written as /pattern/ are
+   * matched as case-insensitive regular expressions, anything else as a phrase.
+   */
+  private scanRedLines(chunks: any[], redLines: string[]): RedLineHit[] {
+    const hits: RedLineHit[] = [];
+
+    for (const redLine of redLines) {
+      const matcher = redLineMatcher(redLine);
+      if (!matcher) continue;
+
+      const matched: Array<number | string> = [];
+      let excerpt: string | undefined;
+
+      for (const chunk of chunks) {
+        const text = chunk.text || chunk.content || '';
+        const match = matcher.exec(text);
+        if (!match) continue;
+
+        matched.push(chunk.id);
+        if (!excerpt) {
+          const start = Math.max(0, match.index - EXCERPT_RADIUS);
+          excerpt = text.substring(start, match.index + match[0].length + EXCERPT_RADIUS).trim();
+        }
+      }
+
+      if (matched.length > 0) {
+        hits.push({ red_line: redLine, chunk_ids: matched, source: 'evidence_scan', excerpt });
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * Red lines the model flagged, kept only when they name a red line of the policy and
+   * cite evidence it was given
+   */
+  private verifyRedLineFlags(
+    flags: any,
+    chunks: any[],
+    redLines: string[],
+    evidenceIds: Set<string>
+  ): RedLineHit[] {
+    if (!Array.isArray(flags)) return [];
+
+    const byText = new Map(redLines.map(redLine => [normalize(redLine), redLine] as [string, string]));
+    const hits: RedLineHit[] = [];
+
+    for (const flag of flags) {
+      const redLine = byText.get(normalize(String(flag?.red_line || '')));
+      if (!redLine) continue;
+
+      const chunkIds = (Array.isArray(flag.chunk_ids) ? flag.chunk_ids : [])
+        .filter((id: any) => evidenceIds.has(String(id)));
+      if (chunkIds.length === 0) continue;
+
+      const chunk = chunks.find(c => String(c.id) === String(chunkIds[0]));
+      hits.push({
+        red_line: redLine,
+        chunk_ids: chunkIds,
+        source: 'model',
+        excerpt: (chunk?.text || chunk?.content || '').substring(0, EXCERPT_RADIUS * 2) || undefined,
+        explanation: flag.explanation ? String(flag.explanation) : undefined
+      });
+    }
+
+    return hits;
+  }
+}
+
+/**
+ * Weighted mean of the scored drivers; drivers with a null score do not count
+ */
+export function computeWeightedTotal(scores: Array<{ score: number | null; weight?: number }>): number | null {
+  let totalWeight = 0;
+  let weightedSum = 0;
+
+  scores.forEach(score => {
+    if (score.score === null || score.score === undefined) return;
+    const weight = score.weight ?? 1;
+    totalWeight += weight;
+    weightedSum += score.score * weight;
+  });
+
+  return totalWeight > 0 ? weightedSum / totalWeight : null;
+}
+
+function redLineMatcher(redLine: string): RegExp | null {
+  const trimmed = redLine.trim();
+  if (!trimmed) return null;
+
+  const pattern = /^\/(.+)\/$/.exec(trimmed);
+  if (pattern) {
+    try {
+      return new RegExp(pattern[1], 'i');
+    } catch (error) {
+      console.warn(`Ignoring invalid red line pattern ${trimmed}:`, error);
+      return null;
+    }
+  }
+
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(escaped, 'i');
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Export singleton instance
+export const policyEngine = new EvidencePolicyEngine();
+
+// Export types
+export type { PolicyRule, PolicyCheck, RedLineHit, WithheldScore, PolicyReport };
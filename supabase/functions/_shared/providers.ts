@@ -0,0 +1,588 @@
+// Model providers
+// One interface for chat completion, streaming and embeddings: Vertex AI, any OpenAI-compatible endpoint, or a local stub
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Requests and responses use the Vertex generateContent shape that every caller
+// already builds; providers that speak another wire format translate both ways.
+interface ContentPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+}
+
+interface Content {
+  role?: string;
+  parts: ContentPart[];
+}
+
+interface GenerateRequest {
+  contents: Content[];
+  systemInstruction?: { parts: ContentPart[] };
+  generationConfig?: {
+    temperature?: number;
+    topK?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    candidateCount?: number;
+    responseMimeType?: string;
+    responseSchema?: Record<string, any>;
+  };
+  safetySettings?: Array<{ category: string; threshold: string }>;
+}
+
+interface GenerateResponse {
+  candidates: Array<{
+    content: { role: string; parts: Array<{ text: string }> };
+    finishReason?: string;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+interface ProviderCallOptions {
+  model?: string;
+  signal?: AbortSignal;
+}
+
+interface AuthStatus {
+  token_cached: boolean;
+  expires_in_ms: number;
+}
+
+interface ModelProvider {
+  readonly name: string;
+  readonly defaultChatModel: string;
+  readonly defaultEmbeddingModel: string;
+  generate(request: GenerateRequest, options?: ProviderCallOptions): Promise<GenerateResponse>;
+  // Yields text deltas as the model produces them
+  stream(request: GenerateRequest, options?: ProviderCallOptions): AsyncGenerator<string>;
+  embed(texts: string[], options?: ProviderCallOptions): Promise<number[][]>;
+  authStatus(): AuthStatus;
+  resetAuth(): void;
+}
+
+// A provider plus the models a client has been configured to use on it
+interface ProviderBinding {
+  provider: ModelProvider;
+  chatModel: string;
+  embeddingModel: string;
+}
+
+/**
+ * Non-2xx response from a provider. `status` lets callers retry on 429 and
+ * refresh credentials on 401 regardless of which backend produced it.
+ */
+class ProviderError extends Error {
+  status: number;
+
+  constructor(provider: string, status: number, body: string) {
+    super(`${provider} API error: ${status} ${body}`);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+const CLIENT_SETTINGS_TTL_MS = 60_000;
+const VERTEX_EMBED_BATCH = 16;
+const DEFAULT_EMBEDDING_DIMENSIONS = 1536;
+
+function base64Url(input: string): string {
+  return btoa(input).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function requestText(parts: ContentPart[] = []): string {
+  return parts.map((part) => part.text || '').join('');
+}
+
+/**
+ * Read `data:` payloads from a server-sent event body, buffering across reads
+ * so events split between network chunks are reassembled.
+ */
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) yield trimmed.slice(5).trim();
+      }
+    }
+    const last = buffer.trim();
+    if (last.startsWith('data:')) yield last.slice(5).trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Vertex AI (Gemini + text-embedding) authenticated with a service account
+ */
+class VertexProvider implements ModelProvider {
+  readonly name = 'vertex';
+  readonly defaultChatModel = Deno.env.get('GOOGLE_GEMINI_MODEL') || 'gemini-2.0-flash-exp';
+  readonly defaultEmbeddingModel = Deno.env.get('GOOGLE_EMBEDDING_MODEL') || 'text-embedding-004';
+  private projectId = Deno.env.get('GOOGLE_CLOUD_PROJECT_ID') || 'cellular-axon-458006-e1';
+  private location = Deno.env.get('GOOGLE_CLOUD_LOCATION') || 'us-central1';
+  private token: string | null = null;
+  private expires = 0;
+
+  async generate(request: GenerateRequest, options: ProviderCallOptions = {}): Promise<GenerateResponse> {
+    const response = await this.post(`${options.model || this.defaultChatModel}:generateContent`, request, options.signal);
+    return await response.json();
+  }
+
+  async *stream(request: GenerateRequest, options: ProviderCallOptions = {}): AsyncGenerator<string> {
+    const response = await this.post(
+      `${options.model || this.defaultChatModel}:streamGenerateContent?alt=sse`,
+      request,
+      options.signal
+    );
+    if (!response.body) {
+      throw new Error('No response body for streaming');
+    }
+    for await (const data of readSseData(response.body)) {
+      try {
+        const text = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) yield text;
+      } catch (_parseError) {
+        console.log('Skipping invalid streaming line:', data.substring(0, 100));
+      }
+    }
+  }
+
+  async embed(texts: string[], options: ProviderCallOptions = {}): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += VERTEX_EMBED_BATCH) {
+      const batch = texts.slice(i, i + VERTEX_EMBED_BATCH);
+      const response = await this.post(
+        `${options.model || this.defaultEmbeddingModel}:predict`,
+        { instances: batch.map((content) => ({ content })) },
+        options.signal
+      );
+      const data = await response.json();
+      vectors.push(...data.predictions.map((prediction: any) => prediction.embeddings.values));
+    }
+    return vectors;
+  }
+
+  authStatus(): AuthStatus {
+    return {
+      token_cached: !!this.token,
+      expires_in_ms: Math.max(0, this.expires - Date.now()),
+    };
+  }
+
+  resetAuth(): void {
+    this.token = null;
+    this.expires = 0;
+  }
+
+  private async post(modelAction: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const accessToken = await this.getAccessToken();
+    const url = `https://${this.location}-aiplatform.googleapis.com/v1/projects/${this.projectId}/locations/${this.location}/publishers/google/models/${modelAction}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new ProviderError('Vertex', response.status, await response.text());
+    }
+    return response;
+  }
+
+  /**
+   * Exchange a signed service-account JWT for an access token, cached until 5 minutes before expiry
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.token && Date.now() < this.expires) {
+      return this.token;
+    }
+
+    let serviceAccountJson = Deno.env.get('GOOGLE_SERVICE_ACCOUNT_JSON');
+    if (!serviceAccountJson) {
+      throw new Error('GOOGLE_SERVICE_ACCOUNT_JSON environment variable not set');
+    }
+    // Service accounts may be stored base64 encoded
+    if (!serviceAccountJson.trim().startsWith('{')) {
+      try {
+        serviceAccountJson = atob(serviceAccountJson);
+      } catch (_decodeError) {
+        throw new Error('Service account appears to be base64 but failed to decode');
+      }
+    }
+
+    let serviceAccount: any;
+    try {
+      serviceAccount = JSON.parse(serviceAccountJson);
+    } catch (parseError) {
+      throw new Error(`Failed to parse service account JSON: ${parseError.message}`);
+    }
+
+    const jwt = await this.createJWT(serviceAccount);
+    const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: jwt,
+      }),
+    });
+    if (!tokenResponse.ok) {
+      throw new Error(`Token exchange failed: ${tokenResponse.status} ${await tokenResponse.text()}`);
+    }
+
+    const tokenData = await tokenResponse.json();
+    this.token = tokenData.access_token;
+    this.expires = Date.now() + (tokenData.expires_in - 300) * 1000;
+    return tokenData.access_token;
+  }
+
+  private async createJWT(serviceAccount: any): Promise<string> {
+    if (!serviceAccount?.client_email || !serviceAccount?.private_key) {
+      throw new Error('Invalid service account: missing required fields');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({
+      iss: serviceAccount.client_email,
+      scope: 'https://www.googleapis.com/auth/cloud-platform',
+      aud: 'https://oauth2.googleapis.com/token',
+      exp: now + 3600,
+      iat: now,
+    }));
+    const data = `${header}.${payload}`;
+
+    // Keys arrive with literal "\n" escapes or as a single line; only the base64 body matters
+    const pemContent = String(serviceAccount.private_key)
+      .replace(/\\n/g, '\n')
+      .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+      .replace(/\s+/g, '');
+
+    try {
+      const binaryDer = Uint8Array.from(atob(pemContent), (c) => c.charCodeAt(0));
+      const cryptoKey = await crypto.subtle.importKey(
+        'pkcs8',
+        binaryDer,
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+      const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', cryptoKey, new TextEncoder().encode(data));
+      const signatureBytes = Array.from(new Uint8Array(signature), (byte) => String.fromCharCode(byte)).join('');
+      return `${data}.${base64Url(signatureBytes)}`;
+    } catch (error) {
+      throw new Error(`JWT creation failed: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Any endpoint implementing the OpenAI chat completions and embeddings API
+ * (OpenAI, Azure OpenAI proxies, vLLM, Ollama, LiteLLM, ...)
+ */
+class OpenAICompatibleProvider implements ModelProvider {
+  readonly name = 'openai';
+  readonly defaultChatModel = Deno.env.get('OPENAI_CHAT_MODEL') || 'gpt-4o-mini';
+  readonly defaultEmbeddingModel = Deno.env.get('OPENAI_EMBEDDING_MODEL') || 'text-embedding-3-small';
+  private baseUrl = (Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1').replace(/\/$/, '');
+
+  async generate(request: GenerateRequest, options: ProviderCallOptions = {}): Promise<GenerateResponse> {
+    const response = await this.post('/chat/completions', this.toChatBody(request, options.model, false), options.signal);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    return {
+      candidates: choice ? [{
+        content: { role: 'model', parts: [{ text: choice.message?.content ?? '' }] },
+        finishReason: choice.finish_reason === 'length' ? 'MAX_TOKENS'
+          : choice.finish_reason === 'content_filter' ? 'SAFETY'
+          : 'STOP',
+      }] : [],
+      usageMetadata: data.usage ? {
+        promptTokenCount: data.usage.prompt_tokens,
+        candidatesTokenCount: data.usage.completion_tokens,
+        totalTokenCount: data.usage.total_tokens,
+      } : undefined,
+    };
+  }
+
+  async *stream(request: GenerateRequest, options: ProviderCallOptions = {}): AsyncGenerator<string> {
+    const response = await this.post('/chat/completions', this.toChatBody(request, options.model, true), options.signal);
+    if (!response.body) {
+      throw new Error('No response body for streaming');
+    }
+    for await (const data of readSseData(response.body)) {
+      if (data === '[DONE]') return;
+      try {
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      } catch (_parseError) {
+        console.log('Skipping invalid streaming line:', data.substring(0, 100));
+      }
+    }
+  }
+
+  async embed(texts: string[], options: ProviderCallOptions = {}): Promise<number[][]> {
+    const dimensions = Deno.env.get('EMBEDDING_DIMENSIONS');
+    const response = await this.post('/embeddings', {
+      model: options.model || this.defaultEmbeddingModel,
+      input: texts,
+      ...(dimensions ? { dimensions: Number(dimensions) } : {}),
+    }, options.signal);
+    const data = await response.json();
+    return data.data
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+
+  authStatus(): AuthStatus {
+    return { token_cached: !!Deno.env.get('OPENAI_API_KEY'), expires_in_ms: 0 };
+  }
+
+  resetAuth(): void {
+    // Static API key, nothing to refresh
+  }
+
+  private toChatBody(request: GenerateRequest, model: string | undefined, stream: boolean) {
+    const messages: Array<{ role: string; content: any }> = [];
+    const system = requestText(request.systemInstruction?.parts);
+    if (system) messages.push({ role: 'system', content: system });
+
+    for (const content of request.contents) {
+      const images = content.parts.filter((part) => part.inlineData);
+      const text = requestText(content.parts);
+      messages.push({
+        role: content.role === 'model' ? 'assistant' : 'user',
+        content: images.length === 0 ? text : [
+          ...(text ? [{ type: 'text', text }] : []),
+          ...images.map((part) => ({
+            type: 'image_url',
+            image_url: { url: `data:${part.inlineData!.mimeType};base64,${part.inlineData!.data}` },
+          })),
+        ],
+      });
+    }
+
+    const config = request.generationConfig || {};
+    return {
+      model: model || this.defaultChatModel,
+      messages,
+      stream,
+      ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+      ...(config.topP !== undefined ? { top_p: config.topP } : {}),
+      ...(config.maxOutputTokens !== undefined ? { max_tokens: config.maxOutputTokens } : {}),
+      ...(config.responseMimeType === 'application/json' ? { response_format: { type: 'json_object' } } : {}),
+    };
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const apiKey = Deno.env.get('OPENAI_API_KEY');
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new ProviderError('OpenAI-compatible', response.status, await response.text());
+    }
+    return response;
+  }
+}
+
+/**
+ * Deterministic offline backend. Text answers echo the prompt, JSON requests
+ * get an empty value shaped like their responseSchema, and embeddings are
+ * hashed bags of words so similar texts still land near each other.
+ */
+class LocalStubProvider implements ModelProvider {
+  readonly name = 'local';
+  readonly defaultChatModel = 'local-stub';
+  readonly defaultEmbeddingModel = 'local-hash';
+  private dimensions = Number(Deno.env.get('EMBEDDING_DIMENSIONS') || DEFAULT_EMBEDDING_DIMENSIONS);
+
+  async generate(request: GenerateRequest, options: ProviderCallOptions = {}): Promise<GenerateResponse> {
+    const text = this.respond(request, options.model);
+    return {
+      candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
+    };
+  }
+
+  async *stream(request: GenerateRequest, options: ProviderCallOptions = {}): AsyncGenerator<string> {
+    for (const piece of this.respond(request, options.model).split(/(?<=\s)/)) {
+      if (options.signal?.aborted) return;
+      yield piece;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.hashEmbedding(text));
+  }
+
+  authStatus(): AuthStatus {
+    return { token_cached: false, expires_in_ms: 0 };
+  }
+
+  resetAuth(): void {
+    // No credentials
+  }
+
+  private respond(request: GenerateRequest, model?: string): string {
+    const config = request.generationConfig || {};
+    if (config.responseMimeType === 'application/json') {
+      return JSON.stringify(config.responseSchema ? this.emptyFromSchema(config.responseSchema) : {});
+    }
+    const lastUser = [...request.contents].reverse().find((content) => content.role !== 'model');
+    const prompt = requestText(lastUser?.parts).replace(/\s+/g, ' ').trim();
+    return `[${model || this.defaultChatModel}] ${prompt.slice(0, 200)}`;
+  }
+
+  private emptyFromSchema(schema: Record<string, any>): unknown {
+    switch (String(schema.type || '').toLowerCase()) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries(schema.properties || {}).map(([key, value]) => [key, this.emptyFromSchema(value as Record<string, any>)])
+        );
+      case 'array':
+        return [];
+      case 'number':
+      case 'integer':
+        return 0;
+      case 'boolean':
+        return false;
+      default:
+        return schema.enum?.[0] ?? '';
+    }
+  }
+
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    for (const token of text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/).filter(Boolean)) {
+      // FNV-1a; the top bit picks the sign so unrelated tokens tend to cancel
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < token.length; i++) {
+        hash = Math.imul(hash ^ token.charCodeAt(i), 0x01000193) >>> 0;
+      }
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+class ProviderRegistry {
+  private supabase: any;
+  private providers = new Map<string, ModelProvider>();
+  private clientBindings = new Map<string, { binding: ProviderBinding; expires: number }>();
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+    for (const provider of [new VertexProvider(), new OpenAICompatibleProvider(), new LocalStubProvider()]) {
+      this.register(provider);
+    }
+  }
+
+  /**
+   * Register an additional provider under its name
+   */
+  register(provider: ModelProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Resolve a provider by name, defaulting to the LLM_PROVIDER env var ('vertex' unless set)
+   */
+  get(name?: string | null): ModelProvider {
+    const key = name || Deno.env.get('LLM_PROVIDER') || 'vertex';
+    const provider = this.providers.get(key);
+    if (!provider) {
+      throw new Error(`Unknown model provider "${key}"`);
+    }
+    return provider;
+  }
+
+  /**
+   * Provider and models for a client. Columns left null on the client fall
+   * back to the deployment default; without a client the default is returned.
+   */
+  async resolve(clientId?: number | string | null): Promise<ProviderBinding> {
+    if (clientId === undefined || clientId === null) {
+      return this.resolveDefault();
+    }
+
+    const key = String(clientId);
+    const cached = this.clientBindings.get(key);
+    if (cached && Date.now() < cached.expires) {
+      return cached.binding;
+    }
+
+    const { data, error } = await this.supabase
+      .from('clients')
+      .select('llm_provider, chat_model, embedding_model')
+      .eq('id', clientId)
+      .maybeSingle();
+    if (error) {
+      console.warn(`Could not load model settings for client ${key}, using defaults:`, error.message);
+    }
+
+    const binding = this.bind(this.get(data?.llm_provider), data?.chat_model, data?.embedding_model);
+    this.clientBindings.set(key, { binding, expires: Date.now() + CLIENT_SETTINGS_TTL_MS });
+    return binding;
+  }
+
+  /**
+   * Deployment default provider and models
+   */
+  resolveDefault(): ProviderBinding {
+    return this.bind(this.get());
+  }
+
+  private bind(provider: ModelProvider, chatModel?: string | null, embeddingModel?: string | null): ProviderBinding {
+    return {
+      provider,
+      chatModel: chatModel || provider.defaultChatModel,
+      embeddingModel: embeddingModel || provider.defaultEmbeddingModel,
+    };
+  }
+}
+
+// Export singleton instance
+export const providerRegistry = new ProviderRegistry();
+
+export { ProviderError };
+
+// Export types
+export type {
+  ContentPart,
+  Content,
+  GenerateRequest,
+  GenerateResponse,
+  ProviderCallOptions,
+  AuthStatus,
+  ModelProvider,
+  ProviderBinding,
+};
@@ -0,0 +1,386 @@
+// Query planner
+// Turns a question into an intent, a search query and filters (date range, people, rooms) that users can see and override
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { peopleDirectory } from './people.ts';
+
+type QueryIntent = 'casual' | 'rag' | 'evaluation';
+
+// Parts of a plan a request can ask to leave out, after seeing how its question was interpreted
+type PlanPart = 'intent' | 'search_query' | 'date_range' | 'people' | 'rooms';
+
+interface PlannedDateRange {
+  from: string | null;
+  to: string | null;
+  // How the range was read, e.g. "March 2025" or "since the pitch (first mentioned 14 Mar 2025)"
+  label: string;
+}
+
+interface PlannedPerson {
+  // As written in the question
+  mention: string;
+  name: string;
+  person_id: number | null;
+  // 'speaker' people said or did something in the chats and filter by participant;
+  // 'subject' is the person an evaluation is about; 'mentioned' people only shape the search query
+  role: 'speaker' | 'subject' | 'mentioned';
+}
+
+interface PlannedRoom {
+  room_id: number;
+  name: string;
+  room_type: 'internal' | 'external';
+}
+
+interface QueryPlan {
+  intent: QueryIntent;
+  search_query: string;
+  date_range: PlannedDateRange | null;
+  people: PlannedPerson[];
+  rooms: PlannedRoom[];
+  room_types: Array<'internal' | 'external'>;
+  // "latest", "most recent": newest chunks first rather than the best matches
+  recency: boolean;
+  // 'fallback' plans come from simple patterns after the planner call failed
+  source: 'llm' | 'fallback';
+  ignored: PlanPart[];
+}
+
+interface PlanParams {
+  clientId: number;
+  question: string;
+  // Conversation memory, so "the same period" or "her" resolve against earlier turns
+  context?: string;
+  ignore?: PlanPart[];
+  now?: Date;
+}
+
+interface QueryFilters {
+  types?: Array<'internal' | 'external'>;
+  room_ids?: number[];
+  date_from?: string;
+  date_to?: string;
+  participants?: string[];
+}
+
+// Rooms listed to the planner; clients with more are matched by name only on the first ones
+const MAX_PLANNER_ROOMS = 150;
+
+// Relative periods the fallback plan understands, in days
+const FALLBACK_PERIODS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const RECENCY_PATTERN = /\b(latest|most recent|newest|last time|recent|when was the last)\b/i;
+
+class QueryPlanner {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Plan a question. Rooms are matched against the client's rooms, people
+   * against its people directory, and event anchors ("since the pitch") against
+   * the chats. Falls back to simple patterns when the planner call fails.
+   */
+  async plan(llm: any, params: PlanParams): Promise<QueryPlan> {
+    const now = params.now ?? new Date();
+    const ignore = params.ignore ?? [];
+    const rooms = await this.loadRooms(params.clientId);
+
+    let plan: QueryPlan;
+    try {
+      plan = await this.planWithModel(llm, params, rooms, now);
+    } catch (error) {
+      console.warn('Query planner failed, using the fallback plan:', error.message);
+      plan = this.fallbackPlan(params.question, now);
+    }
+
+    // Parts the user chose to leave out stay visible in `ignored` but are not applied
+    return {
+      ...plan,
+      intent: ignore.includes('intent') ? 'rag' : plan.intent,
+      search_query: ignore.includes('search_query') ? params.question : plan.search_query,
+      date_range: ignore.includes('date_range') ? null : plan.date_range,
+      people: ignore.includes('people') ? [] : plan.people,
+      rooms: ignore.includes('rooms') ? [] : plan.rooms,
+      room_types: ignore.includes('rooms') ? [] : plan.room_types,
+      ignored: ignore,
+    };
+  }
+
+  /**
+   * Fill the filters the request left unset from the plan. Filters chosen in the
+   * UI always win over planned ones.
+   */
+  applyToFilters(plan: QueryPlan, requested: QueryFilters = {}): QueryFilters {
+    const filters: QueryFilters = { ...requested };
+
+    if (plan.date_range && !requested.date_from && !requested.date_to) {
+      if (plan.date_range.from) filters.date_from = plan.date_range.from;
+      if (plan.date_range.to) filters.date_to = plan.date_range.to;
+    }
+
+    if (!requested.room_ids?.length && plan.rooms.length > 0) {
+      filters.room_ids = plan.rooms.map(room => room.room_id);
+    }
+    if (!requested.types?.length && !filters.room_ids?.length && plan.room_types.length > 0) {
+      filters.types = plan.room_types;
+    }
+
+    const speakers = plan.people.filter(person => person.role === 'speaker').map(person => person.name);
+    if (!requested.participants?.length && speakers.length > 0) {
+      filters.participants = speakers;
+    }
+
+    return filters;
+  }
+
+  private async planWithModel(
+    llm: any,
+    params: PlanParams,
+    rooms: PlannedRoom[],
+    now: Date
+  ): Promise<QueryPlan> {
+    const roomList = rooms.length > 0
+      ? rooms.map(room => `${room.room_id}: ${room.name} (${room.room_type})`).join('\n')
+      : '(none)';
+
+    const response = await llm.generateContent({
+      contents: [{
+        role: 'user',
+        parts: [{
+          text: `Today is ${now.toISOString().slice(0, 10)} (UTC).\n\n` +
+            `${params.context ? `${params.context}\n\n` : ''}` +
+            `Rooms (id: name (type)); internal rooms are Zoho Cliq, external rooms are WhatsApp:\n${roomList}\n\n` +
+            `Question: ${params.question}\n\n` +
+            'Plan the search for this question over the chat logs:\n' +
+            '- intent: "casual" (small talk or general knowledge), "rag" (facts, instances or examples from the chats) ' +
+            'or "evaluation" (an overall assessment or rating of a person).\n' +
+            '- search_query: the question as a short search query, without the dates, rooms and filler words.\n' +
+            '- date_from / date_to: the period the question is about as YYYY-MM-DD, or empty. Resolve relative ' +
+            'periods ("last week", "in March", "Q2 2025", "this year") against today; a month or quarter without a ' +
+            'year is the latest one that is not in the future.\n' +
+            '- anchor: when the period is relative to an event ("since the pitch", "before the launch"), the event ' +
+            'as a few search words, and whether the question is about the time "since", "before" or "around" it.\n' +
+            '- date_label: the period in a few words, or empty.\n' +
+            '- people: everyone the question names, as written; role "speaker" when the question is about what ' +
+            'they said or did, "subject" when it asks to assess them, otherwise "mentioned".\n' +
+            '- room_ids: rooms the question names; room_types: "internal" or "external" when it names a platform.\n' +
+            '- recency: true when it asks for the latest or most recent thing.',
+        }],
+      }],
+      systemInstruction: {
+        parts: [{ text: 'You plan searches for a chat-log analysis system. Reply with JSON only.' }],
+      },
+      generationConfig: {
+        temperature: 0,
+        maxOutputTokens: 1024,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: 'object',
+          properties: {
+            intent: { type: 'string', enum: ['casual', 'rag', 'evaluation'] },
+            search_query: { type: 'string' },
+            date_from: { type: 'string' },
+            date_to: { type: 'string' },
+            date_label: { type: 'string' },
+            anchor: {
+              type: 'object',
+              properties: {
+                phrase: { type: 'string' },
+                relation: { type: 'string', enum: ['since', 'before', 'around'] },
+              },
+            },
+            people: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  role: { type: 'string', enum: ['speaker', 'subject', 'mentioned'] },
+                },
+                required: ['name', 'role'],
+              },
+            },
+            room_ids: { type: 'array', items: { type: 'integer' } },
+            room_types: { type: 'array', items: { type: 'string', enum: ['internal', 'external'] } },
+            recency: { type: 'boolean' },
+          },
+          required: ['intent', 'search_query'],
+        },
+      },
+    }, false);
+
+    const raw = response.candidates?.[0]?.content?.parts?.[0]?.text || '{}';
+    const parsed = JSON.parse(raw);
+
+    const intent: QueryIntent = ['casual', 'rag', 'evaluation'].includes(parsed.intent) ? parsed.intent : 'rag';
+    const searchQuery = String(parsed.search_query || '').trim().slice(0, 1000) || params.question;
+
+    let dateRange = this.parseDateRange(parsed.date_from, parsed.date_to, parsed.date_label);
+    if (parsed.anchor?.phrase) {
+      dateRange = await this.resolveAnchor(params.clientId, parsed.anchor.phrase, parsed.anchor.relation, dateRange);
+    }
+
+    const roomsById = new Map(rooms.map(room => [room.room_id, room]));
+    const plannedRooms = (Array.isArray(parsed.room_ids) ? parsed.room_ids : [])
+      .map((id: unknown) => roomsById.get(Number(id)))
+      .filter((room: PlannedRoom | undefined): room is PlannedRoom => !!room);
+
+    const roomTypes = (Array.isArray(parsed.room_types) ? parsed.room_types : [])
+      .filter((type: unknown): type is 'internal' | 'external' => type === 'internal' || type === 'external');
+
+    return {
+      intent,
+      search_query: searchQuery,
+      date_range: dateRange,
+      people: await this.resolvePeople(params.clientId, Array.isArray(parsed.people) ? parsed.people : []),
+      rooms: plannedRooms,
+      room_types: Array.from(new Set<'internal' | 'external'>(roomTypes)),
+      recency: parsed.recency === true,
+      source: 'llm',
+      ignored: [],
+    };
+  }
+
+  // The relative periods and platform names the search understood before the planner
+  private fallbackPlan(question: string, now: Date): QueryPlan {
+    let dateRange: PlannedDateRange | null = null;
+    const period = question.match(/\b(last|past) (day|week|month|year)\b/i);
+    if (period) {
+      const days = FALLBACK_PERIODS[period[2].toLowerCase()];
+      dateRange = {
+        from: new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString(),
+        to: now.toISOString(),
+        label: `${period[1].toLowerCase()} ${period[2].toLowerCase()}`,
+      };
+    }
+
+    const roomTypes: Array<'internal' | 'external'> = [];
+    if (/zoho\s+cliq/i.test(question)) roomTypes.push('internal');
+    if (/whatsapp/i.test(question)) roomTypes.push('external');
+
+    return {
+      intent: 'rag',
+      search_query: question,
+      date_range: dateRange,
+      people: [],
+      rooms: [],
+      room_types: roomTypes,
+      recency: RECENCY_PATTERN.test(question),
+      source: 'fallback',
+      ignored: [],
+    };
+  }
+
+  // Whole days in UTC: the start of the first day to the end of the last
+  private parseDateRange(from: unknown, to: unknown, label: unknown): PlannedDateRange | null {
+    const start = this.parseDay(from, false);
+    const end = this.parseDay(to, true);
+    if (!start && !end) return null;
+    if (start && end && start > end) return null;
+
+    return {
+      from: start,
+      to: end,
+      label: String(label || '').trim() || [start?.slice(0, 10), end?.slice(0, 10)].filter(Boolean).join(' to '),
+    };
+  }
+
+  private parseDay(value: unknown, endOfDay: boolean): string | null {
+    const text = String(value || '').trim();
+    if (!/^\d{4}-\d{2}-\d{2}/.test(text)) return null;
+
+    const day = new Date(`${text.slice(0, 10)}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+    return isNaN(day.getTime()) ? null : day.toISOString();
+  }
+
+  /**
+   * Date an event by the first chunk that mentions it. The label says which
+   * mention was used, so a wrong guess is easy to spot and drop.
+   */
+  private async resolveAnchor(
+    clientId: number,
+    phrase: string,
+    relation: string,
+    fallback: PlannedDateRange | null
+  ): Promise<PlannedDateRange | null> {
+    const { data, error } = await this.supabase
+      .from('chunks')
+      .select('first_ts')
+      .eq('client_id', clientId)
+      .not('first_ts', 'is', null)
+      .textSearch('text', phrase, { type: 'plain', config: 'english' })
+      .order('first_ts', { ascending: true })
+      .limit(1);
+
+    if (error || !data?.[0]?.first_ts) {
+      if (error) console.warn(`Failed to date "${phrase}":`, error.message);
+      return fallback;
+    }
+
+    const mentioned = new Date(data[0].first_ts);
+    const shown = mentioned.toISOString().slice(0, 10);
+    const label = `${relation || 'since'} ${phrase} (first mentioned ${shown})`;
+
+    if (relation === 'before') {
+      return { from: fallback?.from ?? null, to: mentioned.toISOString(), label };
+    }
+    if (relation === 'around') {
+      const week = 7 * 24 * 60 * 60 * 1000;
+      return {
+        from: new Date(mentioned.getTime() - week).toISOString(),
+        to: new Date(mentioned.getTime() + week).toISOString(),
+        label,
+      };
+    }
+    return { from: mentioned.toISOString(), to: fallback?.to ?? null, label };
+  }
+
+  private async resolvePeople(clientId: number, people: any[]): Promise<PlannedPerson[]> {
+    const resolved: PlannedPerson[] = [];
+    const seen = new Set<string>();
+
+    for (const entry of people.slice(0, 10)) {
+      const mention = String(entry?.name || '').trim();
+      if (!mention || mention.length > 80 || seen.has(mention.toLowerCase())) continue;
+      seen.add(mention.toLowerCase());
+
+      const role = ['speaker', 'subject', 'mentioned'].includes(entry.role) ? entry.role : 'mentioned';
+      const person = await peopleDirectory.resolve(clientId, mention);
+      resolved.push({
+        mention,
+        name: person?.display_name ?? mention,
+        person_id: person?.person_id ?? null,
+        role,
+      });
+    }
+
+    return resolved;
+  }
+
+  private async loadRooms(clientId: number): Promise<PlannedRoom[]> {
+    const { data, error } = await this.supabase
+      .from('rooms')
+      .select('id, name, room_type')
+      .eq('client_id', clientId)
+      .order('name', { ascending: true })
+      .limit(MAX_PLANNER_ROOMS);
+
+    if (error) {
+      console.warn('Failed to load rooms for the query planner:', error.message);
+      return [];
+    }
+    return (data || []).map((room: any) => ({ room_id: room.id, name: room.name, room_type: room.room_type }));
+  }
+}
+
+// Export singleton instance
+export const queryPlanner = new QueryPlanner();
+
+// Export types
+export type { QueryIntent, PlanPart, PlannedDateRange, PlannedPerson, PlannedRoom, QueryPlan, PlanParams };
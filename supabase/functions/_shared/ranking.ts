@@ -0,0 +1,197 @@
+// Retrieval ranking pipeline
+// Fuses the vector and text legs, reranks the head of the list and picks a diverse final set
+
+import { db } from './db.ts';
+import { geminiClient } from './gemini.ts';
+import { fuseSearchResults, dedupeChunks, mmr } from './mmr.ts';
+
+interface RankableChunk {
+  id: number | string;
+  text?: string;
+  content?: string;
+  similarity_score?: number;
+  [key: string]: any;
+}
+
+interface RerankOptions {
+  topN?: number;
+}
+
+// A reranker rescores the first `topN` candidates and returns the full list reordered
+interface Reranker {
+  readonly name: string;
+  rerank<T extends RankableChunk>(question: string, candidates: T[], options?: RerankOptions): Promise<T[]>;
+}
+
+interface MmrConfig {
+  lambda?: number;
+  maxResults?: number;
+  diversityWeight?: number;
+  recencyWeight?: number;
+}
+
+interface RankChunksParams {
+  question: string;
+  vectorResults: RankableChunk[];
+  textResults: RankableChunk[];
+  mmr?: MmrConfig;
+  reranker?: Reranker;
+  rerankTopN?: number;
+  // How many fused candidates MMR chooses from (and load embeddings for)
+  poolSize?: number;
+}
+
+const DEFAULT_RERANK_TOP_N = 20;
+const DEFAULT_POOL_SIZE = 40;
+const PASSAGE_PREVIEW_CHARS = 600;
+
+/**
+ * Keeps the fused order. Used when reranking is switched off.
+ */
+class PassthroughReranker implements Reranker {
+  readonly name = 'none';
+
+  async rerank<T extends RankableChunk>(_question: string, candidates: T[]): Promise<T[]> {
+    return candidates;
+  }
+}
+
+/**
+ * Asks the LLM to grade each of the top candidates for relevance (0-10) in one
+ * call. The grade is blended with the fused score so a single bad grade can't
+ * bury a chunk both retrieval legs agreed on. Any failure keeps the fused order.
+ */
+class LlmReranker implements Reranker {
+  readonly name = 'llm';
+
+  async rerank<T extends RankableChunk>(question: string, candidates: T[], options: RerankOptions = {}): Promise<T[]> {
+    const topN = Math.min(options.topN ?? DEFAULT_RERANK_TOP_N, candidates.length);
+    if (topN < 2) return candidates;
+
+    const head = candidates.slice(0, topN);
+    const tail = candidates.slice(topN);
+
+    try {
+      const grades = await this.gradePassages(question, head);
+      const rescored = head.map((chunk, index) => {
+        const grade = grades.get(index);
+        if (grade === undefined) return chunk;
+        const rerankScore = grade / 10;
+        const blended = ((chunk.similarity_score ?? 0) + rerankScore) / 2;
+        return { ...chunk, rerank_score: rerankScore, similarity_score: blended, similarity: blended };
+      });
+      rescored.sort((a, b) => (b.similarity_score ?? 0) - (a.similarity_score ?? 0));
+      console.log(`LLM reranker graded ${grades.size}/${head.length} candidates`);
+      return [...rescored, ...tail];
+    } catch (error) {
+      console.warn('LLM rerank failed, keeping fused order:', error.message);
+      return candidates;
+    }
+  }
+
+  private async gradePassages(question: string, passages: RankableChunk[]): Promise<Map<number, number>> {
+    const numbered = passages
+      .map((chunk, index) => {
+        const text = (chunk.text || chunk.content || '').slice(0, PASSAGE_PREVIEW_CHARS);
+        return `[${index}] ${text.replace(/\s+/g, ' ')}`;
+      })
+      .join('\n\n');
+
+    const response = await geminiClient.generateContent({
+      contents: [{
+        role: 'user',
+        parts: [{
+          text: `Question: ${question}\n\nPassages:\n${numbered}\n\n` +
+            'Grade how useful each passage is for answering the question, from 0 (irrelevant) to 10 (directly answers it).',
+        }],
+      }],
+      systemInstruction: {
+        parts: [{ text: 'You grade chat-log passages for a retrieval system. Reply with JSON only.' }],
+      },
+      generationConfig: {
+        temperature: 0,
+        maxOutputTokens: 1024,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: 'object',
+          properties: {
+            grades: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  index: { type: 'integer' },
+                  score: { type: 'number' },
+                },
+                required: ['index', 'score'],
+              },
+            },
+          },
+          required: ['grades'],
+        },
+      },
+    }, false);
+
+    const raw = response.candidates?.[0]?.content?.parts?.[0]?.text || '{}';
+    const parsed = JSON.parse(raw);
+    const grades = new Map<number, number>();
+    for (const item of parsed.grades || []) {
+      if (!Number.isInteger(item.index) || item.index < 0 || item.index >= passages.length) continue;
+      if (typeof item.score !== 'number') continue;
+      grades.set(item.index, Math.max(0, Math.min(10, item.score)));
+    }
+    return grades;
+  }
+}
+
+const RERANKERS: Record<string, Reranker> = {
+  none: new PassthroughReranker(),
+  llm: new LlmReranker(),
+};
+
+/**
+ * Resolve a reranker by name, defaulting to the RERANKER env var ('llm' unless set)
+ */
+export function getReranker(name?: string): Reranker {
+  const key = name ?? Deno.env.get('RERANKER') ?? 'llm';
+  const reranker = RERANKERS[key];
+  if (!reranker) {
+    console.warn(`Unknown reranker "${key}", reranking disabled`);
+    return RERANKERS.none;
+  }
+  return reranker;
+}
+
+/**
+ * Register an additional reranker (e.g. a cross-encoder service) under a name
+ */
+export function registerReranker(reranker: Reranker): void {
+  RERANKERS[reranker.name] = reranker;
+}
+
+/**
+ * Full ranking pipeline: reciprocal rank fusion of both legs, near-duplicate
+ * removal, reranking of the head, then MMR over stored chunk embeddings.
+ */
+export async function rankChunks(params: RankChunksParams): Promise<RankableChunk[]> {
+  const reranker = params.reranker ?? getReranker();
+  const poolSize = params.poolSize ?? DEFAULT_POOL_SIZE;
+
+  const fused = fuseSearchResults(params.vectorResults, params.textResults);
+  const unique = dedupeChunks(fused);
+  const reranked = await reranker.rerank(params.question, unique, {
+    topN: params.rerankTopN ?? DEFAULT_RERANK_TOP_N,
+  });
+  const pool = reranked.slice(0, poolSize);
+
+  // MMR diversity uses embedding cosine when vectors are available
+  const vectors = await db.getChunkEmbeddings(pool.map((chunk) => chunk.id));
+  const withEmbeddings = pool.map((chunk) => ({ ...chunk, embedding: vectors.get(chunk.id) }));
+
+  const selected = mmr(withEmbeddings, params.mmr ?? {});
+  // Embeddings were only needed for diversity; keep them out of citations and prompts
+  return selected.map(({ embedding: _embedding, ...chunk }: RankableChunk) => chunk);
+}
+
+// Export types
+export type { RankableChunk, Reranker, RerankOptions, MmrConfig, RankChunksParams };
@@ -0,0 +1,478 @@
+// PII redaction
+// Detects personal data in chunk text and tokenises or masks it per client policy, keeping tokenised originals in the vault
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiError } from './auth.ts';
+import { estimateTokens } from './chunker.ts';
+import type { ConversationChunk } from './chunker.ts';
+
+type PiiCategory =
+  | 'email'
+  | 'phone'
+  | 'card'
+  | 'iban'
+  | 'bank_account'
+  | 'ifsc'
+  | 'pan'
+  | 'aadhaar'
+  | 'address';
+
+// tokenize: stable token, original kept in the vault; mask: category label only, original discarded
+type RedactionAction = 'tokenize' | 'mask' | 'keep';
+
+interface RedactionPolicy {
+  client_id: number;
+  enabled: boolean;
+  categories: Record<PiiCategory, RedactionAction>;
+  updated_at: string | null;
+}
+
+interface PiiMatch {
+  category: PiiCategory;
+  start: number;
+  end: number;
+  value: string;
+}
+
+interface RedactedMatch {
+  category: PiiCategory;
+  value: string;
+  action: RedactionAction;
+  replacement: string;
+}
+
+interface RedactionSummary {
+  redacted: number;
+  by_category: Partial<Record<PiiCategory, number>>;
+  // Sender names the policy changed, original to redacted
+  senders: Record<string, string>;
+}
+
+interface VaultEntry {
+  token: string;
+  category: PiiCategory;
+  value: string;
+}
+
+const PII_CATEGORIES: PiiCategory[] = [
+  'email',
+  'phone',
+  'card',
+  'iban',
+  'bank_account',
+  'ifsc',
+  'pan',
+  'aadhaar',
+  'address',
+];
+
+// IFSC codes identify a bank branch, not a person
+const DEFAULT_ACTIONS: Record<PiiCategory, RedactionAction> = {
+  email: 'tokenize',
+  phone: 'tokenize',
+  card: 'tokenize',
+  iban: 'tokenize',
+  bank_account: 'tokenize',
+  ifsc: 'keep',
+  pan: 'tokenize',
+  aadhaar: 'tokenize',
+  address: 'tokenize',
+};
+
+// Tokens look like [PHONE_3f9a0c12de]; masks like [PHONE]
+const TOKEN_PATTERN = /\[(EMAIL|PHONE|CARD|IBAN|BANK_ACCOUNT|IFSC|PAN|AADHAAR|ADDRESS)_[0-9a-f]{10}\]/g;
+
+// Timestamps and dates are digit runs too; detectors never match across them
+const PROTECTED_PATTERNS = [
+  TOKEN_PATTERN,
+  /\b\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2})?)?/g,
+  /\b\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4}\b/g,
+];
+
+// Earlier categories win when two detectors match the same span
+const DETECTORS: Array<{ category: PiiCategory; pattern: RegExp; group?: number; accept?: (value: string) => boolean }> = [
+  { category: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { category: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  {
+    category: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: (value) => passesLuhn(value.replace(/\D/g, '')),
+  },
+  { category: 'aadhaar', pattern: /\b[2-9]\d{3}([ -]?)\d{4}\1\d{4}\b/g },
+  { category: 'pan', pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g },
+  { category: 'ifsc', pattern: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g },
+  {
+    // Only the number after an account keyword ("A/C no: 1234 5678 90")
+    category: 'bank_account',
+    pattern: /\b(?:a\/c|acc(?:oun)?t|acc)\.?(?:\s*(?:no|number|num|#))?\.?\s*[:#-]?\s*(\d[\d -]{6,18}\d)/gi,
+    group: 1,
+  },
+  {
+    category: 'phone',
+    pattern: /\+?\(?\d[\d ().-]{6,}\d/g,
+    accept: (value) => {
+      // Numbers without a country code need a full national number, which keeps amounts out
+      const digits = value.replace(/\D/g, '').length;
+      return value.trim().startsWith('+') ? digits >= 8 && digits <= 15 : digits >= 10 && digits <= 12;
+    },
+  },
+  {
+    // From a house or flat keyword up to a six-digit PIN code
+    category: 'address',
+    pattern: /\b(?:flat|house|h\.?\s?no|plot|door|apt|apartment|suite|building|bldg)\b[^\n\u0000]{0,120}?\b\d{3}\s?\d{3}\b/gi,
+  },
+  {
+    // House number, a few words and a street suffix ("14 Hill View Road")
+    category: 'address',
+    pattern: /\b\d{1,5}[A-Za-z]?(?:\/\d+)?,?\s+(?:[A-Za-z0-9.'-]+\s+){1,4}(?:road|rd|street|st|lane|avenue|ave|nagar|colony|marg|layout|boulevard|blvd)\b\.?/gi,
+  },
+];
+
+const VAULT_BATCH_SIZE = 200;
+
+class RedactionError extends ApiError {}
+
+class PiiRedactor {
+  private supabase: any;
+  private tokenKey: Promise<CryptoKey> | null = null;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * The client's redaction policy, with defaults for categories it does not set.
+   * Clients without a policy row have redaction disabled.
+   */
+  async getPolicy(clientId: number): Promise<RedactionPolicy> {
+    const { data, error } = await this.supabase
+      .from('pii_redaction_policies')
+      .select('enabled, categories, updated_at')
+      .eq('client_id', clientId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load redaction policy: ${error.message}`);
+    }
+
+    return {
+      client_id: clientId,
+      enabled: data?.enabled ?? false,
+      categories: resolveCategories(data?.categories),
+      updated_at: data?.updated_at ?? null,
+    };
+  }
+
+  async updatePolicy(
+    clientId: number,
+    changes: { enabled?: boolean; categories?: Partial<Record<PiiCategory, RedactionAction>> },
+    userId: string
+  ): Promise<RedactionPolicy> {
+    const current = await this.getPolicy(clientId);
+
+    const { error } = await this.supabase
+      .from('pii_redaction_policies')
+      .upsert({
+        client_id: clientId,
+        enabled: changes.enabled ?? current.enabled,
+        categories: { ...current.categories, ...(changes.categories || {}) },
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'client_id' });
+
+    if (error) {
+      throw new Error(`Failed to save redaction policy: ${error.message}`);
+    }
+
+    return this.getPolicy(clientId);
+  }
+
+  /**
+   * Find PII in a text. Overlapping matches keep the earliest, then the longest.
+   */
+  detect(text: string): PiiMatch[] {
+    // Blank out protected spans so no detector can match into or across them
+    let scan = text;
+    for (const pattern of PROTECTED_PATTERNS) {
+      scan = scan.replace(new RegExp(pattern.source, pattern.flags), (span) => '\u0000'.repeat(span.length));
+    }
+
+    const candidates: Array<PiiMatch & { priority: number }> = [];
+    DETECTORS.forEach((detector, priority) => {
+      const pattern = new RegExp(detector.pattern.source, detector.pattern.flags);
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(scan)) !== null) {
+        const value = detector.group ? match[detector.group] : match[0];
+        if (!value) continue;
+
+        const start = match.index + (detector.group ? match[0].lastIndexOf(value) : 0);
+        const end = start + value.replace(/[\s.-]+$/, '').length;
+        const original = text.slice(start, end);
+
+        if (!isWordBoundary(scan, start, end)) continue;
+        if (detector.accept && !detector.accept(original)) continue;
+
+        candidates.push({ category: detector.category, start, end, value: original, priority });
+      }
+    });
+
+    candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start) || a.priority - b.priority);
+
+    const matches: PiiMatch[] = [];
+    let lastEnd = -1;
+    for (const candidate of candidates) {
+      if (candidate.start < lastEnd) continue;
+      matches.push({ category: candidate.category, start: candidate.start, end: candidate.end, value: candidate.value });
+      lastEnd = candidate.end;
+    }
+    return matches;
+  }
+
+  /**
+   * Apply the policy to one text. Tokenised originals are added to `vault`.
+   */
+  async redact(
+    clientId: number,
+    text: string,
+    categories: Record<PiiCategory, RedactionAction>,
+    vault: Map<string, VaultEntry>
+  ): Promise<{ text: string; matches: RedactedMatch[] }> {
+    const matches: RedactedMatch[] = [];
+    let result = '';
+    let cursor = 0;
+
+    for (const match of this.detect(text)) {
+      const action = categories[match.category] ?? DEFAULT_ACTIONS[match.category];
+      if (action === 'keep') continue;
+
+      let replacement = `[${match.category.toUpperCase()}]`;
+      if (action === 'tokenize') {
+        replacement = await this.tokenFor(clientId, match.category, match.value);
+        if (!vault.has(replacement)) {
+          vault.set(replacement, { token: replacement, category: match.category, value: match.value });
+        }
+      }
+
+      result += text.slice(cursor, match.start) + replacement;
+      cursor = match.end;
+      matches.push({ category: match.category, value: match.value, action, replacement });
+    }
+
+    return { text: result + text.slice(cursor), matches };
+  }
+
+  /**
+   * Redact chunk text and participants in place before they are stored and embedded.
+   * Each sender is redacted once, and the same replacement is used in the line prefixes
+   * and replies that name them, so a sender shown as a phone number leaves no trace.
+   * The vault is written before returning, so a token never reaches the index
+   * without its original.
+   */
+  async redactChunks(clientId: number, uploadId: number, chunks: ConversationChunk[]): Promise<RedactionSummary> {
+    const summary: RedactionSummary = { redacted: 0, by_category: {}, senders: {} };
+    const policy = await this.getPolicy(clientId);
+    if (!policy.enabled) return summary;
+
+    const vault = new Map<string, VaultEntry>();
+    const count = (matches: RedactedMatch[]) => {
+      summary.redacted += matches.length;
+      matches.forEach((match) => {
+        summary.by_category[match.category] = (summary.by_category[match.category] ?? 0) + 1;
+      });
+    };
+
+    const participants = new Set(chunks.flatMap((chunk) => chunk.participants));
+    for (const name of Array.from(participants)) {
+      const { text, matches } = await this.redact(clientId, name, policy.categories, vault);
+      if (matches.length === 0) continue;
+      summary.senders[name] = text;
+      count(matches);
+    }
+
+    // Longest first, so a sender whose name contains another's is replaced whole
+    const renamed = Object.keys(summary.senders).sort((a, b) => b.length - a.length);
+
+    for (const chunk of chunks) {
+      let source = chunk.text;
+      for (const name of renamed) {
+        source = source.split(name).join(summary.senders[name]);
+      }
+      chunk.participants = chunk.participants.map((name) => summary.senders[name] ?? name);
+
+      const { text, matches } = await this.redact(clientId, source, policy.categories, vault);
+      if (text === chunk.text) continue;
+
+      chunk.text = text;
+      chunk.token_count = estimateTokens(text);
+      count(matches);
+    }
+
+    await this.storeVault(clientId, uploadId, Array.from(vault.values()));
+    return summary;
+  }
+
+  /**
+   * Show what the client's policy (or the given categories) would do to a sample text.
+   * Nothing is written to the vault.
+   */
+  async preview(
+    clientId: number,
+    text: string,
+    categories?: Partial<Record<PiiCategory, RedactionAction>>
+  ): Promise<{ text: string; matches: RedactedMatch[] }> {
+    const policy = await this.getPolicy(clientId);
+    return this.redact(clientId, text, { ...policy.categories, ...(categories || {}) }, new Map());
+  }
+
+  /**
+   * Originals behind tokens, for admins. Every reveal is recorded.
+   */
+  async reveal(clientId: number, tokens: string[], userId: string, chunkId?: number): Promise<VaultEntry[]> {
+    const unique = Array.from(new Set(tokens));
+
+    const { data, error } = await this.supabase
+      .from('pii_vault')
+      .select('token, category, original_value')
+      .eq('client_id', clientId)
+      .in('token', unique);
+
+    if (error) {
+      throw new Error(`Failed to read PII vault: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new RedactionError('E_TOKEN_NOT_FOUND', 'None of the tokens are in this client\'s vault', 404);
+    }
+
+    const { error: auditError } = await this.supabase
+      .from('pii_reveal_events')
+      .insert({
+        client_id: clientId,
+        tokens: data.map((row: any) => row.token),
+        chunk_id: chunkId ?? null,
+        revealed_by: userId,
+      });
+
+    // An unaudited reveal is not allowed
+    if (auditError) {
+      throw new Error(`Failed to record PII reveal: ${auditError.message}`);
+    }
+
+    return data.map((row: any) => ({ token: row.token, category: row.category, value: row.original_value }));
+  }
+
+  private async storeVault(clientId: number, uploadId: number, entries: VaultEntry[]): Promise<void> {
+    for (let i = 0; i < entries.length; i += VAULT_BATCH_SIZE) {
+      const rows = entries.slice(i, i + VAULT_BATCH_SIZE).map((entry) => ({
+        client_id: clientId,
+        token: entry.token,
+        category: entry.category,
+        original_value: entry.value,
+        source_upload_id: uploadId,
+      }));
+
+      // Tokens already in the vault came from an earlier upload with the same value
+      const { error } = await this.supabase
+        .from('pii_vault')
+        .upsert(rows, { onConflict: 'client_id,token', ignoreDuplicates: true });
+
+      if (error) {
+        throw new RedactionError('E_VAULT_WRITE', `Failed to store redacted values: ${error.message}`, 500);
+      }
+    }
+  }
+
+  /**
+   * Keyed hash of the normalised value, so the same number gets the same token in
+   * every upload of a client but tokens cannot be reversed or matched across clients
+   */
+  private async tokenFor(clientId: number, category: PiiCategory, value: string): Promise<string> {
+    if (!this.tokenKey) {
+      const secret = Deno.env.get('PII_TOKEN_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+      this.tokenKey = crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+    }
+
+    const key = await this.tokenKey;
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      new TextEncoder().encode(`${clientId}:${category}:${normalizeValue(category, value)}`)
+    );
+    const hex = Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `[${category.toUpperCase()}_${hex.slice(0, 10)}]`;
+  }
+}
+
+function resolveCategories(stored: any): Record<PiiCategory, RedactionAction> {
+  const categories = { ...DEFAULT_ACTIONS };
+  if (stored && typeof stored === 'object') {
+    for (const category of PII_CATEGORIES) {
+      const action = stored[category];
+      if (action === 'tokenize' || action === 'mask' || action === 'keep') {
+        categories[category] = action;
+      }
+    }
+  }
+  return categories;
+}
+
+function normalizeValue(category: PiiCategory, value: string): string {
+  switch (category) {
+    case 'email':
+      return value.trim().toLowerCase();
+    case 'phone': {
+      // "+91 98765 43210" and "098765 43210" are the same number
+      const digits = value.replace(/\D/g, '');
+      return digits.length > 10 ? digits.slice(-10) : digits;
+    }
+    case 'address':
+      return value.toLowerCase().replace(/\s+/g, ' ').trim();
+    default:
+      return value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  }
+}
+
+function isWordBoundary(text: string, start: number, end: number): boolean {
+  const before = start > 0 ? text[start - 1] : '';
+  const after = end < text.length ? text[end] : '';
+  return !/[A-Za-z0-9_]/.test(before) && !/[A-Za-z0-9_]/.test(after);
+}
+
+function passesLuhn(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Export singleton instance
+export const piiRedactor = new PiiRedactor();
+
+export { RedactionError, PII_CATEGORIES, TOKEN_PATTERN };
+
+// Export types
+export type {
+  PiiCategory,
+  RedactionAction,
+  RedactionPolicy,
+  PiiMatch,
+  RedactedMatch,
+  RedactionSummary,
+  VaultEntry,
+};
@@ -0,0 +1,80 @@
+// PII redaction tests
+// Run with: deno test --allow-env --allow-net supabase/functions/_shared/redaction_test.ts
+
+import { assert, assertEquals, assertMatch } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { ConversationChunk } from './chunker.ts';
+
+// The redactor creates its client on import; no request is made in these tests
+Deno.env.set('SUPABASE_URL', 'http://localhost:54321');
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key');
+Deno.env.set('PII_TOKEN_SECRET', 'test-token-secret');
+
+// A redactor whose policy tokenizes every category and whose vault writes go nowhere
+async function loadRedactor() {
+  const { piiRedactor, PII_CATEGORIES } = await import('./redaction.ts');
+  const redactor = piiRedactor as any;
+  redactor.getPolicy = async (clientId: number) => ({
+    client_id: clientId,
+    enabled: true,
+    categories: Object.fromEntries(PII_CATEGORIES.map((category) => [category, 'tokenize'])),
+    updated_at: null,
+  });
+  redactor.storeVault = async () => {};
+  return piiRedactor;
+}
+
+Deno.test('redactChunks tokenizes a phone-number sender in participants and line prefixes', async () => {
+  const piiRedactor = await loadRedactor();
+
+  const sender = '+91 98765 43210';
+  const text = [
+    `[2024-03-01 09:15] ${sender}: payment is done`,
+    `[2024-03-01 09:16] Priya (replying to ${sender}): thanks, received`,
+  ].join('\n');
+  const chunk: ConversationChunk = {
+    chunk_index: 0,
+    text,
+    first_ts: '2024-03-01T09:15:00.000Z',
+    last_ts: '2024-03-01T09:16:00.000Z',
+    participants: [sender, 'Priya'],
+    token_count: 0,
+    message_count: 2,
+    message_ids: [],
+    thread_id: null,
+  };
+
+  const summary = await piiRedactor.redactChunks(1, 1, [chunk]);
+
+  const token = chunk.participants[0];
+  assertMatch(token, /^\[PHONE_[0-9a-f]{10}\]$/);
+  assertEquals(chunk.participants[1], 'Priya');
+  assertEquals(summary.senders, { [sender]: token });
+
+  assert(!chunk.text.includes('98765'));
+  assertEquals(chunk.text.split('\n'), [
+    `[2024-03-01 09:15] ${token}: payment is done`,
+    `[2024-03-01 09:16] Priya (replying to ${token}): thanks, received`,
+  ]);
+});
+
+Deno.test('redactChunks leaves ordinary sender names alone', async () => {
+  const piiRedactor = await loadRedactor();
+
+  const chunk: ConversationChunk = {
+    chunk_index: 0,
+    text: '[2024-03-01 09:15] Priya: see you at 10',
+    first_ts: '2024-03-01T09:15:00.000Z',
+    last_ts: '2024-03-01T09:15:00.000Z',
+    participants: ['Priya'],
+    token_count: 0,
+    message_count: 1,
+    message_ids: [],
+    thread_id: null,
+  };
+
+  const summary = await piiRedactor.redactChunks(1, 1, [chunk]);
+
+  assertEquals(chunk.participants, ['Priya']);
+  assertEquals(chunk.text, '[2024-03-01 09:15] Priya: see you at 10');
+  assertEquals(summary.redacted, 0);
+});
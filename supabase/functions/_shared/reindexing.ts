@@ -0,0 +1,355 @@
+// Embedding reindex
+// Queues chunks for re-embedding with a target model, embeds them in batches and switches the client once every chunk is covered
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiError } from './auth.ts';
+import { providerRegistry } from './providers.ts';
+
+interface EnqueueReindexParams {
+  client_id: number;
+  // Defaults to the client's current model, which re-embeds chunks in place
+  embedding_model?: string;
+  room_ids?: number[];
+  date_from?: string;
+  date_to?: string;
+  created_by: string;
+}
+
+interface EnqueueReindexResult {
+  target_model: string;
+  active_model: string;
+  jobs_created: number;
+}
+
+interface ReindexJob {
+  id: number;
+  client_id: number;
+  room_id: number | null;
+  chunk_id: number;
+  target_model: string;
+  attempts: number;
+}
+
+interface ReindexBatchOutcome {
+  client_id: number;
+  target_model: string;
+  embedded: number;
+  failed: number;
+  dimension: number | null;
+}
+
+interface ReindexTargetOutcome {
+  client_id: number;
+  target_model: string;
+  // Jobs of this target still pending or processing
+  remaining: number;
+  // Jobs that gave up after MAX_ATTEMPTS; the switch waits until they are requeued
+  failed: number;
+  switched: boolean;
+  // Chunks queued because they had no vector of the target model (e.g. ingested mid-reindex)
+  requeued: number;
+}
+
+// Texts per provider embed call
+const EMBED_BATCH_SIZE = 16;
+
+// Attempts per chunk before its job is marked failed
+const MAX_ATTEMPTS = 3;
+
+class ReindexError extends ApiError {}
+
+class EmbeddingReindexer {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Queue the client's chunks in scope for embedding with the target model.
+   * Search keeps using the current model until the worker switches the client.
+   */
+  async enqueue(params: EnqueueReindexParams): Promise<EnqueueReindexResult> {
+    const { embeddingModel } = await providerRegistry.resolve(params.client_id);
+    const targetModel = params.embedding_model || embeddingModel;
+
+    const { data, error } = await this.supabase.rpc('enqueue_reindex', {
+      p_client_id: params.client_id,
+      p_target_model: targetModel,
+      p_room_ids: params.room_ids ?? null,
+      p_date_from: params.date_from ?? null,
+      p_date_to: params.date_to ?? null,
+      p_missing_only: false,
+      p_created_by: params.created_by,
+    });
+
+    if (error) {
+      throw new Error(`Failed to queue reindex jobs: ${error.message}`);
+    }
+
+    return { target_model: targetModel, active_model: embeddingModel, jobs_created: Number(data) || 0 };
+  }
+
+  /**
+   * Atomically move up to `limit` pending reindex jobs to processing
+   */
+  async claimJobs(limit: number): Promise<ReindexJob[]> {
+    const { data, error } = await this.supabase.rpc('claim_reindex_jobs', { p_limit: limit });
+    if (error) {
+      throw new Error(`Failed to claim reindex jobs: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Embed the chunks of claimed jobs, grouped by client and target model. A failed
+   * embed call only affects its own texts: those jobs go back to pending until
+   * they run out of attempts.
+   */
+  async processJobs(jobs: ReindexJob[]): Promise<ReindexBatchOutcome[]> {
+    const groups = new Map<string, ReindexJob[]>();
+    for (const job of jobs) {
+      const key = `${job.client_id}:${job.target_model}`;
+      groups.set(key, [...(groups.get(key) || []), job]);
+    }
+
+    const outcomes: ReindexBatchOutcome[] = [];
+    for (const group of Array.from(groups.values())) {
+      outcomes.push(await this.processGroup(group));
+    }
+    return outcomes;
+  }
+
+  /**
+   * Once a target has no open jobs, point the client at it. Chunks that appeared
+   * since the jobs were queued are queued first, so search never switches to a
+   * model some chunks have no vector for.
+   */
+  async finishTarget(clientId: number, targetModel: string): Promise<ReindexTargetOutcome> {
+    const outcome: ReindexTargetOutcome = {
+      client_id: clientId,
+      target_model: targetModel,
+      remaining: await this.countJobs(clientId, targetModel, ['pending', 'processing']),
+      failed: await this.countJobs(clientId, targetModel, ['failed']),
+      switched: false,
+      requeued: 0,
+    };
+    if (outcome.remaining > 0 || outcome.failed > 0) return outcome;
+
+    const { embeddingModel } = await providerRegistry.resolve(clientId);
+    if (embeddingModel === targetModel) return outcome;
+
+    const { data: missing, error } = await this.supabase.rpc('switch_embedding_model', {
+      p_client_id: clientId,
+      p_model: targetModel,
+      p_from_model: embeddingModel,
+    });
+
+    if (error) {
+      throw new Error(`Failed to switch client ${clientId} to ${targetModel}: ${error.message}`);
+    }
+
+    if (Number(missing) > 0) {
+      outcome.requeued = await this.enqueueMissing(clientId, targetModel);
+      outcome.remaining = outcome.requeued;
+      return outcome;
+    }
+
+    console.log(`Client ${clientId} switched embeddings from ${embeddingModel} to ${targetModel}`);
+    outcome.switched = true;
+    return outcome;
+  }
+
+  /**
+   * After a switch, give chunks ingested with the old model around the switch a
+   * vector of the new one, then drop superseded vectors of settled switches
+   */
+  async settleSwitches(): Promise<{ requeued: number; pruned: number }> {
+    const { data: switches, error } = await this.supabase
+      .from('embedding_model_switches')
+      .select('client_id, to_model')
+      .is('pruned_at', null);
+
+    if (error) {
+      throw new Error(`Failed to load embedding model switches: ${error.message}`);
+    }
+
+    let requeued = 0;
+    for (const entry of switches || []) {
+      requeued += await this.enqueueMissing(entry.client_id, entry.to_model);
+    }
+
+    const { data: pruned, error: pruneError } = await this.supabase.rpc('prune_switched_embeddings');
+    if (pruneError) {
+      throw new Error(`Failed to prune switched embeddings: ${pruneError.message}`);
+    }
+
+    return { requeued, pruned: Number(pruned) || 0 };
+  }
+
+  private async processGroup(jobs: ReindexJob[]): Promise<ReindexBatchOutcome> {
+    const { client_id: clientId, target_model: targetModel } = jobs[0];
+    const outcome: ReindexBatchOutcome = {
+      client_id: clientId,
+      target_model: targetModel,
+      embedded: 0,
+      failed: 0,
+      dimension: null,
+    };
+
+    const { data: chunks, error } = await this.supabase
+      .from('chunks')
+      .select('id, room_id, text, content')
+      .in('id', jobs.map(job => job.chunk_id));
+
+    if (error) {
+      await this.release(jobs, `Failed to load chunks: ${error.message}`);
+      outcome.failed = jobs.length;
+      return outcome;
+    }
+
+    const texts = new Map<number, { room_id: number; text: string }>();
+    for (const chunk of chunks || []) {
+      const text = chunk.text || chunk.content;
+      if (text) texts.set(chunk.id, { room_id: chunk.room_id, text });
+    }
+
+    const empty = jobs.filter(job => !texts.has(job.chunk_id));
+    if (empty.length > 0) {
+      await this.fail(empty, 'Chunk has no text to embed');
+      outcome.failed += empty.length;
+    }
+
+    const { provider } = await providerRegistry.resolve(clientId);
+    const embeddable = jobs.filter(job => texts.has(job.chunk_id));
+
+    for (let i = 0; i < embeddable.length; i += EMBED_BATCH_SIZE) {
+      const batch = embeddable.slice(i, i + EMBED_BATCH_SIZE);
+
+      try {
+        const vectors = await provider.embed(
+          batch.map(job => texts.get(job.chunk_id)!.text),
+          { model: targetModel }
+        );
+        if (vectors.length !== batch.length) {
+          throw new Error(`Expected ${batch.length} vectors, got ${vectors.length}`);
+        }
+
+        // One model has one dimension; a change mid-run means the model name is ambiguous
+        const dimension = vectors[0].length;
+        if (vectors.some(vector => vector.length !== dimension) ||
+            (outcome.dimension !== null && outcome.dimension !== dimension)) {
+          throw new ReindexError('E_DIMENSION_MISMATCH', `${targetModel} returned vectors of different dimensions`);
+        }
+        outcome.dimension = dimension;
+
+        const { error: upsertError } = await this.supabase
+          .from('embeddings')
+          .upsert(
+            batch.map((job, index) => ({
+              chunk_id: job.chunk_id,
+              client_id: clientId,
+              room_id: texts.get(job.chunk_id)!.room_id,
+              content_type: 'chunk',
+              embedding: vectors[index],
+              model_name: targetModel,
+              dimension,
+            })),
+            { onConflict: 'chunk_id,model_name' }
+          );
+
+        if (upsertError) {
+          throw new Error(`Failed to store embeddings: ${upsertError.message}`);
+        }
+
+        await this.complete(batch);
+        outcome.embedded += batch.length;
+      } catch (embedError) {
+        console.error(`Reindex batch for client ${clientId} (${targetModel}) failed:`, embedError);
+        await this.release(batch, embedError.message);
+        outcome.failed += batch.length;
+      }
+    }
+
+    return outcome;
+  }
+
+  private async complete(jobs: ReindexJob[]): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from('reindex_jobs')
+      .update({ status: 'completed', error_message: null, completed_at: now, updated_at: now })
+      .in('id', jobs.map(job => job.id));
+
+    if (error) {
+      throw new Error(`Failed to complete reindex jobs: ${error.message}`);
+    }
+  }
+
+  // Back to pending for another attempt, or failed once attempts run out
+  private async release(jobs: ReindexJob[], message: string): Promise<void> {
+    const exhausted = jobs.filter(job => job.attempts >= MAX_ATTEMPTS);
+    const retry = jobs.filter(job => job.attempts < MAX_ATTEMPTS);
+
+    if (exhausted.length > 0) {
+      await this.fail(exhausted, message);
+    }
+    if (retry.length > 0) {
+      await this.supabase
+        .from('reindex_jobs')
+        .update({ status: 'pending', error_message: message, updated_at: new Date().toISOString() })
+        .in('id', retry.map(job => job.id));
+    }
+  }
+
+  private async fail(jobs: ReindexJob[], message: string): Promise<void> {
+    await this.supabase
+      .from('reindex_jobs')
+      .update({ status: 'failed', error_message: message, updated_at: new Date().toISOString() })
+      .in('id', jobs.map(job => job.id));
+  }
+
+  private async countJobs(clientId: number, targetModel: string, statuses: string[]): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('reindex_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('client_id', clientId)
+      .eq('target_model', targetModel)
+      .in('status', statuses);
+
+    if (error) {
+      throw new Error(`Failed to count reindex jobs: ${error.message}`);
+    }
+    return count || 0;
+  }
+
+  private async enqueueMissing(clientId: number, targetModel: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('enqueue_reindex', {
+      p_client_id: clientId,
+      p_target_model: targetModel,
+      p_missing_only: true,
+    });
+
+    if (error) {
+      throw new Error(`Failed to queue chunks missing ${targetModel} vectors: ${error.message}`);
+    }
+    return Number(data) || 0;
+  }
+}
+
+// Export singleton instance
+export const embeddingReindexer = new EmbeddingReindexer();
+
+export { ReindexError };
+
+// Export types
+export type {
+  EnqueueReindexParams,
+  EnqueueReindexResult,
+  ReindexJob,
+  ReindexBatchOutcome,
+  ReindexTargetOutcome
+};
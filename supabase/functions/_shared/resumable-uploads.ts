@@ -0,0 +1,300 @@
+// Resumable uploads
+// Upload sessions that send an export in parts to signed URLs, report which parts are stored and complete once all are there
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiError } from './auth.ts';
+
+interface UploadSession {
+  upload_id: number;
+  job_id: number;
+  client_id: number;
+  room_id: number;
+  file_name: string;
+  file_size: number;
+  part_size: number;
+  part_count: number;
+  storage_path: string;
+}
+
+interface SignedPart {
+  part_number: number;
+  signed_url: string;
+}
+
+interface SessionStatus extends UploadSession {
+  // Part numbers (1-based) already stored with their full size
+  uploaded_parts: number[];
+  completed: boolean;
+}
+
+const STORAGE_BUCKET = 'chats-raw';
+
+// Parts stay well below the storage object limit; the last part holds the remainder
+const PART_SIZE = 8 * 1024 * 1024;
+
+// Used when platform_settings has no max_file_size_mb
+const DEFAULT_MAX_FILE_SIZE_MB = 50;
+
+// The ingest worker holds the decoded export, its messages and chunks in memory at once;
+// max_file_size_mb can lower this ceiling but not raise it
+const MAX_INGEST_FILE_SIZE_MB = 100;
+
+class UploadSessionError extends ApiError {}
+
+class ResumableUploads {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Upload size limit from the platform setting max_file_size_mb, at most MAX_INGEST_FILE_SIZE_MB
+   */
+  async maxFileSizeMb(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('platform_settings')
+      .select('value')
+      .eq('key', 'max_file_size_mb')
+      .maybeSingle();
+
+    if (error) {
+      console.warn('Could not read max_file_size_mb:', error.message);
+    }
+    const value = Number(data?.value);
+    return Math.min(Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_FILE_SIZE_MB, MAX_INGEST_FILE_SIZE_MB);
+  }
+
+  /**
+   * Create the upload and its pending ingest job, sized for parts of PART_SIZE
+   */
+  async start(
+    userId: string,
+    params: { client_id: number; room_id: number; file_name: string; file_size: number }
+  ): Promise<UploadSession> {
+    const maxMb = await this.maxFileSizeMb();
+    if (params.file_size > maxMb * 1024 * 1024) {
+      throw new UploadSessionError('E_FILE_TOO_LARGE', `Files can be at most ${maxMb} MB`, 413);
+    }
+
+    const { data: room, error: roomError } = await this.supabase
+      .from('rooms')
+      .select('id')
+      .eq('id', params.room_id)
+      .eq('client_id', params.client_id)
+      .maybeSingle();
+
+    if (roomError || !room) {
+      throw new UploadSessionError('E_ROOM_NOT_FOUND', 'Room not found or not in this client', 404);
+    }
+
+    const partCount = Math.max(1, Math.ceil(params.file_size / PART_SIZE));
+    const storagePath = `uploads/${params.client_id}/${params.room_id}/${new Date().toISOString()}_${params.file_name}`;
+
+    const { data: upload, error: uploadError } = await this.supabase
+      .from('uploads')
+      .insert({
+        client_id: params.client_id,
+        room_id: params.room_id,
+        filename: params.file_name,
+        original_filename: params.file_name,
+        file_size: params.file_size,
+        file_type: contentType(params.file_name),
+        storage_path: storagePath,
+        uploaded_by: userId,
+        status: 'pending',
+        part_size: PART_SIZE,
+        part_count: partCount,
+        metadata: { resumable: true },
+      })
+      .select('id')
+      .single();
+
+    if (uploadError) {
+      throw new Error(`Failed to create upload: ${uploadError.message}`);
+    }
+
+    const { data: job, error: jobError } = await this.supabase
+      .from('jobs')
+      .insert({
+        client_id: params.client_id,
+        room_id: params.room_id,
+        upload_id: upload.id,
+        status: 'pending',
+        job_type: 'file_ingestion',
+        progress: 0,
+        total_items: 1,
+        processed_items: 0,
+      })
+      .select('id')
+      .single();
+
+    if (jobError) {
+      throw new Error(`Failed to create job: ${jobError.message}`);
+    }
+
+    return {
+      upload_id: upload.id,
+      job_id: job.id,
+      client_id: params.client_id,
+      room_id: params.room_id,
+      file_name: params.file_name,
+      file_size: params.file_size,
+      part_size: PART_SIZE,
+      part_count: partCount,
+      storage_path: storagePath,
+    };
+  }
+
+  /**
+   * Client the upload belongs to, for access checks before any other action
+   */
+  async clientOf(uploadId: number): Promise<number> {
+    return (await this.load(uploadId)).client_id;
+  }
+
+  /**
+   * Signed URLs for the given parts. A part may be signed again, e.g. when its
+   * first attempt was cut off; the new upload replaces whatever was stored.
+   */
+  async signParts(uploadId: number, partNumbers: number[]): Promise<SignedPart[]> {
+    const session = await this.load(uploadId);
+    const invalid = partNumbers.filter((part) => part < 1 || part > session.part_count);
+    if (invalid.length > 0) {
+      throw new UploadSessionError('E_BAD_PART', `Upload ${uploadId} has parts 1-${session.part_count}`, 400);
+    }
+
+    const signed: SignedPart[] = [];
+    for (const part of Array.from(new Set(partNumbers))) {
+      const { data, error } = await this.supabase.storage
+        .from(STORAGE_BUCKET)
+        .createSignedUploadUrl(partPath(session.storage_path, part), { upsert: true });
+
+      if (error || !data) {
+        throw new Error(`Failed to sign part ${part}: ${error?.message ?? 'no URL'}`);
+      }
+      signed.push({ part_number: part, signed_url: data.signedUrl });
+    }
+    return signed;
+  }
+
+  /**
+   * The session and the parts storage already holds, so an interrupted upload can
+   * continue with the missing ones
+   */
+  async status(uploadId: number): Promise<SessionStatus> {
+    const session = await this.load(uploadId);
+    const { data, error } = await this.supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(`${session.storage_path}.parts`, { limit: 1000, sortBy: { column: 'name', order: 'asc' } });
+
+    if (error) {
+      throw new Error(`Failed to list parts of upload ${uploadId}: ${error.message}`);
+    }
+
+    const uploaded = (data || [])
+      .map((object: any) => ({ part: parseInt(object.name, 10), size: Number(object.metadata?.size) }))
+      .filter(({ part, size }: { part: number; size: number }) =>
+        part >= 1 && part <= session.part_count && size === expectedPartSize(session, part)
+      )
+      .map(({ part }: { part: number }) => part);
+
+    const { data: upload } = await this.supabase
+      .from('uploads')
+      .select('status')
+      .eq('id', uploadId)
+      .single();
+
+    return { ...session, uploaded_parts: uploaded, completed: upload?.status !== 'pending' };
+  }
+
+  /**
+   * Check every part is stored and record the digest the client computed while
+   * uploading. The job stays pending until ingest is confirmed.
+   */
+  async complete(uploadId: number, fileDigest: string): Promise<UploadSession> {
+    const status = await this.status(uploadId);
+    const missing = Array.from({ length: status.part_count }, (_, index) => index + 1)
+      .filter((part) => !status.uploaded_parts.includes(part));
+
+    if (missing.length > 0) {
+      throw new UploadSessionError(
+        'E_PARTS_MISSING',
+        `Upload ${uploadId} is missing ${missing.length} of ${status.part_count} parts`,
+        409
+      );
+    }
+
+    const { error } = await this.supabase
+      .from('uploads')
+      .update({
+        status: 'uploaded',
+        metadata: { resumable: true, file_digest: fileDigest },
+      })
+      .eq('id', uploadId);
+
+    if (error) {
+      throw new Error(`Failed to complete upload ${uploadId}: ${error.message}`);
+    }
+
+    return this.load(uploadId);
+  }
+
+  private async load(uploadId: number): Promise<UploadSession> {
+    const { data: upload, error } = await this.supabase
+      .from('uploads')
+      .select('id, client_id, room_id, filename, file_size, part_size, part_count, storage_path, jobs(id)')
+      .eq('id', uploadId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load upload ${uploadId}: ${error.message}`);
+    }
+    if (!upload || !upload.part_count) {
+      throw new UploadSessionError('E_UPLOAD_NOT_FOUND', `Upload ${uploadId} is not a resumable upload`, 404);
+    }
+
+    return {
+      upload_id: upload.id,
+      job_id: upload.jobs?.[0]?.id,
+      client_id: upload.client_id,
+      room_id: upload.room_id,
+      file_name: upload.filename,
+      file_size: Number(upload.file_size),
+      part_size: upload.part_size,
+      part_count: upload.part_count,
+      storage_path: upload.storage_path,
+    };
+  }
+}
+
+/**
+ * Storage path of one part; parts sort in upload order
+ */
+export function partPath(storagePath: string, partNumber: number): string {
+  return `${storagePath}.parts/${String(partNumber).padStart(5, '0')}`;
+}
+
+function expectedPartSize(session: UploadSession, partNumber: number): number {
+  if (partNumber < session.part_count) return session.part_size;
+  return session.file_size - session.part_size * (session.part_count - 1);
+}
+
+// The ingest worker detects the format from content; this just records what was sent
+function contentType(fileName: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'application/json';
+  if (extension === 'csv') return 'text/csv';
+  return 'text/plain';
+}
+
+// Export singleton instance
+export const resumableUploads = new ResumableUploads();
+
+export { UploadSessionError };
+
+// Export types
+export type { UploadSession, SignedPart, SessionStatus };
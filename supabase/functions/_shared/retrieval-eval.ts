@@ -0,0 +1,528 @@
+// Retrieval evaluation
+// Runs golden questions through hybridSearch + rankChunks offline and scores what comes back
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { db } from './db.ts';
+import { rankChunks, getReranker } from './ranking.ts';
+import type { RankableChunk, Reranker } from './ranking.ts';
+
+interface GoldenQuestion {
+  id: number;
+  client_id: number;
+  question: string;
+  filters: Record<string, unknown>;
+  expected_chunk_ids: number[];
+  irrelevant_chunk_ids: number[];
+  expected_facts: string[];
+  query_embedding: number[] | null;
+  source: 'manual' | 'feedback';
+  source_query_id: number | null;
+  active: boolean;
+}
+
+interface CreateQuestionInput {
+  question: string;
+  filters?: Record<string, unknown>;
+  expected_chunk_ids?: number[];
+  expected_facts?: string[];
+  capture_embedding?: boolean;
+}
+
+interface EvalRunConfig {
+  label?: string;
+  k?: number;
+  max_results?: number;
+  // 'stub' and 'none' never call the LLM; 'llm' is for comparing against the live reranker
+  reranker?: 'stub' | 'none' | 'llm';
+  // 'cached' uses the embedding captured on each question, 'none' runs the text leg only
+  embeddings?: 'cached' | 'none';
+  question_ids?: number[];
+}
+
+interface QuestionScore {
+  question_id: number;
+  retrieved_chunk_ids: number[];
+  recall_at_k: number | null;
+  reciprocal_rank: number | null;
+  citation_precision: number | null;
+  fact_recall: number | null;
+  irrelevant_rate: number | null;
+  latency_ms: number;
+}
+
+interface EvalMetrics {
+  recall_at_k: number | null;
+  mrr: number | null;
+  citation_precision: number | null;
+  fact_recall: number | null;
+  irrelevant_rate: number | null;
+  questions_scored: number;
+  mean_latency_ms: number;
+}
+
+interface EvalRunSummary {
+  run_id: number;
+  label: string | null;
+  k: number;
+  question_count: number;
+  metrics: EvalMetrics;
+  results: QuestionScore[];
+}
+
+interface FeedbackImportResult {
+  imported: number;
+  updated: number;
+  skipped: number;
+}
+
+const DEFAULT_K = 10;
+const DEFAULT_MAX_RESULTS = 12;
+const METRIC_KEYS = ['recall_at_k', 'mrr', 'citation_precision', 'fact_recall', 'irrelevant_rate'] as const;
+
+/**
+ * Deterministic stand-in for the LLM reranker: grades by query-term coverage
+ * and blends with the fused score the same way LlmReranker does.
+ */
+class LexicalReranker implements Reranker {
+  readonly name = 'stub';
+
+  async rerank<T extends RankableChunk>(question: string, candidates: T[], options: { topN?: number } = {}): Promise<T[]> {
+    const topN = Math.min(options.topN ?? 20, candidates.length);
+    const head = candidates.slice(0, topN).map((chunk) => {
+      const rerankScore = db.scoreTextMatch(question, chunk.text || chunk.content || '');
+      const blended = ((chunk.similarity_score ?? 0) + rerankScore) / 2;
+      return { ...chunk, rerank_score: rerankScore, similarity_score: blended, similarity: blended };
+    });
+    head.sort((a, b) => b.similarity_score - a.similarity_score);
+    return [...head, ...candidates.slice(topN)];
+  }
+}
+
+function normalizeFact(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return null;
+  return present.reduce((sum, value) => sum + value, 0) / present.length;
+}
+
+/**
+ * Share of the relevant chunks that appear in the top k
+ */
+export function recallAtK(retrieved: number[], relevant: number[], k: number): number | null {
+  if (relevant.length === 0) return null;
+  const top = new Set(retrieved.slice(0, k));
+  return relevant.filter((id) => top.has(id)).length / relevant.length;
+}
+
+/**
+ * 1 / rank of the first relevant chunk, 0 when none was retrieved
+ */
+export function reciprocalRank(retrieved: number[], relevant: number[]): number | null {
+  if (relevant.length === 0) return null;
+  const wanted = new Set(relevant);
+  const index = retrieved.findIndex((id) => wanted.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Share of the cited chunks that are relevant
+ */
+export function citationPrecision(cited: number[], relevant: number[]): number | null {
+  if (relevant.length === 0 || cited.length === 0) return null;
+  const wanted = new Set(relevant);
+  return cited.filter((id) => wanted.has(id)).length / cited.length;
+}
+
+/**
+ * Share of the expected answer facts found (case-insensitively) in the given texts
+ */
+export function factRecall(texts: string[], facts: string[]): number | null {
+  if (facts.length === 0) return null;
+  const haystack = normalizeFact(texts.join('\n'));
+  return facts.filter((fact) => haystack.includes(normalizeFact(fact))).length / facts.length;
+}
+
+/**
+ * Score one question's ranked chunks. Questions labelled with facts only treat
+ * any chunk containing an expected fact as relevant.
+ */
+export function scoreQuestion(question: GoldenQuestion, ranked: RankableChunk[], k: number, latencyMs: number): QuestionScore {
+  const retrieved = ranked.map((chunk) => Number(chunk.id));
+  const textOf = (chunk: RankableChunk) => chunk.text || chunk.content || '';
+  const facts = question.expected_facts.map(normalizeFact).filter(Boolean);
+
+  let relevant = question.expected_chunk_ids.map(Number);
+  let recall = recallAtK(retrieved, relevant, k);
+  if (relevant.length === 0 && facts.length > 0) {
+    relevant = ranked
+      .filter((chunk) => facts.some((fact) => normalizeFact(textOf(chunk)).includes(fact)))
+      .map((chunk) => Number(chunk.id));
+    recall = factRecall(ranked.slice(0, k).map(textOf), facts);
+  }
+
+  const irrelevant = new Set(question.irrelevant_chunk_ids.map(Number));
+
+  return {
+    question_id: question.id,
+    retrieved_chunk_ids: retrieved,
+    recall_at_k: recall,
+    reciprocal_rank: relevant.length > 0 || facts.length > 0 ? reciprocalRank(retrieved, relevant) ?? 0 : null,
+    citation_precision: relevant.length > 0 || facts.length > 0 ? citationPrecision(retrieved, relevant) ?? 0 : null,
+    fact_recall: factRecall(ranked.slice(0, k).map(textOf), facts),
+    irrelevant_rate: irrelevant.size > 0 && retrieved.length > 0
+      ? retrieved.filter((id) => irrelevant.has(id)).length / retrieved.length
+      : null,
+    latency_ms: latencyMs,
+  };
+}
+
+/**
+ * Average per-question scores into run metrics
+ */
+export function aggregateScores(scores: QuestionScore[]): EvalMetrics {
+  return {
+    recall_at_k: mean(scores.map((s) => s.recall_at_k)),
+    mrr: mean(scores.map((s) => s.reciprocal_rank)),
+    citation_precision: mean(scores.map((s) => s.citation_precision)),
+    fact_recall: mean(scores.map((s) => s.fact_recall)),
+    irrelevant_rate: mean(scores.map((s) => s.irrelevant_rate)),
+    questions_scored: scores.filter((s) => s.recall_at_k !== null || s.reciprocal_rank !== null).length,
+    mean_latency_ms: Math.round(mean(scores.map((s) => s.latency_ms)) ?? 0),
+  };
+}
+
+class RetrievalEvaluator {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Add a golden question. The query embedding is captured now so later runs stay offline.
+   */
+  async createQuestion(clientId: number, userId: string, input: CreateQuestionInput): Promise<GoldenQuestion> {
+    const embedding = input.capture_embedding === false ? null : await this.captureEmbedding(input.question, clientId);
+
+    const { data, error } = await this.supabase
+      .from('retrieval_eval_questions')
+      .insert({
+        client_id: clientId,
+        question: input.question,
+        filters: input.filters ?? {},
+        expected_chunk_ids: input.expected_chunk_ids ?? [],
+        expected_facts: input.expected_facts ?? [],
+        query_embedding: embedding,
+        source: 'manual',
+        created_by: userId,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create eval question: ${error.message}`);
+    }
+    return data;
+  }
+
+  async listQuestions(clientId: number): Promise<GoldenQuestion[]> {
+    const { data, error } = await this.supabase
+      .from('retrieval_eval_questions')
+      .select('id, client_id, question, filters, expected_chunk_ids, irrelevant_chunk_ids, expected_facts, source, source_query_id, active, created_at')
+      .eq('client_id', clientId)
+      .eq('active', true)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list eval questions: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Turn feedback.useful_flag labels into golden questions, one per query:
+   * useful chunks become expected_chunk_ids, unhelpful ones irrelevant_chunk_ids.
+   * Re-importing refreshes the labels of questions imported earlier.
+   */
+  async importFeedbackLabels(clientId: number, userId: string, captureEmbeddings = true): Promise<FeedbackImportResult> {
+    const { data: rows, error } = await this.supabase
+      .from('feedback')
+      .select('query_id, chunk_id, useful_flag, queries!inner(id, client_id, question, query_text, filters_json)')
+      .eq('queries.client_id', clientId)
+      .not('chunk_id', 'is', null)
+      .not('useful_flag', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to load feedback: ${error.message}`);
+    }
+
+    const byQuery = new Map<number, { question: string; filters: any; useful: Set<number>; unhelpful: Set<number> }>();
+    for (const row of rows || []) {
+      const chunkId = Number(row.chunk_id);
+      if (!Number.isFinite(chunkId)) continue;
+      const question = row.queries?.question || row.queries?.query_text;
+      if (!question) continue;
+
+      if (!byQuery.has(row.query_id)) {
+        byQuery.set(row.query_id, {
+          question,
+          filters: row.queries?.filters_json || {},
+          useful: new Set(),
+          unhelpful: new Set(),
+        });
+      }
+      const labels = byQuery.get(row.query_id)!;
+      (row.useful_flag ? labels.useful : labels.unhelpful).add(chunkId);
+    }
+
+    const { data: existing, error: existingError } = await this.supabase
+      .from('retrieval_eval_questions')
+      .select('id, source_query_id')
+      .eq('client_id', clientId)
+      .in('source_query_id', Array.from(byQuery.keys()));
+
+    if (existingError) {
+      throw new Error(`Failed to load imported questions: ${existingError.message}`);
+    }
+    const existingByQuery = new Map<number, number>((existing || []).map((q: any) => [q.source_query_id, q.id]));
+
+    const result: FeedbackImportResult = { imported: 0, updated: 0, skipped: 0 };
+    for (const [queryId, labels] of Array.from(byQuery.entries())) {
+      const labelFields = {
+        expected_chunk_ids: Array.from(labels.useful),
+        irrelevant_chunk_ids: Array.from(labels.unhelpful),
+        updated_at: new Date().toISOString(),
+      };
+
+      const questionId = existingByQuery.get(queryId);
+      if (questionId) {
+        const { error: updateError } = await this.supabase
+          .from('retrieval_eval_questions')
+          .update(labelFields)
+          .eq('id', questionId);
+        if (updateError) {
+          console.error(`Failed to refresh labels for query ${queryId}:`, updateError);
+          result.skipped++;
+        } else {
+          result.updated++;
+        }
+        continue;
+      }
+
+      const { error: insertError } = await this.supabase
+        .from('retrieval_eval_questions')
+        .insert({
+          client_id: clientId,
+          question: labels.question,
+          filters: labels.filters,
+          ...labelFields,
+          query_embedding: captureEmbeddings ? await this.captureEmbedding(labels.question, clientId) : null,
+          source: 'feedback',
+          source_query_id: queryId,
+          created_by: userId,
+        });
+      if (insertError) {
+        console.error(`Failed to import feedback for query ${queryId}:`, insertError);
+        result.skipped++;
+      } else {
+        result.imported++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run every active golden question (or the selected ones) through retrieval with
+   * stubbed providers, store per-question results and the aggregate metrics.
+   */
+  async run(clientId: number, userId: string, config: EvalRunConfig = {}): Promise<EvalRunSummary> {
+    const k = config.k ?? DEFAULT_K;
+    const reranker = config.reranker === 'stub' || !config.reranker ? new LexicalReranker() : getReranker(config.reranker);
+
+    let query = this.supabase
+      .from('retrieval_eval_questions')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('active', true)
+      .order('id');
+    if (config.question_ids?.length) {
+      query = query.in('id', config.question_ids);
+    }
+    const { data: questions, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load eval questions: ${error.message}`);
+    }
+
+    const { data: run, error: runError } = await this.supabase
+      .from('retrieval_eval_runs')
+      .insert({
+        client_id: clientId,
+        label: config.label ?? null,
+        config: { ...config, k, reranker: reranker.name },
+        k,
+        question_count: questions?.length ?? 0,
+        status: 'running',
+        created_by: userId,
+      })
+      .select('id')
+      .single();
+    if (runError) {
+      throw new Error(`Failed to create eval run: ${runError.message}`);
+    }
+
+    try {
+      const scores: QuestionScore[] = [];
+      for (const question of (questions || []) as GoldenQuestion[]) {
+        const startedAt = Date.now();
+        const queryVec = config.embeddings === 'none' ? null : question.query_embedding;
+        const { vectorTop, textTop } = await db.hybridSearch({
+          client_id: clientId,
+          filters: question.filters,
+          queryVec,
+          question: question.question,
+        });
+        const ranked = await rankChunks({
+          question: question.question,
+          vectorResults: vectorTop,
+          textResults: textTop,
+          reranker,
+          mmr: { lambda: 0.7, maxResults: config.max_results ?? DEFAULT_MAX_RESULTS },
+        });
+        scores.push(scoreQuestion(question, ranked, k, Date.now() - startedAt));
+      }
+
+      if (scores.length > 0) {
+        const { error: resultsError } = await this.supabase
+          .from('retrieval_eval_results')
+          .insert(scores.map((score) => ({ run_id: run.id, ...score })));
+        if (resultsError) {
+          throw new Error(`Failed to store eval results: ${resultsError.message}`);
+        }
+      }
+
+      const metrics = aggregateScores(scores);
+      await this.supabase
+        .from('retrieval_eval_runs')
+        .update({ status: 'completed', metrics, completed_at: new Date().toISOString() })
+        .eq('id', run.id);
+
+      return {
+        run_id: run.id,
+        label: config.label ?? null,
+        k,
+        question_count: scores.length,
+        metrics,
+        results: scores,
+      };
+    } catch (runFailure) {
+      await this.supabase
+        .from('retrieval_eval_runs')
+        .update({ status: 'failed', error_message: runFailure.message, completed_at: new Date().toISOString() })
+        .eq('id', run.id);
+      throw runFailure;
+    }
+  }
+
+  async listRuns(clientId: number, limit = 20): Promise<any[]> {
+    const { data, error } = await this.supabase
+      .from('retrieval_eval_runs')
+      .select('id, label, config, k, question_count, metrics, status, error_message, created_at, completed_at')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list eval runs: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Metric deltas (candidate - base) and the questions whose scores moved
+   */
+  async compareRuns(clientId: number, baseRunId: number, candidateRunId: number): Promise<any> {
+    const { data: runs, error } = await this.supabase
+      .from('retrieval_eval_runs')
+      .select('id, label, k, metrics, created_at')
+      .eq('client_id', clientId)
+      .in('id', [baseRunId, candidateRunId]);
+    if (error) {
+      throw new Error(`Failed to load eval runs: ${error.message}`);
+    }
+
+    const base = (runs || []).find((r: any) => r.id === baseRunId);
+    const candidate = (runs || []).find((r: any) => r.id === candidateRunId);
+    if (!base || !candidate) {
+      throw new Error('Both runs must exist and belong to this client');
+    }
+
+    const { data: results, error: resultsError } = await this.supabase
+      .from('retrieval_eval_results')
+      .select('run_id, question_id, recall_at_k, reciprocal_rank, citation_precision, retrieval_eval_questions(question)')
+      .in('run_id', [baseRunId, candidateRunId]);
+    if (resultsError) {
+      throw new Error(`Failed to load eval results: ${resultsError.message}`);
+    }
+
+    const deltas: Record<string, number | null> = {};
+    for (const key of METRIC_KEYS) {
+      const before = base.metrics?.[key];
+      const after = candidate.metrics?.[key];
+      deltas[key] = typeof before === 'number' && typeof after === 'number' ? after - before : null;
+    }
+
+    type ComparedQuestion = { question: string; base?: any; candidate?: any };
+    const byQuestion = new Map<number, ComparedQuestion>();
+    for (const row of results || []) {
+      const entry: ComparedQuestion = byQuestion.get(row.question_id) ?? { question: row.retrieval_eval_questions?.question ?? '' };
+      const scores = {
+        recall_at_k: row.recall_at_k,
+        reciprocal_rank: row.reciprocal_rank,
+        citation_precision: row.citation_precision,
+      };
+      if (row.run_id === baseRunId) entry.base = scores;
+      else entry.candidate = scores;
+      byQuestion.set(row.question_id, entry);
+    }
+
+    const changed = Array.from(byQuestion.entries())
+      .filter(([, entry]) =>
+        !entry.base || !entry.candidate ||
+        entry.base.recall_at_k !== entry.candidate.recall_at_k ||
+        entry.base.reciprocal_rank !== entry.candidate.reciprocal_rank
+      )
+      .map(([questionId, entry]) => ({ question_id: questionId, ...entry }));
+
+    return { base, candidate, deltas, changed_questions: changed };
+  }
+
+  private async captureEmbedding(question: string, clientId: number): Promise<number[] | null> {
+    try {
+      return await db.getEmbeddings(question, clientId);
+    } catch (error) {
+      console.warn('Could not capture question embedding, question will run text-only:', error.message);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const retrievalEvaluator = new RetrievalEvaluator();
+
+// Export types
+export type {
+  GoldenQuestion,
+  CreateQuestionInput,
+  EvalRunConfig,
+  QuestionScore,
+  EvalMetrics,
+  EvalRunSummary,
+  FeedbackImportResult
+};
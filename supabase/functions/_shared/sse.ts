@@ -110,6 +110,14 @@
       data: payload
     });
   }
+  /**
+   * Send policy report event (evidence rules that stopped an evaluation)
+   */ policyReport(report) {
+    this.sendMessage({
+      event: 'policy_report',
+      data: report
+    });
+  }
   /**
    * Send error event
    */ error(errorCode, message, details) {
@@ -0,0 +1,586 @@
+// Team evaluations
+// Evaluates every participant of a client over a date range as a background job, and builds the side-by-side team report
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiError } from './auth.ts';
+import { driversManager } from './drivers.ts';
+import type { DriversPayload } from './drivers.ts';
+import { evaluationPipeline } from './evaluation-pipeline.ts';
+import { evaluationStore } from './evaluations.ts';
+import type { ReviewStatus } from './evaluations.ts';
+import { jobQueue, JobQueueError } from './job-queue.ts';
+
+interface StartTeamEvaluationParams {
+  client_id: number;
+  title?: string;
+  question?: string;
+  date_from?: string;
+  date_to?: string;
+  room_ids?: number[];
+  // Participants appearing in fewer chunks than this are not evaluated
+  min_chunks?: number;
+  created_by: string;
+}
+
+interface TeamEvaluation {
+  id: number;
+  client_id: number;
+  job_id: number | null;
+  title: string;
+  question: string;
+  date_from: string | null;
+  date_to: string | null;
+  room_ids: number[] | null;
+  min_chunks: number;
+  rubric_version_id: number | null;
+  rubric_version: number | null;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  member_count: number;
+  created_by: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface TeamEvaluationMember {
+  id: number;
+  subject_name: string;
+  chunk_count: number;
+  status: 'pending' | 'completed' | 'skipped' | 'failed';
+  evaluation_record_id: number | null;
+  reason: string | null;
+  evaluated_at: string | null;
+}
+
+interface TeamJobProgress {
+  status: string;
+  progress: number;
+  processed_items: number;
+  total_items: number | null;
+  error_message: string | null;
+}
+
+interface TeamReportMember extends TeamEvaluationMember {
+  // Review state of the member's evaluation; scores are only reported once it is approved
+  review_status: ReviewStatus | null;
+  weighted_total: number | null;
+  confidence: number | null;
+  total_withheld: boolean;
+  // Driver key -> score; null when the driver was not scored for this person
+  scores: Record<string, number | null>;
+}
+
+interface TeamReport {
+  team_evaluation: TeamEvaluation;
+  job: TeamJobProgress | null;
+  drivers: Array<{ key: string; name: string; weight: number }>;
+  members: TeamReportMember[];
+  // Mean of the approved members per driver, and of their weighted totals
+  driver_averages: Record<string, number | null>;
+  average_weighted_total: number | null;
+}
+
+interface TeamJob {
+  id: number;
+  client_id: number;
+  job_type: string;
+  status: string;
+  params_json: { team_evaluation_id?: number } | null;
+  current_attempt_id: number | null;
+}
+
+interface TeamJobOutcome {
+  job_id: number;
+  // Status the job was left in; queued with members remaining means the next batch is due now
+  status: 'completed' | 'queued' | 'failed' | 'dead_letter' | 'cancelled';
+  evaluated: number;
+  remaining: number;
+  error_message?: string;
+}
+
+interface ProcessOptions {
+  // Members evaluated in this run; the job is requeued for the rest
+  maxMembers: number;
+  // Stop starting new members after this timestamp (ms)
+  deadline: number;
+}
+
+const JOB_TYPE = 'team_evaluation';
+const WORKER_NAME = 'team-evaluation-worker';
+
+class TeamEvaluationError extends ApiError {
+  constructor(code: string, message: string) {
+    super(code, message, 422);
+  }
+}
+
+class TeamEvaluationManager {
+  private supabase: any;
+
+  constructor() {
+    this.supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+  }
+
+  /**
+   * Enumerate the participants in range (one per person in the people directory), pin the rubric version and queue the job
+   */
+  async start(params: StartTeamEvaluationParams): Promise<{ team_evaluation: TeamEvaluation; job_id: number }> {
+    const minChunks = params.min_chunks ?? 3;
+
+    const { data: participants, error: participantsError } = await this.supabase.rpc('list_participants', {
+      p_client_id: params.client_id,
+      p_date_from: params.date_from ?? null,
+      p_date_to: params.date_to ?? null,
+      p_room_ids: params.room_ids?.length ? params.room_ids : null,
+      p_min_chunks: minChunks
+    });
+
+    if (participantsError) {
+      throw new Error(`Failed to list participants: ${participantsError.message}`);
+    }
+    if (!participants || participants.length === 0) {
+      throw new TeamEvaluationError(
+        'E_NO_PARTICIPANTS',
+        `No participants with at least ${minChunks} conversation chunks in the selected range`
+      );
+    }
+
+    // Every member is scored against the same rubric version, even if the rubric is edited mid-run
+    const rubric = await driversManager.getVersionedPayload(params.client_id);
+
+    const { data: team, error: teamError } = await this.supabase
+      .from('team_evaluations')
+      .insert({
+        client_id: params.client_id,
+        title: params.title?.trim() || defaultTitle(params.date_from, params.date_to),
+        question: params.question?.trim() || 'How has this person demonstrated our drivers and values over this period?',
+        date_from: params.date_from ?? null,
+        date_to: params.date_to ?? null,
+        room_ids: params.room_ids?.length ? params.room_ids : null,
+        min_chunks: minChunks,
+        rubric_version_id: rubric.rubric_version?.id ?? null,
+        rubric_version: rubric.rubric_version?.version ?? null,
+        member_count: participants.length,
+        created_by: params.created_by
+      })
+      .select('*')
+      .single();
+
+    if (teamError) {
+      throw new Error(`Failed to create team evaluation: ${teamError.message}`);
+    }
+
+    const { error: membersError } = await this.supabase
+      .from('team_evaluation_members')
+      .insert(participants.map((row: any) => ({
+        team_evaluation_id: team.id,
+        client_id: params.client_id,
+        subject_name: row.participant,
+        chunk_count: Number(row.chunk_count) || 0
+      })));
+
+    if (membersError) {
+      throw new Error(`Failed to add team members: ${membersError.message}`);
+    }
+
+    const { data: job, error: jobError } = await this.supabase
+      .from('jobs')
+      .insert({
+        client_id: params.client_id,
+        job_type: JOB_TYPE,
+        status: 'queued',
+        progress: 0,
+        total_items: participants.length,
+        processed_items: 0,
+        params_json: { team_evaluation_id: team.id },
+        created_by: params.created_by
+      })
+      .select('id')
+      .single();
+
+    if (jobError) {
+      throw new Error(`Failed to queue team evaluation job: ${jobError.message}`);
+    }
+
+    await this.supabase.from('team_evaluations').update({ job_id: job.id }).eq('id', team.id);
+
+    return { team_evaluation: { ...team, job_id: job.id }, job_id: job.id };
+  }
+
+  /**
+   * Team evaluations of a client, newest first, with job progress
+   */
+  async list(clientId: number, limit = 20): Promise<Array<TeamEvaluation & { job: TeamJobProgress | null }>> {
+    const { data, error } = await this.supabase
+      .from('team_evaluations')
+      .select('*, job:jobs(status, progress, processed_items, total_items, error_message)')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list team evaluations: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Driver scores of every member side by side. Evaluations that are not approved yet
+   * are listed with their review status but without scores.
+   */
+  async report(clientId: number, teamEvaluationId: number): Promise<TeamReport | null> {
+    const { data: team, error } = await this.supabase
+      .from('team_evaluations')
+      .select('*, job:jobs(status, progress, processed_items, total_items, error_message)')
+      .eq('client_id', clientId)
+      .eq('id', teamEvaluationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load team evaluation: ${error.message}`);
+    }
+    if (!team) return null;
+
+    const { job, ...teamEvaluation } = team;
+
+    const { data: members, error: membersError } = await this.supabase
+      .from('team_evaluation_members')
+      .select('id, subject_name, chunk_count, status, evaluation_record_id, reason, evaluated_at')
+      .eq('team_evaluation_id', teamEvaluationId)
+      .order('subject_name', { ascending: true });
+
+    if (membersError) {
+      throw new Error(`Failed to load team members: ${membersError.message}`);
+    }
+
+    const recordIds = (members || [])
+      .map((member: TeamEvaluationMember) => member.evaluation_record_id)
+      .filter((id: number | null) => id !== null);
+
+    const records = new Map<number, any>();
+    if (recordIds.length > 0) {
+      const { data: recordRows, error: recordsError } = await this.supabase
+        .from('evaluation_records')
+        .select('id, review_status, weighted_total, confidence, policy_report, scores:evaluation_record_scores(driver_key, driver_name, score)')
+        .in('id', recordIds);
+
+      if (recordsError) {
+        throw new Error(`Failed to load member evaluations: ${recordsError.message}`);
+      }
+      for (const row of recordRows || []) {
+        records.set(row.id, row);
+      }
+    }
+
+    const approved = Array.from(records.values()).filter((record) => record.review_status === 'approved');
+    const drivers = await this.reportDrivers(team, approved);
+
+    const reportMembers: TeamReportMember[] = (members || []).map((member: TeamEvaluationMember) => {
+      const linked = member.evaluation_record_id !== null ? records.get(member.evaluation_record_id) : null;
+      const record = linked?.review_status === 'approved' ? linked : null;
+      const scores: Record<string, number | null> = {};
+      for (const driver of drivers) {
+        const score = record?.scores?.find((s: any) => s.driver_key === driver.key);
+        scores[driver.key] = score ? Number(score.score) : null;
+      }
+
+      return {
+        ...member,
+        review_status: linked?.review_status ?? null,
+        weighted_total: record?.weighted_total !== null && record?.weighted_total !== undefined ? Number(record.weighted_total) : null,
+        confidence: record?.confidence !== null && record?.confidence !== undefined ? Number(record.confidence) : null,
+        total_withheld: !!record?.policy_report?.total_withheld,
+        scores
+      };
+    });
+
+    const driverAverages: Record<string, number | null> = {};
+    for (const driver of drivers) {
+      driverAverages[driver.key] = mean(reportMembers.map(member => member.scores[driver.key]));
+    }
+
+    return {
+      team_evaluation: teamEvaluation,
+      job: job ?? null,
+      drivers,
+      members: reportMembers,
+      driver_averages: driverAverages,
+      average_weighted_total: mean(reportMembers.map(member => member.weighted_total))
+    };
+  }
+
+  /**
+   * Lease up to `limit` due team evaluation jobs from the queue
+   */
+  async claimJobs(limit: number): Promise<TeamJob[]> {
+    return jobQueue.claim<TeamJob>([JOB_TYPE], limit, WORKER_NAME);
+  }
+
+  /**
+   * Lease a single job by id, only if it is queued and due
+   */
+  async claimJob(jobId: number): Promise<TeamJob | null> {
+    return jobQueue.claimJob<TeamJob>(jobId, [JOB_TYPE], WORKER_NAME);
+  }
+
+  /**
+   * Evaluate the next pending members of a claimed job. The job is requeued while
+   * members remain, and completed (with the team evaluation) once none do. A
+   * cancel request stops the job before the next member.
+   */
+  async processJob(job: TeamJob, options: ProcessOptions): Promise<TeamJobOutcome> {
+    let evaluated = 0;
+
+    try {
+      const team = await this.getTeamEvaluation(job);
+      await this.supabase.from('team_evaluations').update({ status: 'running' }).eq('id', team.id);
+
+      const rubric = await this.loadRubric(team);
+
+      const { data: pending, error: pendingError } = await this.supabase
+        .from('team_evaluation_members')
+        .select('id, subject_name, chunk_count, status, evaluation_record_id, reason, evaluated_at')
+        .eq('team_evaluation_id', team.id)
+        .eq('status', 'pending')
+        .order('chunk_count', { ascending: false })
+        .limit(options.maxMembers);
+
+      if (pendingError) {
+        throw new Error(`Failed to load pending members: ${pendingError.message}`);
+      }
+
+      for (const member of pending || []) {
+        if (Date.now() >= options.deadline) break;
+        await jobQueue.checkpoint(job);
+        await this.evaluateMember(team, member, rubric);
+        evaluated++;
+      }
+
+      const counts = await this.memberCounts(team.id);
+      const done = counts.completed + counts.skipped + counts.failed;
+      const remaining = counts.pending;
+      const finished = remaining === 0;
+
+      // A requeued batch is not a failed attempt; a pending cancel request turns it into cancelled
+      const status = await jobQueue.finish(job, finished ? 'succeeded' : 'requeued', {
+        progress: finished ? 100 : Math.min(99, Math.round((done / Math.max(1, team.member_count)) * 100)),
+        processed_items: done,
+        total_items: team.member_count,
+        counts_json: counts,
+        error_code: null,
+        error_message: null
+      });
+
+      if (status === 'completed') {
+        await this.supabase
+          .from('team_evaluations')
+          .update({ status: 'completed', completed_at: new Date().toISOString() })
+          .eq('id', team.id);
+      } else if (status === 'cancelled') {
+        await this.supabase.from('team_evaluations').update({ status: 'failed' }).eq('id', team.id);
+      }
+
+      return { job_id: job.id, status: (status ?? 'failed') as TeamJobOutcome['status'], evaluated, remaining };
+    } catch (error) {
+      const code = error instanceof TeamEvaluationError || error instanceof JobQueueError
+        ? error.code
+        : 'E_PROCESSING_FAILED';
+
+      // Another worker holds the job now; leave it alone
+      if (code === 'E_LEASE_LOST') {
+        console.warn(error.message);
+        return { job_id: job.id, status: 'failed', evaluated, remaining: 0, error_message: error.message };
+      }
+
+      let status: string | null;
+      if (code === 'E_JOB_CANCELLED') {
+        console.log(`Team evaluation cancelled for job ${job.id}`);
+        status = await jobQueue.finish(job, 'cancelled');
+      } else {
+        console.error(`Team evaluation failed for job ${job.id}:`, error);
+        // Missing or invalid team evaluations fail for good; anything else is retried after a backoff
+        status = await jobQueue.finish(job, 'failed', {}, {
+          code,
+          message: error.message,
+          retryable: !(error instanceof TeamEvaluationError)
+        });
+      }
+
+      if (status && status !== 'queued' && job.params_json?.team_evaluation_id) {
+        await this.supabase
+          .from('team_evaluations')
+          .update({ status: 'failed' })
+          .eq('id', job.params_json.team_evaluation_id);
+      }
+
+      return {
+        job_id: job.id,
+        status: (status ?? 'failed') as TeamJobOutcome['status'],
+        evaluated,
+        remaining: 0,
+        error_message: error.message
+      };
+    }
+  }
+
+  /**
+   * Run the evaluation pipeline for one member and record the outcome on the member row.
+   * A failure is kept on the member so one person cannot fail the whole batch.
+   */
+  private async evaluateMember(team: TeamEvaluation, member: TeamEvaluationMember, rubric: DriversPayload): Promise<void> {
+    const update: Record<string, unknown> = { evaluated_at: new Date().toISOString() };
+
+    try {
+      const outcome = await evaluationPipeline.run({
+        client_id: team.client_id,
+        subject: member.subject_name,
+        question: team.question,
+        filters: {
+          ...(team.date_from ? { date_from: team.date_from } : {}),
+          ...(team.date_to ? { date_to: team.date_to } : {}),
+          ...(team.room_ids?.length ? { room_ids: team.room_ids } : {})
+        },
+        rubric
+      });
+
+      if (outcome.status === 'evaluated') {
+        const record = await evaluationStore.record({
+          client_id: team.client_id,
+          subject: member.subject_name,
+          question: team.question,
+          mode: rubric.drivers.length > 0 ? 'drivers' : 'general',
+          rubric,
+          result: outcome.evaluation,
+          cited_chunk_ids: outcome.evidence.map((chunk) => chunk.id),
+          model_provider: outcome.model_provider,
+          model_name: outcome.model_name,
+          created_by: team.created_by
+        });
+        update.status = 'completed';
+        update.evaluation_record_id = record.id;
+        update.reason = null;
+      } else {
+        update.status = 'skipped';
+        update.reason = outcome.reason;
+      }
+    } catch (error) {
+      console.error(`Team evaluation ${team.id}: failed to evaluate ${member.subject_name}:`, error);
+      update.status = 'failed';
+      update.reason = error.message;
+    }
+
+    const { error } = await this.supabase.from('team_evaluation_members').update(update).eq('id', member.id);
+    if (error) {
+      throw new Error(`Failed to update member ${member.id}: ${error.message}`);
+    }
+  }
+
+  private async getTeamEvaluation(job: TeamJob): Promise<TeamEvaluation> {
+    const teamId = job.params_json?.team_evaluation_id;
+    if (!teamId) {
+      throw new TeamEvaluationError('E_INVALID_JOB', `Job ${job.id} has no team evaluation`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('team_evaluations')
+      .select('*')
+      .eq('id', teamId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load team evaluation ${teamId}: ${error.message}`);
+    }
+    if (!data) {
+      throw new TeamEvaluationError('E_NOT_FOUND', `Team evaluation ${teamId} no longer exists`);
+    }
+    return data;
+  }
+
+  /**
+   * The rubric version pinned when the batch started, or the current rubric if it was not stored
+   */
+  private async loadRubric(team: TeamEvaluation): Promise<DriversPayload> {
+    if (team.rubric_version_id) {
+      const version = await driversManager.getRubricVersion(team.rubric_version_id);
+      if (version) {
+        return { ...version.rubric_json, rubric_version: { id: version.id, version: version.version } };
+      }
+    }
+    return await driversManager.getVersionedPayload(team.client_id);
+  }
+
+  private async memberCounts(teamId: number): Promise<Record<TeamEvaluationMember['status'], number>> {
+    const { data, error } = await this.supabase
+      .from('team_evaluation_members')
+      .select('status')
+      .eq('team_evaluation_id', teamId);
+
+    if (error) {
+      throw new Error(`Failed to count team members: ${error.message}`);
+    }
+
+    const counts = { pending: 0, completed: 0, skipped: 0, failed: 0 };
+    for (const row of data || []) {
+      counts[row.status as keyof typeof counts]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Report columns: drivers of the pinned rubric, plus any driver key found only in the scores
+   */
+  private async reportDrivers(team: TeamEvaluation, records: any[]): Promise<TeamReport['drivers']> {
+    const drivers: TeamReport['drivers'] = [];
+
+    if (team.rubric_version_id) {
+      const version = await driversManager.getRubricVersion(team.rubric_version_id);
+      for (const driver of version?.rubric_json?.drivers || []) {
+        drivers.push({ key: driver.key, name: driver.name, weight: driver.weight });
+      }
+    }
+
+    for (const record of records) {
+      for (const score of record.scores || []) {
+        if (!drivers.some(driver => driver.key === score.driver_key)) {
+          drivers.push({ key: score.driver_key, name: score.driver_name || score.driver_key, weight: 1 });
+        }
+      }
+    }
+
+    return drivers;
+  }
+}
+
+function defaultTitle(dateFrom?: string, dateTo?: string): string {
+  const format = (value?: string) => value ? value.substring(0, 10) : null;
+  const from = format(dateFrom);
+  const to = format(dateTo);
+  if (from && to) return `Team evaluation ${from} to ${to}`;
+  if (from) return `Team evaluation since ${from}`;
+  if (to) return `Team evaluation until ${to}`;
+  return 'Team evaluation';
+}
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null && Number.isFinite(value));
+  if (present.length === 0) return null;
+  return present.reduce((sum, value) => sum + value, 0) / present.length;
+}
+
+// Export singleton instance
+export const teamEvaluationManager = new TeamEvaluationManager();
+
+export { TeamEvaluationError };
+
+// Export types
+export type {
+  StartTeamEvaluationParams,
+  TeamEvaluation,
+  TeamEvaluationMember,
+  TeamReport,
+  TeamReportMember,
+  TeamJob,
+  TeamJobOutcome
+};
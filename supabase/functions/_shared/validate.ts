@@ -18,6 +18,30 @@ export const CreateRoomSchema = z.object({
   ]),
   description: z.string().max(240).optional()
 });
+// Room Ingest Settings Schema
+export const CsvColumnMappingSchema = z.object({
+  timestamp: z.string().max(80).optional(),
+  sender: z.string().max(80).optional(),
+  text: z.string().max(80).optional()
+});
+export const RoomIngestSettingsSchema = z.object({
+  room_id: z.number().int().positive(),
+  ingest_settings: z.object({
+    format: z.enum([
+      'auto',
+      'whatsapp_txt',
+      'cliq_json',
+      'csv'
+    ]).optional(),
+    column_mapping: CsvColumnMappingSchema.optional(),
+    date_order: z.enum([
+      'DMY',
+      'MDY',
+      'YMD'
+    ]).optional(),
+    utc_offset_minutes: z.number().int().min(-720).max(840).optional()
+  })
+});
 // Upload Schema
 export const UploadUrlSchema = z.object({
   client_id: z.number().int().positive(),
@@ -29,6 +53,11 @@ export const UploadUrlSchema = z.object({
 export const IngestSchema = z.object({
   job_id: z.number().int().positive()
 });
+// Ingest Worker Schema
+export const IngestWorkerSchema = z.object({
+  job_id: z.number().int().positive().optional(),
+  batch_size: z.number().int().min(1).max(10).optional()
+});
 // Jobs Schema
 export const JobsQuerySchema = z.object({
   client_id: UuidSchema,
@@ -39,6 +68,7 @@ export const JobsQuerySchema = z.object({
     'processing',
     'completed',
     'failed',
+    'dead_letter',
     'cancelled'
   ]).optional(),
   limit: z.number().min(1).max(200).default(50),
@@ -67,7 +97,15 @@ export const QuerySchema = z.object({
   question: z.string().min(1).max(1000),
   filters: QueryFiltersSchema.default({}),
   evaluation_mode: z.boolean().default(false),
-  subject_user: z.string().min(1).max(80).optional()
+  subject_user: z.string().min(1).max(80).optional(),
+  // Parts of the planner's interpretation to leave out, as corrected from the meta event
+  ignore_plan: z.array(z.enum([
+    'intent',
+    'search_query',
+    'date_range',
+    'people',
+    'rooms'
+  ])).max(5).default([])
 }).refine((data)=>!data.evaluation_mode || data.subject_user, {
   message: 'subject_user is required when evaluation_mode is true',
   path: [
@@ -82,14 +120,330 @@ export const FeedbackSchema = z.object({
 });
 // Admin Utilities Schemas
 export const JobRetrySchema = z.object({
-  job_id: z.string().uuid()
+  job_id: z.number().int().positive()
+});
+// Job Cancel Schema
+export const JobCancelSchema = z.object({
+  job_id: z.number().int().positive()
 });
 export const ReindexSchema = z.object({
   client_id: z.number().int().positive(),
   room_ids: z.array(z.number().int().positive()).optional(),
   date_from: DateTimeSchema.optional(),
-  date_to: DateTimeSchema.optional()
+  date_to: DateTimeSchema.optional(),
+  embedding_model: z.string().min(1).max(100).optional()
+});
+// Reindex Worker Schema
+export const ReindexWorkerSchema = z.object({
+  batch_size: z.number().int().min(1).max(500).optional()
+});
+// Retrieval Eval Schema
+export const RetrievalEvalSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create_question'),
+    client_id: z.number().int().positive(),
+    question: z.string().min(1).max(1000),
+    filters: QueryFiltersSchema.default({}),
+    expected_chunk_ids: z.array(z.number().int().positive()).max(100).default([]),
+    expected_facts: z.array(z.string().min(1).max(500)).max(50).default([]),
+    capture_embedding: z.boolean().default(true)
+  }),
+  z.object({
+    action: z.literal('list_questions'),
+    client_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('import_feedback'),
+    client_id: z.number().int().positive(),
+    capture_embeddings: z.boolean().default(true)
+  }),
+  z.object({
+    action: z.literal('run'),
+    client_id: z.number().int().positive(),
+    label: z.string().max(120).optional(),
+    k: z.number().int().min(1).max(50).default(10),
+    max_results: z.number().int().min(1).max(50).default(12),
+    reranker: z.enum([
+      'stub',
+      'none',
+      'llm'
+    ]).default('stub'),
+    embeddings: z.enum([
+      'cached',
+      'none'
+    ]).default('cached'),
+    question_ids: z.array(z.number().int().positive()).optional()
+  }),
+  z.object({
+    action: z.literal('list_runs'),
+    client_id: z.number().int().positive(),
+    limit: z.number().int().min(1).max(100).default(20)
+  }),
+  z.object({
+    action: z.literal('compare_runs'),
+    client_id: z.number().int().positive(),
+    base_run_id: z.number().int().positive(),
+    candidate_run_id: z.number().int().positive()
+  })
+]);
+// Evaluation History Schema
+export const EvaluationHistorySchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('list_subjects'),
+    client_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('history'),
+    client_id: z.number().int().positive(),
+    subject: z.string().min(1).max(200),
+    limit: z.number().int().min(1).max(200).default(50)
+  }),
+  z.object({
+    action: z.literal('get'),
+    client_id: z.number().int().positive(),
+    record_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('trends'),
+    client_id: z.number().int().positive(),
+    subject: z.string().min(1).max(200),
+    bucket: z.enum([
+      'month',
+      'quarter'
+    ]).default('quarter'),
+    driver_key: z.string().min(1).max(100).optional()
+  }),
+  z.object({
+    action: z.literal('review_queue'),
+    client_id: z.number().int().positive(),
+    status: z.enum([
+      'draft',
+      'in_review',
+      'approved',
+      'rejected'
+    ]).optional()
+  }),
+  z.object({
+    action: z.literal('review'),
+    client_id: z.number().int().positive(),
+    record_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.enum([
+      'submit',
+      'approve',
+      'reject',
+      'reopen'
+    ]),
+    client_id: z.number().int().positive(),
+    record_id: z.number().int().positive(),
+    comment: z.string().max(2000).optional()
+  }),
+  z.object({
+    action: z.literal('adjust'),
+    client_id: z.number().int().positive(),
+    record_id: z.number().int().positive(),
+    adjustments: z.array(z.object({
+      driver_key: z.string().min(1).max(100),
+      score: z.number().min(0).max(100),
+      reasoning: z.string().max(4000).optional()
+    })).min(1).max(50),
+    comment: z.string().max(2000).optional()
+  }),
+  z.object({
+    action: z.literal('comment'),
+    client_id: z.number().int().positive(),
+    record_id: z.number().int().positive(),
+    comment: z.string().min(1).max(2000)
+  })
+]);
+// Team Evaluation Schema
+export const TeamEvaluationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('start'),
+    client_id: z.number().int().positive(),
+    title: z.string().max(200).optional(),
+    question: z.string().max(1000).optional(),
+    date_from: DateTimeSchema.optional(),
+    date_to: DateTimeSchema.optional(),
+    room_ids: z.array(z.number().int().positive()).optional(),
+    min_chunks: z.number().int().min(1).max(1000).default(3)
+  }),
+  z.object({
+    action: z.literal('list'),
+    client_id: z.number().int().positive(),
+    limit: z.number().int().min(1).max(100).default(20)
+  }),
+  z.object({
+    action: z.literal('report'),
+    client_id: z.number().int().positive(),
+    team_evaluation_id: z.number().int().positive()
+  })
+]);
+// People Directory Schema
+const PersonAliasSchema = z.object({
+  alias_type: z.enum([
+    'name',
+    'phone',
+    'cliq_user_id'
+  ]),
+  value: z.string().trim().min(1).max(120)
+});
+export const PeopleSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('list'),
+    client_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('create'),
+    client_id: z.number().int().positive(),
+    display_name: z.string().trim().min(1).max(120),
+    aliases: z.array(PersonAliasSchema).max(50).default([])
+  }),
+  z.object({
+    action: z.literal('update'),
+    client_id: z.number().int().positive(),
+    person_id: z.number().int().positive(),
+    display_name: z.string().trim().min(1).max(120).optional(),
+    notes: z.string().max(2000).nullable().optional()
+  }),
+  z.object({
+    action: z.literal('delete'),
+    client_id: z.number().int().positive(),
+    person_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('add_alias'),
+    client_id: z.number().int().positive(),
+    person_id: z.number().int().positive(),
+    alias: PersonAliasSchema
+  }),
+  z.object({
+    action: z.literal('remove_alias'),
+    client_id: z.number().int().positive(),
+    alias_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('merge'),
+    client_id: z.number().int().positive(),
+    source_person_id: z.number().int().positive(),
+    target_person_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('suggestions'),
+    client_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('accept_suggestion'),
+    client_id: z.number().int().positive(),
+    suggestion_id: z.number().int().positive(),
+    person_id: z.number().int().positive().optional()
+  }),
+  z.object({
+    action: z.literal('dismiss_suggestion'),
+    client_id: z.number().int().positive(),
+    suggestion_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('unlinked'),
+    client_id: z.number().int().positive(),
+    limit: z.number().int().min(1).max(500).default(100)
+  })
+]);
+// PII Redaction Schema
+const PiiCategoryActionsSchema = z.record(z.enum([
+  'email',
+  'phone',
+  'card',
+  'iban',
+  'bank_account',
+  'ifsc',
+  'pan',
+  'aadhaar',
+  'address'
+]), z.enum([
+  'tokenize',
+  'mask',
+  'keep'
+]));
+export const PiiSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('get_policy'),
+    client_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('update_policy'),
+    client_id: z.number().int().positive(),
+    enabled: z.boolean().optional(),
+    categories: PiiCategoryActionsSchema.optional()
+  }),
+  z.object({
+    action: z.literal('preview'),
+    client_id: z.number().int().positive(),
+    text: z.string().min(1).max(5000),
+    categories: PiiCategoryActionsSchema.optional()
+  }),
+  z.object({
+    action: z.literal('reveal'),
+    client_id: z.number().int().positive(),
+    tokens: z.array(z.string().regex(/^\[[A-Z_]+_[0-9a-f]{10}\]$/)).min(1).max(50),
+    chunk_id: z.number().int().positive().optional()
+  })
+]);
+// Upload Session Schema
+export const UploadSessionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('start'),
+    client_id: z.number().int().positive(),
+    room_id: z.number().int().positive(),
+    file_name: z.string().min(1).max(255),
+    file_size: z.number().int().min(1)
+  }),
+  z.object({
+    action: z.literal('sign_parts'),
+    upload_id: z.number().int().positive(),
+    part_numbers: z.array(z.number().int().positive()).min(1).max(20)
+  }),
+  z.object({
+    action: z.literal('status'),
+    upload_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('complete'),
+    upload_id: z.number().int().positive(),
+    file_digest: z.string().min(64).max(64)
+  })
+]);
+// Team Evaluation Worker Schema
+export const TeamEvaluationWorkerSchema = z.object({
+  job_id: z.number().int().positive().optional(),
+  max_members: z.number().int().min(1).max(20).optional()
 });
+// Conversation Memory Schema
+export const ConversationMemorySchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('get'),
+    client_id: z.number().int().positive(),
+    conversation_id: z.number().int().positive()
+  }),
+  z.object({
+    action: z.literal('pin_fact'),
+    client_id: z.number().int().positive(),
+    conversation_id: z.number().int().positive(),
+    text: z.string().trim().min(1).max(300)
+  }),
+  z.object({
+    action: z.literal('remove_fact'),
+    client_id: z.number().int().positive(),
+    conversation_id: z.number().int().positive(),
+    fact_id: z.string().uuid()
+  }),
+  z.object({
+    action: z.literal('reset'),
+    client_id: z.number().int().positive(),
+    conversation_id: z.number().int().positive()
+  })
+]);
 /**
  * Validate request body against schema
  */ export async function validateRequestBody(req, schema, correlationId) {
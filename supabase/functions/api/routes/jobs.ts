@@ -3,10 +3,13 @@
 
 import { 
   assertAuth, 
+  assertClientAccess,
   generateCorrelationId,
   createErrorResponse,
+  apiErrorResponse,
   createSuccessResponse
 } from '../../_shared/auth.ts';
+import { jobQueue } from '../../_shared/job-queue.ts';
 
 export async function handleJobs(req: Request): Promise<Response> {
   const correlationId = generateCorrelationId();
@@ -57,30 +60,16 @@ export async function handleJobs(req: Request): Promise<Response> {
 
       switch (action) {
         case 'retry':
-          const { error: retryError } = await supabase
-            .from('jobs')
-            .update({ status: 'queued', updated_at: new Date().toISOString() })
-            .eq('id', job_id)
-            .in('status', ['failed', 'cancelled']);
+          await assertClientAccess(supabase, String(await jobQueue.clientOf(job_id)), user.id, 'editor');
+          const retried = await jobQueue.retry(job_id);
 
-          if (retryError) {
-            throw new Error(`Failed to retry job: ${retryError.message}`);
-          }
-
-          return createSuccessResponse('Job queued for retry', { job_id }, correlationId);
+          return createSuccessResponse(retried, correlationId);
 
         case 'cancel':
-          const { error: cancelError } = await supabase
-            .from('jobs')
-            .update({ status: 'cancelled', updated_at: new Date().toISOString() })
-            .eq('id', job_id)
-            .in('status', ['pending', 'queued', 'processing']);
-
-          if (cancelError) {
-            throw new Error(`Failed to cancel job: ${cancelError.message}`);
-          }
+          await assertClientAccess(supabase, String(await jobQueue.clientOf(job_id)), user.id, 'editor');
+          const cancelled = await jobQueue.cancel(job_id, user.id);
 
-          return createSuccessResponse('Job cancelled successfully', { job_id }, correlationId);
+          return createSuccessResponse(cancelled, correlationId);
 
         default:
           return createErrorResponse('E_INVALID_ACTION', 'Invalid action specified', 400, undefined, correlationId);
@@ -92,6 +81,8 @@ export async function handleJobs(req: Request): Promise<Response> {
   } catch (error: any) {
     console.error('Error in jobs handler:', error);
     if (error instanceof Response) return error;
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) return apiError;
     return createErrorResponse('E_INTERNAL_ERROR', 'Internal server error', 500, error.message, correlationId);
   }
 }
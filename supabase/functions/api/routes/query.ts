@@ -9,8 +9,14 @@ import {
 import { SSEStream } from '../../_shared/sse.ts';
 import { geminiClient } from '../../_shared/gemini.ts';
 import { driversManager } from '../../_shared/drivers.ts';
+import { evaluationStore } from '../../_shared/evaluations.ts';
 import { db } from '../../_shared/db.ts';
-import { mmr, dedupeChunks, formatCitations } from '../../_shared/mmr.ts';
+import { formatCitations } from '../../_shared/mmr.ts';
+import { rankChunks } from '../../_shared/ranking.ts';
+import { driverEvidence } from '../../_shared/driver-evidence.ts';
+import { policyEngine } from '../../_shared/policy.ts';
+import { consistencySampler } from '../../_shared/consistency.ts';
+import { peopleDirectory } from '../../_shared/people.ts';
 
 export async function handleQuery(req: Request): Promise<Response> {
   const correlationId = generateCorrelationId();
@@ -33,7 +39,7 @@ export async function handleQuery(req: Request): Promise<Response> {
 
     // Parse request body
     const body = await req.json();
-    const { client_id, conversation_id, question, filters, evaluation_mode, subject_user } = body;
+    const { client_id, conversation_id, question, evaluation_mode, subject_user } = body;
 
     // Validate required fields
     if (!client_id || !conversation_id || !question) {
@@ -75,6 +81,9 @@ export async function handleQuery(req: Request): Promise<Response> {
     // Check if conversation exists and belongs to client
     const conversation = await db.getConversation(conversation_id, client_id);
 
+    // A participant filter selects every alias of the same person
+    const filters = await peopleDirectory.expandFilters(client_id, body.filters);
+
     // Create SSE stream
     const stream = new SSEStream();
 
@@ -101,28 +110,55 @@ export async function handleQuery(req: Request): Promise<Response> {
       return stream.sendEvent('done', { query_id, latency_ms: Date.now() - t0 });
     }
 
-    // 1. RETRIEVAL - Hybrid search (vector + text)
-    let queryVec: number[] | undefined;
-    try {
-      queryVec = await db.getEmbeddings(question);
-    } catch (error) {
-      console.warn('Failed to get embeddings, proceeding with text search only:', error);
-    }
+    // Evaluations load their rubric up front so evidence can be retrieved per driver
+    const rubric = evaluation_mode && subject_user
+      ? await driversManager.getVersionedPayload(client_id)
+      : null;
 
-    const { vectorTop, textTop } = await db.hybridSearch({
-      client_id,
-      filters,
-      queryVec,
-      question
-    });
+    // 1. RETRIEVAL - one search per driver for evaluations, otherwise hybrid search (vector + text)
+    let reranked: any[];
+    let retrieved: number;
+    let insufficientDrivers: string[] = [];
+
+    if (rubric && rubric.drivers.length > 0) {
+      const evidence = await driverEvidence.gather({
+        client_id,
+        subject: subject_user,
+        rubric,
+        filters
+      });
+      reranked = evidence.chunks;
+      retrieved = evidence.chunks.length;
+      insufficientDrivers = evidence.insufficient;
+    } else {
+      let queryVec: number[] | null = null;
+      try {
+        queryVec = await db.getEmbeddings(question, client_id);
+      } catch (error) {
+        console.warn('Failed to get embeddings, proceeding with text search only:', error);
+      }
+
+      const { vectorTop, textTop } = await db.hybridSearch({
+        client_id,
+        filters,
+        queryVec,
+        question
+      });
 
-    // Combine and deduplicate results
-    const candidates = dedupeChunks([...vectorTop, ...textTop]);
+      // Fuse both legs, rerank and pick a diverse context set
+      reranked = await rankChunks({
+        question,
+        vectorResults: vectorTop,
+        textResults: textTop,
+        mmr: { lambda: 0.7, maxResults: 12 }
+      });
+      retrieved = vectorTop.length + textTop.length;
+    }
     
     // Check if this is a general question that doesn't need specific chat context
     const isGeneralQuestion = /^(hi|hello|hey|how are you|good morning|good afternoon|good evening|thanks?|thank you|bye|goodbye)$/i.test(question.trim());
     
-    if (candidates.length === 0 && !isGeneralQuestion) {
+    if (reranked.length === 0 && !isGeneralQuestion) {
       stream.sendEvent('token', 'No relevant information found in the chat data for your question.');
       const query_id = await db.insertQuery({
         conversation_id,
@@ -136,14 +172,12 @@ export async function handleQuery(req: Request): Promise<Response> {
       return stream.sendEvent('done', { query_id, latency_ms: Date.now() - t0 });
     }
 
-    // Rerank using MMR for diversity
-    const reranked = mmr(candidates, { lambda: 0.7, maxResults: 12 });
     const citations = formatCitations(reranked);
     
     // Update meta with retrieval info
     stream.sendEvent('meta', {
       corr_id: correlationId,
-      retrieved: candidates.length,
+      retrieved,
       mmr_kept: reranked.length,
       model: evaluation_mode ? 'gemini-1.5-pro' : 'gemini-1.5-flash'
     });
@@ -152,15 +186,13 @@ export async function handleQuery(req: Request): Promise<Response> {
     stream.sendEvent('citations', citations);
 
     // 2. EVALUATION MODE
-    if (evaluation_mode && subject_user) {
+    if (rubric) {
       try {
-        // Load drivers and evaluation policy
-        const rubric = await driversManager.getDriversPayload(client_id);
-        
-        // Enforce evidence policy
-        const policyCheck = driversManager.enforceEvidencePolicy(reranked, rubric.policy);
-        if (!policyCheck.ok) {
-          stream.sendEvent('token', `Not enough evidence to rate fairly: ${policyCheck.reason}`);
+        // Enforce the evidence rules of the policy before calling the model
+        const preReport = policyEngine.preCheck(reranked, rubric.policy);
+        if (!preReport.passed) {
+          stream.sendEvent('policy_report', preReport);
+          stream.sendEvent('token', `Not enough evidence to rate fairly: ${policyEngine.failureReason(preReport)}`);
           const query_id = await db.insertQuery({
             conversation_id,
             client_id,
@@ -174,17 +206,24 @@ export async function handleQuery(req: Request): Promise<Response> {
         }
 
         // Call Gemini for evaluation
-        const evalJson = await geminiClient.generateEvaluation(
-          subject_user,
+        const llm = await geminiClient.forClient(client_id);
+        const evalJson = await consistencySampler.evaluate(llm, {
+          subject: subject_user,
           question,
-          rubric.drivers,
-          rubric.instances,
+          drivers: rubric.drivers,
+          instances: rubric.instances,
+          policy: rubric.policy,
+          evidence: driversManager.compactEvidence(reranked),
+          insufficientDrivers
+        });
+
+        // Validate and clamp scores, then apply the citation and red-line rules
+        const validated = policyEngine.postCheck(
+          driversManager.validateAndClamp(evalJson, rubric.policy, rubric.drivers),
+          reranked,
           rubric.policy,
-          driversManager.compactEvidence(reranked)
+          preReport
         );
-
-        // Validate and clamp scores
-        const validated = driversManager.validateAndClamp(evalJson, rubric.policy, rubric.drivers);
         
         // Store query and evaluation
         const query_id = await db.insertQuery({
@@ -197,12 +236,22 @@ export async function handleQuery(req: Request): Promise<Response> {
           latency_ms: Date.now() - t0
         });
 
-        await db.insertEvaluation({
-          query_id,
+        const record = await evaluationStore.record({
           client_id,
-          rubric: rubric,
-          result: validated
+          subject: subject_user,
+          query_id,
+          conversation_id,
+          question,
+          rubric,
+          result: validated,
+          cited_chunk_ids: reranked.map((chunk) => chunk.id),
+          model_provider: llm.provider.name,
+          model_name: llm.model,
+          created_by: user.id
         });
+        validated.record_id = record.id;
+        validated.version = record.version;
+        validated.review_status = record.review_status;
 
         // Send evaluation payload and summary
         stream.sendEvent('evaluation_payload', validated);
@@ -255,39 +304,10 @@ export async function handleQuery(req: Request): Promise<Response> {
         }
       };
 
-      // Stream response from Gemini
-      const geminiStream = await geminiClient.streamGenerateContent(geminiRequest);
-      const reader = geminiStream.getReader();
-      const decoder = new TextDecoder();
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          // Parse the streaming response
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n');
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') break;
-              
-              try {
-                const parsed = JSON.parse(data);
-                if (parsed.candidates?.[0]?.content?.parts?.[0]?.text) {
-                  const text = parsed.candidates[0].content.parts[0].text;
-                  stream.sendEvent('token', text);
-                }
-              } catch (parseError) {
-                // Skip malformed JSON
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
+      // Stream response deltas from the client's model provider
+      const llm = await geminiClient.forClient(client_id);
+      for await (const text of llm.streamGenerateContent(geminiRequest)) {
+        stream.sendEvent('token', text);
       }
 
       // Store query with answer
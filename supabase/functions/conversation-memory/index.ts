@@ -0,0 +1,86 @@
+// Conversation Memory Edge Function
+// Rolling summary and established facts of a conversation: view them, pin or remove facts, or start over
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertAuth,
+  assertRoleIn,
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  apiErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, ConversationMemorySchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { conversationMemory } from '../_shared/conversation-memory.ts';
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Authenticate and restrict to the roles that can ask questions
+    const { user, supabase } = await assertAuth(req);
+    await assertRoleIn(supabase, user.id, ['admin', 'super_admin', 'manager']);
+
+    const body = await validateRequestBody(req, ConversationMemorySchema, correlationId);
+    await assertClientAccess(supabase, String(body.client_id), user.id);
+
+    switch (body.action) {
+      case 'get': {
+        const memory = await conversationMemory.get(body.client_id, body.conversation_id);
+        return createSuccessResponse({ memory }, correlationId);
+      }
+
+      case 'pin_fact': {
+        const fact = await conversationMemory.pin(body.client_id, body.conversation_id, body.text);
+        return createSuccessResponse({ fact }, correlationId);
+      }
+
+      case 'remove_fact': {
+        await conversationMemory.unpin(body.client_id, body.conversation_id, body.fact_id);
+        return createSuccessResponse({ removed: true }, correlationId);
+      }
+
+      case 'reset': {
+        await conversationMemory.reset(body.client_id, body.conversation_id);
+        return createSuccessResponse({ reset: true }, correlationId);
+      }
+    }
+
+  } catch (error: any) {
+    console.error('Error in conversation-memory:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -1,14 +1,17 @@
 // Drivers Create/Update Edge Function
-// Manages driver creation and updates for the Drivers & Values system
+// Manages drivers, behaviors, instances and evaluation policies for the Drivers & Values system.
+// Every edit stores an immutable rubric version for the edited scope (a client, or global).
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { 
   assertAuth, 
+  assertClientAccess,
   generateCorrelationId,
   createErrorResponse,
   createSuccessResponse 
 } from '../_shared/auth.ts';
 import { handleCors } from '../_shared/cors.ts';
+import { driversManager } from '../_shared/drivers.ts';
 
 interface DriverCreateRequest {
   name: string;
@@ -33,6 +36,27 @@ interface DriverInstanceRequest {
   tags?: string[];
 }
 
+interface PolicyUpdateRequest {
+  client_id?: number | null;
+  name?: string;
+  guidance?: string;
+  min_evidence_items?: number;
+  min_rooms_required?: number;
+  require_citations?: boolean;
+  scale_min?: number;
+  scale_max?: number;
+  consistency_samples?: number;
+  shuffle_evidence?: boolean;
+  red_lines?: string[];
+}
+
+interface EditContext {
+  supabase: any;
+  userId: string;
+  platformRole: string;
+  correlationId: string;
+}
+
 serve(async (req: Request) => {
   // Handle CORS preflight
   const corsResponse = handleCors(req);
@@ -83,20 +107,44 @@ serve(async (req: Request) => {
     }
 
     const body = await req.json();
-    const { action, driver, behaviors, instances } = body;
+    const { action, driver, behaviors, instances, policy } = body;
+    const ctx: EditContext = {
+      supabase,
+      userId: user.id,
+      platformRole: platformUser.platform_role,
+      correlationId
+    };
 
     switch (action) {
+      case 'get_rubric':
+        return await getRubric(ctx, body.client_id ?? null);
+
       case 'create_driver':
-        return await createDriver(supabase, user.id, driver, correlationId);
+        return await createDriver(ctx, driver);
       
       case 'update_driver':
-        return await updateDriver(supabase, user.id, driver, correlationId);
+        return await updateDriver(ctx, driver);
+
+      case 'set_driver_active':
+        return await setDriverActive(ctx, body.driver_id, body.is_active);
       
       case 'create_behaviors':
-        return await createBehaviors(supabase, user.id, behaviors, correlationId);
+        return await createBehaviors(ctx, behaviors);
       
       case 'create_instance':
-        return await createInstance(supabase, user.id, instances, correlationId);
+        return await createInstance(ctx, instances);
+
+      case 'delete_instance':
+        return await deleteInstance(ctx, body.instance_id);
+
+      case 'update_policy':
+        return await updatePolicy(ctx, policy);
+
+      case 'list_versions':
+        return await listVersions(ctx, body.client_id ?? null);
+
+      case 'get_version':
+        return await getVersion(ctx, body.version_id);
       
       default:
         return createErrorResponse(
@@ -125,15 +173,158 @@ serve(async (req: Request) => {
   }
 });
 
+/**
+ * Resolve a client scope check into an error response, or null when allowed.
+ * Global drivers and policies (client_id null) are editable by any admin.
+ */
+async function checkScopeAccess(ctx: EditContext, clientId: number | null | undefined): Promise<Response | null> {
+  if (clientId === null || clientId === undefined || ctx.platformRole === 'super_admin') {
+    return null;
+  }
+
+  try {
+    await assertClientAccess(ctx.supabase, String(clientId), ctx.userId);
+    return null;
+  } catch (error) {
+    if (error instanceof Response) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Store the scope's rubric as a new immutable version after an edit
+ */
+async function snapshotScope(ctx: EditContext, clientId: number | null, note: string) {
+  const version = await driversManager.snapshotRubric(clientId, {
+    createdBy: ctx.userId,
+    note
+  });
+  return { id: version.id, version: version.version, client_id: version.client_id };
+}
+
+async function getRubric(ctx: EditContext, clientId: number | null): Promise<Response> {
+  const { supabase, correlationId } = ctx;
+
+  try {
+    const denied = await checkScopeAccess(ctx, clientId);
+    if (denied) return denied;
+
+    // Drivers in scope, including inactive ones so they can be re-enabled
+    let driversQuery = supabase
+      .from('drivers')
+      .select(`
+        id,
+        key,
+        name,
+        description,
+        weight,
+        client_id,
+        negative_indicators,
+        is_active,
+        updated_at
+      `)
+      .order('weight', { ascending: false })
+      .order('id', { ascending: true });
+
+    driversQuery = clientId === null
+      ? driversQuery.is('client_id', null)
+      : driversQuery.or(`client_id.is.null,client_id.eq.${clientId}`);
+
+    const { data: drivers, error: driversError } = await driversQuery;
+    if (driversError) {
+      throw new Error(`Failed to load drivers: ${driversError.message}`);
+    }
+
+    const driverIds = (drivers || []).map((d: any) => d.id);
+
+    const { data: behaviors, error: behaviorsError } = await supabase
+      .from('driver_behaviors')
+      .select('driver_id, positive_examples, negative_examples')
+      .in('driver_id', driverIds)
+      .order('id', { ascending: true });
+
+    if (behaviorsError) {
+      throw new Error(`Failed to load driver behaviors: ${behaviorsError.message}`);
+    }
+
+    const { data: instances, error: instancesError } = await supabase
+      .from('driver_instances')
+      .select('id, driver_id, title, narrative, takeaway, tags, created_at')
+      .in('driver_id', driverIds)
+      .order('created_at', { ascending: true });
+
+    if (instancesError) {
+      throw new Error(`Failed to load driver instances: ${instancesError.message}`);
+    }
+
+    // Active policies for the client and the global fallback
+    let policiesQuery = supabase
+      .from('evaluation_policies')
+      .select(`
+        id,
+        client_id,
+        name,
+        version,
+        guidance,
+        min_evidence_items,
+        min_rooms_required,
+        require_citations,
+        scale_min,
+        scale_max,
+        consistency_samples,
+        shuffle_evidence,
+        red_lines,
+        updated_at
+      `)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false });
+
+    policiesQuery = clientId === null
+      ? policiesQuery.is('client_id', null)
+      : policiesQuery.or(`client_id.is.null,client_id.eq.${clientId}`);
+
+    const { data: policies, error: policiesError } = await policiesQuery;
+    if (policiesError) {
+      throw new Error(`Failed to load evaluation policies: ${policiesError.message}`);
+    }
+
+    const [latestVersion] = await driversManager.listRubricVersions(clientId, 1);
+
+    return createSuccessResponse(
+      {
+        client_id: clientId,
+        drivers: drivers || [],
+        behaviors: behaviors || [],
+        instances: instances || [],
+        policies: policies || [],
+        rubric_version: latestVersion || null
+      },
+      correlationId
+    );
+
+  } catch (error: any) {
+    console.error('Error loading rubric:', error);
+    return createErrorResponse(
+      'E_RUBRIC_LOAD_FAILED',
+      'Failed to load rubric',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+}
+
 async function createDriver(
-  supabase: any, 
-  userId: string, 
-  driverData: DriverCreateRequest, 
-  correlationId: string
+  ctx: EditContext,
+  driverData: DriverCreateRequest
 ): Promise<Response> {
+  const { supabase, userId, correlationId } = ctx;
+
   try {
     // Validate required fields
-    if (!driverData.name) {
+    if (!driverData?.name) {
       return createErrorResponse(
         'E_MISSING_FIELDS',
         'Driver name is required',
@@ -143,6 +334,9 @@ async function createDriver(
       );
     }
 
+    const denied = await checkScopeAccess(ctx, driverData.client_id);
+    if (denied) return denied;
+
     // Generate key if not provided
     if (!driverData.key) {
       driverData.key = driverData.name.toLowerCase().replace(/\s+/g, '_');
@@ -184,11 +378,9 @@ async function createDriver(
       throw new Error(`Failed to create driver: ${createError.message}`);
     }
 
-    return createSuccessResponse(
-      'Driver created successfully',
-      { driver },
-      correlationId
-    );
+    const rubric_version = await snapshotScope(ctx, driver.client_id, `Created driver ${driver.name}`);
+
+    return createSuccessResponse({ driver, rubric_version }, correlationId);
 
   } catch (error: any) {
     console.error('Error creating driver:', error);
@@ -203,14 +395,14 @@ async function createDriver(
 }
 
 async function updateDriver(
-  supabase: any, 
-  userId: string, 
-  driverData: DriverCreateRequest & { id: number }, 
-  correlationId: string
+  ctx: EditContext,
+  driverData: DriverCreateRequest & { id: number }
 ): Promise<Response> {
+  const { supabase, correlationId } = ctx;
+
   try {
     // Validate required fields
-    if (!driverData.id || !driverData.name) {
+    if (!driverData?.id || !driverData.name) {
       return createErrorResponse(
         'E_MISSING_FIELDS',
         'Driver ID and name are required',
@@ -237,6 +429,11 @@ async function updateDriver(
       );
     }
 
+    // Both the current and the requested scope must be editable
+    const denied = await checkScopeAccess(ctx, existingDriver.client_id) ||
+      await checkScopeAccess(ctx, driverData.client_id);
+    if (denied) return denied;
+
     // Update driver
     const { data: driver, error: updateError } = await supabase
       .from('drivers')
@@ -257,14 +454,87 @@ async function updateDriver(
       throw new Error(`Failed to update driver: ${updateError.message}`);
     }
 
-    return createSuccessResponse(
-      'Driver updated successfully',
-      { driver },
+    const rubric_version = await snapshotScope(ctx, driver.client_id, `Updated driver ${driver.name}`);
+    if (driver.client_id !== existingDriver.client_id) {
+      await snapshotScope(ctx, existingDriver.client_id, `Moved driver ${driver.name} out of this rubric`);
+    }
+
+    return createSuccessResponse({ driver, rubric_version }, correlationId);
+
+  } catch (error: any) {
+    console.error('Error updating driver:', error);
+    return createErrorResponse(
+      'E_DRIVER_UPDATE_FAILED',
+      'Failed to update driver',
+      500,
+      error.message,
       correlationId
     );
+  }
+}
+
+async function setDriverActive(
+  ctx: EditContext,
+  driverId: number,
+  isActive: boolean
+): Promise<Response> {
+  const { supabase, correlationId } = ctx;
+
+  try {
+    if (!driverId || typeof isActive !== 'boolean') {
+      return createErrorResponse(
+        'E_MISSING_FIELDS',
+        'Driver ID and is_active are required',
+        400,
+        undefined,
+        correlationId
+      );
+    }
+
+    const { data: existingDriver, error: checkError } = await supabase
+      .from('drivers')
+      .select('id, client_id')
+      .eq('id', driverId)
+      .single();
+
+    if (checkError || !existingDriver) {
+      return createErrorResponse(
+        'E_DRIVER_NOT_FOUND',
+        'Driver not found',
+        404,
+        undefined,
+        correlationId
+      );
+    }
+
+    const denied = await checkScopeAccess(ctx, existingDriver.client_id);
+    if (denied) return denied;
+
+    // Drivers are deactivated rather than deleted so old evaluations keep their driver rows
+    const { data: driver, error: updateError } = await supabase
+      .from('drivers')
+      .update({
+        is_active: isActive,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', driverId)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to update driver: ${updateError.message}`);
+    }
+
+    const rubric_version = await snapshotScope(
+      ctx,
+      driver.client_id,
+      `${isActive ? 'Enabled' : 'Disabled'} driver ${driver.name}`
+    );
+
+    return createSuccessResponse({ driver, rubric_version }, correlationId);
 
   } catch (error: any) {
-    console.error('Error updating driver:', error);
+    console.error('Error updating driver status:', error);
     return createErrorResponse(
       'E_DRIVER_UPDATE_FAILED',
       'Failed to update driver',
@@ -276,14 +546,14 @@ async function updateDriver(
 }
 
 async function createBehaviors(
-  supabase: any, 
-  userId: string, 
-  behaviorsData: DriverBehaviorRequest, 
-  correlationId: string
+  ctx: EditContext,
+  behaviorsData: DriverBehaviorRequest
 ): Promise<Response> {
+  const { supabase, correlationId } = ctx;
+
   try {
     // Validate required fields
-    if (!behaviorsData.driver_id || !behaviorsData.positive_examples || !behaviorsData.negative_examples) {
+    if (!behaviorsData?.driver_id || !behaviorsData.positive_examples || !behaviorsData.negative_examples) {
       return createErrorResponse(
         'E_MISSING_FIELDS',
         'Driver ID, positive examples, and negative examples are required',
@@ -296,7 +566,7 @@ async function createBehaviors(
     // Check if driver exists
     const { data: driver, error: driverError } = await supabase
       .from('drivers')
-      .select('id')
+      .select('id, name, client_id')
       .eq('id', behaviorsData.driver_id)
       .single();
 
@@ -310,28 +580,40 @@ async function createBehaviors(
       );
     }
 
-    // Create or update behaviors
-    const { data: behaviors, error: createError } = await supabase
+    const denied = await checkScopeAccess(ctx, driver.client_id);
+    if (denied) return denied;
+
+    // One behaviors row per driver: update it in place, or create it
+    const { data: existing, error: existingError } = await supabase
       .from('driver_behaviors')
-      .upsert({
-        driver_id: behaviorsData.driver_id,
-        positive_examples: behaviorsData.positive_examples,
-        negative_examples: behaviorsData.negative_examples
-      }, {
-        onConflict: 'driver_id'
-      })
-      .select()
-      .single();
+      .select('id')
+      .eq('driver_id', behaviorsData.driver_id)
+      .order('id', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (existingError) {
+      throw new Error(`Failed to load behaviors: ${existingError.message}`);
+    }
+
+    const row = {
+      driver_id: behaviorsData.driver_id,
+      behavior_text: behaviorsData.positive_examples[0] || null,
+      positive_examples: behaviorsData.positive_examples,
+      negative_examples: behaviorsData.negative_examples
+    };
+
+    const { data: behaviors, error: createError } = existing
+      ? await supabase.from('driver_behaviors').update(row).eq('id', existing.id).select().single()
+      : await supabase.from('driver_behaviors').insert(row).select().single();
 
     if (createError) {
       throw new Error(`Failed to create behaviors: ${createError.message}`);
     }
 
-    return createSuccessResponse(
-      'Behaviors created successfully',
-      { behaviors },
-      correlationId
-    );
+    const rubric_version = await snapshotScope(ctx, driver.client_id, `Updated behaviors for ${driver.name}`);
+
+    return createSuccessResponse({ behaviors, rubric_version }, correlationId);
 
   } catch (error: any) {
     console.error('Error creating behaviors:', error);
@@ -346,14 +628,14 @@ async function createBehaviors(
 }
 
 async function createInstance(
-  supabase: any, 
-  userId: string, 
-  instanceData: DriverInstanceRequest, 
-  correlationId: string
+  ctx: EditContext,
+  instanceData: DriverInstanceRequest
 ): Promise<Response> {
+  const { supabase, correlationId } = ctx;
+
   try {
     // Validate required fields
-    if (!instanceData.driver_id || !instanceData.title || !instanceData.narrative || !instanceData.takeaway) {
+    if (!instanceData?.driver_id || !instanceData.title || !instanceData.narrative || !instanceData.takeaway) {
       return createErrorResponse(
         'E_MISSING_FIELDS',
         'Driver ID, title, narrative, and takeaway are required',
@@ -366,7 +648,7 @@ async function createInstance(
     // Check if driver exists
     const { data: driver, error: driverError } = await supabase
       .from('drivers')
-      .select('id')
+      .select('id, name, client_id')
       .eq('id', instanceData.driver_id)
       .single();
 
@@ -380,6 +662,9 @@ async function createInstance(
       );
     }
 
+    const denied = await checkScopeAccess(ctx, driver.client_id);
+    if (denied) return denied;
+
     // Create instance
     const { data: instance, error: createError } = await supabase
       .from('driver_instances')
@@ -397,11 +682,9 @@ async function createInstance(
       throw new Error(`Failed to create instance: ${createError.message}`);
     }
 
-    return createSuccessResponse(
-      'Instance created successfully',
-      { instance },
-      correlationId
-    );
+    const rubric_version = await snapshotScope(ctx, driver.client_id, `Added instance "${instance.title}" to ${driver.name}`);
+
+    return createSuccessResponse({ instance, rubric_version }, correlationId);
 
   } catch (error: any) {
     console.error('Error creating instance:', error);
@@ -414,3 +697,259 @@ async function createInstance(
     );
   }
 }
+
+async function deleteInstance(
+  ctx: EditContext,
+  instanceId: string
+): Promise<Response> {
+  const { supabase, correlationId } = ctx;
+
+  try {
+    if (!instanceId) {
+      return createErrorResponse(
+        'E_MISSING_FIELDS',
+        'Instance ID is required',
+        400,
+        undefined,
+        correlationId
+      );
+    }
+
+    const { data: instance, error: instanceError } = await supabase
+      .from('driver_instances')
+      .select('id, title, driver:drivers(id, name, client_id)')
+      .eq('id', instanceId)
+      .single();
+
+    if (instanceError || !instance) {
+      return createErrorResponse(
+        'E_INSTANCE_NOT_FOUND',
+        'Instance not found',
+        404,
+        undefined,
+        correlationId
+      );
+    }
+
+    const denied = await checkScopeAccess(ctx, instance.driver?.client_id);
+    if (denied) return denied;
+
+    const { error: deleteError } = await supabase
+      .from('driver_instances')
+      .delete()
+      .eq('id', instanceId);
+
+    if (deleteError) {
+      throw new Error(`Failed to delete instance: ${deleteError.message}`);
+    }
+
+    const rubric_version = await snapshotScope(
+      ctx,
+      instance.driver?.client_id ?? null,
+      `Removed instance "${instance.title}" from ${instance.driver?.name}`
+    );
+
+    return createSuccessResponse({ deleted: instanceId, rubric_version }, correlationId);
+
+  } catch (error: any) {
+    console.error('Error deleting instance:', error);
+    return createErrorResponse(
+      'E_INSTANCE_DELETE_FAILED',
+      'Failed to delete instance',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+}
+
+async function updatePolicy(
+  ctx: EditContext,
+  policyData: PolicyUpdateRequest
+): Promise<Response> {
+  const { supabase, userId, correlationId } = ctx;
+
+  try {
+    if (!policyData) {
+      return createErrorResponse(
+        'E_MISSING_FIELDS',
+        'Policy is required',
+        400,
+        undefined,
+        correlationId
+      );
+    }
+
+    const clientId = policyData.client_id ?? null;
+    const denied = await checkScopeAccess(ctx, clientId);
+    if (denied) return denied;
+
+    if (
+      policyData.scale_min !== undefined &&
+      policyData.scale_max !== undefined &&
+      policyData.scale_min >= policyData.scale_max
+    ) {
+      return createErrorResponse(
+        'E_INVALID_POLICY',
+        'scale_min must be lower than scale_max',
+        400,
+        undefined,
+        correlationId
+      );
+    }
+
+    if (policyData.min_rooms_required !== undefined && policyData.min_rooms_required < 1) {
+      return createErrorResponse(
+        'E_INVALID_POLICY',
+        'min_rooms_required must be at least 1',
+        400,
+        undefined,
+        correlationId
+      );
+    }
+
+    if (
+      policyData.consistency_samples !== undefined &&
+      (!Number.isInteger(policyData.consistency_samples) ||
+        policyData.consistency_samples < 1 ||
+        policyData.consistency_samples > 5)
+    ) {
+      return createErrorResponse(
+        'E_INVALID_POLICY',
+        'consistency_samples must be a whole number between 1 and 5',
+        400,
+        undefined,
+        correlationId
+      );
+    }
+
+    // The scope's own active policy; the global one is never edited from a client scope
+    let existingQuery = supabase
+      .from('evaluation_policies')
+      .select('id')
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    existingQuery = clientId === null
+      ? existingQuery.is('client_id', null)
+      : existingQuery.eq('client_id', clientId);
+
+    const { data: existing, error: existingError } = await existingQuery.maybeSingle();
+    if (existingError) {
+      throw new Error(`Failed to load policy: ${existingError.message}`);
+    }
+
+    const fields = {
+      name: policyData.name,
+      guidance: policyData.guidance,
+      min_evidence_items: policyData.min_evidence_items,
+      min_rooms_required: policyData.min_rooms_required,
+      require_citations: policyData.require_citations,
+      scale_min: policyData.scale_min,
+      scale_max: policyData.scale_max,
+      consistency_samples: policyData.consistency_samples,
+      shuffle_evidence: policyData.shuffle_evidence,
+      red_lines: policyData.red_lines
+    };
+
+    // Updates bump evaluation_policies.version through its trigger
+    const { data: policy, error: saveError } = existing
+      ? await supabase
+          .from('evaluation_policies')
+          .update(fields)
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('evaluation_policies')
+          .insert({
+            ...fields,
+            name: policyData.name || 'Client Evaluation Policy',
+            scale: scaleFor(policyData.scale_min ?? 1, policyData.scale_max ?? 5),
+            client_id: clientId,
+            created_by: userId
+          })
+          .select()
+          .single();
+
+    if (saveError) {
+      throw new Error(`Failed to save policy: ${saveError.message}`);
+    }
+
+    const rubric_version = await snapshotScope(ctx, clientId, `Updated evaluation policy ${policy.name}`);
+
+    return createSuccessResponse({ policy, rubric_version }, correlationId);
+
+  } catch (error: any) {
+    console.error('Error updating policy:', error);
+    return createErrorResponse(
+      'E_POLICY_UPDATE_FAILED',
+      'Failed to update policy',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+}
+
+async function listVersions(ctx: EditContext, clientId: number | null): Promise<Response> {
+  const { correlationId } = ctx;
+
+  try {
+    const denied = await checkScopeAccess(ctx, clientId);
+    if (denied) return denied;
+
+    const versions = await driversManager.listRubricVersions(clientId);
+    return createSuccessResponse({ versions }, correlationId);
+
+  } catch (error: any) {
+    console.error('Error listing rubric versions:', error);
+    return createErrorResponse(
+      'E_RUBRIC_LOAD_FAILED',
+      'Failed to list rubric versions',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+}
+
+async function getVersion(ctx: EditContext, versionId: number): Promise<Response> {
+  const { correlationId } = ctx;
+
+  try {
+    const version = versionId ? await driversManager.getRubricVersion(versionId) : null;
+    if (!version) {
+      return createErrorResponse(
+        'E_NOT_FOUND',
+        'Rubric version not found',
+        404,
+        undefined,
+        correlationId
+      );
+    }
+
+    const denied = await checkScopeAccess(ctx, version.client_id);
+    if (denied) return denied;
+
+    return createSuccessResponse({ version }, correlationId);
+
+  } catch (error: any) {
+    console.error('Error loading rubric version:', error);
+    return createErrorResponse(
+      'E_RUBRIC_LOAD_FAILED',
+      'Failed to load rubric version',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+}
+
+// Map a numeric range onto the legacy evaluation_scale enum
+function scaleFor(min: number, max: number): string {
+  if (min === 1 && max === 5) return '1-5';
+  if (min === 1 && max === 10) return '1-10';
+  return 'custom';
+}
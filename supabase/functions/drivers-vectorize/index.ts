@@ -9,6 +9,9 @@ import {
   createSuccessResponse 
 } from '../_shared/auth.ts';
 import { handleCors } from '../_shared/cors.ts';
+import { providerRegistry } from '../_shared/providers.ts';
+import type { ProviderBinding } from '../_shared/providers.ts';
+import { driverEmbeddingText } from '../_shared/drivers.ts';
 
 serve(async (req: Request) => {
   // Handle CORS preflight
@@ -129,8 +132,9 @@ serve(async (req: Request) => {
       console.warn('No instances found for driver:', driver_id);
     }
 
-    // Generate embeddings for driver content
-    const embeddings = await generateDriverEmbeddings(driver, behaviors, instances);
+    // Generate embeddings for driver content with the client's embedding model
+    const binding = await providerRegistry.resolve(client_id || driver.client_id);
+    const embeddings = await generateDriverEmbeddings(binding, driver, behaviors, instances);
 
     // Store embeddings in the embeddings table
     const { error: insertError } = await supabase
@@ -147,7 +151,8 @@ serve(async (req: Request) => {
           instances: instances || []
         }),
         embedding: embeddings,
-        model: 'text-embedding-ada-002', // Default model
+        model_name: binding.embeddingModel,
+        dimension: embeddings.length,
         metadata: {
           driver_key: driver.key,
           driver_name: driver.name,
@@ -190,116 +195,17 @@ serve(async (req: Request) => {
 });
 
 async function generateDriverEmbeddings(
+  binding: ProviderBinding,
   driver: any, 
   behaviors: any, 
   instances: any[]
 ): Promise<number[]> {
   try {
     // Combine all driver content for embedding
-    let content = `Driver: ${driver.name}\n`;
-    
-    if (driver.description) {
-      content += `Description: ${driver.description}\n`;
-    }
-    
-    if (driver.key) {
-      content += `Key: ${driver.key}\n`;
-    }
-    
-    if (behaviors) {
-      if (behaviors.positive_examples && behaviors.positive_examples.length > 0) {
-        content += `Positive Examples: ${behaviors.positive_examples.join(', ')}\n`;
-      }
-      
-      if (behaviors.negative_examples && behaviors.negative_examples.length > 0) {
-        content += `Negative Examples: ${behaviors.negative_examples.join(', ')}\n`;
-      }
-    }
-    
-    if (instances && instances.length > 0) {
-      content += `Instances:\n`;
-      instances.forEach(instance => {
-        content += `- ${instance.title}: ${instance.takeaway}\n`;
-      });
-    }
-
-    // Call Google's text-embedding-gecko model for production embeddings
-    const serviceAccountJson = Deno.env.get('GOOGLE_SERVICE_ACCOUNT_JSON');
-    
-    if (!serviceAccountJson) {
-      throw new Error('GOOGLE_SERVICE_ACCOUNT_JSON environment variable not set');
-    }
-
-    const serviceAccount = JSON.parse(serviceAccountJson);
-    
-    // Create JWT token for Google Cloud
-    const header = {
-      alg: 'RS256',
-      typ: 'JWT'
-    };
-
-    const now = Math.floor(Date.now() / 1000);
-    const payload = {
-      iss: serviceAccount.client_email,
-      scope: 'https://www.googleapis.com/auth/cloud-platform',
-      aud: 'https://oauth2.googleapis.com/token',
-      exp: now + 3600,
-      iat: now
-    };
-
-    // Create JWT (simplified but functional)
-    const encodedHeader = btoa(JSON.stringify(header));
-    const encodedPayload = btoa(JSON.stringify(payload));
-    const data = `${encodedHeader}.${encodedPayload}`;
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(serviceAccount.private_key);
-    const signature = btoa(String.fromCharCode(...keyData.slice(0, 32)));
-    const jwt = `${data}.${signature}`;
-    
-    // Exchange JWT for access token
-    const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
-        assertion: jwt,
-      }),
-    });
-
-    if (!tokenResponse.ok) {
-      throw new Error('Failed to get access token for embeddings');
-    }
-
-    const tokenData = await tokenResponse.json();
-    const accessToken = tokenData.access_token;
-
-    // Call Google's text-embedding-gecko model
-    const projectId = Deno.env.get('GOOGLE_CLOUD_PROJECT_ID') || 'cellular-axon-458006-e1';
-    const location = Deno.env.get('GOOGLE_CLOUD_LOCATION') || 'us-central1';
-    
-    const embeddingResponse = await fetch(
-      `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/text-embedding-gecko:embedText`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: content
-        }),
-      }
-    );
-
-    if (!embeddingResponse.ok) {
-      const errorText = await embeddingResponse.text();
-      throw new Error(`Embedding API error: ${embeddingResponse.status} ${errorText}`);
-    }
+    const content = driverEmbeddingText(driver, behaviors, instances);
 
-    const embeddingData = await embeddingResponse.json();
-    return embeddingData.embedding.values;
+    const [vector] = await binding.provider.embed([content], { model: binding.embeddingModel });
+    return vector;
     
   } catch (error) {
     console.error('Error generating driver embeddings:', error);
@@ -9,10 +9,11 @@ import {
   createSuccessResponse 
 } from '../_shared/auth.ts';
 import { handleCors } from '../_shared/cors.ts';
-import { geminiClient } from '../_shared/gemini.ts';
-import { driversManager } from '../_shared/drivers.ts';
+import { evaluationStore } from '../_shared/evaluations.ts';
+import { evaluationPipeline } from '../_shared/evaluation-pipeline.ts';
+import { peopleDirectory } from '../_shared/people.ts';
 import { db } from '../_shared/db.ts';
-import { mmr, dedupeChunks, formatCitations } from '../_shared/mmr.ts';
+import { formatCitations } from '../_shared/mmr.ts';
 
 interface EvaluationRequest {
   client_id: number;
@@ -82,65 +83,37 @@ serve(async (req: Request) => {
     // Check if conversation exists and belongs to client
     const conversation = await db.getConversation(conversation_id, client_id);
 
-    // 1. RETRIEVAL - Hybrid search for evidence
-    let queryVec: number[] | undefined;
-    try {
-      queryVec = await db.getEmbeddings(question);
-    } catch (error) {
-      console.warn('Failed to get embeddings, proceeding with text search only:', error);
-    }
-
-    const { vectorTop, textTop } = await db.hybridSearch({
+    // 1-4. RETRIEVE EVIDENCE, ENFORCE THE POLICY AND SCORE AGAINST THE RUBRIC
+    const outcome = await evaluationPipeline.run({
       client_id,
-      filters,
-      queryVec,
-      question
+      subject: subject_user,
+      question,
+      // A participant filter selects every alias of the same person
+      filters: await peopleDirectory.expandFilters(client_id, filters)
     });
 
-    // Combine and deduplicate results
-    const candidates = dedupeChunks([...vectorTop, ...textTop]);
-    
-    if (candidates.length === 0) {
+    if (outcome.status === 'no_evidence') {
       return createErrorResponse(
         'E_NO_EVIDENCE',
-        'No relevant information found in the chat data for evaluation',
+        outcome.reason,
         400,
         undefined,
         correlationId
       );
     }
 
-    // Rerank using MMR for diversity
-    const reranked = mmr(candidates, { lambda: 0.7, maxResults: 12 });
-    const citations = formatCitations(reranked);
-
-    // 2. LOAD DRIVERS & EVALUATION POLICY
-    const rubric = await driversManager.getDriversPayload(client_id);
-    
-    // Enforce evidence policy
-    const policyCheck = driversManager.enforceEvidencePolicy(reranked, rubric.policy);
-    if (!policyCheck.ok) {
+    if (outcome.status === 'policy_blocked') {
       return createErrorResponse(
         'E_INSUFFICIENT_EVIDENCE',
-        policyCheck.reason || 'Insufficient evidence for evaluation',
+        outcome.reason,
         400,
-        undefined,
+        { policy_report: outcome.policy_report },
         correlationId
       );
     }
 
-    // 3. CALL GEMINI FOR EVALUATION
-    const evalJson = await geminiClient.generateEvaluation(
-      subject_user,
-      question,
-      rubric.drivers,
-      rubric.instances,
-      rubric.policy,
-      driversManager.compactEvidence(reranked)
-    );
-
-    // 4. VALIDATE AND CLAMP SCORES
-    const validated = driversManager.validateAndClamp(evalJson, rubric.policy, rubric.drivers);
+    const { rubric, evidence, evaluation: validated } = outcome;
+    const citations = formatCitations(evidence);
 
     // 5. STORE QUERY AND EVALUATION
     const query_id = await db.insertQuery({
@@ -153,23 +126,34 @@ serve(async (req: Request) => {
       latency_ms: Date.now() - t0
     });
 
-    await db.insertEvaluation({
-      query_id,
+    const record = await evaluationStore.record({
       client_id,
-      rubric: rubric,
-      result: validated
+      subject: subject_user,
+      query_id,
+      conversation_id,
+      question,
+      rubric,
+      result: validated,
+      cited_chunk_ids: evidence.map((chunk) => chunk.id),
+      model_provider: outcome.model_provider,
+      model_name: outcome.model_name,
+      created_by: user.id
     });
 
     // 6. RETURN EVALUATION RESULTS
     return createSuccessResponse(
-      'Evaluation completed successfully',
       {
         query_id,
+        evaluation_record_id: record.id,
+        evaluation_version: record.version,
+        review_status: record.review_status,
         evaluation: validated,
         citations,
         latency_ms: Date.now() - t0,
-        evidence_count: reranked.length,
-        drivers_evaluated: rubric.drivers.length
+        evidence_count: evidence.length,
+        drivers_evaluated: rubric.drivers.length,
+        insufficient_drivers: outcome.insufficient_drivers,
+        policy_report: validated.policy_report
       },
       correlationId
     );
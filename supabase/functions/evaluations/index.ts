@@ -0,0 +1,155 @@
+// Evaluations Edge Function
+// Evaluation history per person (approved records only), driver score trends and the review / sign-off workflow
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertAuth,
+  assertRoleIn,
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  apiErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, EvaluationHistorySchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { evaluationStore } from '../_shared/evaluations.ts';
+import { evaluationReviews } from '../_shared/evaluation-reviews.ts';
+
+// Sign-off decisions are limited to admins; managers can draft, adjust, submit and comment
+const SIGN_OFF_ROLES = ['admin', 'super_admin'];
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Authenticate and restrict to the roles that can run evaluations
+    const { user, supabase } = await assertAuth(req);
+    await assertRoleIn(supabase, user.id, ['admin', 'super_admin', 'manager']);
+
+    const body = await validateRequestBody(req, EvaluationHistorySchema, correlationId);
+    await assertClientAccess(supabase, String(body.client_id), user.id);
+
+    switch (body.action) {
+      case 'list_subjects': {
+        const subjects = await evaluationStore.listSubjects(body.client_id);
+        return createSuccessResponse({ subjects }, correlationId);
+      }
+
+      case 'history': {
+        const evaluations = await evaluationStore.history(body.client_id, body.subject, body.limit);
+        return createSuccessResponse({ evaluations }, correlationId);
+      }
+
+      case 'get': {
+        const evaluation = await evaluationStore.get(body.client_id, body.record_id);
+        if (!evaluation) {
+          return createErrorResponse(
+            'E_NOT_FOUND',
+            'Evaluation not found',
+            404,
+            undefined,
+            correlationId
+          );
+        }
+        return createSuccessResponse({ evaluation }, correlationId);
+      }
+
+      case 'trends': {
+        const trends = await evaluationStore.driverTrends(body.client_id, body.subject, {
+          bucket: body.bucket,
+          driverKey: body.driver_key
+        });
+        return createSuccessResponse({ bucket: body.bucket, trends }, correlationId);
+      }
+
+      case 'review_queue': {
+        const evaluations = await evaluationReviews.queue(body.client_id, body.status);
+        return createSuccessResponse({ evaluations }, correlationId);
+      }
+
+      case 'review': {
+        const evaluation = await evaluationStore.get(body.client_id, body.record_id);
+        if (!evaluation) {
+          return createErrorResponse(
+            'E_NOT_FOUND',
+            'Evaluation not found',
+            404,
+            undefined,
+            correlationId
+          );
+        }
+        const events = await evaluationReviews.events(body.client_id, body.record_id);
+        return createSuccessResponse({ evaluation, events }, correlationId);
+      }
+
+      case 'submit':
+      case 'approve':
+      case 'reject':
+      case 'reopen': {
+        if (body.action !== 'submit') {
+          await assertRoleIn(supabase, user.id, SIGN_OFF_ROLES);
+        }
+        const evaluation = await evaluationReviews.transition(
+          body.client_id,
+          body.record_id,
+          body.action,
+          user.id,
+          body.comment
+        );
+        return createSuccessResponse({ evaluation }, correlationId);
+      }
+
+      case 'adjust': {
+        const evaluation = await evaluationReviews.adjust(
+          body.client_id,
+          body.record_id,
+          body.adjustments,
+          user.id,
+          body.comment
+        );
+        return createSuccessResponse({ evaluation }, correlationId);
+      }
+
+      case 'comment': {
+        const event = await evaluationReviews.comment(body.client_id, body.record_id, user.id, body.comment);
+        return createSuccessResponse({ event }, correlationId);
+      }
+    }
+
+  } catch (error) {
+    console.error('Error in evaluations:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -0,0 +1,78 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertServiceRole,
+  generateCorrelationId,
+  createErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, IngestWorkerSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { ingestionPipeline } from '../_shared/ingestion.ts';
+import type { IngestJob, JobOutcome } from '../_shared/ingestion.ts';
+
+const DEFAULT_BATCH_SIZE = 3;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Only cron and internal callers may run the worker
+    assertServiceRole(req);
+
+    const { job_id, batch_size } = await validateRequestBody(
+      req,
+      IngestWorkerSchema,
+      correlationId
+    );
+
+    // Either run the job we were kicked for, or drain a batch from the queue
+    let jobs: IngestJob[];
+    if (job_id) {
+      const job = await ingestionPipeline.claimJob(job_id);
+      jobs = job ? [job] : [];
+    } else {
+      jobs = await ingestionPipeline.claimJobs(batch_size ?? DEFAULT_BATCH_SIZE);
+    }
+
+    const results: JobOutcome[] = [];
+    for (const job of jobs) {
+      console.log(`[${correlationId}] Processing job ${job.id} (${job.job_type})`);
+      results.push(await ingestionPipeline.processJob(job));
+    }
+
+    return createSuccessResponse({
+      claimed: jobs.length,
+      results
+    }, correlationId);
+
+  } catch (error) {
+    console.error('Error in ingest-worker:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -29,7 +29,7 @@ serve(async (req)=>{
       }, correlationId);
       return addCorsHeaders(errorResponse);
     }
-    // Update job status to queued (Cloud Run worker will pick this up)
+    // Update job status to queued (ingest-worker will pick this up)
     const { error: updateError } = await supabase.from('jobs').update({
       status: 'queued',
       updated_at: new Date().toISOString()
@@ -47,6 +47,19 @@ serve(async (req)=>{
       console.error('Error updating upload status:', uploadUpdateError);
     // Don't fail the request if upload update fails
     }
+    // Kick the ingest worker right away; the cron trigger picks the job up if this fails
+    fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/ingest-worker`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+      },
+      body: JSON.stringify({
+        job_id
+      })
+    }).catch((kickError)=>{
+      console.error('Error kicking ingest worker:', kickError);
+    });
     const successResponse = createSuccessResponse({
       accepted: true,
       job_id
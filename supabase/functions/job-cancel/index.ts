@@ -0,0 +1,70 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { 
+  assertAuth, 
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  apiErrorResponse,
+  createSuccessResponse 
+} from '../_shared/auth.ts';
+import { validateRequestBody, JobCancelSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { jobQueue } from '../_shared/job-queue.ts';
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Authenticate using anon key
+    const { user, supabase } = await assertAuth(req);
+
+    // Validate request body
+    const { job_id } = await validateRequestBody(
+      req,
+      JobCancelSchema,
+      correlationId
+    );
+
+    await assertClientAccess(supabase, String(await jobQueue.clientOf(job_id)), user.id, 'editor');
+
+    // Waiting jobs are cancelled now; a running job stops at its worker's next checkpoint
+    const result = await jobQueue.cancel(job_id, user.id);
+
+    return createSuccessResponse(result, correlationId);
+
+  } catch (error: any) {
+    console.error('Error in job-cancel:', error);
+    
+    if (error instanceof Response) {
+      return error;
+    }
+
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -1,12 +1,15 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { 
   assertAuth, 
+  assertClientAccess,
   generateCorrelationId,
   createErrorResponse,
+  apiErrorResponse,
   createSuccessResponse 
 } from '../_shared/auth.ts';
 import { validateRequestBody, JobRetrySchema } from '../_shared/validate.ts';
 import { handleCors } from '../_shared/cors.ts';
+import { jobQueue } from '../_shared/job-queue.ts';
 
 serve(async (req: Request) => {
   // Handle CORS preflight
@@ -37,58 +40,13 @@ serve(async (req: Request) => {
       correlationId
     );
 
-    // Check if job exists and is in failed status
-    const { data: job, error: jobError } = await supabase
-      .from('jobs')
-      .select('id, status, client_id')
-      .eq('id', job_id)
-      .single();
+    await assertClientAccess(supabase, String(await jobQueue.clientOf(job_id)), user.id, 'editor');
 
-    if (jobError) {
-      return createErrorResponse(
-        'E_JOB_NOT_FOUND',
-        'Job not found',
-        404,
-        jobError.message,
-        correlationId
-      );
-    }
-
-    if (job.status !== 'failed') {
-      return createErrorResponse(
-        'E_INVALID_JOB_STATUS',
-        'Only failed jobs can be retried',
-        400,
-        { current_status: job.status },
-        correlationId
-      );
-    }
-
-    // Reset job to pending status
-    const { error: updateError } = await supabase
-      .from('jobs')
-      .update({
-        status: 'pending',
-        error_code: null,
-        error_message: null,
-        updated_at: new Date().toISOString(),
-        updated_by: user.id,
-      })
-      .eq('id', job_id);
-
-    if (updateError) {
-      console.error('Error updating job status:', updateError);
-      return createErrorResponse(
-        'E_DATABASE_ERROR',
-        'Failed to reset job status',
-        500,
-        updateError.message,
-        correlationId
-      );
-    }
+    // Failed, dead-lettered and cancelled jobs go back to the queue with a fresh set of attempts
+    const result = await jobQueue.retry(job_id);
 
     return createSuccessResponse(
-      { queued: true, job_id },
+      { queued: true, ...result },
       correlationId
     );
 
@@ -99,6 +57,11 @@ serve(async (req: Request) => {
       return error;
     }
 
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
     return createErrorResponse(
       'E_INTERNAL_ERROR',
       'Internal server error',
@@ -91,25 +91,42 @@ serve(async (req: Request) => {
         room_id,
         upload_id,
         status,
+        stage,
         job_type,
         progress,
         total_items,
         processed_items,
+        counts_json,
+        error_code,
         error_message,
+        failed_attempts,
+        max_attempts,
+        run_after,
+        cancel_requested_at,
         started_at,
         completed_at,
         created_at,
         updated_at,
-        rooms!inner(
+        rooms(
           id,
           name,
           room_type,
           client_id
         ),
-        uploads!inner(
+        uploads(
           id,
           filename,
           original_filename
+        ),
+        job_attempts(
+          id,
+          attempt,
+          worker,
+          outcome,
+          error_code,
+          error_message,
+          started_at,
+          finished_at
         )
       `)
       .eq('client_id', clientId);
@@ -180,11 +197,20 @@ serve(async (req: Request) => {
       file_name: job.uploads?.filename || 'Unknown File',
       original_filename: job.uploads?.original_filename || 'Unknown File',
       status: job.status,
+      stage: job.stage,
       job_type: job.job_type,
       progress: job.progress || 0,
       total_items: job.total_items,
       processed_items: job.processed_items || 0,
+      counts_json: job.counts_json || {},
+      error_code: job.error_code,
       error_message: job.error_message,
+      failed_attempts: job.failed_attempts || 0,
+      max_attempts: job.max_attempts,
+      // When a queued job's next attempt becomes due after a failure
+      next_attempt_at: job.status === 'queued' ? job.run_after : null,
+      cancel_requested: !!job.cancel_requested_at,
+      attempts: (job.job_attempts || []).sort((a: any, b: any) => a.attempt - b.attempt),
       started_at: job.started_at,
       completed_at: job.completed_at,
       created_at: job.created_at,
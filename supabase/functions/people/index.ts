@@ -0,0 +1,136 @@
+// People Edge Function
+// Per-client people directory: people and their aliases, merges, alias suggestions from ingest and unlinked senders
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertAuth,
+  assertRoleIn,
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  apiErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, PeopleSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { peopleDirectory } from '../_shared/people.ts';
+
+// Merging and deleting rewrites the links of every chunk and evaluation of a person
+const MERGE_ROLES = ['admin', 'super_admin'];
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Authenticate and restrict to the roles that run evaluations
+    const { user, supabase } = await assertAuth(req);
+    await assertRoleIn(supabase, user.id, ['admin', 'super_admin', 'manager']);
+
+    const body = await validateRequestBody(req, PeopleSchema, correlationId);
+    await assertClientAccess(supabase, String(body.client_id), user.id);
+
+    switch (body.action) {
+      case 'list': {
+        const people = await peopleDirectory.list(body.client_id);
+        return createSuccessResponse({ people }, correlationId);
+      }
+
+      case 'create': {
+        const person = await peopleDirectory.create(body.client_id, body.display_name, body.aliases, user.id);
+        return createSuccessResponse({ person }, correlationId);
+      }
+
+      case 'update': {
+        const person = await peopleDirectory.update(
+          body.client_id,
+          body.person_id,
+          { display_name: body.display_name, notes: body.notes },
+          user.id
+        );
+        return createSuccessResponse({ person }, correlationId);
+      }
+
+      case 'delete': {
+        await assertRoleIn(supabase, user.id, MERGE_ROLES);
+        await peopleDirectory.remove(body.client_id, body.person_id);
+        return createSuccessResponse({ deleted: true }, correlationId);
+      }
+
+      case 'add_alias': {
+        const person = await peopleDirectory.addAlias(body.client_id, body.person_id, body.alias, user.id);
+        return createSuccessResponse({ person }, correlationId);
+      }
+
+      case 'remove_alias': {
+        const person = await peopleDirectory.removeAlias(body.client_id, body.alias_id);
+        return createSuccessResponse({ person }, correlationId);
+      }
+
+      case 'merge': {
+        await assertRoleIn(supabase, user.id, MERGE_ROLES);
+        const person = await peopleDirectory.merge(body.client_id, body.source_person_id, body.target_person_id);
+        return createSuccessResponse({ person }, correlationId);
+      }
+
+      case 'suggestions': {
+        const suggestions = await peopleDirectory.suggestions(body.client_id);
+        return createSuccessResponse({ suggestions }, correlationId);
+      }
+
+      case 'accept_suggestion': {
+        const person = await peopleDirectory.acceptSuggestion(
+          body.client_id,
+          body.suggestion_id,
+          user.id,
+          body.person_id
+        );
+        return createSuccessResponse({ person }, correlationId);
+      }
+
+      case 'dismiss_suggestion': {
+        await peopleDirectory.dismissSuggestion(body.client_id, body.suggestion_id, user.id);
+        return createSuccessResponse({ dismissed: true }, correlationId);
+      }
+
+      case 'unlinked': {
+        const participants = await peopleDirectory.unlinked(body.client_id, body.limit);
+        return createSuccessResponse({ participants }, correlationId);
+      }
+    }
+
+  } catch (error) {
+    console.error('Error in people:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
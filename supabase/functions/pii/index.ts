@@ -0,0 +1,90 @@
+// PII Edge Function
+// Per-client redaction policy, policy preview on sample text and audited reveal of tokenised values
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertAuth,
+  assertRoleIn,
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  apiErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, PiiSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { piiRedactor } from '../_shared/redaction.ts';
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Redaction settings and the vault are admin-only
+    const { user, supabase } = await assertAuth(req);
+    await assertRoleIn(supabase, user.id, ['admin', 'super_admin']);
+
+    const body = await validateRequestBody(req, PiiSchema, correlationId);
+    await assertClientAccess(supabase, String(body.client_id), user.id);
+
+    switch (body.action) {
+      case 'get_policy': {
+        const policy = await piiRedactor.getPolicy(body.client_id);
+        return createSuccessResponse({ policy }, correlationId);
+      }
+
+      case 'update_policy': {
+        const policy = await piiRedactor.updatePolicy(
+          body.client_id,
+          { enabled: body.enabled, categories: body.categories },
+          user.id
+        );
+        return createSuccessResponse({ policy }, correlationId);
+      }
+
+      case 'preview': {
+        const preview = await piiRedactor.preview(body.client_id, body.text, body.categories);
+        return createSuccessResponse(preview, correlationId);
+      }
+
+      case 'reveal': {
+        const values = await piiRedactor.reveal(body.client_id, body.tokens, user.id, body.chunk_id);
+        return createSuccessResponse({ values }, correlationId);
+      }
+    }
+
+  } catch (error) {
+    console.error('Error in pii:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -7,8 +7,17 @@ import { SSEStream, handleSSEError } from '../_shared/sse.ts';
 import { handleCors, addCorsHeaders } from '../_shared/cors.ts';
 import { geminiClient } from '../_shared/gemini.ts';
 import { driversManager } from '../_shared/drivers.ts';
+import { evaluationStore } from '../_shared/evaluations.ts';
 import { db } from '../_shared/db.ts';
-import { mmr, dedupeChunks, formatCitations, formatChunkTimestamp } from '../_shared/mmr.ts';
+import { formatCitations, formatChunkTimestamp } from '../_shared/mmr.ts';
+import { rankChunks } from '../_shared/ranking.ts';
+import { driverEvidence } from '../_shared/driver-evidence.ts';
+import { policyEngine } from '../_shared/policy.ts';
+import { consistencySampler } from '../_shared/consistency.ts';
+import { peopleDirectory } from '../_shared/people.ts';
+import { conversationMemory } from '../_shared/conversation-memory.ts';
+import { queryPlanner } from '../_shared/query-planner.ts';
+import type { QueryPlan } from '../_shared/query-planner.ts';
 // Enhanced Intelligent Query Classification System
 class IntelligentQueryClassifier {
   static async classifyQueryWithLLM(question, geminiClient) {
@@ -154,35 +163,6 @@ Classification:`;
     return await this.classifyQueryWithLLM(question, geminiClient);
   }
 }
-// Conversation context manager
-class ConversationManager {
-  static async getConversationContext(supabase, conversation_id, limit = 10) {
-    try {
-      const { data, error } = await supabase.from('queries').select('question, answer, created_at').eq('conversation_id', conversation_id).order('created_at', {
-        ascending: false
-      }).limit(limit);
-      if (error) {
-        console.warn('Failed to get conversation context:', error);
-        return [];
-      }
-      return (data || []).reverse(); // Reverse to get chronological order
-    } catch (error) {
-      console.warn('Error getting conversation context:', error);
-      return [];
-    }
-  }
-  static formatContextForGemini(context) {
-    if (!context || context.length === 0) {
-      return '';
-    }
-    const contextText = context.map((item)=>{
-      const question = item.question || '';
-      const answer = item.answer || '';
-      return `User: ${question}\nAssistant: ${answer}`;
-    }).join('\n\n');
-    return `Previous conversation context:\n${contextText}\n\n`;
-  }
-}
 // Subject extraction for evaluation mode
 class SubjectExtractor {
   static async extractSubjectFromQuestion(question, geminiClient) {
@@ -266,13 +246,15 @@ serve(async (req)=>{
     // Authenticate using anon key
     const { user, supabase } = await assertAuth(req);
     // Validate request body
-    const { client_id, conversation_id, question, filters } = await validateRequestBody(req, QuerySchema, correlationId);
+    const { client_id, conversation_id, question, filters: requestedFilters, ignore_plan } = await validateRequestBody(req, QuerySchema, correlationId);
     // Check client access
     const hasAccess = await db.hasClientAccess(user.id, client_id);
     if (!hasAccess) {
       const errorResponse = createErrorResponse('E_FORBIDDEN_CLIENT', 'Access denied to this client', 403, undefined, correlationId);
       return addCorsHeaders(errorResponse);
     }
+    // A participant filter selects every alias of the same person; planned filters are added once the question is planned
+    let filters = await peopleDirectory.expandFilters(client_id, requestedFilters);
     // Check if client exists
     let client;
     try {
@@ -291,9 +273,14 @@ serve(async (req)=>{
       const errorResponse = createErrorResponse('E_CONVERSATION_NOT_FOUND', 'Conversation not found', 404, undefined, correlationId);
       return addCorsHeaders(errorResponse);
     }
-    // Create SSE stream
+    // Create SSE stream. Closing it (client disconnect or done) aborts any model call still in flight
     console.log('Creating SSE stream...');
-    const stream = new SSEStream(correlationId);
+    const abortController = new AbortController();
+    const signal = abortController.signal;
+    const stream = new SSEStream(correlationId, ()=>abortController.abort());
+    // Search query the question was planned into, and the plan itself, recorded with the query
+    let search_query: string | null = null;
+    let query_plan: QueryPlan | null = null;
     // Helper function for error handling
     async function handleError(queryType) {
       const query_id = await db.insertQuery({
@@ -301,6 +288,8 @@ serve(async (req)=>{
         client_id,
         user_id: user.id,
         question,
+        search_query,
+        plan: query_plan,
         filters: filters || {},
         evaluation_mode: queryType === 'evaluation',
         latency_ms: Date.now() - t0
@@ -315,36 +304,81 @@ serve(async (req)=>{
     const processRequest = async ()=>{
       try {
         console.log('🚀 Starting processRequest...');
+        // Model provider and chat model configured for this client
+        const llm = await geminiClient.forClient(client_id);
+        // STEP 0: LOAD CONVERSATION MEMORY AND RESOLVE FOLLOW-UPS
+        // Summary, established facts and recent turns; a follow-up such as "what about her deadlines?"
+        // is classified and searched as a standalone query, while the answer still addresses the question as asked
+        console.log('💬 Step 0: Loading conversation memory...');
+        let memory = null;
+        try {
+          memory = await conversationMemory.load(conversation_id, client_id);
+        } catch (memoryError) {
+          console.warn('⚠️ Could not load conversation memory, proceeding without it:', memoryError);
+        }
+        const contextText = memory ? conversationMemory.format(memory) : '';
+        const { query: searchQuestion, rewritten } = memory ? await conversationMemory.rewrite(llm, question, memory) : {
+          query: question,
+          rewritten: false
+        };
+        if (rewritten) {
+          console.log(`🔁 Follow-up rewritten for search: "${searchQuestion}"`);
+        }
+        // STEP 1: PLAN THE QUERY
+        // Intent, search query and the dates ("in March", "Q2 2025", "since the pitch"), people and rooms
+        // the question names. Planned filters fill the ones not chosen in the UI, and the plan goes out
+        // with the meta event so users can see how their question was read and drop parts of it
+        console.log('🧭 Step 1: Planning query...');
+        const plan = await queryPlanner.plan(llm, {
+          clientId: client_id,
+          question: searchQuestion,
+          context: contextText,
+          ignore: ignore_plan
+        });
+        query_plan = plan;
+        if (plan.search_query !== question) {
+          search_query = plan.search_query;
+        }
+        filters = await peopleDirectory.expandFilters(client_id, queryPlanner.applyToFilters(plan, requestedFilters));
+        console.log('🧭 Query plan:', JSON.stringify(plan));
         // Send initial meta event
         stream.meta({
           corr_id: correlationId,
           client_id,
           conversation_id,
-          filters
+          filters,
+          plan,
+          ...search_query ? {
+            search_query
+          } : {}
         });
         console.log('📡 Meta event sent');
-        // STEP 1: CLASSIFY QUERY TYPE USING ENHANCED LLM
-        console.log('🤖 Step 1: Classifying query type...');
-        const queryType = await IntelligentQueryClassifier.classifyQuery(question, geminiClient);
+        // A plan from the fallback patterns carries no intent, so the classifier decides
+        const queryType = plan.source === 'llm' || plan.ignored.includes('intent') ? plan.intent : await IntelligentQueryClassifier.classifyQuery(searchQuestion, llm);
+        if (signal.aborted) {
+          console.log('🛑 Client disconnected, stopping before retrieval');
+          return;
+        }
         console.log(`✅ Query classified as: ${queryType}`);
         console.log(`📝 Question: "${question}"`);
         // STEP 2: EXTRACT SUBJECT FOR EVALUATION (if applicable)
         let subject_user = null;
         if (queryType === 'evaluation') {
           console.log('👤 Step 2: Extracting subject for evaluation...');
-          subject_user = await SubjectExtractor.extractSubjectFromQuestion(question, geminiClient);
+          subject_user = plan.people.find((person)=>person.role === 'subject')?.name || await SubjectExtractor.extractSubjectFromQuestion(searchQuestion, llm);
           if (!subject_user) {
             console.log('⚠️ No subject found for evaluation, switching to RAG mode');
             return await handleRAGMode();
           }
+          // Aliases of a person in the directory evaluate (and record) under their canonical name
+          const person = await peopleDirectory.resolve(client_id, subject_user);
+          if (person) {
+            console.log(`👤 Subject resolved to ${person.display_name} (person ${person.person_id}, by ${person.matched_by})`);
+            subject_user = person.display_name;
+          }
           console.log(`✅ Subject extracted: ${subject_user}`);
         }
-        // STEP 3: GET CONVERSATION CONTEXT
-        console.log('💬 Step 3: Getting conversation context...');
-        const conversationContext = await ConversationManager.getConversationContext(supabase, conversation_id);
-        const contextText = ConversationManager.formatContextForGemini(conversationContext);
-        console.log(`✅ Found ${conversationContext.length} previous messages in conversation`);
-        // STEP 4: ROUTE BASED ON QUERY TYPE
+        // STEP 3: ROUTE BASED ON QUERY TYPE
         if (queryType === 'casual') {
           console.log('🗣️ Route: CASUAL CONVERSATION MODE');
           return await handleCasualConversation();
@@ -364,27 +398,20 @@ serve(async (req)=>{
             console.log('🎭 Processing casual conversation with ATOM persona...');
             // Send empty citations for casual mode
             stream.citations([]);
-            // Call Gemini directly using the specialized casual method
-            console.log('🤖 Calling Gemini for casual response...');
-            const fullResponse = await geminiClient.generateCasualResponse(question, contextText);
-            // FIXED: Stream word by word instead of character by character
-            const words = fullResponse.split(' ');
-            for(let i = 0; i < words.length; i++){
-              let wordToSend = words[i];
-              // Add space after each word except the last one
-              if (i < words.length - 1) {
-                wordToSend += ' ';
-              }
-              stream.token(wordToSend);
-              // Small delay for smooth streaming
-              await new Promise((resolve)=>setTimeout(resolve, 50));
-            }
+            // Stream the casual response straight from the model
+            console.log('🤖 Streaming casual response...');
+            const fullResponse = await llm.streamCasualResponse(question, contextText, stream, {
+              signal
+            });
+            if (signal.aborted) return;
             // Store casual query
             const query_id = await db.insertQuery({
               conversation_id,
               client_id,
               user_id: user.id,
               question,
+              search_query,
+              plan: query_plan,
               filters: filters || {},
               evaluation_mode: false,
               latency_ms: Date.now() - t0
@@ -397,6 +424,7 @@ serve(async (req)=>{
             });
           } catch (error) {
             console.error('❌ Casual conversation error:', error);
+            if (signal.aborted) return;
             stream.token('Sorry, I encountered an error. Please try again.');
             await handleError('casual');
           }
@@ -410,60 +438,31 @@ serve(async (req)=>{
           let vectorResults = [];
           let textResults = [];
           // STEP 1: ANALYZE QUESTION FOR BETTER SEARCH STRATEGY
-          const isTimeBasedQuery = /\b(last (week|month|day|year)|past (week|month)|in the last|within|yesterday|today|this week|this month)/i.test(question);
-          const isRecencyQuery = /\b(latest|most recent|newest|last|recent|when was the last|what.*latest)\b/i.test(question);
-          const isSpecificPersonQuery = /\b[A-Z][a-z]+\b/.test(question); // Detect person names
-          const isDeadlineQuery = /\b(deadline|due date|late|missed|failed to meet|behind schedule)/i.test(question);
-          const isSpecificInstanceQuery = /\b(instances?|examples?|times|occasions?|has \w+ ever|failed to meet|missed|deadline)/i.test(question);
+          // Dates, people and rooms were read by the query planner and are already part of filters
+          const isTimeBasedQuery = !!plan.date_range;
+          const isRecencyQuery = plan.recency;
+          const isDeadlineQuery = /\b(deadline|due date|late|missed|failed to meet|behind schedule)/i.test(searchQuestion);
+          const isSpecificInstanceQuery = /\b(instances?|examples?|times|occasions?|has \w+ ever|failed to meet|missed|deadline)/i.test(searchQuestion);
           console.log('🔍 Enhanced query analysis:', {
             isTimeBasedQuery,
             isRecencyQuery,
-            isSpecificPersonQuery,
             isDeadlineQuery,
             isSpecificInstanceQuery,
-            originalQuestion: question
+            originalQuestion: question,
+            searchQuery: plan.search_query
           });
           // STEP 2: ENHANCE SEARCH QUERY AND FILTERS
-          let enhancedQuestion = question;
+          let enhancedQuestion = plan.search_query;
           let enhancedFilters = {
             ...filters
           } || {};
-          // Extract and apply time-based filters
-          if (isTimeBasedQuery) {
-            const timeMatch = question.match(/\b(last|past) (\w+)/i);
-            if (timeMatch) {
-              const period = timeMatch[2].toLowerCase();
-              const now = new Date();
-              let daysBack = 30; // default
-              switch(period){
-                case 'week':
-                  daysBack = 7;
-                  break;
-                case 'month':
-                  daysBack = 30;
-                  break;
-                case 'day':
-                  daysBack = 1;
-                  break;
-                case 'year':
-                  daysBack = 365;
-                  break;
-              }
-              const startDate = new Date(now.getTime() - daysBack * 24 * 60 * 60 * 1000);
-              enhancedFilters.date_from = startDate.toISOString();
-              enhancedFilters.date_to = now.toISOString();
-              console.log(`📅 Applied time filter: ${period} (${daysBack} days back)`);
-              console.log(`📅 Date range: ${startDate.toLocaleDateString()} to ${now.toLocaleDateString()}`);
-            }
+          if (plan.date_range) {
+            console.log(`📅 Planned date range: ${plan.date_range.label} (${plan.date_range.from || 'start'} to ${plan.date_range.to || 'now'})`);
           }
-          // Extract person name for targeted search
-          let targetPerson = null;
-          if (isSpecificPersonQuery) {
-            const nameMatch = question.match(/\b([A-Z][a-z]+)\b/);
-            if (nameMatch) {
-              targetPerson = nameMatch[1];
-              console.log(`👤 Target person identified: ${targetPerson}`);
-            }
+          // People named in the question, by their directory names, for targeted search
+          const targetPerson = plan.people.map((person)=>person.name).join(' ') || null;
+          if (targetPerson) {
+            console.log(`👤 Target people identified: ${targetPerson}`);
           }
           // Add keyword-specific filters for deadline queries
           if (isDeadlineQuery) {
@@ -484,7 +483,7 @@ serve(async (req)=>{
           try {
             // Get embeddings for the enhanced question
             const searchQuery = targetPerson ? `${enhancedQuestion} ${targetPerson}` : enhancedQuestion;
-            queryVec = await db.getEmbeddings(searchQuery);
+            queryVec = await db.getEmbeddings(searchQuery, client_id);
             if (queryVec === null) {
               console.warn('⚠️ Embeddings disabled, proceeding with text search only');
             } else {
@@ -501,22 +500,9 @@ serve(async (req)=>{
             await db.debugRecentChunks(client_id, 10);
             // For recency queries, use the new enhanced method
             try {
-              // Parse room type from question - look for "zoho cliq", "whatsapp", etc.
-              let roomTypeFilter = null;
-              let roomNameFilter = null;
-              if (/zoho\s+cliq/i.test(question)) {
-                roomTypeFilter = 'internal';
-                roomNameFilter = 'cliq';
-                console.log('🎯 Filtering for Zoho Cliq (internal) rooms');
-              } else if (/whatsapp/i.test(question)) {
-                roomTypeFilter = 'external';
-                console.log('🎯 Filtering for WhatsApp (external) rooms');
-              }
               const recentChunks = await db.getRecentChunks(client_id, {
                 limit: 20,
-                roomType: roomTypeFilter,
-                roomName: roomNameFilter,
-                sinceDate: null // Get all recent, regardless of date
+                filters // Filters chosen in the UI and rooms, people and dates from the plan
               });
               if (recentChunks && recentChunks.length > 0) {
                 vectorResults = recentChunks;
@@ -580,18 +566,19 @@ serve(async (req)=>{
               textResults = [];
             }
           }
-          // STEP 4: ENHANCED RERANK AND DEDUPE WITH TIME PREFERENCE
-          console.log('🎯 Step 4: Enhanced reranking and deduplicating results...');
-          const allCandidates = dedupeChunks([
-            ...vectorResults,
-            ...textResults
-          ]);
-          // Apply enhanced MMR with time and keyword preferences
-          const rankedChunks = mmr(allCandidates, {
-            lambda: isRecencyQuery ? 0.6 : 0.7,
-            maxResults: isTimeBasedQuery || isRecencyQuery ? 15 : 12,
-            diversityWeight: isRecencyQuery ? 0.2 : 0.3,
-            recencyWeight: isRecencyQuery ? 0.6 : isTimeBasedQuery ? 0.4 : 0.2 // Highest recency weight for latest queries
+          // STEP 4: RANK WITH RRF FUSION, RERANKING AND EMBEDDING MMR
+          console.log('🎯 Step 4: Fusing, reranking and diversifying results...');
+          const rankedChunks = await rankChunks({
+            question: searchQuestion,
+            vectorResults,
+            textResults,
+            // Apply enhanced MMR with time preferences
+            mmr: {
+              lambda: isRecencyQuery ? 0.6 : 0.7,
+              maxResults: isTimeBasedQuery || isRecencyQuery ? 15 : 12,
+              diversityWeight: isRecencyQuery ? 0.2 : 0.3,
+              recencyWeight: isRecencyQuery ? 0.6 : isTimeBasedQuery ? 0.4 : 0.2 // Highest recency weight for latest queries
+            }
           });
           console.log('✅ Enhanced ranking completed - Final chunks:', rankedChunks.length);
           // STEP 5: ENHANCED CITATION FORMATTING
@@ -614,9 +601,9 @@ serve(async (req)=>{
           try {
             console.log('💬 Processing enhanced RAG Q&A...');
             // Query analysis
-            const isSpecificInstanceQuery = /\b(instances?|examples?|times|occasions?|has \w+ ever|failed to meet|missed|deadline)/i.test(question);
-            const isTimeBasedQuery = /\b(last (week|month|day)|past (week|month)|in the last|within|yesterday|today)/i.test(question);
-            const isRecencyQuery = /\b(latest|most recent|newest|last|recent|when was the last|what.*latest)\b/i.test(question);
+            const isSpecificInstanceQuery = /\b(instances?|examples?|times|occasions?|has \w+ ever|failed to meet|missed|deadline)/i.test(searchQuestion);
+            const isTimeBasedQuery = !!plan.date_range;
+            const isRecencyQuery = plan.recency;
             console.log('🔍 Query analysis for RAG:', {
               isSpecificInstanceQuery,
               isTimeBasedQuery,
@@ -681,7 +668,7 @@ ${driversContext}`;
 TASK: Analyze chat conversations within the specified time period.
 
 INSTRUCTIONS:
-- Focus on the specific time period mentioned in the question
+- Focus on the specific time period mentioned in the question (${plan.date_range?.label})
 - Pay attention to timestamps and chronological order
 - Highlight relevant events or conversations within that timeframe
 - If data lacks sufficient time information, mention this limitation
@@ -692,28 +679,14 @@ ${driversContext}`;
               systemPrompt = `You are ATOM, a virtual employee at Ting Works LLP analyzing chat conversations. Answer questions using the provided chat context and conversation history. Include relevant citations referring to chunk IDs when referencing specific information. Be conversational and helpful.${driversContext}`;
             }
             // Include conversation context
-            const fullContextText = `${conversationContext.length > 0 ? contextText + '\n\n' : ''}Chat Data Context:\n${contextData}`;
-            console.log('🤖 Calling Gemini for enhanced RAG response...');
-            // USE THE NEW GEMINI METHOD INSTEAD OF LOCAL STREAMING
-            const fullResponse = await geminiClient.generateDirectResponse(question, fullContextText, systemPrompt, isSpecificInstanceQuery);
-            // Send the response through streaming for UX
-            // REPLACE the RAG streaming section with this:
-            if (fullResponse && fullResponse.length > 0) {
-              // FIXED: Stream word by word with proper spacing
-              const words = fullResponse.split(' ');
-              // Send each word individually with proper spacing to prevent concatenation issues
-              for(let i = 0; i < words.length; i++){
-                let wordToSend = words[i];
-                // Add space after each word except the last one
-                if (i < words.length - 1) {
-                  wordToSend += ' ';
-                }
-                console.log(`📡 [DEBUG] Sending word ${i + 1}/${words.length}:`, `"${wordToSend}"`, 'Length:', wordToSend.length);
-                stream.token(wordToSend);
-                // Increased delay to ensure proper token processing
-                await new Promise((resolve)=>setTimeout(resolve, 100));
-              }
-            } else {
+            const fullContextText = `${contextText ? contextText + '\n\n' : ''}Chat Data Context:\n${contextData}`;
+            if (signal.aborted) return;
+            console.log('🤖 Streaming enhanced RAG response...');
+            const fullResponse = await llm.generateStreamingResponse(question, fullContextText, systemPrompt, stream, isSpecificInstanceQuery, {
+              signal
+            });
+            if (signal.aborted) return;
+            if (!fullResponse) {
               stream.token('No response generated. Please try rephrasing your question.');
             }
             // Store query with answer
@@ -722,6 +695,8 @@ ${driversContext}`;
               client_id,
               user_id: user.id,
               question,
+              search_query,
+              plan: query_plan,
               filters: filters || {},
               evaluation_mode: false,
               latency_ms: Date.now() - t0
@@ -735,6 +710,7 @@ ${driversContext}`;
             });
           } catch (error) {
             console.error('❌ Enhanced RAG Q&A error:', error);
+            if (signal.aborted) return;
             stream.token('Sorry, I encountered an error generating the response. Please try again.');
             await handleError('rag');
           }
@@ -745,72 +721,103 @@ ${driversContext}`;
         async function handleEvaluationMode() {
           try {
             console.log('📊 Processing contextual evaluation mode...');
-            // First perform search to get evidence
-            console.log('🔍 Getting evidence for evaluation...');
-            let queryVec = null;
-            let vectorResults = [];
-            let textResults = [];
-            try {
-              queryVec = await db.getEmbeddings(question);
-              if (queryVec === null) {
-                console.warn('⚠️ Embeddings disabled for evaluation, proceeding with text search only');
-              }
-            } catch (error) {
-              console.warn('❌ Failed to get embeddings for evaluation:', error);
-              queryVec = null;
-            }
-            // Perform search for evidence - try to get diverse room coverage
-            try {
-              let searchResults;
-              // First try: search with subject name to get relevant evidence
-              searchResults = await db.hybridSearch({
+            // Load drivers and evaluation policy from database
+            console.log('📋 Loading drivers and evaluation policy from database...');
+            const rubric = await driversManager.getVersionedPayload(client_id);
+            // DEBUG: Log the drivers being loaded from DB
+            console.log('📋 Loaded drivers from DB:', rubric.drivers.map((d)=>({
+                id: d.id,
+                key: d.key,
+                name: d.name
+              })));
+            console.log('📋 Total drivers:', rubric.drivers.length);
+            console.log('📋 Loaded instances from DB:', rubric.instances.length);
+            console.log('📋 Evaluation policy from DB:', rubric.policy.name);
+            let rankedChunks;
+            let insufficientDrivers = [];
+            if (rubric.drivers.length > 0) {
+              // One search per driver over the subject's messages, so every driver gets its own evidence
+              console.log('🔍 Getting evidence per driver for evaluation...');
+              const driverEvidenceSet = await driverEvidence.gather({
                 client_id,
-                filters: filters || {},
-                queryVec,
-                question: `${question} ${subject_user}` // Include subject in search
+                subject: subject_user,
+                rubric,
+                filters: filters || {}
               });
-              vectorResults = searchResults.vectorTop || [];
-              textResults = searchResults.textTop || [];
-              // If we don't have enough room diversity, try a broader search
-              const combinedResults = [
-                ...vectorResults,
-                ...textResults
-              ];
-              const rooms = new Set(combinedResults.map((r)=>r.room_id));
-              if (rooms.size < 2 && combinedResults.length > 0) {
-                console.log(`⚠️ Only found evidence in ${rooms.size} room(s), trying broader search...`);
-                // Try searching just the subject name across all rooms
-                const broaderSearch = await db.hybridSearch({
+              rankedChunks = driverEvidenceSet.chunks;
+              insufficientDrivers = driverEvidenceSet.insufficient;
+              if (insufficientDrivers.length > 0) {
+                console.log('⚠️ No evidence for drivers:', insufficientDrivers);
+              }
+            } else {
+              // No drivers to search for: gather evidence around the question and subject
+              console.log('🔍 Getting evidence for evaluation...');
+              let queryVec = null;
+              let vectorResults = [];
+              let textResults = [];
+              try {
+                queryVec = await db.getEmbeddings(searchQuestion, client_id);
+                if (queryVec === null) {
+                  console.warn('⚠️ Embeddings disabled for evaluation, proceeding with text search only');
+                }
+              } catch (error) {
+                console.warn('❌ Failed to get embeddings for evaluation:', error);
+                queryVec = null;
+              }
+              // Perform search for evidence - try to get diverse room coverage
+              try {
+                let searchResults;
+                // First try: search with subject name to get relevant evidence
+                searchResults = await db.hybridSearch({
                   client_id,
                   filters: filters || {},
-                  queryVec: await db.getEmbeddings(subject_user),
-                  question: subject_user
+                  queryVec,
+                  question: `${searchQuestion} ${subject_user}` // Include subject in search
                 });
-                // Merge results
-                vectorResults = [
+                vectorResults = searchResults.vectorTop || [];
+                textResults = searchResults.textTop || [];
+                // If we don't have enough room diversity, try a broader search
+                const combinedResults = [
                   ...vectorResults,
-                  ...broaderSearch.vectorTop || []
-                ];
-                textResults = [
-                  ...textResults,
-                  ...broaderSearch.textTop || []
+                  ...textResults
                 ];
+                const rooms = new Set(combinedResults.map((r)=>r.room_id));
+                if (rooms.size < 2 && combinedResults.length > 0) {
+                  console.log(`⚠️ Only found evidence in ${rooms.size} room(s), trying broader search...`);
+                  // Try searching just the subject name across all rooms
+                  const broaderSearch = await db.hybridSearch({
+                    client_id,
+                    filters: filters || {},
+                    queryVec: await db.getEmbeddings(subject_user, client_id),
+                    question: subject_user
+                  });
+                  // Merge results
+                  vectorResults = [
+                    ...vectorResults,
+                    ...broaderSearch.vectorTop || []
+                  ];
+                  textResults = [
+                    ...textResults,
+                    ...broaderSearch.textTop || []
+                  ];
+                }
+                console.log('✅ Evidence search completed - Vector:', vectorResults.length, 'Text:', textResults.length);
+              } catch (error) {
+                console.error('❌ Evidence search failed:', error);
+                vectorResults = [];
+                textResults = [];
               }
-              console.log('✅ Evidence search completed - Vector:', vectorResults.length, 'Text:', textResults.length);
-            } catch (error) {
-              console.error('❌ Evidence search failed:', error);
-              vectorResults = [];
-              textResults = [];
+              // Fuse, rerank and diversify evidence
+              rankedChunks = await rankChunks({
+                question: `${searchQuestion} ${subject_user}`,
+                vectorResults,
+                textResults,
+                mmr: {
+                  lambda: 0.7,
+                  maxResults: 15 // More evidence for evaluation
+                }
+              });
             }
-            // Rerank and dedupe evidence
-            const allCandidates = dedupeChunks([
-              ...vectorResults,
-              ...textResults
-            ]);
-            const rankedChunks = mmr(allCandidates, {
-              lambda: 0.7,
-              maxResults: 15 // More evidence for evaluation
-            });
             console.log('✅ Evidence gathered:', rankedChunks.length, 'chunks');
             // Send citations for evaluation evidence
             const citationsList = formatCitations(rankedChunks);
@@ -820,31 +827,22 @@ ${driversContext}`;
               stream.token(`I couldn't find any evidence about ${subject_user} in the chat data to perform an evaluation.`);
               return await handleError('evaluation');
             }
-            // Load drivers and evaluation policy from database
-            console.log('📋 Loading drivers and evaluation policy from database...');
-            const rubric = await driversManager.getDriversPayload(client_id);
-            // DEBUG: Log the drivers being loaded from DB
-            console.log('📋 Loaded drivers from DB:', rubric.drivers.map((d)=>({
-                id: d.id,
-                key: d.key,
-                name: d.name
-              })));
-            console.log('📋 Total drivers:', rubric.drivers.length);
-            console.log('📋 Loaded instances from DB:', rubric.instances.length);
-            console.log('📋 Evaluation policy from DB:', rubric.policy.name);
             // Handle cases where no drivers are configured - provide general evaluation
             if (!rubric.drivers || rubric.drivers.length === 0) {
               console.log('⚠️ No drivers configured in DB, providing general contextual evaluation...');
-              // Provide a general qualitative evaluation without specific drivers
-              const generalEvaluation = await geminiClient.generateGeneralEvaluation(subject_user, question, driversManager.compactEvidence(rankedChunks));
-              // Send the general evaluation as text response
-              stream.token(generalEvaluation);
+              // Stream a general qualitative evaluation without specific drivers
+              const generalEvaluation = await llm.streamGeneralEvaluation(subject_user, question, driversManager.compactEvidence(rankedChunks), stream, {
+                signal
+              });
+              if (signal.aborted) return;
               // Store as a regular query (not evaluation mode since no drivers)
               const query_id = await db.insertQuery({
                 conversation_id,
                 client_id,
                 user_id: user.id,
                 question,
+                search_query,
+                plan: query_plan,
                 filters: filters || {},
                 evaluation_mode: false,
                 latency_ms: Date.now() - t0
@@ -858,20 +856,25 @@ ${driversContext}`;
               });
               return;
             }
-            // Enforce evidence policy - BUT allow single room if that's all we have
-            const policyCheck = driversManager.enforceEvidencePolicy(rankedChunks, rubric.policy);
-            if (!policyCheck.ok) {
-              // If it's just a room diversity issue and we have sufficient evidence otherwise, be more lenient
-              if (policyCheck.reason?.includes('room diversity') && rankedChunks.length >= 3) {
-                console.log('⚠️ Room diversity requirement not met, but proceeding with sufficient evidence from single room');
-              } else {
-                stream.token(`Not enough evidence about ${subject_user} to provide a fair evaluation: ${policyCheck.reason}`);
-                return await handleError('evaluation');
-              }
+            // Enforce the evidence rules of the policy (room diversity is configured per policy)
+            const preReport = policyEngine.preCheck(rankedChunks, rubric.policy);
+            if (!preReport.passed) {
+              stream.policyReport(preReport);
+              stream.token(`Not enough evidence about ${subject_user} to provide a fair evaluation: ${policyEngine.failureReason(preReport)}`);
+              return await handleError('evaluation');
             }
-            // Call Gemini for CONTEXTUAL evaluation
+            // Call Gemini for CONTEXTUAL evaluation (structured JSON, so not streamed)
+            if (signal.aborted) return;
             console.log('🤖 Calling Gemini for contextual evaluation with company values...');
-            const evalJson = await geminiClient.generateEvaluation(subject_user, question, rubric.drivers, rubric.instances, rubric.policy, driversManager.compactEvidence(rankedChunks));
+            const evalJson = await consistencySampler.evaluate(llm, {
+              subject: subject_user,
+              question,
+              drivers: rubric.drivers,
+              instances: rubric.instances,
+              policy: rubric.policy,
+              evidence: driversManager.compactEvidence(rankedChunks),
+              insufficientDrivers
+            });
             // DEBUG: Log what Gemini returned
             console.log('🤖 Gemini contextual evaluation result:', JSON.stringify(evalJson, null, 2));
             // VALIDATE THAT GEMINI RETURNED VALID SCORES
@@ -881,8 +884,10 @@ ${driversContext}`;
               console.log('🔍 Evidence summary:', rankedChunks.map((c)=>c.text?.substring(0, 100)));
               // Fallback to general evaluation if structured evaluation fails
               console.log('🔄 Falling back to general evaluation...');
-              const generalEvaluation = await geminiClient.generateGeneralEvaluation(subject_user, question, driversManager.compactEvidence(rankedChunks));
-              stream.token(generalEvaluation);
+              await llm.streamGeneralEvaluation(subject_user, question, driversManager.compactEvidence(rankedChunks), stream, {
+                signal
+              });
+              if (signal.aborted) return;
               return await handleError('evaluation');
             }
             // Validate that scores have valid driver references
@@ -896,30 +901,47 @@ ${driversContext}`;
             // Final check after filtering
             if (evalJson.scores.length === 0) {
               console.log('🔄 No valid scores after filtering, falling back to general evaluation...');
-              const generalEvaluation = await geminiClient.generateGeneralEvaluation(subject_user, question, driversManager.compactEvidence(rankedChunks));
-              stream.token(generalEvaluation);
+              await llm.streamGeneralEvaluation(subject_user, question, driversManager.compactEvidence(rankedChunks), stream, {
+                signal
+              });
+              if (signal.aborted) return;
               return await handleError('evaluation');
             }
-            // Validate and clamp scores
-            const validated = driversManager.validateAndClamp(evalJson, rubric.policy, rubric.drivers);
+            // Validate and clamp scores, then apply the citation and red-line rules
+            const validated = policyEngine.postCheck(driversManager.validateAndClamp(evalJson, rubric.policy, rubric.drivers), rankedChunks, rubric.policy, preReport);
+            if (validated.policy_report.withheld_scores.length > 0 || validated.policy_report.total_withheld) {
+              console.log('⚠️ Policy withheld scores:', validated.policy_report.withheld_scores, 'total withheld:', validated.policy_report.total_withheld);
+            }
             // Store query and evaluation
             const query_id = await db.insertQuery({
               conversation_id,
               client_id,
               user_id: user.id,
               question,
+              search_query,
+              plan: query_plan,
               filters: filters || {},
               evaluation_mode: true,
               latency_ms: Date.now() - t0
             });
             // Insert evaluation with enhanced error handling
             try {
-              await db.insertEvaluation({
-                query_id,
+              const record = await evaluationStore.record({
                 client_id,
-                rubric: rubric,
-                result: validated
+                subject: subject_user,
+                query_id,
+                conversation_id,
+                question,
+                rubric,
+                result: validated,
+                cited_chunk_ids: rankedChunks.map((chunk)=>chunk.id),
+                model_provider: llm.provider.name,
+                model_name: llm.model,
+                created_by: user.id
               });
+              validated.record_id = record.id;
+              validated.version = record.version;
+              validated.review_status = record.review_status;
               console.log('✅ Contextual evaluation stored successfully');
             } catch (insertError) {
               console.error('❌ Error inserting evaluation:', insertError);
@@ -937,6 +959,7 @@ ${driversContext}`;
             });
           } catch (error) {
             console.error('❌ Contextual evaluation error:', error);
+            if (signal.aborted) return;
             stream.token('Sorry, I encountered an error while performing the evaluation. Please try again.');
             await handleError('evaluation');
           }
@@ -948,7 +971,8 @@ ${driversContext}`;
     };
     // Start processing in background
     console.log('🚀 Starting background processing...');
-    processRequest();
+    // Fold older turns into the conversation memory once the answer is stored
+    processRequest().then(()=>conversationMemory.refresh(conversation_id, client_id));
     // Return the SSE response
     console.log('📡 Returning SSE response to client...');
     return stream.createResponse();
@@ -0,0 +1,116 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertServiceRole,
+  generateCorrelationId,
+  createErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, ReindexWorkerSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { embeddingReindexer } from '../_shared/reindexing.ts';
+import type { ReindexBatchOutcome, ReindexTargetOutcome } from '../_shared/reindexing.ts';
+
+// Chunks claimed per batch; batches run until the time budget is spent
+const DEFAULT_BATCH_SIZE = 100;
+const TIME_BUDGET_MS = 100_000;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+  const deadline = Date.now() + TIME_BUDGET_MS;
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Only cron and internal callers may run the worker
+    assertServiceRole(req);
+
+    const { batch_size } = await validateRequestBody(req, ReindexWorkerSchema, correlationId);
+    const batchSize = batch_size ?? DEFAULT_BATCH_SIZE;
+
+    const batches: ReindexBatchOutcome[] = [];
+    const targets = new Map<string, { client_id: number; target_model: string }>();
+    let drained = false;
+    let retryLater = false;
+
+    while (Date.now() < deadline) {
+      const jobs = await embeddingReindexer.claimJobs(batchSize);
+      if (jobs.length === 0) {
+        drained = true;
+        break;
+      }
+
+      console.log(`[${correlationId}] Re-embedding ${jobs.length} chunks`);
+      const outcomes = await embeddingReindexer.processJobs(jobs);
+      batches.push(...outcomes);
+      for (const job of jobs) {
+        targets.set(`${job.client_id}:${job.target_model}`, { client_id: job.client_id, target_model: job.target_model });
+      }
+
+      // Failed chunks go back to pending; leave their next attempt to the next cron tick
+      if (outcomes.some((outcome) => outcome.failed > 0)) {
+        retryLater = true;
+        break;
+      }
+    }
+
+    // Switch clients whose target model now covers every chunk
+    const finished: ReindexTargetOutcome[] = [];
+    for (const { client_id, target_model } of Array.from(targets.values())) {
+      finished.push(await embeddingReindexer.finishTarget(client_id, target_model));
+    }
+
+    const settled = await embeddingReindexer.settleSwitches();
+
+    // Continue right away instead of waiting for the next cron tick
+    const more = !drained || settled.requeued > 0 || finished.some((target) => target.requeued > 0);
+    if (more && !retryLater) {
+      fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/reindex-worker`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+        },
+        body: JSON.stringify({ batch_size })
+      }).catch((kickError) => {
+        console.error('Error re-kicking reindex worker:', kickError);
+      });
+    }
+
+    return createSuccessResponse({
+      embedded: batches.reduce((total, batch) => total + batch.embedded, 0),
+      failed: batches.reduce((total, batch) => total + batch.failed, 0),
+      batches,
+      targets: finished,
+      requeued: settled.requeued,
+      pruned: settled.pruned
+    }, correlationId);
+
+  } catch (error) {
+    console.error('Error in reindex-worker:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
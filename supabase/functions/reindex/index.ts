@@ -1,12 +1,16 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { 
   assertAuth, 
+  assertRoleIn,
+  assertClientAccess,
   generateCorrelationId,
   createErrorResponse,
+  apiErrorResponse,
   createSuccessResponse 
 } from '../_shared/auth.ts';
 import { validateRequestBody, ReindexSchema } from '../_shared/validate.ts';
 import { handleCors } from '../_shared/cors.ts';
+import { embeddingReindexer } from '../_shared/reindexing.ts';
 
 serve(async (req: Request) => {
   // Handle CORS preflight
@@ -29,9 +33,10 @@ serve(async (req: Request) => {
 
     // Authenticate using anon key
     const { user, supabase } = await assertAuth(req);
+    await assertRoleIn(supabase, user.id, ['super_admin', 'admin']);
 
     // Validate request body
-    const { client_id, room_ids, date_from, date_to } = await validateRequestBody(
+    const { client_id, room_ids, date_from, date_to, embedding_model } = await validateRequestBody(
       req,
       ReindexSchema,
       correlationId
@@ -54,78 +59,42 @@ serve(async (req: Request) => {
       );
     }
 
-    // Build query for chunks to reindex
-    let query = supabase
-      .from('chunks')
-      .select('id, room_id')
-      .eq('client_id', client_id);
+    await assertClientAccess(supabase, String(client_id), user.id);
 
-    if (room_ids && room_ids.length > 0) {
-      query = query.in('room_id', room_ids);
-    }
-
-    if (date_from) {
-      query = query.gte('first_ts', date_from);
-    }
-
-    if (date_to) {
-      query = query.lte('last_ts', date_to);
-    }
-
-    // Get chunks to reindex
-    const { data: chunks, error: chunksError } = await query;
-    if (chunksError) {
-      console.error('Error fetching chunks:', chunksError);
-      return createErrorResponse(
-        'E_DATABASE_ERROR',
-        'Failed to fetch chunks for reindexing',
-        500,
-        chunksError.message,
-        correlationId
-      );
-    }
-
-    if (!chunks || chunks.length === 0) {
-      return createSuccessResponse(
-        { 
-          reindexed: true, 
-          chunks_processed: 0,
-          message: 'No chunks found matching the criteria'
-        },
-        correlationId
-      );
-    }
-
-    // Create reindex jobs for each chunk
-    const reindexJobs = chunks.map(chunk => ({
-      chunk_id: chunk.id,
-      room_id: chunk.room_id,
+    // One reindex job per chunk in scope; the reindex-worker embeds them in batches
+    const { target_model, active_model, jobs_created } = await embeddingReindexer.enqueue({
       client_id,
-      status: 'pending',
-      type: 'reindex',
+      embedding_model,
+      room_ids,
+      date_from,
+      date_to,
       created_by: user.id,
-    }));
-
-    const { error: jobsError } = await supabase
-      .from('reindex_jobs')
-      .insert(reindexJobs);
-
-    if (jobsError) {
-      console.error('Error creating reindex jobs:', jobsError);
-      return createErrorResponse(
-        'E_DATABASE_ERROR',
-        'Failed to create reindex jobs',
-        500,
-        jobsError.message,
-        correlationId
-      );
+    });
+
+    if (jobs_created > 0) {
+      // Kick the worker right away; the cron trigger picks the jobs up if this fails
+      fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/reindex-worker`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+        },
+        body: JSON.stringify({})
+      }).catch((kickError) => {
+        console.error('Error kicking reindex worker:', kickError);
+      });
     }
 
     return createSuccessResponse(
       { 
-        reindexed: true, 
-        chunks_processed: chunks.length,
-        jobs_created: reindexJobs.length
+        reindexed: jobs_created > 0, 
+        chunks_processed: jobs_created,
+        jobs_created,
+        target_model,
+        active_model,
+        // Search switches to the target model once every chunk of the client has a vector of it
+        switch_pending: target_model !== active_model,
+        ...(jobs_created === 0 ? { message: 'No chunks to queue: none match the criteria or they are already queued' } : {})
       },
       correlationId
     );
@@ -137,6 +106,11 @@ serve(async (req: Request) => {
       return error;
     }
 
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
     return createErrorResponse(
       'E_INTERNAL_ERROR',
       'Internal server error',
@@ -0,0 +1,108 @@
+// Retrieval Eval Edge Function
+// Golden questions, offline eval runs and run comparison for the retrieval pipeline
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertAuth,
+  assertRoleIn,
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, RetrievalEvalSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { retrievalEvaluator } from '../_shared/retrieval-eval.ts';
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Authenticate and restrict to the roles that tune retrieval
+    const { user, supabase } = await assertAuth(req);
+    await assertRoleIn(supabase, user.id, ['admin', 'super_admin', 'backend']);
+
+    const body = await validateRequestBody(req, RetrievalEvalSchema, correlationId);
+    await assertClientAccess(supabase, String(body.client_id), user.id, 'admin');
+
+    switch (body.action) {
+      case 'create_question': {
+        if (body.expected_chunk_ids.length === 0 && body.expected_facts.length === 0) {
+          return createErrorResponse(
+            'E_BAD_INPUT',
+            'Provide expected_chunk_ids or expected_facts',
+            400,
+            undefined,
+            correlationId
+          );
+        }
+        const question = await retrievalEvaluator.createQuestion(body.client_id, user.id, body);
+        return createSuccessResponse({ question }, correlationId);
+      }
+
+      case 'list_questions': {
+        const questions = await retrievalEvaluator.listQuestions(body.client_id);
+        return createSuccessResponse({ questions }, correlationId);
+      }
+
+      case 'import_feedback': {
+        const imported = await retrievalEvaluator.importFeedbackLabels(
+          body.client_id,
+          user.id,
+          body.capture_embeddings
+        );
+        return createSuccessResponse(imported, correlationId);
+      }
+
+      case 'run': {
+        const { action: _action, client_id, ...config } = body;
+        const run = await retrievalEvaluator.run(client_id, user.id, config);
+        return createSuccessResponse(run, correlationId);
+      }
+
+      case 'list_runs': {
+        const runs = await retrievalEvaluator.listRuns(body.client_id, body.limit);
+        return createSuccessResponse({ runs }, correlationId);
+      }
+
+      case 'compare_runs': {
+        const comparison = await retrievalEvaluator.compareRuns(
+          body.client_id,
+          body.base_run_id,
+          body.candidate_run_id
+        );
+        return createSuccessResponse(comparison, correlationId);
+      }
+    }
+
+  } catch (error) {
+    console.error('Error in retrieval-eval:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -0,0 +1,102 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertAuth,
+  assertCanCreateClient,
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, RoomIngestSettingsSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Authenticate using anon key
+    const { user, supabase } = await assertAuth(req);
+
+    // Same roles that can create rooms can change how their files are imported
+    await assertCanCreateClient(supabase, user.id);
+
+    // Validate request body
+    const { room_id, ingest_settings } = await validateRequestBody(
+      req,
+      RoomIngestSettingsSchema,
+      correlationId
+    );
+
+    const { data: room, error: roomError } = await supabase
+      .from('rooms')
+      .select('id, client_id')
+      .eq('id', room_id)
+      .single();
+
+    if (roomError || !room) {
+      return createErrorResponse(
+        'E_ROOM_NOT_FOUND',
+        'Room not found',
+        404,
+        roomError?.message,
+        correlationId
+      );
+    }
+
+    await assertClientAccess(supabase, room.client_id, user.id, 'admin');
+
+    const { error: updateError } = await supabase
+      .from('rooms')
+      .update({
+        ingest_settings,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', room_id);
+
+    if (updateError) {
+      console.error('Error updating room settings:', updateError);
+      return createErrorResponse(
+        'E_DATABASE_ERROR',
+        'Failed to update room settings',
+        500,
+        updateError.message,
+        correlationId
+      );
+    }
+
+    return createSuccessResponse(
+      { room_id, ingest_settings },
+      correlationId
+    );
+
+  } catch (error: any) {
+    console.error('Error in rooms-settings:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -0,0 +1,99 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertServiceRole,
+  generateCorrelationId,
+  createErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, TeamEvaluationWorkerSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { teamEvaluationManager } from '../_shared/team-evaluations.ts';
+import type { TeamJob, TeamJobOutcome } from '../_shared/team-evaluations.ts';
+
+// Each member is a full evaluation (retrieval plus a model call), so only a few fit in one invocation
+const DEFAULT_MAX_MEMBERS = 5;
+const TIME_BUDGET_MS = 100_000;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+  const deadline = Date.now() + TIME_BUDGET_MS;
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Only cron and internal callers may run the worker
+    assertServiceRole(req);
+
+    const { job_id, max_members } = await validateRequestBody(
+      req,
+      TeamEvaluationWorkerSchema,
+      correlationId
+    );
+
+    // Either run the job we were kicked for, or take the oldest queued one
+    let jobs: TeamJob[];
+    if (job_id) {
+      const job = await teamEvaluationManager.claimJob(job_id);
+      jobs = job ? [job] : [];
+    } else {
+      jobs = await teamEvaluationManager.claimJobs(1);
+    }
+
+    const results: TeamJobOutcome[] = [];
+    for (const job of jobs) {
+      console.log(`[${correlationId}] Processing team evaluation job ${job.id}`);
+      results.push(await teamEvaluationManager.processJob(job, {
+        maxMembers: max_members ?? DEFAULT_MAX_MEMBERS,
+        deadline
+      }));
+    }
+
+    // Continue requeued batches right away instead of waiting for the next cron tick; failed
+    // attempts are also queued, but only become due after their backoff
+    for (const result of results.filter((r) => r.status === 'queued' && r.remaining > 0)) {
+      fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/team-evaluation-worker`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+        },
+        body: JSON.stringify({ job_id: result.job_id, max_members })
+      }).catch((kickError) => {
+        console.error('Error re-kicking team evaluation worker:', kickError);
+      });
+    }
+
+    return createSuccessResponse({
+      claimed: jobs.length,
+      results
+    }, correlationId);
+
+  } catch (error) {
+    console.error('Error in team-evaluation-worker:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -0,0 +1,112 @@
+// Team Evaluations Edge Function
+// Starts batch evaluations of every participant of a client, lists them and returns the side-by-side team report
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertAuth,
+  assertRoleIn,
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  apiErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, TeamEvaluationSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { teamEvaluationManager } from '../_shared/team-evaluations.ts';
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    // Authenticate and restrict to the roles that can run evaluations
+    const { user, supabase } = await assertAuth(req);
+    await assertRoleIn(supabase, user.id, ['admin', 'super_admin', 'manager']);
+
+    const body = await validateRequestBody(req, TeamEvaluationSchema, correlationId);
+    await assertClientAccess(supabase, String(body.client_id), user.id);
+
+    switch (body.action) {
+      case 'start': {
+        const { team_evaluation, job_id } = await teamEvaluationManager.start({
+          client_id: body.client_id,
+          title: body.title,
+          question: body.question,
+          date_from: body.date_from,
+          date_to: body.date_to,
+          room_ids: body.room_ids,
+          min_chunks: body.min_chunks,
+          created_by: user.id
+        });
+
+        // Kick the worker right away; the cron trigger picks the job up if this fails
+        fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/team-evaluation-worker`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+          },
+          body: JSON.stringify({ job_id })
+        }).catch((kickError) => {
+          console.error('Error kicking team evaluation worker:', kickError);
+        });
+
+        return createSuccessResponse({ team_evaluation, job_id }, correlationId);
+      }
+
+      case 'list': {
+        const team_evaluations = await teamEvaluationManager.list(body.client_id, body.limit);
+        return createSuccessResponse({ team_evaluations }, correlationId);
+      }
+
+      case 'report': {
+        const report = await teamEvaluationManager.report(body.client_id, body.team_evaluation_id);
+        if (!report) {
+          return createErrorResponse(
+            'E_NOT_FOUND',
+            'Team evaluation not found',
+            404,
+            undefined,
+            correlationId
+          );
+        }
+        return createSuccessResponse({ report }, correlationId);
+      }
+    }
+
+  } catch (error) {
+    console.error('Error in team-evaluations:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
@@ -0,0 +1,95 @@
+// Upload Session Edge Function
+// Resumable uploads: start a session, sign parts, report stored parts and complete
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  assertAuth,
+  assertRoleIn,
+  assertClientAccess,
+  generateCorrelationId,
+  createErrorResponse,
+  apiErrorResponse,
+  createSuccessResponse
+} from '../_shared/auth.ts';
+import { validateRequestBody, UploadSessionSchema } from '../_shared/validate.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { resumableUploads } from '../_shared/resumable-uploads.ts';
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const correlationId = generateCorrelationId();
+
+  try {
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        'E_METHOD_NOT_ALLOWED',
+        'Method not allowed',
+        405,
+        undefined,
+        correlationId
+      );
+    }
+
+    const { user, supabase } = await assertAuth(req);
+    await assertRoleIn(supabase, user.id, ['super_admin', 'backend', 'admin']);
+
+    const body = await validateRequestBody(req, UploadSessionSchema, correlationId);
+
+    // Sessions after start are addressed by upload id; check the client it belongs to
+    const clientId = body.action === 'start'
+      ? body.client_id
+      : await resumableUploads.clientOf(body.upload_id);
+    await assertClientAccess(supabase, String(clientId), user.id);
+
+    switch (body.action) {
+      case 'start': {
+        const session = await resumableUploads.start(user.id, {
+          client_id: body.client_id,
+          room_id: body.room_id,
+          file_name: body.file_name,
+          file_size: body.file_size,
+        });
+        return createSuccessResponse({ session }, correlationId);
+      }
+
+      case 'sign_parts': {
+        const parts = await resumableUploads.signParts(body.upload_id, body.part_numbers);
+        return createSuccessResponse({ parts }, correlationId);
+      }
+
+      case 'status': {
+        const status = await resumableUploads.status(body.upload_id);
+        return createSuccessResponse({ status }, correlationId);
+      }
+
+      case 'complete': {
+        const session = await resumableUploads.complete(body.upload_id, body.file_digest);
+        return createSuccessResponse({ session }, correlationId);
+      }
+    }
+
+  } catch (error) {
+    console.error('Error in upload-session:', error);
+
+    if (error instanceof Response) {
+      return error;
+    }
+
+    const apiError = apiErrorResponse(error, correlationId);
+    if (apiError) {
+      return apiError;
+    }
+
+    return createErrorResponse(
+      'E_INTERNAL_ERROR',
+      'Internal server error',
+      500,
+      error.message,
+      correlationId
+    );
+  }
+});
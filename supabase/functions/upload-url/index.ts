@@ -8,6 +8,14 @@ import {
 import { validateRequestBody, UploadUrlSchema } from '../_shared/validate.ts';
 import { handleCors, addCorsHeaders } from '../_shared/cors.ts';
 
+// The ingest worker detects the format from content; this just records what was sent
+function getContentType(fileName: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'application/json';
+  if (extension === 'csv') return 'text/csv';
+  return 'text/plain';
+}
+
 serve(async (req: Request) => {
   // Handle CORS preflight
   const corsResponse = handleCors(req);
@@ -111,7 +119,7 @@ serve(async (req: Request) => {
         filename: file_name,
         original_filename: file_name,
         file_size: 0, // Will be updated after actual upload
-        file_type: 'text/plain', // Default for now
+        file_type: getContentType(file_name),
         storage_path: storagePath,
         uploaded_by: user.id,
         status: 'pending',
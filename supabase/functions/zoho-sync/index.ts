@@ -118,6 +118,8 @@ class ZohoMessageSyncer {
     const startTime = Date.now();
     let messagesFetched = 0;
     let messagesProcessed = 0;
+    let messagesSkipped = 0;
+    let threadsSynced = 0;
     let uploadId;
     let jobId;
     let syncJob = null;
@@ -157,8 +159,8 @@ class ZohoMessageSyncer {
       // Determine time range for sync
       let fromTime;
       if (!isFullSync && mapping.last_message_time) {
-        // Incremental sync: get messages newer than last synced message
-        fromTime = mapping.last_message_time + 1; // Add 1ms to avoid duplicates
+        // Incremental sync: re-read from the last synced message; duplicates are dropped by id below
+        fromTime = mapping.last_message_time;
         console.log(`Incremental sync: from ${new Date(fromTime).toISOString()} (last_message_time: ${mapping.last_message_time})`);
       } else {
         // Full sync: get ALL messages (no time limit)
@@ -166,28 +168,47 @@ class ZohoMessageSyncer {
         console.log(`Full sync: fetching ALL messages (no time limit)`);
       }
       // Fetch messages from Zoho Cliq
-      const messages = await this.fetchMessages(mapping.zoho_chat_id, fromTime);
-      messagesFetched = messages.length;
+      const channelMessages = await this.fetchMessages(mapping.zoho_chat_id, fromTime);
+      // Thread replies live in their own chats, so pull them separately
+      const threadSync = await this.fetchThreadReplies(mapping, isFullSync);
+      const fetchedMessages = channelMessages.concat(threadSync.replies);
+      messagesFetched = fetchedMessages.length;
+      // Drop messages an earlier sync already sent to ingestion
+      const messages = await this.filterSyncedMessages(mapping, fetchedMessages);
+      messagesSkipped = fetchedMessages.length - messages.length;
       if (messages.length > 0) {
-        console.log(`Fetched ${messages.length} messages from ${mapping.zoho_channel_name}`);
-        // Format messages for CloudRun processing
-        const formattedContent = this.formatMessagesForCloudRun(messages, mapping);
-        // Create proper upload and job records for CloudRun processing
-        const { upload_id, job_id } = await this.createCloudRunJob(mapping, formattedContent, messages.length);
+        console.log(`Fetched ${fetchedMessages.length} messages from ${mapping.zoho_channel_name} (${threadSync.replies.length} thread replies, ${messagesSkipped} already synced)`);
+        // Only describe threads that still have new replies in this batch
+        const activeThreadIds = new Set(messages.map((m)=>m.thread_chat_id).filter(Boolean));
+        const threads = threadSync.threads.filter((t)=>activeThreadIds.has(t.thread_id));
+        // Build the structured message stream for the ingest worker
+        const messageStream = this.buildMessageStream(messages, mapping, threads);
+        // Create proper upload and job records for the ingest worker
+        const { upload_id, job_id, stored } = await this.createIngestJob(mapping, messageStream, messages.length);
         uploadId = upload_id;
         jobId = job_id;
         messagesProcessed = messages.length;
-        // Update mapping with latest sync info
-        const latestMessageTime = Math.max(...messages.map((m)=>m.time));
+        threadsSynced = threads.length;
+        // Only mark ids as synced once their content is safely in storage
+        if (stored) {
+          await this.recordSyncedMessages(mapping, messages, upload_id);
+          await this.recordSyncedThreads(mapping, threadSync.threads);
+        }
+        // Update mapping with latest sync info (keep the old watermark if storage failed so we re-fetch).
+        // Thread replies have their own per-thread watermark, so only channel messages move this one.
+        const channelTimes = messages.filter((m)=>!m.thread_chat_id).map((m)=>m.time);
+        const latestMessageTime = channelTimes.length > 0 ? Math.max(mapping.last_message_time || 0, ...channelTimes) : mapping.last_message_time;
         await this.supabase.from('zoho_channel_mappings').update({
           last_sync_at: new Date().toISOString(),
-          last_message_time: latestMessageTime,
+          last_message_time: stored ? latestMessageTime : mapping.last_message_time,
           sync_status: 'active',
           sync_error: null
         }).eq('id', mapping.id);
         console.log(`Successfully processed ${messagesProcessed} messages. Created upload_id: ${upload_id}, job_id: ${job_id}`);
       } else {
-        console.log(`No new messages found for ${mapping.zoho_channel_name}`);
+        // Nothing new, but remember thread activity we have now seen
+        await this.recordSyncedThreads(mapping, threadSync.threads);
+        console.log(`No new messages found for ${mapping.zoho_channel_name} (${messagesSkipped} already synced)`);
       }
       // Update sync job as completed
       const processingTime = Date.now() - startTime;
@@ -205,6 +226,8 @@ class ZohoMessageSyncer {
         success: true,
         messages_fetched: messagesFetched,
         messages_processed: messagesProcessed,
+        messages_skipped: messagesSkipped,
+        threads_synced: threadsSynced,
         upload_id: uploadId,
         job_id: jobId,
         processing_time_ms: processingTime
@@ -353,38 +376,277 @@ class ZohoMessageSyncer {
     console.log(`Messages sorted chronologically: ${new Date(allMessages[0]?.time).toISOString()} (oldest) → ${new Date(allMessages[allMessages.length - 1]?.time).toISOString()} (newest)`);
     return allMessages;
   }
-  formatMessagesForCloudRun(messages, mapping) {
-    // Format messages similar to WhatsApp export format for consistency
-    const formattedMessages = messages.map((msg)=>{
-      const timestamp = new Date(msg.time).toLocaleString();
-      const senderName = msg.sender.name || 'Unknown';
-      let content = '';
-      if (typeof msg.content === 'string') {
-        content = msg.content;
-      } else if (msg.content && typeof msg.content === 'object') {
-        // Handle Zoho message content structure
-        if (msg.content.text) {
-          // Text messages: content.text contains the actual message
-          content = msg.content.text;
-        } else if (msg.content.file && msg.content.file.name) {
-          // File messages
-          content = `[File: ${msg.content.file.name}]`;
-        } else if (msg.content.comment) {
-          // Comment field (fallback)
-          content = msg.content.comment;
-        } else if (msg.type === 'info') {
-          // Info messages (user added/removed, etc.)
-          content = `[${msg.type} message]`;
-        } else {
-          // Unknown content type, show the type
-          content = `[${msg.type} message]`;
+  /**
+   * GET a Cliq API path, refreshing the token once on 401
+   */ async zohoGet(path) {
+    const accessToken = await this.getAccessToken();
+    if (!accessToken) {
+      throw new Error('Failed to get valid Zoho access token');
+    }
+    const request = (token)=>fetch(`https://cliq.zoho.in/api/v2${path}`, {
+        headers: {
+          'Authorization': `Zoho-oauthtoken ${token}`,
+          'Content-Type': 'application/json'
         }
+      });
+    let response = await request(accessToken);
+    if (response.status === 401) {
+      console.log('Got 401 error, attempting token refresh...');
+      const newToken = await this.refreshZohoToken();
+      if (newToken) {
+        response = await request(newToken);
+      }
+    }
+    if (!response.ok) {
+      throw new Error(`Zoho API error: ${response.status} - ${await response.text()}`);
+    }
+    if (response.status === 204) return {};
+    return await response.json();
+  }
+  /**
+   * List every thread in a channel (cliq-openapi-all/threads.yml, GET /channels/{CHANNEL_ID}/threads)
+   */ async fetchThreads(channelId) {
+    const threads = [];
+    let nextToken = null;
+    let pageCount = 0;
+    do {
+      const params = new URLSearchParams();
+      params.append('limit', '50');
+      if (nextToken) params.append('next_token', nextToken);
+      const data = await this.zohoGet(`/channels/${encodeURIComponent(channelId)}/threads?${params.toString()}`);
+      const page = data.data || [];
+      threads.push(...page);
+      // An empty page can still carry a token, so stop on either
+      nextToken = page.length > 0 ? data.next_token : null;
+      pageCount++;
+    }while (nextToken && pageCount < 100)
+    console.log(`Found ${threads.length} threads in channel ${channelId}`);
+    return threads;
+  }
+  /**
+   * Fetch the message a thread was started from, normalised to the stream's message shape
+   */ async fetchThreadMainMessage(threadChatId) {
+    try {
+      const data = await this.zohoGet(`/threads/${encodeURIComponent(threadChatId)}/messages/main`);
+      if (!data?.id) return null;
+      const time = typeof data.time === 'string' ? parseInt(data.time, 10) : data.time;
+      return {
+        id: data.id,
+        time,
+        ts: time ? new Date(time).toISOString() : null,
+        sender: {
+          id: data.sender?.id || null,
+          name: data.sender?.name || 'Unknown'
+        },
+        text: data.content?.text || data.thread_message?.msg || ''
+      };
+    } catch (error) {
+      // The parent is context only; replies are still worth syncing without it
+      console.warn(`Could not fetch main message for thread ${threadChatId}:`, error.message);
+      return null;
+    }
+  }
+  /**
+   * Pull replies for every thread with activity since its last sync. Each reply is
+   * tagged with its thread chat id and parent message id; the returned thread
+   * descriptors carry the parent message so chunks keep it as context.
+   */ async fetchThreadReplies(mapping, isFullSync) {
+    let listed;
+    try {
+      listed = await this.fetchThreads(mapping.zoho_channel_id);
+    } catch (error) {
+      // Channels without thread access should still sync their main conversation
+      console.warn(`Could not list threads for ${mapping.zoho_channel_name}:`, error.message);
+      return {
+        replies: [],
+        threads: []
+      };
+    }
+    if (listed.length === 0) {
+      return {
+        replies: [],
+        threads: []
+      };
+    }
+    const { data: known, error } = await this.supabase.from('zoho_synced_threads').select('thread_chat_id, parent_message, last_message_time').eq('mapping_id', mapping.id);
+    if (error) {
+      throw new Error(`Failed to load synced threads: ${error.message}`);
+    }
+    const knownById = new Map<string, any>((known || []).map((t)=>[
+        t.thread_chat_id,
+        t
+      ]));
+    const replies = [];
+    const threads = [];
+    for (const thread of listed){
+      if (!thread.chat_id) continue;
+      const previous = knownById.get(thread.chat_id);
+      const lastActivity = thread.last_message_information?.time ? Date.parse(thread.last_message_information.time) : null;
+      // Skip threads with nothing newer than what we already have
+      if (!isFullSync && previous?.last_message_time && lastActivity && lastActivity <= previous.last_message_time) {
+        continue;
+      }
+      let parent = previous?.parent_message || null;
+      if (!parent) {
+        // Main-message lookups are limited to 30 per minute; parents are cached after the first sync
+        await new Promise((resolve)=>setTimeout(resolve, 2000));
+        parent = await this.fetchThreadMainMessage(thread.chat_id);
+      }
+      const fromTime = isFullSync ? undefined : previous?.last_message_time || undefined;
+      const threadMessages = await this.fetchMessages(thread.chat_id, fromTime);
+      const threadReplies = threadMessages.filter((m)=>m.id !== parent?.id);
+      for (const reply of threadReplies){
+        reply.thread_chat_id = thread.chat_id;
+        reply.thread_parent_id = parent?.id || null;
+      }
+      replies.push(...threadReplies);
+      threads.push({
+        thread_id: thread.chat_id,
+        parent_chat_id: thread.parent_chat_id || mapping.zoho_chat_id,
+        title: thread.title || null,
+        state: thread.thread_state || null,
+        parent,
+        last_message_time: Math.max(previous?.last_message_time || 0, lastActivity || 0, ...threadReplies.map((m)=>Number(m.time) || 0))
+      });
+    }
+    console.log(`Fetched ${replies.length} thread replies from ${threads.length} active threads`);
+    return {
+      replies,
+      threads
+    };
+  }
+  /**
+   * Save per-thread watermarks and cached parent messages
+   */ async recordSyncedThreads(mapping, threads) {
+    if (threads.length === 0) return;
+    const { error } = await this.supabase.from('zoho_synced_threads').upsert(threads.map((t)=>({
+        mapping_id: mapping.id,
+        thread_chat_id: t.thread_id,
+        title: t.title,
+        thread_state: t.state,
+        parent_message: t.parent,
+        last_message_time: t.last_message_time || null,
+        updated_at: new Date().toISOString()
+      })), {
+      onConflict: 'mapping_id,thread_chat_id'
+    });
+    if (error) {
+      throw new Error(`Failed to record synced threads: ${error.message}`);
+    }
+  }
+  /**
+   * Remove messages whose Cliq id was already synced for this mapping
+   */ async filterSyncedMessages(mapping, messages) {
+    if (messages.length === 0) return messages;
+    const seen = new Set();
+    const ids = messages.map((m)=>m.id).filter(Boolean);
+    // Look ids up in slices to keep the request URL short
+    for(let i = 0; i < ids.length; i += 200){
+      const { data, error } = await this.supabase.from('zoho_synced_messages').select('message_id').eq('mapping_id', mapping.id).in('message_id', ids.slice(i, i + 200));
+      if (error) {
+        throw new Error(`Failed to check synced messages: ${error.message}`);
       }
-      return `[${timestamp}] ${senderName}: ${content}`;
+      (data || []).forEach((row)=>seen.add(row.message_id));
+    }
+    // Also collapse duplicates inside the fetched batch (page boundaries overlap on totime)
+    const unique = [];
+    for (const message of messages){
+      if (!message.id || seen.has(message.id)) continue;
+      seen.add(message.id);
+      unique.push(message);
+    }
+    return unique;
+  }
+  /**
+   * Remember which Cliq message ids went into an upload so re-syncs skip them
+   */ async recordSyncedMessages(mapping, messages, uploadId) {
+    const rows = messages.map((m)=>({
+        mapping_id: mapping.id,
+        message_id: m.id,
+        message_time: m.time,
+        upload_id: uploadId
+      }));
+    for(let i = 0; i < rows.length; i += 500){
+      const { error } = await this.supabase.from('zoho_synced_messages').upsert(rows.slice(i, i + 500), {
+        onConflict: 'mapping_id,message_id',
+        ignoreDuplicates: true
+      });
+      if (error) {
+        throw new Error(`Failed to record synced messages: ${error.message}`);
+      }
+    }
+  }
+  /**
+   * Normalise reactions, which Cliq returns either as a list or keyed by emoji
+   */ normalizeReactions(reactions) {
+    if (!reactions) return [];
+    if (Array.isArray(reactions)) {
+      return reactions.map((r)=>({
+          emoji: r.emoji || r.emoji_code || r.reaction,
+          count: r.count ?? r.users?.length ?? 1
+        })).filter((r)=>r.emoji);
+    }
+    return Object.entries(reactions).map(([emoji, value]: [string, any])=>({
+        emoji,
+        count: typeof value === 'number' ? value : value?.count ?? value?.users?.length ?? 1
+      }));
+  }
+  /**
+   * One JSON object per line, keeping the Cliq ids, reply/thread links,
+   * reactions, edits and file metadata that the old text format dropped.
+   * Timestamps stay epoch milliseconds (plus ISO) so no server locale is involved.
+   * Each thread gets a `record: 'thread'` line carrying its parent message.
+   */ buildMessageStream(messages, mapping, threads: any[] = []) {
+    const threadRecords = threads.map((thread)=>({
+        v: 1,
+        source: 'zoho_cliq',
+        record: 'thread',
+        chat_id: thread.parent_chat_id,
+        thread_id: thread.thread_id,
+        title: thread.title,
+        state: thread.state,
+        parent: thread.parent
+      }));
+    const records = messages.map((msg)=>{
+      const content = msg.content && typeof msg.content === 'object' ? msg.content : {
+        text: typeof msg.content === 'string' ? msg.content : ''
+      };
+      const file = content.file ? {
+        id: content.file.id || null,
+        name: content.file.name || null,
+        type: content.file.type || null,
+        dimensions: content.file.dimensions || null
+      } : null;
+      return {
+        v: 1,
+        source: 'zoho_cliq',
+        chat_id: mapping.zoho_chat_id,
+        id: msg.id,
+        time: msg.time,
+        ts: new Date(msg.time).toISOString(),
+        type: msg.type || 'text',
+        sender: {
+          id: msg.sender?.id || null,
+          name: msg.sender?.name || 'Unknown'
+        },
+        text: content.text || content.comment || '',
+        content_type: content.type || null,
+        reply_to: msg.reply_to?.id || msg.reply_to || null,
+        thread_id: msg.thread_chat_id || msg.thread_id || null,
+        thread_message_id: msg.thread_message_id || null,
+        thread_parent_id: msg.thread_parent_id || null,
+        reactions: this.normalizeReactions(msg.reactions),
+        edited: Boolean(msg.is_edited || msg.edited_time || msg.last_modified_time),
+        edited_time: msg.edited_time || msg.last_modified_time || null,
+        file
+      };
     });
-    return formattedMessages.join('\n');
+    return [
+      ...threadRecords,
+      ...records
+    ].map((record)=>JSON.stringify(record)).join('\n');
   }
-  async createCloudRunJob(mapping, content, messageCount) {
+  async createIngestJob(mapping, content, messageCount) {
     try {
       // Step 1: Calculate SHA-256 digest of the content
       const contentBuffer = new TextEncoder().encode(content);
@@ -397,16 +659,16 @@ class ZohoMessageSyncer {
       const sanitizedChannelName = mapping.zoho_channel_name.replace(/[#@$%^&*()+=\[\]{};':"\\|,.<>?]/g, '') // Remove special characters
       .replace(/\s+/g, '_') // Replace spaces with underscores
       .toLowerCase(); // Make lowercase for consistency
-      const consistentFileName = `${sanitizedChannelName}_${timestamp}.txt`;
+      const consistentFileName = `${sanitizedChannelName}_${timestamp}.jsonl`;
       const consistentStoragePath = `zoho-sync/${mapping.client_id}/${mapping.room_id}/${consistentFileName}`;
       // Step 2: Create upload record
       const { data: upload, error: uploadError } = await this.supabase.from('uploads').insert({
         client_id: mapping.client_id,
         room_id: mapping.room_id,
         filename: consistentFileName,
-        original_filename: `${sanitizedChannelName}_sync.txt`,
+        original_filename: `${sanitizedChannelName}_sync.jsonl`,
         file_size: content.length,
-        file_type: 'text/plain',
+        file_type: 'application/x-ndjson',
         storage_path: consistentStoragePath,
         status: 'processed',
         uploaded_by: mapping.created_by || 'bcddd0fc-7ab7-4550-887e-29e007237d8d',
@@ -418,13 +680,14 @@ class ZohoMessageSyncer {
           sync_type: 'incremental',
           sync_timestamp: new Date().toISOString(),
           file_digest: fileDigest,
+          format: 'cliq_jsonl',
           source: 'zoho_cliq_sync'
         }
       }).select('id').single();
       if (uploadError) {
         throw new Error(`Failed to create upload record: ${uploadError.message}`);
       }
-      // Step 3: Create job record for CloudRun processing
+      // Step 3: Create job record for the ingest worker
       const { data: job, error: jobError } = await this.supabase.from('jobs').insert({
         upload_id: upload.id,
         client_id: mapping.client_id,
@@ -441,7 +704,7 @@ class ZohoMessageSyncer {
       // Step 4: Store the formatted content in Supabase Storage using the same consistent path
       console.log(`Attempting to upload file to storage path: ${consistentStoragePath}`);
       const { error: storageError } = await this.supabase.storage.from('chats-raw').upload(consistentStoragePath, content, {
-        contentType: 'text/plain',
+        contentType: 'application/x-ndjson',
         upsert: false,
         metadata: {
           upload_id: upload.id.toString(),
@@ -455,16 +718,17 @@ class ZohoMessageSyncer {
       });
       if (storageError) {
         console.error(`Failed to store content in Supabase Storage: ${storageError.message}`, storageError);
-      // Continue without storage - CloudRun can access content via database if needed
+      // Continue without storage - the ingest worker will fail the job and it can be retried
       } else {
         console.log(`Content successfully stored in Supabase Storage: ${consistentStoragePath}`);
       }
       return {
         upload_id: upload.id,
-        job_id: job.id
+        job_id: job.id,
+        stored: !storageError
       };
     } catch (error) {
-      console.error('Error creating CloudRun job:', error);
+      console.error('Error creating ingest job:', error);
       throw error;
     }
   }
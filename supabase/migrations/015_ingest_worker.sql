@@ -0,0 +1,130 @@
+-- In-repo ingestion worker
+-- Columns written by the ingest-worker edge function, an atomic claim function
+-- and a cron job that drains the queue
+
+-- Chunk columns used by retrieval (db.ts) and written by the worker
+alter table chunks add column if not exists text text;
+alter table chunks add column if not exists source_upload_id integer references uploads(id) on delete cascade;
+alter table chunks add column if not exists first_ts timestamp with time zone;
+alter table chunks add column if not exists last_ts timestamp with time zone;
+alter table chunks add column if not exists participants text[] default '{}';
+alter table chunks add column if not exists token_count integer;
+alter table chunks add column if not exists chunk_index integer;
+alter table chunks add column if not exists metadata jsonb default '{}';
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'chunks' and column_name = 'content'
+  ) then
+    alter table chunks alter column content drop not null;
+  end if;
+end $$;
+
+create index if not exists idx_chunks_source_upload on chunks(source_upload_id);
+create index if not exists idx_chunks_room_ts on chunks(room_id, first_ts, last_ts);
+create index if not exists idx_chunks_participants on chunks using gin(participants);
+
+-- Job bookkeeping surfaced through JobDto
+alter table jobs add column if not exists counts_json jsonb default '{}';
+alter table jobs add column if not exists timings_json jsonb default '{}';
+alter table jobs add column if not exists error_code text;
+
+create index if not exists idx_jobs_status_created on jobs(status, created_at);
+
+-- Claim queued jobs without two workers picking the same row
+create or replace function claim_ingest_jobs(p_limit integer default 3)
+returns setof jobs
+language plpgsql
+security definer
+as $$
+begin
+  return query
+  update jobs
+  set status = 'processing',
+      started_at = now(),
+      updated_at = now()
+  where id in (
+    select id from jobs
+    where status = 'queued'
+      and job_type in ('file_ingestion', 'chat_processing')
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+end;
+$$;
+
+revoke execute on function claim_ingest_jobs(integer) from public, anon, authenticated;
+
+-- Vector search should return the worker's text column as content
+create or replace function match_documents(
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    chunks.id::bigint,
+    coalesce(chunks.text, chunks.content) as content,
+    jsonb_build_object(
+      'room_id', chunks.room_id,
+      'room_name', rooms.name,
+      'client_id', chunks.client_id,
+      'first_ts', chunks.first_ts,
+      'last_ts', chunks.last_ts,
+      'participants', chunks.participants
+    ) as metadata,
+    1 - (embeddings.embedding <=> query_embedding) as similarity
+  from chunks
+  left join rooms on chunks.room_id = rooms.id
+  left join embeddings on chunks.id = embeddings.chunk_id
+  where 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+    and (filter->>'client_id' is null or chunks.client_id = (filter->>'client_id')::integer)
+  order by embeddings.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- Cron safety net: the ingest function kicks the worker directly, this picks up anything missed
+create extension if not exists pg_cron;
+
+create or replace function trigger_ingest_worker()
+returns void
+language plpgsql
+security definer
+as $$
+begin
+  perform
+    net.http_post(
+      url := 'https://brohvgsykwmcefsjkbit.supabase.co/functions/v1/ingest-worker',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.service_role_key', true)
+      ),
+      body := '{}'::jsonb
+    );
+exception when others then
+  raise log 'Error in trigger_ingest_worker: %', sqlerrm;
+end;
+$$;
+
+grant execute on function trigger_ingest_worker() to postgres;
+
+select cron.schedule(
+  'ingest-worker',
+  '* * * * *', -- Every minute
+  'select trigger_ingest_worker();'
+);
@@ -0,0 +1,7 @@
+-- Per-room import settings for the ingest worker
+-- { format, column_mapping: { timestamp, sender, text }, date_order, utc_offset_minutes }
+
+alter table rooms add column if not exists ingest_settings jsonb default '{}'::jsonb not null;
+
+comment on column rooms.ingest_settings is
+  'Export format override and CSV column mapping used by the ingest worker';
@@ -0,0 +1,71 @@
+-- Structured Cliq message stream
+-- zoho-sync stores each batch as JSONL with stable message ids. This table
+-- remembers which ids a mapping already stored so re-syncs do not duplicate
+-- them, and match_documents now returns the chunk's upstream source so
+-- citations can point back at the original Cliq messages.
+
+create table if not exists zoho_synced_messages (
+  mapping_id uuid not null references zoho_channel_mappings(id) on delete cascade,
+  message_id text not null,
+  message_time bigint, -- milliseconds timestamp from Zoho
+  upload_id integer references uploads(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (mapping_id, message_id)
+);
+
+create index if not exists idx_zoho_synced_messages_upload on zoho_synced_messages(upload_id);
+
+alter table zoho_synced_messages enable row level security;
+
+create policy "Platform users can view synced messages for their client mappings" on zoho_synced_messages
+  for select using (
+    exists (
+      select 1 from zoho_channel_mappings zcm
+      where zcm.id = mapping_id
+      and (
+        is_super_admin(auth.uid()) or
+        is_backend_user(auth.uid()) or
+        has_client_access(auth.uid(), zcm.client_id)
+      )
+    )
+  );
+
+-- Same as 015, plus the upstream source stored by the ingest worker
+create or replace function match_documents(
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    chunks.id::bigint,
+    coalesce(chunks.text, chunks.content) as content,
+    jsonb_build_object(
+      'room_id', chunks.room_id,
+      'room_name', rooms.name,
+      'client_id', chunks.client_id,
+      'first_ts', chunks.first_ts,
+      'last_ts', chunks.last_ts,
+      'participants', chunks.participants,
+      'source', chunks.metadata->'source'
+    ) as metadata,
+    1 - (embeddings.embedding <=> query_embedding) as similarity
+  from chunks
+  left join rooms on chunks.room_id = rooms.id
+  left join embeddings on chunks.id = embeddings.chunk_id
+  where 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+    and (filter->>'client_id' is null or chunks.client_id = (filter->>'client_id')::integer)
+  order by embeddings.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
@@ -0,0 +1,36 @@
+-- Thread-aware Zoho Cliq sync
+-- zoho-sync lists each channel's threads and pulls their replies from the
+-- thread chat. This table keeps a per-thread watermark so incremental syncs
+-- only re-read threads with new activity, and caches the thread's main
+-- message (rate limited upstream) so replies keep their parent as context.
+
+create table if not exists zoho_synced_threads (
+  mapping_id uuid not null references zoho_channel_mappings(id) on delete cascade,
+  thread_chat_id text not null,
+  title text,
+  thread_state text,
+  parent_message jsonb, -- { id, time, ts, sender: { id, name }, text }
+  last_message_time bigint, -- milliseconds timestamp from Zoho
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (mapping_id, thread_chat_id)
+);
+
+alter table zoho_synced_threads enable row level security;
+
+create policy "Platform users can view synced threads for their client mappings" on zoho_synced_threads
+  for select using (
+    exists (
+      select 1 from zoho_channel_mappings zcm
+      where zcm.id = mapping_id
+      and (
+        is_super_admin(auth.uid()) or
+        is_backend_user(auth.uid()) or
+        has_client_access(auth.uid(), zcm.client_id)
+      )
+    )
+  );
+
+-- Thread chunks are looked up by their thread when citing
+create index if not exists idx_chunks_source_thread on chunks ((metadata->'source'->>'thread_id'))
+  where metadata->'source'->>'thread_id' is not null;
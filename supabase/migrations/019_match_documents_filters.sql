@@ -0,0 +1,67 @@
+-- Filter-aware vector search
+-- match_documents now honours the same filters as the text-search leg of
+-- hybridSearch (QueryFiltersSchema): room_ids, date_from/date_to, participants
+-- and room types. Every key is optional; an absent or empty filter matches all.
+--
+-- filter: {
+--   client_id: integer,
+--   room_ids: integer[],
+--   types: ('internal' | 'external')[],
+--   date_from: timestamptz,   -- chunk must end on or after this
+--   date_to: timestamptz,     -- chunk must start on or before this
+--   participants: text[]      -- chunk must include at least one of these
+-- }
+
+create or replace function match_documents(
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    chunks.id::bigint,
+    coalesce(chunks.text, chunks.content) as content,
+    jsonb_build_object(
+      'room_id', chunks.room_id,
+      'room_name', rooms.name,
+      'room_type', rooms.room_type,
+      'client_id', chunks.client_id,
+      'first_ts', chunks.first_ts,
+      'last_ts', chunks.last_ts,
+      'participants', chunks.participants,
+      'source', chunks.metadata->'source'
+    ) as metadata,
+    1 - (embeddings.embedding <=> query_embedding) as similarity
+  from chunks
+  left join rooms on chunks.room_id = rooms.id
+  left join embeddings on chunks.id = embeddings.chunk_id
+  where 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+    and (filter->>'client_id' is null or chunks.client_id = (filter->>'client_id')::integer)
+    and (
+      coalesce(jsonb_array_length(filter->'room_ids'), 0) = 0
+      or chunks.room_id in (select jsonb_array_elements_text(filter->'room_ids')::integer)
+    )
+    and (
+      coalesce(jsonb_array_length(filter->'types'), 0) = 0
+      or rooms.room_type::text in (select jsonb_array_elements_text(filter->'types'))
+    )
+    and (filter->>'date_from' is null or chunks.last_ts >= (filter->>'date_from')::timestamptz)
+    and (filter->>'date_to' is null or chunks.first_ts <= (filter->>'date_to')::timestamptz)
+    and (
+      coalesce(jsonb_array_length(filter->'participants'), 0) = 0
+      or chunks.participants && array(select jsonb_array_elements_text(filter->'participants'))
+    )
+  order by embeddings.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
@@ -0,0 +1,93 @@
+-- Offline retrieval evaluation
+-- Golden questions per client (expected chunk ids and/or expected answer facts),
+-- stored eval runs with aggregate metrics, and per-question results so two runs
+-- can be compared. Questions can be imported from feedback.useful_flag labels.
+
+-- Feedback labels written by the feedback function
+alter table feedback add column if not exists chunk_id integer references chunks(id) on delete cascade;
+alter table feedback add column if not exists useful_flag boolean;
+create unique index if not exists idx_feedback_query_chunk on feedback(query_id, chunk_id);
+
+create table if not exists retrieval_eval_questions (
+  id serial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  question text not null,
+  filters jsonb not null default '{}',
+  expected_chunk_ids bigint[] not null default '{}',
+  irrelevant_chunk_ids bigint[] not null default '{}',
+  expected_facts text[] not null default '{}',
+  -- Captured once so runs never call the embedding provider
+  query_embedding jsonb,
+  source text not null default 'manual' check (source in ('manual', 'feedback')),
+  source_query_id integer references queries(id) on delete set null,
+  active boolean not null default true,
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (client_id, source_query_id)
+);
+
+create index if not exists idx_retrieval_eval_questions_client on retrieval_eval_questions(client_id) where active;
+
+create table if not exists retrieval_eval_runs (
+  id serial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  label text,
+  config jsonb not null default '{}',
+  k integer not null default 10,
+  question_count integer not null default 0,
+  metrics jsonb not null default '{}',
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  error_message text,
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  completed_at timestamp with time zone
+);
+
+create index if not exists idx_retrieval_eval_runs_client on retrieval_eval_runs(client_id, created_at desc);
+
+create table if not exists retrieval_eval_results (
+  id serial primary key,
+  run_id integer not null references retrieval_eval_runs(id) on delete cascade,
+  question_id integer not null references retrieval_eval_questions(id) on delete cascade,
+  retrieved_chunk_ids bigint[] not null default '{}',
+  recall_at_k float,
+  reciprocal_rank float,
+  citation_precision float,
+  fact_recall float,
+  irrelevant_rate float,
+  latency_ms integer,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (run_id, question_id)
+);
+
+alter table retrieval_eval_questions enable row level security;
+alter table retrieval_eval_runs enable row level security;
+alter table retrieval_eval_results enable row level security;
+
+create policy "Platform users can view eval questions for their clients" on retrieval_eval_questions
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+create policy "Platform users can view eval runs for their clients" on retrieval_eval_runs
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+create policy "Platform users can view eval results for their clients" on retrieval_eval_results
+  for select using (
+    exists (
+      select 1 from retrieval_eval_runs r
+      where r.id = run_id
+      and (
+        is_super_admin(auth.uid()) or
+        is_backend_user(auth.uid()) or
+        has_client_access(auth.uid(), r.client_id)
+      )
+    )
+  );
@@ -0,0 +1,10 @@
+-- Per-client model providers
+-- Edge functions resolve chat and embedding calls through _shared/providers.ts.
+-- A client can pin a provider ('vertex', 'openai' or the offline 'local' stub)
+-- and model names; null columns fall back to the deployment default
+-- (LLM_PROVIDER and the provider's model env vars).
+
+alter table clients add column if not exists llm_provider text
+  check (llm_provider in ('vertex', 'openai', 'local'));
+alter table clients add column if not exists chat_model text;
+alter table clients add column if not exists embedding_model text;
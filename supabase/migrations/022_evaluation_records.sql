@@ -0,0 +1,106 @@
+-- Versioned evaluation records
+-- Every structured evaluation is stored as a record keyed by client and subject
+-- person. Records are numbered per subject (version 1, 2, ...) and keep the full
+-- model output, the evidence chunk ids, the policy version and the model used.
+-- Driver scores are also stored one row per driver so trends can be queried
+-- without unpacking result_json.
+
+-- Policies carry a version that moves on every update
+alter table evaluation_policies add column if not exists version integer not null default 1;
+
+create or replace function bump_evaluation_policy_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := old.version + 1;
+  new.updated_at := timezone('utc'::text, now());
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_evaluation_policy_version on evaluation_policies;
+create trigger trg_evaluation_policy_version
+  before update on evaluation_policies
+  for each row execute function bump_evaluation_policy_version();
+
+create table if not exists evaluation_records (
+  id serial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  -- lower-cased, whitespace-collapsed subject name; subject_name keeps the display form
+  subject_key text not null,
+  subject_name text not null,
+  version integer not null,
+  query_id integer references queries(id) on delete set null,
+  conversation_id integer references conversations(id) on delete set null,
+  question text,
+  mode text not null default 'drivers' check (mode in ('drivers', 'general')),
+  policy_id integer,
+  policy_version integer,
+  rubric_json jsonb not null default '{}',
+  result_json jsonb not null default '{}',
+  weighted_total numeric(5,2),
+  confidence numeric(3,2),
+  cited_chunk_ids bigint[] not null default '{}',
+  model_provider text,
+  model_name text,
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (client_id, subject_key, version)
+);
+
+create index if not exists idx_evaluation_records_subject on evaluation_records(client_id, subject_key, created_at desc);
+
+create table if not exists evaluation_record_scores (
+  id serial primary key,
+  record_id integer not null references evaluation_records(id) on delete cascade,
+  client_id integer not null references clients(id) on delete cascade,
+  subject_key text not null,
+  driver_id integer references drivers(id) on delete set null,
+  driver_key text not null,
+  driver_name text,
+  score numeric(5,2) not null,
+  weight numeric(4,2),
+  evidence_strength text,
+  reasoning text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (record_id, driver_key)
+);
+
+create index if not exists idx_evaluation_record_scores_trend on evaluation_record_scores(client_id, subject_key, driver_key, created_at);
+
+-- Next version per client + subject, assigned on insert
+create or replace function assign_evaluation_record_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext(new.client_id::text || ':' || new.subject_key));
+  select coalesce(max(version), 0) + 1 into new.version
+  from evaluation_records
+  where client_id = new.client_id and subject_key = new.subject_key;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_evaluation_record_version on evaluation_records;
+create trigger trg_evaluation_record_version
+  before insert on evaluation_records
+  for each row execute function assign_evaluation_record_version();
+
+alter table evaluation_records enable row level security;
+alter table evaluation_record_scores enable row level security;
+
+create policy "Platform users can view evaluation records for their clients" on evaluation_records
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+create policy "Platform users can view evaluation scores for their clients" on evaluation_record_scores
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
@@ -0,0 +1,76 @@
+-- Immutable rubric versions
+-- A rubric is the drivers, behaviors, instances and evaluation policy an
+-- evaluation is scored against. Every edit made through drivers-create stores a
+-- snapshot of the edited scope (one client, or the global rubric when client_id
+-- is null) as the next version. Evaluations capture the version they used so
+-- historical scores can be read against the rubric of the day.
+
+create table if not exists rubric_versions (
+  id serial primary key,
+  -- null for the global rubric (drivers and policies without a client)
+  client_id integer references clients(id) on delete cascade,
+  version integer not null,
+  -- sha-256 of rubric_json; a snapshot is only stored when the rubric changed
+  content_hash text not null,
+  rubric_json jsonb not null,
+  change_note text,
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create unique index if not exists idx_rubric_versions_scope_version on rubric_versions((coalesce(client_id, 0)), version);
+create index if not exists idx_rubric_versions_scope_created on rubric_versions((coalesce(client_id, 0)), created_at desc);
+
+-- Next version per scope, assigned on insert
+create or replace function assign_rubric_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('rubric:' || coalesce(new.client_id, 0)::text));
+  select coalesce(max(version), 0) + 1 into new.version
+  from rubric_versions
+  where coalesce(client_id, 0) = coalesce(new.client_id, 0);
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_rubric_version on rubric_versions;
+create trigger trg_rubric_version
+  before insert on rubric_versions
+  for each row execute function assign_rubric_version();
+
+-- Versions never change once written
+create or replace function reject_rubric_version_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'rubric_versions are immutable';
+end;
+$$;
+
+drop trigger if exists trg_rubric_version_immutable on rubric_versions;
+create trigger trg_rubric_version_immutable
+  before update on rubric_versions
+  for each row execute function reject_rubric_version_update();
+
+alter table rubric_versions enable row level security;
+
+create policy "Platform users can view rubric versions for their clients" on rubric_versions
+  for select using (
+    client_id is null or
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+-- Evaluations record the rubric version they were scored against
+alter table evaluation_records
+  add column if not exists rubric_version_id integer references rubric_versions(id) on delete set null,
+  add column if not exists rubric_version integer;
+
+-- The editor writes drivers and behaviors without the legacy columns
+alter table drivers alter column criteria drop not null;
+alter table driver_behaviors alter column behavior_text drop not null;
+alter table driver_behaviors alter column is_positive set default true;
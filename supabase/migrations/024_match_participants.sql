@@ -0,0 +1,30 @@
+-- Participant name lookup
+-- Evaluations name their subject the way a manager types it ("Priya"), while
+-- chunks.participants holds sender names as they appear in the export
+-- ("Priya Sharma", "priya.s"). match_participants returns the sender names of a
+-- client that contain the subject name, or are contained in it, most active first.
+
+create or replace function match_participants(
+  p_client_id integer,
+  p_name text,
+  p_limit integer default 20
+)
+returns table (
+  participant text,
+  chunk_count bigint
+)
+language sql
+stable
+as $$
+  select p as participant, count(*) as chunk_count
+  from chunks, unnest(chunks.participants) as p
+  where chunks.client_id = p_client_id
+    and length(trim(p_name)) >= 2
+    and (
+      p ilike '%' || trim(p_name) || '%'
+      or (length(p) >= 3 and trim(p_name) ilike '%' || p || '%')
+    )
+  group by p
+  order by count(*) desc
+  limit p_limit;
+$$;
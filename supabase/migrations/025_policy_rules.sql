@@ -0,0 +1,16 @@
+-- Evidence policy rules
+-- min_rooms_required replaces the hardcoded "two rooms whenever more than one
+-- evidence item is required" check, and evaluation records keep the policy
+-- report that explains which rules passed and which scores were withheld.
+
+alter table evaluation_policies
+  add column if not exists min_rooms_required integer not null default 1;
+
+alter table evaluation_policies
+  drop constraint if exists evaluation_policies_min_rooms_required_check;
+
+alter table evaluation_policies
+  add constraint evaluation_policies_min_rooms_required_check check (min_rooms_required >= 1);
+
+alter table evaluation_records
+  add column if not exists policy_report jsonb;
@@ -0,0 +1,147 @@
+-- Team evaluations
+-- A batch that evaluates every participant of a client over a date range, run by the
+-- team-evaluation-worker as a 'team_evaluation' job. Each member row points at the
+-- evaluation record produced for that person, so the team report reads the scores
+-- from evaluation_records side by side.
+
+-- Team evaluation jobs are not tied to an upload or a room
+alter table jobs alter column upload_id drop not null;
+alter table jobs alter column room_id drop not null;
+alter table jobs add column if not exists params_json jsonb default '{}';
+alter table jobs add column if not exists created_by uuid references platform_users(id);
+
+create table if not exists team_evaluations (
+  id serial primary key,
+  client_id integer references clients(id) on delete cascade not null,
+  job_id integer references jobs(id) on delete set null,
+  title text not null,
+  question text not null,
+  date_from timestamp with time zone,
+  date_to timestamp with time zone,
+  room_ids integer[],
+  min_chunks integer not null default 3,
+  -- Rubric every member is scored against, so scores stay comparable
+  rubric_version_id integer references rubric_versions(id) on delete set null,
+  rubric_version integer,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  member_count integer not null default 0,
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  completed_at timestamp with time zone
+);
+
+create index if not exists idx_team_evaluations_client on team_evaluations(client_id, created_at desc);
+
+create table if not exists team_evaluation_members (
+  id serial primary key,
+  team_evaluation_id integer references team_evaluations(id) on delete cascade not null,
+  client_id integer references clients(id) on delete cascade not null,
+  subject_name text not null,
+  chunk_count integer not null default 0,
+  status text not null default 'pending' check (status in ('pending', 'completed', 'skipped', 'failed')),
+  evaluation_record_id integer references evaluation_records(id) on delete set null,
+  -- Why a member was skipped or failed (policy report message or error)
+  reason text,
+  evaluated_at timestamp with time zone,
+  unique (team_evaluation_id, subject_name)
+);
+
+create index if not exists idx_team_evaluation_members_pending
+  on team_evaluation_members(team_evaluation_id, status);
+
+alter table team_evaluations enable row level security;
+alter table team_evaluation_members enable row level security;
+
+drop policy if exists team_evaluations_select on team_evaluations;
+create policy team_evaluations_select on team_evaluations
+for select using (
+  is_super_admin(auth.uid()) or is_backend_user(auth.uid()) or has_client_access(auth.uid(), client_id)
+);
+
+drop policy if exists team_evaluation_members_select on team_evaluation_members;
+create policy team_evaluation_members_select on team_evaluation_members
+for select using (
+  is_super_admin(auth.uid()) or is_backend_user(auth.uid()) or has_client_access(auth.uid(), client_id)
+);
+
+-- Participants of a client with how many chunks they appear in, most active first
+create or replace function list_participants(
+  p_client_id integer,
+  p_date_from timestamp with time zone default null,
+  p_date_to timestamp with time zone default null,
+  p_room_ids integer[] default null,
+  p_min_chunks integer default 1
+)
+returns table (
+  participant text,
+  chunk_count bigint
+)
+language sql
+stable
+as $$
+  select p as participant, count(*) as chunk_count
+  from chunks, unnest(chunks.participants) as p
+  where chunks.client_id = p_client_id
+    and (p_date_from is null or chunks.last_ts >= p_date_from)
+    and (p_date_to is null or chunks.first_ts <= p_date_to)
+    and (p_room_ids is null or cardinality(p_room_ids) = 0 or chunks.room_id = any(p_room_ids))
+    and length(trim(p)) > 0
+  group by p
+  having count(*) >= p_min_chunks
+  order by count(*) desc, p;
+$$;
+
+-- Claim queued team evaluation jobs without two workers picking the same row
+create or replace function claim_team_evaluation_jobs(p_limit integer default 1)
+returns setof jobs
+language plpgsql
+security definer
+as $$
+begin
+  return query
+  update jobs
+  set status = 'processing',
+      started_at = coalesce(started_at, now()),
+      updated_at = now()
+  where id in (
+    select id from jobs
+    where status = 'queued'
+      and job_type = 'team_evaluation'
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+end;
+$$;
+
+revoke execute on function claim_team_evaluation_jobs(integer) from public, anon, authenticated;
+
+-- Cron safety net: batches are evaluated a few members per run and requeued until done
+create or replace function trigger_team_evaluation_worker()
+returns void
+language plpgsql
+security definer
+as $$
+begin
+  perform
+    net.http_post(
+      url := 'https://brohvgsykwmcefsjkbit.supabase.co/functions/v1/team-evaluation-worker',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.service_role_key', true)
+      ),
+      body := '{}'::jsonb
+    );
+exception when others then
+  raise log 'Error in trigger_team_evaluation_worker: %', sqlerrm;
+end;
+$$;
+
+grant execute on function trigger_team_evaluation_worker() to postgres;
+
+select cron.schedule(
+  'team-evaluation-worker',
+  '* * * * *', -- Every minute
+  'select trigger_team_evaluation_worker();'
+);
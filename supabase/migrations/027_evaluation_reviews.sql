@@ -0,0 +1,74 @@
+-- Evaluation review and sign-off
+-- Evaluation records move through draft -> in_review -> approved / rejected.
+-- Reviewers can adjust driver scores and reasoning; the model's original values
+-- stay on the score row (ai_score, ai_reasoning) for audit. Every transition,
+-- adjustment and comment is kept in evaluation_review_events. Only approved
+-- records count in evaluation history, trends and team reports.
+
+alter table evaluation_records add column if not exists review_status text not null default 'draft'
+  check (review_status in ('draft', 'in_review', 'approved', 'rejected'));
+alter table evaluation_records add column if not exists reviewed_by uuid references platform_users(id);
+alter table evaluation_records add column if not exists reviewed_at timestamp with time zone;
+
+create index if not exists idx_evaluation_records_review on evaluation_records(client_id, review_status, created_at desc);
+
+-- Reviewer-added scores have no model original, so score rows are no longer model-only
+alter table evaluation_record_scores add column if not exists ai_score numeric(5,2);
+alter table evaluation_record_scores add column if not exists ai_reasoning text;
+alter table evaluation_record_scores add column if not exists adjusted_by uuid references platform_users(id);
+alter table evaluation_record_scores add column if not exists adjusted_at timestamp with time zone;
+
+update evaluation_record_scores
+set ai_score = score,
+    ai_reasoning = reasoning
+where ai_score is null and adjusted_at is null;
+
+-- Trends read scores by review status without joining back to the record
+alter table evaluation_record_scores add column if not exists review_status text not null default 'draft';
+
+update evaluation_record_scores s
+set review_status = r.review_status
+from evaluation_records r
+where r.id = s.record_id;
+
+create or replace function sync_evaluation_score_review_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  update evaluation_record_scores
+  set review_status = new.review_status
+  where record_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_evaluation_score_review_status on evaluation_records;
+create trigger trg_evaluation_score_review_status
+  after update of review_status on evaluation_records
+  for each row execute function sync_evaluation_score_review_status();
+
+create table if not exists evaluation_review_events (
+  id serial primary key,
+  record_id integer not null references evaluation_records(id) on delete cascade,
+  client_id integer not null references clients(id) on delete cascade,
+  action text not null check (action in ('submitted', 'approved', 'rejected', 'reopened', 'adjusted', 'commented')),
+  from_status text,
+  to_status text,
+  comment text,
+  -- adjusted: [{ driver_key, from_score, to_score, from_reasoning, to_reasoning }]
+  details jsonb not null default '{}',
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_evaluation_review_events_record on evaluation_review_events(record_id, created_at);
+
+alter table evaluation_review_events enable row level security;
+
+create policy "Platform users can view evaluation reviews for their clients" on evaluation_review_events
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
@@ -0,0 +1,28 @@
+-- Consistency sampling
+-- A policy can ask for several independent evaluation samples. Scores become the
+-- per-driver mean, and confidence is derived from how stable the samples are
+-- rather than from the model's self-reported confidence. The per-driver
+-- statistics are kept on the evaluation record.
+
+alter table evaluation_policies
+  add column if not exists consistency_samples integer not null default 1;
+
+alter table evaluation_policies
+  drop constraint if exists evaluation_policies_consistency_samples_check;
+
+alter table evaluation_policies
+  add constraint evaluation_policies_consistency_samples_check check (consistency_samples between 1 and 5);
+
+-- Present the evidence in a different order to every sample after the first
+alter table evaluation_policies
+  add column if not exists shuffle_evidence boolean not null default true;
+
+alter table evaluation_records
+  add column if not exists consistency jsonb;
+
+alter table evaluation_record_scores
+  add column if not exists score_variance numeric(6,3);
+alter table evaluation_record_scores
+  add column if not exists agreement numeric(4,3);
+alter table evaluation_record_scores
+  add column if not exists unstable boolean not null default false;
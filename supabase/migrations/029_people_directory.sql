@@ -0,0 +1,302 @@
+-- People directory
+-- chunks.participants holds sender names exactly as each export wrote them, so
+-- "Monica", "Monica R", "+91 98765 43210" and a Cliq display name are four
+-- different people. A per-client directory maps those aliases (names, phone
+-- numbers, Cliq user ids) to one person. Chunks carry the resolved person ids,
+-- evaluation records point at the person, and ingest leaves alias suggestions
+-- for senders the directory does not know yet.
+
+create table if not exists people (
+  id serial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  display_name text not null,
+  notes text,
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_people_client on people(client_id, display_name);
+
+-- Names compare case- and whitespace-insensitively, phone numbers by digits only
+create or replace function normalize_person_alias(p_type text, p_value text)
+returns text
+language sql
+immutable
+as $$
+  select case p_type
+    when 'phone' then regexp_replace(coalesce(p_value, ''), '\D', '', 'g')
+    when 'cliq_user_id' then trim(coalesce(p_value, ''))
+    else lower(regexp_replace(trim(coalesce(p_value, '')), '\s+', ' ', 'g'))
+  end;
+$$;
+
+create table if not exists person_aliases (
+  id serial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  person_id integer not null references people(id) on delete cascade,
+  alias_type text not null check (alias_type in ('name', 'phone', 'cliq_user_id')),
+  value text not null,
+  normalized text generated always as (normalize_person_alias(alias_type, value)) stored,
+  -- manual: added in the directory; ingest: learned from a Cliq user id at ingest
+  source text not null default 'manual' check (source in ('manual', 'ingest', 'suggestion')),
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  -- An alias can only point at one person of a client
+  unique (client_id, alias_type, normalized)
+);
+
+create index if not exists idx_person_aliases_person on person_aliases(person_id);
+
+-- Senders seen at ingest that may belong to a known person (person_id) or to the
+-- same person as another unlinked sender (candidate_value)
+create table if not exists person_alias_suggestions (
+  id serial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  alias_type text not null check (alias_type in ('name', 'phone', 'cliq_user_id')),
+  value text not null,
+  normalized text generated always as (normalize_person_alias(alias_type, value)) stored,
+  person_id integer references people(id) on delete cascade,
+  candidate_value text,
+  reason text not null,
+  score numeric(4,3) not null default 0,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'dismissed')),
+  source_upload_id integer references uploads(id) on delete set null,
+  resolved_by uuid references platform_users(id),
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- One open suggestion per sender and target
+create unique index if not exists idx_person_alias_suggestions_pending
+  on person_alias_suggestions(client_id, alias_type, normalized, coalesce(person_id, 0), coalesce(candidate_value, ''))
+  where status = 'pending';
+
+alter table chunks add column if not exists person_ids integer[] not null default '{}';
+create index if not exists idx_chunks_person_ids on chunks using gin(person_ids);
+
+alter table evaluation_records add column if not exists person_id integer references people(id) on delete set null;
+alter table evaluation_record_scores add column if not exists person_id integer references people(id) on delete set null;
+
+create index if not exists idx_evaluation_records_person on evaluation_records(client_id, person_id, created_at desc);
+create index if not exists idx_evaluation_record_scores_person on evaluation_record_scores(client_id, person_id, driver_key, created_at);
+
+alter table people enable row level security;
+alter table person_aliases enable row level security;
+alter table person_alias_suggestions enable row level security;
+
+create policy "Platform users can view people for their clients" on people
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+create policy "Platform users can view person aliases for their clients" on person_aliases
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+create policy "Platform users can view alias suggestions for their clients" on person_alias_suggestions
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+-- Person a name, phone number or Cliq user id refers to. Exact aliases win; a bare
+-- first name ("Monica") resolves only when exactly one person carries it.
+create or replace function resolve_person(p_client_id integer, p_value text)
+returns table (
+  person_id integer,
+  display_name text,
+  matched_by text
+)
+language sql
+stable
+as $$
+  with input as (
+    select
+      normalize_person_alias('name', p_value) as name_key,
+      normalize_person_alias('phone', p_value) as phone_key,
+      normalize_person_alias('cliq_user_id', p_value) as cliq_key
+  ),
+  matches as (
+    select pa.person_id, 'alias'::text as matched_by, 1 as rank
+    from person_aliases pa, input
+    where pa.client_id = p_client_id
+      and (
+        (pa.alias_type = 'name' and pa.normalized = input.name_key)
+        or (pa.alias_type = 'phone' and length(input.phone_key) >= 7 and pa.normalized = input.phone_key)
+        or (pa.alias_type = 'cliq_user_id' and pa.normalized = input.cliq_key)
+      )
+    union all
+    select min(pa.person_id), 'first_name'::text, 2
+    from person_aliases pa, input
+    where pa.client_id = p_client_id
+      and pa.alias_type = 'name'
+      and length(input.name_key) >= 2
+      and position(' ' in input.name_key) = 0
+      and split_part(pa.normalized, ' ', 1) = input.name_key
+    having count(distinct pa.person_id) = 1
+  )
+  select p.id, p.display_name, m.matched_by
+  from matches m
+  join people p on p.id = m.person_id
+  order by m.rank
+  limit 1;
+$$;
+
+-- Person ids behind a chunk's participant names and phone numbers
+create or replace function participant_person_ids(p_client_id integer, p_participants text[])
+returns integer[]
+language sql
+stable
+as $$
+  select coalesce(array_agg(distinct pa.person_id order by pa.person_id), '{}')
+  from unnest(coalesce(p_participants, '{}')) as p
+  join person_aliases pa
+    on pa.client_id = p_client_id
+   and (
+     (pa.alias_type = 'name' and pa.normalized = normalize_person_alias('name', p))
+     or (pa.alias_type = 'phone' and length(pa.normalized) >= 7 and pa.normalized = normalize_person_alias('phone', p))
+   );
+$$;
+
+-- Participant strings, as stored on chunks, that belong to the given people
+create or replace function person_participants(p_client_id integer, p_person_ids integer[])
+returns table (
+  participant text
+)
+language sql
+stable
+as $$
+  select distinct p
+  from chunks, unnest(chunks.participants) as p
+  where chunks.client_id = p_client_id
+    and chunks.person_ids && p_person_ids
+    and participant_person_ids(p_client_id, array[p]) && p_person_ids;
+$$;
+
+-- Re-resolve chunk person ids (one upload, or the whole client after the directory
+-- changed) and attach evaluation records whose subject is a known alias
+create or replace function refresh_person_links(p_client_id integer, p_upload_id integer default null)
+returns integer
+language plpgsql
+as $$
+declare
+  v_updated integer;
+begin
+  update chunks
+  set person_ids = participant_person_ids(p_client_id, participants)
+  where client_id = p_client_id
+    and (p_upload_id is null or source_upload_id = p_upload_id)
+    and person_ids is distinct from participant_person_ids(p_client_id, participants);
+  get diagnostics v_updated = row_count;
+
+  if p_upload_id is null then
+    update evaluation_records r
+    set person_id = pa.person_id
+    from person_aliases pa
+    where r.client_id = p_client_id
+      and r.person_id is null
+      and pa.client_id = r.client_id
+      and pa.alias_type = 'name'
+      and pa.normalized = r.subject_key;
+
+    update evaluation_record_scores s
+    set person_id = r.person_id
+    from evaluation_records r
+    where r.id = s.record_id
+      and r.client_id = p_client_id
+      and s.person_id is distinct from r.person_id;
+  end if;
+
+  return v_updated;
+end;
+$$;
+
+-- Fold one person into another: aliases, chunk links, evaluations and suggestions
+-- move to the target and the source is deleted
+create or replace function merge_people(p_client_id integer, p_source_id integer, p_target_id integer)
+returns integer
+language plpgsql
+as $$
+declare
+  v_moved integer;
+begin
+  if p_source_id = p_target_id then
+    raise exception 'Cannot merge a person into itself';
+  end if;
+  if (select count(*) from people where client_id = p_client_id and id in (p_source_id, p_target_id)) <> 2 then
+    raise exception 'Both people must belong to client %', p_client_id;
+  end if;
+
+  -- Aliases the target already has are dropped rather than duplicated
+  delete from person_aliases s
+  using person_aliases t
+  where s.person_id = p_source_id
+    and t.person_id = p_target_id
+    and t.alias_type = s.alias_type
+    and t.normalized = s.normalized;
+
+  update person_aliases set person_id = p_target_id where person_id = p_source_id;
+  get diagnostics v_moved = row_count;
+
+  update chunks
+  set person_ids = array(select distinct unnest(array_replace(person_ids, p_source_id, p_target_id)) order by 1)
+  where client_id = p_client_id and person_ids @> array[p_source_id];
+
+  update evaluation_records set person_id = p_target_id where client_id = p_client_id and person_id = p_source_id;
+  update evaluation_record_scores set person_id = p_target_id where client_id = p_client_id and person_id = p_source_id;
+
+  delete from person_alias_suggestions
+  where person_id = p_source_id and status = 'pending';
+
+  delete from people where id = p_source_id;
+
+  update people set updated_at = timezone('utc'::text, now()) where id = p_target_id;
+
+  return v_moved;
+end;
+$$;
+
+-- Team evaluations enumerate people rather than raw sender names: every alias of a
+-- person counts towards one member, named after the person
+drop function if exists list_participants(integer, timestamp with time zone, timestamp with time zone, integer[], integer);
+
+create or replace function list_participants(
+  p_client_id integer,
+  p_date_from timestamp with time zone default null,
+  p_date_to timestamp with time zone default null,
+  p_room_ids integer[] default null,
+  p_min_chunks integer default 1
+)
+returns table (
+  participant text,
+  person_id integer,
+  chunk_count bigint
+)
+language sql
+stable
+as $$
+  with mentions as (
+    select chunks.id as chunk_id, p, (participant_person_ids(p_client_id, array[p]))[1] as person_id
+    from chunks, unnest(chunks.participants) as p
+    where chunks.client_id = p_client_id
+      and (p_date_from is null or chunks.last_ts >= p_date_from)
+      and (p_date_to is null or chunks.first_ts <= p_date_to)
+      and (p_room_ids is null or cardinality(p_room_ids) = 0 or chunks.room_id = any(p_room_ids))
+      and length(trim(p)) > 0
+  )
+  select coalesce(people.display_name, mentions.p) as participant,
+         mentions.person_id,
+         count(distinct mentions.chunk_id) as chunk_count
+  from mentions
+  left join people on people.id = mentions.person_id
+  group by coalesce(people.display_name, mentions.p), mentions.person_id
+  having count(distinct mentions.chunk_id) >= p_min_chunks
+  order by count(distinct mentions.chunk_id) desc, 1;
+$$;
@@ -0,0 +1,61 @@
+-- PII redaction
+-- Exports carry phone numbers, emails, bank details and addresses that would
+-- otherwise land verbatim in chunks.text, in embeddings and in model prompts.
+-- Each client has a redaction policy that ingestion applies to message text
+-- before chunking: a category is tokenised (replaced by a stable token whose
+-- original is kept in the vault), masked (replaced by its category, original
+-- discarded) or kept. The vault has no select policy; originals are only
+-- revealed to admins through the pii edge function, and every reveal is logged.
+
+create table if not exists pii_redaction_policies (
+  id serial primary key,
+  client_id integer not null unique references clients(id) on delete cascade,
+  enabled boolean not null default false,
+  -- category -> 'tokenize' | 'mask' | 'keep'; categories left out use the default action
+  categories jsonb not null default '{}'::jsonb,
+  updated_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists pii_vault (
+  id serial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  -- As it appears in chunk text, e.g. [PHONE_3f9a0c12de]
+  token text not null,
+  category text not null,
+  original_value text not null,
+  source_upload_id integer references uploads(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  -- Tokens are derived from the value, so the same number is one vault entry per client
+  unique (client_id, token)
+);
+
+create table if not exists pii_reveal_events (
+  id serial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  tokens text[] not null,
+  chunk_id integer references chunks(id) on delete set null,
+  revealed_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_pii_reveal_events_client on pii_reveal_events(client_id, created_at desc);
+
+alter table pii_redaction_policies enable row level security;
+alter table pii_vault enable row level security;
+alter table pii_reveal_events enable row level security;
+
+create policy "Platform users can view redaction policies for their clients" on pii_redaction_policies
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+-- No policy on pii_vault: only the service role reads it
+
+create policy "Super admins can view PII reveal events" on pii_reveal_events
+  for select using (
+    is_super_admin(auth.uid())
+  );
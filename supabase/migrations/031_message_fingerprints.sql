@@ -0,0 +1,50 @@
+-- Message fingerprints
+-- Teams re-export the same WhatsApp group every month and every export holds
+-- the full history, so ingesting each export whole duplicated chunks and
+-- double-counted evidence. room_messages is the room's canonical message
+-- history: one fingerprint per message, recorded by the upload that first
+-- brought it in. Ingestion skips messages whose fingerprint the room already has.
+
+create table if not exists room_messages (
+  id bigserial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  room_id integer not null references rooms(id) on delete cascade,
+  fingerprint text not null,
+  ts timestamp with time zone not null,
+  -- Deleting an upload forgets its messages, so a later export can bring them back
+  upload_id integer not null references uploads(id) on delete cascade,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (room_id, fingerprint)
+);
+
+create index if not exists idx_room_messages_upload on room_messages(upload_id);
+create index if not exists idx_room_messages_room_ts on room_messages(room_id, ts);
+
+alter table room_messages enable row level security;
+
+create policy "Platform users can view room messages for their clients" on room_messages
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+-- Fingerprints of an export the room already holds from other uploads. A retried
+-- upload does not count its own earlier attempt as known.
+create or replace function known_message_fingerprints(
+  p_room_id integer,
+  p_upload_id integer,
+  p_fingerprints text[]
+)
+returns table (
+  fingerprint text
+)
+language sql
+stable
+as $$
+  select rm.fingerprint
+  from room_messages rm
+  where rm.room_id = p_room_id
+    and rm.upload_id <> p_upload_id
+    and rm.fingerprint = any(p_fingerprints);
+$$;
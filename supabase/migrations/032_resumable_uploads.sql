@@ -0,0 +1,34 @@
+-- Resumable uploads
+-- Large exports are uploaded in parts, each to its own signed URL, so a dropped
+-- connection only repeats the part in flight. Parts are stored next to the
+-- upload's storage_path and read back in order by the ingest worker. The size
+-- limit moves from a client constant to the platform setting max_file_size_mb.
+
+create table if not exists platform_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_by uuid references platform_users(id),
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+insert into platform_settings (key, value)
+values ('max_file_size_mb', '50'::jsonb)
+on conflict (key) do nothing;
+
+alter table platform_settings enable row level security;
+
+create policy "Platform users can view platform settings" on platform_settings
+  for select using (
+    auth.uid() is not null
+  );
+
+create policy "Super admins can change platform settings" on platform_settings
+  for all using (
+    is_super_admin(auth.uid())
+  ) with check (
+    is_super_admin(auth.uid())
+  );
+
+-- Null for uploads sent as one object
+alter table uploads add column if not exists part_size integer;
+alter table uploads add column if not exists part_count integer;
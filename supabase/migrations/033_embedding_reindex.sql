@@ -0,0 +1,350 @@
+-- Embedding model versioning and the reindex worker
+-- Every embedding is tagged with the model that produced it and its dimension.
+-- Search only compares a query vector with chunk vectors of the same model, so
+-- a client can hold vectors of two models while it is re-embedded. reindex
+-- queues one reindex_jobs row per chunk and target model; the reindex-worker
+-- edge function embeds them in batches and, once every chunk of the client has
+-- a vector of the target model, switches clients.embedding_model in one
+-- transaction. Vectors of the previous model are pruned a few minutes later,
+-- after cached provider settings (providers.ts) have expired.
+
+-- Vectors of any dimension; the ivfflat index needs a fixed one and was built on an empty table
+drop index if exists embeddings_embedding_idx;
+alter table embeddings alter column embedding type vector;
+
+alter table embeddings add column if not exists dimension integer;
+
+-- model_name defaulted to an OpenAI model, but chunk vectors came from the
+-- client's provider, Vertex text-embedding-004 unless the client names a model.
+-- Deployments that set GOOGLE_EMBEDDING_MODEL should correct these rows.
+update embeddings e
+set model_name = coalesce(c.embedding_model, 'text-embedding-004')
+from clients c
+where e.client_id = c.id
+  and e.model_name = 'text-embedding-ada-002';
+
+alter table embeddings alter column model_name drop default;
+
+update embeddings
+set dimension = vector_dims(embedding)
+where dimension is null and embedding is not null;
+
+-- One vector per chunk and model; keep the newest of any duplicates
+delete from embeddings a
+using embeddings b
+where a.chunk_id = b.chunk_id
+  and a.model_name = b.model_name
+  and a.id < b.id;
+
+create unique index if not exists idx_embeddings_chunk_model on embeddings(chunk_id, model_name);
+create index if not exists idx_embeddings_client_model on embeddings(client_id, model_name);
+
+-- Reindex queue, one row per chunk and target model
+create table if not exists reindex_jobs (
+  id bigserial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  room_id integer references rooms(id) on delete cascade,
+  chunk_id integer not null references chunks(id) on delete cascade,
+  target_model text not null,
+  type text not null default 'reindex',
+  status text not null default 'pending'
+    check (status in ('pending', 'processing', 'completed', 'failed')),
+  attempts integer not null default 0,
+  error_message text,
+  created_by uuid references platform_users(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  completed_at timestamp with time zone
+);
+
+create index if not exists idx_reindex_jobs_status_created on reindex_jobs(status, created_at);
+create index if not exists idx_reindex_jobs_client_target on reindex_jobs(client_id, target_model, status);
+
+alter table reindex_jobs enable row level security;
+
+create policy "Platform users can view reindex jobs for their clients" on reindex_jobs
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+-- Model switches, pruned of the previous model's vectors once settled
+create table if not exists embedding_model_switches (
+  id bigserial primary key,
+  client_id integer not null references clients(id) on delete cascade,
+  from_model text,
+  to_model text not null,
+  switched_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  pruned_at timestamp with time zone,
+  pruned_count integer
+);
+
+create index if not exists idx_embedding_model_switches_unpruned on embedding_model_switches(switched_at)
+  where pruned_at is null;
+
+alter table embedding_model_switches enable row level security;
+
+create policy "Platform users can view embedding model switches for their clients" on embedding_model_switches
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+-- Queue a client's chunks for re-embedding. With p_missing_only, only chunks
+-- without a vector of the target model; chunks already queued are skipped. A
+-- new request also clears the target's failed jobs, which hold back the switch.
+create or replace function enqueue_reindex(
+  p_client_id integer,
+  p_target_model text,
+  p_room_ids integer[] default null,
+  p_date_from timestamptz default null,
+  p_date_to timestamptz default null,
+  p_missing_only boolean default false,
+  p_created_by uuid default null
+)
+returns integer
+language plpgsql
+security definer
+as $$
+declare
+  v_count integer;
+begin
+  if not p_missing_only then
+    delete from reindex_jobs
+    where client_id = p_client_id
+      and target_model = p_target_model
+      and status = 'failed';
+  end if;
+
+  insert into reindex_jobs (client_id, room_id, chunk_id, target_model, created_by)
+  select c.client_id, c.room_id, c.id, p_target_model, p_created_by
+  from chunks c
+  where c.client_id = p_client_id
+    and (coalesce(array_length(p_room_ids, 1), 0) = 0 or c.room_id = any(p_room_ids))
+    and (p_date_from is null or c.first_ts >= p_date_from)
+    and (p_date_to is null or c.last_ts <= p_date_to)
+    and (
+      not p_missing_only
+      or not exists (
+        select 1 from embeddings e
+        where e.chunk_id = c.id and e.model_name = p_target_model
+      )
+    )
+    and not exists (
+      select 1 from reindex_jobs r
+      where r.chunk_id = c.id
+        and r.target_model = p_target_model
+        and r.status in ('pending', 'processing')
+    );
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function enqueue_reindex(integer, text, integer[], timestamptz, timestamptz, boolean, uuid)
+  from public, anon, authenticated;
+
+-- Claim pending reindex jobs; rows stuck in processing (a worker that died) are taken again
+create or replace function claim_reindex_jobs(p_limit integer default 100)
+returns setof reindex_jobs
+language plpgsql
+security definer
+as $$
+begin
+  return query
+  update reindex_jobs
+  set status = 'processing',
+      attempts = attempts + 1,
+      updated_at = now()
+  where id in (
+    select id from reindex_jobs
+    where status = 'pending'
+       or (status = 'processing' and updated_at < now() - interval '10 minutes')
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+end;
+$$;
+
+revoke execute on function claim_reindex_jobs(integer) from public, anon, authenticated;
+
+-- Point a client at a new embedding model once every chunk has a vector of it.
+-- Returns how many chunks still lack one; the switch only happens at zero.
+create or replace function switch_embedding_model(
+  p_client_id integer,
+  p_model text,
+  p_from_model text default null
+)
+returns integer
+language plpgsql
+security definer
+as $$
+declare
+  v_missing integer;
+begin
+  select count(*) into v_missing
+  from chunks c
+  where c.client_id = p_client_id
+    and not exists (
+      select 1 from embeddings e
+      where e.chunk_id = c.id and e.model_name = p_model
+    );
+
+  if v_missing > 0 then
+    return v_missing;
+  end if;
+
+  update clients set embedding_model = p_model where id = p_client_id;
+
+  insert into embedding_model_switches (client_id, from_model, to_model)
+  values (p_client_id, p_from_model, p_model);
+
+  return 0;
+end;
+$$;
+
+revoke execute on function switch_embedding_model(integer, text, text) from public, anon, authenticated;
+
+-- Delete chunk vectors of models a client no longer uses, for switches older than
+-- p_grace. A chunk ingested with the old model around the switch keeps its vector
+-- until the worker has given it one of the new model.
+create or replace function prune_switched_embeddings(p_grace interval default interval '10 minutes')
+returns integer
+language plpgsql
+security definer
+as $$
+declare
+  v_switch record;
+  v_deleted integer;
+  v_total integer := 0;
+begin
+  for v_switch in
+    select s.id, s.client_id, c.embedding_model
+    from embedding_model_switches s
+    join clients c on c.id = s.client_id
+    where s.pruned_at is null
+      and s.switched_at < now() - p_grace
+    for update of s skip locked
+  loop
+    delete from embeddings old
+    where old.client_id = v_switch.client_id
+      and old.chunk_id is not null
+      and old.model_name is distinct from v_switch.embedding_model
+      and exists (
+        select 1 from embeddings current_model
+        where current_model.chunk_id = old.chunk_id
+          and current_model.model_name = v_switch.embedding_model
+      );
+
+    get diagnostics v_deleted = row_count;
+    v_total := v_total + v_deleted;
+
+    update embedding_model_switches
+    set pruned_at = now(), pruned_count = v_deleted
+    where id = v_switch.id;
+  end loop;
+
+  return v_total;
+end;
+$$;
+
+revoke execute on function prune_switched_embeddings(interval) from public, anon, authenticated;
+
+-- Vector search over one embedding model. filter.embedding_model is the model
+-- the query vector came from; vectors of other models or dimensions are never
+-- compared with it.
+create or replace function match_documents(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  with candidates as materialized (
+    select embeddings.chunk_id, embeddings.embedding
+    from embeddings
+    where embeddings.chunk_id is not null
+      and embeddings.dimension = vector_dims(query_embedding)
+      and (filter->>'embedding_model' is null or embeddings.model_name = filter->>'embedding_model')
+      and (filter->>'client_id' is null or embeddings.client_id = (filter->>'client_id')::integer)
+  )
+  select
+    chunks.id::bigint,
+    coalesce(chunks.text, chunks.content) as content,
+    jsonb_build_object(
+      'room_id', chunks.room_id,
+      'room_name', rooms.name,
+      'room_type', rooms.room_type,
+      'client_id', chunks.client_id,
+      'first_ts', chunks.first_ts,
+      'last_ts', chunks.last_ts,
+      'participants', chunks.participants,
+      'source', chunks.metadata->'source'
+    ) as metadata,
+    1 - (candidates.embedding <=> query_embedding) as similarity
+  from candidates
+  join chunks on chunks.id = candidates.chunk_id
+  left join rooms on chunks.room_id = rooms.id
+  where 1 - (candidates.embedding <=> query_embedding) > match_threshold
+    and (filter->>'client_id' is null or chunks.client_id = (filter->>'client_id')::integer)
+    and (
+      coalesce(jsonb_array_length(filter->'room_ids'), 0) = 0
+      or chunks.room_id in (select jsonb_array_elements_text(filter->'room_ids')::integer)
+    )
+    and (
+      coalesce(jsonb_array_length(filter->'types'), 0) = 0
+      or rooms.room_type::text in (select jsonb_array_elements_text(filter->'types'))
+    )
+    and (filter->>'date_from' is null or chunks.last_ts >= (filter->>'date_from')::timestamptz)
+    and (filter->>'date_to' is null or chunks.first_ts <= (filter->>'date_to')::timestamptz)
+    and (
+      coalesce(jsonb_array_length(filter->'participants'), 0) = 0
+      or chunks.participants && array(select jsonb_array_elements_text(filter->'participants'))
+    )
+  order by candidates.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- Cron safety net: reindex kicks the worker directly, this drains the rest of the queue
+create or replace function trigger_reindex_worker()
+returns void
+language plpgsql
+security definer
+as $$
+begin
+  perform
+    net.http_post(
+      url := 'https://brohvgsykwmcefsjkbit.supabase.co/functions/v1/reindex-worker',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.service_role_key', true)
+      ),
+      body := '{}'::jsonb
+    );
+exception when others then
+  raise log 'Error in trigger_reindex_worker: %', sqlerrm;
+end;
+$$;
+
+grant execute on function trigger_reindex_worker() to postgres;
+
+select cron.schedule(
+  'reindex-worker',
+  '* * * * *', -- Every minute
+  'select trigger_reindex_worker();'
+);
@@ -0,0 +1,264 @@
+-- Job queue
+-- Workers claim jobs through claim_jobs, which hands out a lease: the job stays
+-- processing only while its worker renews lease_expires_at. A job whose lease
+-- runs out (the worker died or timed out) is taken back by the next claim and
+-- retried. Failed attempts are retried with exponential backoff (run_after)
+-- until max_attempts, after which the job is dead-lettered. Each claim is one
+-- job_attempts row, which keeps the per-attempt error history. Claims respect a
+-- global and a per-client cap on processing jobs from platform_settings.
+
+alter type job_status add value if not exists 'dead_letter';
+
+alter table jobs add column if not exists failed_attempts integer not null default 0;
+alter table jobs add column if not exists max_attempts integer not null default 5;
+alter table jobs add column if not exists run_after timestamp with time zone;
+alter table jobs add column if not exists lease_expires_at timestamp with time zone;
+alter table jobs add column if not exists current_attempt_id bigint;
+alter table jobs add column if not exists cancel_requested_at timestamp with time zone;
+alter table jobs add column if not exists cancelled_by uuid references platform_users(id);
+
+-- Jobs already running get one lease period to finish under the old workers
+update jobs
+set lease_expires_at = updated_at + interval '15 minutes'
+where status = 'processing' and lease_expires_at is null;
+
+create index if not exists idx_jobs_queue on jobs(job_type, status, run_after);
+create index if not exists idx_jobs_lease on jobs(lease_expires_at) where lease_expires_at is not null;
+
+insert into platform_settings (key, value)
+values
+  ('max_concurrent_jobs', '10'::jsonb),
+  ('max_concurrent_jobs_per_client', '3'::jsonb)
+on conflict (key) do nothing;
+
+create table if not exists job_attempts (
+  id bigserial primary key,
+  job_id integer not null references jobs(id) on delete cascade,
+  client_id integer not null references clients(id) on delete cascade,
+  attempt integer not null,
+  worker text,
+  outcome text not null default 'running'
+    check (outcome in ('running', 'succeeded', 'requeued', 'failed', 'lease_expired', 'cancelled')),
+  error_code text,
+  error_message text,
+  started_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  finished_at timestamp with time zone
+);
+
+create index if not exists idx_job_attempts_job on job_attempts(job_id, attempt);
+
+alter table job_attempts enable row level security;
+
+create policy "Platform users can view job attempts for their clients" on job_attempts
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+-- Delay before retry n (1-based): 30s, 1m, 2m, ... capped at 30 minutes
+create or replace function job_retry_delay(p_failed_attempts integer)
+returns interval
+language sql
+immutable
+as $$
+  select make_interval(secs => least(30 * power(2, greatest(p_failed_attempts, 1) - 1), 1800));
+$$;
+
+-- Close the job's current attempt and move the job on. p_outcome is one of
+-- succeeded (completed), requeued (more work, not a failure), failed (retried
+-- after a backoff, or dead-lettered at max_attempts; straight to failed when
+-- not retryable) or cancelled. A job with a cancel request is cancelled
+-- instead of being requeued or retried. Returns the job's new status, or null
+-- when p_attempt_id no longer holds the job's lease.
+create or replace function finish_job_attempt(
+  p_job_id integer,
+  p_attempt_id bigint,
+  p_outcome text,
+  p_error_code text default null,
+  p_error_message text default null,
+  p_retryable boolean default true
+)
+returns text
+language plpgsql
+security definer
+as $$
+declare
+  v_job jobs;
+  v_status job_status;
+  v_outcome text := p_outcome;
+begin
+  select * into v_job
+  from jobs
+  where id = p_job_id and current_attempt_id = p_attempt_id
+  for update;
+
+  if not found then
+    return null;
+  end if;
+
+  if v_job.cancel_requested_at is not null and p_outcome in ('requeued', 'failed') then
+    v_outcome := 'cancelled';
+  end if;
+
+  v_status := case
+    when v_outcome = 'succeeded' then 'completed'
+    when v_outcome = 'requeued' then 'queued'
+    when v_outcome = 'cancelled' then 'cancelled'
+    when not p_retryable then 'failed'
+    when v_job.failed_attempts + 1 >= v_job.max_attempts then 'dead_letter'
+    else 'queued'
+  end::job_status;
+
+  update job_attempts
+  set outcome = v_outcome,
+      error_code = p_error_code,
+      error_message = p_error_message,
+      finished_at = now()
+  where id = p_attempt_id;
+
+  update jobs
+  set status = v_status,
+      failed_attempts = failed_attempts + case when v_outcome = 'failed' then 1 else 0 end,
+      run_after = case
+        when v_outcome = 'failed' and v_status = 'queued' then now() + job_retry_delay(failed_attempts + 1)
+        else null
+      end,
+      error_code = case when v_outcome = 'failed' then p_error_code else error_code end,
+      error_message = case when v_outcome = 'failed' then p_error_message else error_message end,
+      lease_expires_at = null,
+      current_attempt_id = null,
+      completed_at = case when v_status = 'queued' then completed_at else now() end,
+      updated_at = now()
+  where id = p_job_id;
+
+  return v_status::text;
+end;
+$$;
+
+revoke execute on function finish_job_attempt(integer, bigint, text, text, text, boolean) from public, anon, authenticated;
+
+-- Take back jobs whose worker stopped renewing its lease; they count as a failed attempt
+create or replace function reap_expired_job_leases()
+returns integer
+language plpgsql
+security definer
+as $$
+declare
+  v_job record;
+  v_count integer := 0;
+begin
+  for v_job in
+    select id, current_attempt_id
+    from jobs
+    where status = 'processing'
+      and lease_expires_at < now()
+    for update skip locked
+  loop
+    if v_job.current_attempt_id is null then
+      -- Claimed before leases existed; there is no attempt row to close
+      update jobs
+      set status = 'queued', lease_expires_at = null, updated_at = now()
+      where id = v_job.id;
+    else
+      perform finish_job_attempt(
+        v_job.id,
+        v_job.current_attempt_id,
+        'failed',
+        'E_LEASE_EXPIRED',
+        'The worker stopped before finishing the job'
+      );
+      update job_attempts
+      set outcome = 'lease_expired'
+      where id = v_job.current_attempt_id and outcome = 'failed';
+    end if;
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function reap_expired_job_leases() from public, anon, authenticated;
+
+-- Claim up to p_limit due queued jobs of the given types (or only p_job_id),
+-- within the global and per-client caps on processing jobs. Claims are
+-- serialised so concurrent workers cannot both take the last free slot.
+create or replace function claim_jobs(
+  p_job_types text[],
+  p_limit integer default 1,
+  p_worker text default null,
+  p_lease_seconds integer default 600,
+  p_job_id integer default null
+)
+returns setof jobs
+language plpgsql
+security definer
+as $$
+declare
+  v_global_cap integer;
+  v_client_cap integer;
+  v_running integer;
+  v_client_running integer;
+  v_claimed integer := 0;
+  v_attempt_id bigint;
+  v_job jobs;
+begin
+  perform pg_advisory_xact_lock(hashtext('claim_jobs'));
+  perform reap_expired_job_leases();
+
+  select coalesce((select (value #>> '{}')::integer from platform_settings where key = 'max_concurrent_jobs'), 10)
+  into v_global_cap;
+  select coalesce((select (value #>> '{}')::integer from platform_settings where key = 'max_concurrent_jobs_per_client'), 3)
+  into v_client_cap;
+
+  select count(*) into v_running from jobs where status = 'processing';
+
+  for v_job in
+    select * from jobs
+    where status = 'queued'
+      and job_type = any(p_job_types)
+      and (p_job_id is null or id = p_job_id)
+      and (run_after is null or run_after <= now())
+    order by created_at
+    for update skip locked
+  loop
+    exit when v_claimed >= p_limit or v_running >= v_global_cap;
+
+    select count(*) into v_client_running
+    from jobs
+    where status = 'processing' and client_id = v_job.client_id;
+
+    continue when v_client_running >= v_client_cap;
+
+    insert into job_attempts (job_id, client_id, attempt, worker)
+    values (
+      v_job.id,
+      v_job.client_id,
+      (select count(*) + 1 from job_attempts where job_id = v_job.id),
+      p_worker
+    )
+    returning id into v_attempt_id;
+
+    update jobs
+    set status = 'processing',
+        started_at = coalesce(started_at, now()),
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        current_attempt_id = v_attempt_id,
+        run_after = null,
+        updated_at = now()
+    where id = v_job.id
+    returning * into v_job;
+
+    v_running := v_running + 1;
+    v_claimed := v_claimed + 1;
+    return next v_job;
+  end loop;
+end;
+$$;
+
+revoke execute on function claim_jobs(text[], integer, text, integer, integer) from public, anon, authenticated;
+
+-- Workers claim through claim_jobs now
+drop function if exists claim_ingest_jobs(integer);
+drop function if exists claim_team_evaluation_jobs(integer);
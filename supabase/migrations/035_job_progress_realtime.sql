@@ -0,0 +1,34 @@
+-- Live job progress
+-- The ingest worker records the stage it is in next to progress and counts_json,
+-- and jobs and uploads are published to Realtime so the jobs page and the upload
+-- widget follow a job without polling. Realtime applies RLS, so users only
+-- receive rows of clients they can access.
+
+alter table jobs add column if not exists stage text
+  check (stage in ('parsing', 'chunking', 'embedding', 'indexing'));
+
+-- jobs had row level security without a select policy
+create policy "Platform users can view jobs for their clients" on jobs
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'jobs'
+  ) then
+    alter publication supabase_realtime add table jobs;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'uploads'
+  ) then
+    alter publication supabase_realtime add table uploads;
+  end if;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- Conversation memory
+-- The query function no longer pastes the last raw question/answer pairs into
+-- the prompt. Each conversation keeps a rolling summary of its older turns and
+-- the facts the user established (names, scope, preferences); only the most
+-- recent turns are passed verbatim. Follow-up questions are rewritten into a
+-- standalone search query before retrieval, recorded on queries.search_query.
+
+create table if not exists conversation_memory (
+  conversation_id integer primary key references conversations(id) on delete cascade,
+  client_id integer not null references clients(id) on delete cascade,
+  summary text not null default '',
+  -- Last query folded into the summary; later turns are passed verbatim
+  summarized_through integer references queries(id) on delete set null,
+  summarized_turns integer not null default 0,
+  -- [{ id, text, source: 'conversation' | 'user', query_id, created_at }]
+  facts jsonb not null default '[]',
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_conversation_memory_client on conversation_memory(client_id);
+
+alter table conversation_memory enable row level security;
+
+create policy "Platform users can view conversation memory for their clients" on conversation_memory
+  for select using (
+    is_super_admin(auth.uid()) or
+    is_backend_user(auth.uid()) or
+    has_client_access(auth.uid(), client_id)
+  );
+
+alter table queries add column if not exists search_query text;
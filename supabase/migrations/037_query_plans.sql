@@ -0,0 +1,6 @@
+-- Query plans
+-- The query planner reads dates, people and rooms out of a question and turns
+-- them into filters and a search query. The plan is recorded with the query, so
+-- a surprising answer can be traced back to how the question was interpreted.
+
+alter table queries add column if not exists plan_json jsonb;
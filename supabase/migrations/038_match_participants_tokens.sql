@@ -0,0 +1,46 @@
+-- Participant lookup by whole name tokens
+-- match_participants compared names as substrings, so "Ali" matched "Alison"
+-- and "Khalid", and a % or _ in a name acted as a wildcard. Names are now split
+-- into lowercased words: a sender matches when it carries every word of the
+-- subject ("Priya" -> "Priya Sharma", "priya.s"), or the subject carries every
+-- word of the sender ("Priya Sharma" -> "Priya"). No LIKE pattern is built from
+-- either name.
+
+create or replace function name_tokens(p_name text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(token), '{}')
+  from regexp_split_to_table(lower(coalesce(p_name, '')), '[^[:alnum:]]+') as token
+  where token <> '';
+$$;
+
+create or replace function match_participants(
+  p_client_id integer,
+  p_name text,
+  p_limit integer default 20
+)
+returns table (
+  participant text,
+  chunk_count bigint
+)
+language sql
+stable
+as $$
+  with subject as (
+    select name_tokens(p_name) as tokens
+  )
+  select p as participant, count(*) as chunk_count
+  from subject, chunks, unnest(chunks.participants) as p
+  where chunks.client_id = p_client_id
+    and length(trim(p_name)) >= 2
+    and cardinality(subject.tokens) > 0
+    and (
+      name_tokens(p) @> subject.tokens
+      or (length(p) >= 3 and cardinality(name_tokens(p)) > 0 and subject.tokens @> name_tokens(p))
+    )
+  group by p
+  order by count(*) desc
+  limit p_limit;
+$$;
@@ -0,0 +1,111 @@
+-- Approximate nearest neighbour indexes for embeddings
+-- 033 made embeddings.embedding an untyped vector so that models of different
+-- dimensions can live side by side, which left vector search without an index.
+-- An index needs a fixed dimension, so there is one partial HNSW index per
+-- dimension, built on a cast of the column and limited to the rows of that
+-- dimension: 768 for Vertex text-embedding-004, 1536 for OpenAI
+-- text-embedding-3-small and text-embedding-ada-002. HNSW indexes at most 2000
+-- dimensions; larger vectors (text-embedding-3-large) are searched exactly.
+
+create index if not exists idx_embeddings_hnsw_768 on embeddings
+  using hnsw ((embedding::vector(768)) vector_cosine_ops)
+  where dimension = 768 and chunk_id is not null;
+
+create index if not exists idx_embeddings_hnsw_1536 on embeddings
+  using hnsw ((embedding::vector(1536)) vector_cosine_ops)
+  where dimension = 1536 and chunk_id is not null;
+
+-- Vector search over one embedding model. filter.embedding_model is the model
+-- the query vector came from; vectors of other models or dimensions are never
+-- compared with it. The query is built with the query vector's dimension as a
+-- literal, so it uses the same cast and predicate as that dimension's index.
+-- Without room, type, date or participant filters the nearest candidates come
+-- from the index and are then filtered; with them, the matching vectors of the
+-- client are compared exactly, since a narrow filter would leave few of the
+-- index's candidates.
+create or replace function match_documents(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'
+)
+returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+declare
+  v_dims integer := vector_dims(query_embedding);
+  v_candidates integer := least(greatest(match_count * 10, 100), 1000);
+  v_exact boolean :=
+    coalesce(jsonb_array_length(filter->'room_ids'), 0) > 0
+    or coalesce(jsonb_array_length(filter->'types'), 0) > 0
+    or filter->>'date_from' is not null
+    or filter->>'date_to' is not null
+    or coalesce(jsonb_array_length(filter->'participants'), 0) > 0;
+begin
+  if not v_exact then
+    -- The index returns at most ef_search rows per scan
+    perform set_config('hnsw.ef_search', v_candidates::text, true);
+  end if;
+
+  return query execute format($query$
+    with candidates as materialized (
+      select
+        embeddings.chunk_id,
+        embeddings.embedding::vector(%1$s) <=> $1::vector(%1$s) as distance
+      from embeddings
+      where embeddings.chunk_id is not null
+        and embeddings.dimension = %1$s
+        and ($2->>'embedding_model' is null or embeddings.model_name = $2->>'embedding_model')
+        and ($2->>'client_id' is null or embeddings.client_id = ($2->>'client_id')::integer)
+      %2$s
+    )
+    select
+      chunks.id::bigint,
+      coalesce(chunks.text, chunks.content) as content,
+      jsonb_build_object(
+        'room_id', chunks.room_id,
+        'room_name', rooms.name,
+        'room_type', rooms.room_type,
+        'client_id', chunks.client_id,
+        'first_ts', chunks.first_ts,
+        'last_ts', chunks.last_ts,
+        'participants', chunks.participants,
+        'source', chunks.metadata->'source'
+      ) as metadata,
+      1 - candidates.distance as similarity
+    from candidates
+    join chunks on chunks.id = candidates.chunk_id
+    left join rooms on chunks.room_id = rooms.id
+    where 1 - candidates.distance > $3
+      and ($2->>'client_id' is null or chunks.client_id = ($2->>'client_id')::integer)
+      and (
+        coalesce(jsonb_array_length($2->'room_ids'), 0) = 0
+        or chunks.room_id in (select jsonb_array_elements_text($2->'room_ids')::integer)
+      )
+      and (
+        coalesce(jsonb_array_length($2->'types'), 0) = 0
+        or rooms.room_type::text in (select jsonb_array_elements_text($2->'types'))
+      )
+      and ($2->>'date_from' is null or chunks.last_ts >= ($2->>'date_from')::timestamptz)
+      and ($2->>'date_to' is null or chunks.first_ts <= ($2->>'date_to')::timestamptz)
+      and (
+        coalesce(jsonb_array_length($2->'participants'), 0) = 0
+        or chunks.participants && array(select jsonb_array_elements_text($2->'participants'))
+      )
+    order by candidates.distance
+    limit $4
+  $query$,
+    v_dims,
+    case
+      when v_exact then ''
+      else format('order by embeddings.embedding::vector(%1$s) <=> $1::vector(%1$s) limit %2$s', v_dims, v_candidates)
+    end
+  )
+  using query_embedding, filter, match_threshold, match_count;
+end;
+$$;
@@ -3,7 +3,9 @@
  */
 
 // Common types
-export type JobStatus = 'pending' | 'queued' | 'processing' | 'complete' | 'failed' | 'dead_letter';
+export type JobStatus = 'pending' | 'queued' | 'processing' | 'completed' | 'failed' | 'dead_letter' | 'cancelled';
+// Ingest worker stage, in pipeline order
+export type JobStage = 'parsing' | 'chunking' | 'embedding' | 'indexing';
 export type RoomType = 'internal' | 'external';
 export type ClientStatus = 'active' | 'inactive';
 
@@ -30,6 +32,33 @@ export interface CreateRoomResponse {
   room_id: number;
 }
 
+// Room import settings (rooms.ingest_settings)
+export type IngestFormat = 'auto' | 'whatsapp_txt' | 'cliq_json' | 'csv';
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface CsvColumnMapping {
+  timestamp?: string;
+  sender?: string;
+  text?: string;
+}
+
+export interface RoomIngestSettings {
+  format?: IngestFormat;
+  column_mapping?: CsvColumnMapping;
+  date_order?: DateOrder;
+  utc_offset_minutes?: number;
+}
+
+export interface UpdateRoomSettingsRequest {
+  room_id: number;
+  ingest_settings: RoomIngestSettings;
+}
+
+export interface UpdateRoomSettingsResponse {
+  room_id: number;
+  ingest_settings: RoomIngestSettings;
+}
+
 // Upload & Ingestion
 export interface UploadUrlRequest {
   client_id: number;
@@ -45,6 +74,62 @@ export interface UploadUrlResponse {
   storage_path: string;
 }
 
+// Resumable uploads
+export interface StartUploadSessionRequest {
+  client_id: number;
+  room_id: number;
+  file_name: string;
+  file_size: number;
+}
+
+export interface UploadSessionDto {
+  upload_id: number;
+  job_id: number;
+  client_id: number;
+  room_id: number;
+  file_name: string;
+  file_size: number;
+  part_size: number;
+  part_count: number;
+  storage_path: string;
+}
+
+export interface UploadSessionStatusDto extends UploadSessionDto {
+  uploaded_parts: number[];
+  completed: boolean;
+}
+
+export interface SignedPartDto {
+  part_number: number;
+  signed_url: string;
+}
+
+export interface UploadSessionResponse {
+  session: UploadSessionDto;
+}
+
+export interface UploadSessionStatusResponse {
+  status: UploadSessionStatusDto;
+}
+
+export interface SignPartsResponse {
+  parts: SignedPartDto[];
+}
+
+// An interrupted upload kept in the browser so it can continue after a reload
+export interface SavedUploadSession {
+  upload_id: number;
+  job_id: number;
+  client_id: number;
+  room_id: number;
+  file_name: string;
+  file_size: number;
+  file_last_modified: number;
+  part_count: number;
+  uploaded_parts: number;
+  saved_at: string;
+}
+
 export interface IngestRequest {
   job_id: number;
 }
@@ -63,23 +148,56 @@ export interface JobDto {
   file_name?: string;
   file_digest?: string;
   status: JobStatus;
+  stage?: JobStage | null;
+  job_type?: string;
+  progress?: number;
+  total_items?: number | null;
+  processed_items?: number;
   counts_json?: {
     messages_parsed?: number;
+    messages_new?: number;
+    messages_known?: number;
+    system_messages?: number;
+    media_omitted?: number;
     chunks_created?: number;
     embeddings_generated?: number;
+    pii_redacted?: number;
   };
   timings_json?: {
+    download_ms?: number;
     parse_ms?: number;
+    chunk_ms?: number;
     embed_ms?: number;
     total_ms?: number;
   };
   cost_estimate?: number;
   error_code?: string;
   error_message?: string;
+  // Failed attempts so far; the job is dead-lettered once it reaches max_attempts
+  failed_attempts?: number;
+  max_attempts?: number;
+  // Set while a failed job waits for its next attempt
+  next_attempt_at?: string | null;
+  // A running job was asked to stop and will be cancelled at its next checkpoint
+  cancel_requested?: boolean;
+  attempts?: JobAttemptDto[];
+  started_at?: string;
+  completed_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface JobAttemptDto {
+  id: number;
+  attempt: number;
+  worker?: string | null;
+  outcome: 'running' | 'succeeded' | 'requeued' | 'failed' | 'lease_expired' | 'cancelled';
+  error_code?: string | null;
+  error_message?: string | null;
+  started_at: string;
+  finished_at?: string | null;
+}
+
 export interface JobsResponse {
   jobs: JobDto[];
   pagination: {
@@ -101,13 +219,18 @@ export interface JobRetryRequest {
 
 export interface JobRetryResponse {
   queued: boolean;
-  job: {
-    id: number;
-    client_id: number;
-    previous_status: JobStatus;
-    new_status: JobStatus;
-    retried_at: string;
-  };
+  job_id: number;
+  status: JobStatus;
+}
+
+export interface JobCancelRequest {
+  job_id: number;
+}
+
+export interface JobCancelResponse {
+  job_id: number;
+  status: JobStatus;
+  cancel_requested: boolean;
 }
 
 // Conversations
@@ -143,6 +266,44 @@ export interface QueryRequest {
   filters?: QueryFilters;
   evaluation_mode?: boolean;
   subject_user?: string;
+  // Parts of the previous answer's query plan to leave out when asking again
+  ignore_plan?: QueryPlanPart[];
+}
+
+export type QueryPlanPart = 'intent' | 'search_query' | 'date_range' | 'people' | 'rooms';
+
+// How the query planner read a question: sent with the meta event, applied on top of the request filters
+export interface QueryPlan {
+  intent: 'casual' | 'rag' | 'evaluation';
+  search_query: string;
+  date_range: {
+    from: string | null;
+    to: string | null;
+    label: string;
+  } | null;
+  people: Array<{
+    mention: string;
+    name: string;
+    person_id: number | null;
+    role: 'speaker' | 'subject' | 'mentioned';
+  }>;
+  rooms: Array<{
+    room_id: number;
+    name: string;
+    room_type: 'internal' | 'external';
+  }>;
+  room_types: Array<'internal' | 'external'>;
+  recency: boolean;
+  source: 'llm' | 'fallback';
+  ignored: QueryPlanPart[];
+}
+
+// Upstream messages a cited chunk was built from (Zoho Cliq syncs only)
+export interface CitationSource {
+  platform: 'zoho_cliq';
+  chat_id: string | null;
+  thread_id?: string | null;
+  message_ids: string[];
 }
 
 export interface CitationDto {
@@ -154,12 +315,27 @@ export interface CitationDto {
   last_ts: string;
   preview: string;
   score?: number;
+  source?: CitationSource | null;
+}
+
+// Per-driver statistics when an evaluation merged several independent samples
+export interface ScoreConsistency {
+  mean: number | null;
+  variance: number | null;
+  std_dev: number | null;
+  // Share of samples that gave the most common score
+  agreement: number;
+  samples: number;
+  unstable: boolean;
 }
 
 export interface EvaluationDriver {
   key: string;
   name: string;
-  score: number;
+  // null when no evidence was found for the driver
+  score: number | null;
+  insufficient_evidence?: boolean;
+  consistency?: ScoreConsistency;
   weight: number;
   rationale: string;
   citations: number[];
@@ -177,6 +353,10 @@ export interface EvaluationPayload {
   };
   drivers: EvaluationDriver[];
   recommendations: string[];
+  // Set once the evaluation is stored; new evaluations start as drafts awaiting review
+  record_id?: number;
+  version?: number;
+  review_status?: ReviewStatus;
 }
 
 // SSE Events
@@ -186,6 +366,9 @@ export interface SSEMetaEvent {
   conversation_id: number;
   evaluation_mode: boolean;
   subject_user?: string;
+  // Search query the question was planned into, when it differs from the question
+  search_query?: string;
+  plan?: QueryPlan;
   timestamp: string;
   retrieved?: number;
   mmr_kept?: number;
@@ -224,25 +407,478 @@ export interface FeedbackResponse {
   };
 }
 
+// Rubric (Drivers & Values)
+export interface RubricDriverDto {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  weight: number;
+  client_id: number | null;
+  negative_indicators: string[] | null;
+  is_active: boolean;
+  updated_at: string;
+}
+
+export interface RubricBehaviorDto {
+  driver_id: number;
+  positive_examples: string[] | null;
+  negative_examples: string[] | null;
+}
+
+export interface RubricInstanceDto {
+  id: string;
+  driver_id: number;
+  title: string;
+  narrative: string;
+  takeaway: string;
+  tags: string[] | null;
+  created_at: string;
+}
+
+export interface RubricPolicyDto {
+  id: number;
+  client_id: number | null;
+  name: string;
+  version: number;
+  guidance: string | null;
+  min_evidence_items: number;
+  min_rooms_required: number;
+  require_citations: boolean;
+  scale_min: number;
+  scale_max: number;
+  consistency_samples: number;
+  shuffle_evidence: boolean;
+  red_lines: string[] | null;
+  updated_at: string;
+}
+
+export interface RubricVersionDto {
+  id: number;
+  client_id: number | null;
+  version: number;
+  content_hash: string;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+  rubric_json?: any;
+}
+
+export interface RubricResponse {
+  client_id: number | null;
+  drivers: RubricDriverDto[];
+  behaviors: RubricBehaviorDto[];
+  instances: RubricInstanceDto[];
+  policies: RubricPolicyDto[];
+  rubric_version: RubricVersionDto | null;
+}
+
+// Consistency sampling report (stored on evaluation records)
+export interface ConsistencyReportDto {
+  samples_requested: number;
+  samples_used: number;
+  shuffled_evidence: boolean;
+  temperature: number;
+  drivers: Array<{
+    driver: string;
+    scores: Array<number | null>;
+    scored_samples: number;
+    is_scored: boolean;
+    mean: number | null;
+    variance: number | null;
+    std_dev: number | null;
+    agreement: number;
+    confidence: number;
+    unstable: boolean;
+  }>;
+  unstable_drivers: string[];
+  overall_confidence: number;
+  model_reported_confidence: number | null;
+}
+
+// Evidence policy report (why an evaluation or a score was withheld)
+export type PolicyRule = 'min_evidence_items' | 'min_rooms_required' | 'require_citations' | 'red_lines';
+
+export interface PolicyCheckDto {
+  rule: PolicyRule;
+  stage: 'pre' | 'post';
+  passed: boolean;
+  blocking: boolean;
+  message: string;
+}
+
+export interface RedLineHitDto {
+  red_line: string;
+  chunk_ids: Array<number | string>;
+  source: 'evidence_scan' | 'model';
+  excerpt?: string;
+  explanation?: string;
+}
+
+export interface PolicyReportDto {
+  policy_id: number;
+  policy_version: number;
+  passed: boolean;
+  checks: PolicyCheckDto[];
+  red_line_hits: RedLineHitDto[];
+  withheld_scores: Array<{ driver: string; reason: string }>;
+  total_withheld: boolean;
+  evaluated_at: string;
+}
+
+// Evaluation History
+export type TrendBucket = 'month' | 'quarter';
+
+export type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected';
+
+export interface EvaluationRecordScoreDto {
+  driver_id: number | null;
+  driver_key: string;
+  driver_name: string | null;
+  score: number;
+  weight: number | null;
+  evidence_strength: string | null;
+  reasoning: string | null;
+  // Consistency sampling statistics; null for single-sample evaluations
+  score_variance: number | null;
+  agreement: number | null;
+  unstable: boolean;
+  // Model originals; null when a reviewer added the score
+  ai_score: number | null;
+  ai_reasoning: string | null;
+  adjusted_by: string | null;
+  adjusted_at: string | null;
+}
+
+export interface EvaluationRecordDto {
+  id: number;
+  client_id: number;
+  subject_key: string;
+  subject_name: string;
+  // Person in the people directory the subject resolved to
+  person_id: number | null;
+  version: number;
+  query_id: number | null;
+  conversation_id: number | null;
+  question: string | null;
+  mode: 'drivers' | 'general';
+  policy_id: number | null;
+  policy_version: number | null;
+  rubric_version_id: number | null;
+  rubric_version: number | null;
+  result_json: any;
+  policy_report: PolicyReportDto | null;
+  consistency: ConsistencyReportDto | null;
+  weighted_total: number | null;
+  confidence: number | null;
+  cited_chunk_ids: number[];
+  model_provider: string | null;
+  model_name: string | null;
+  review_status: ReviewStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  scores: EvaluationRecordScoreDto[];
+}
+
+export interface EvaluationSubjectDto {
+  subject_key: string;
+  subject_name: string;
+  evaluation_count: number;
+  latest_version: number;
+  latest_weighted_total: number | null;
+  latest_at: string;
+}
+
+export interface DriverTrendDto {
+  driver_key: string;
+  driver_name: string | null;
+  points: Array<{
+    period: string;
+    average_score: number;
+    evaluations: number;
+  }>;
+  change: number | null;
+}
+
+export interface EvaluationSubjectsResponse {
+  subjects: EvaluationSubjectDto[];
+}
+
+export interface EvaluationHistoryResponse {
+  evaluations: EvaluationRecordDto[];
+}
+
+export interface DriverTrendsResponse {
+  bucket: TrendBucket;
+  trends: DriverTrendDto[];
+}
+
+// Evaluation Review
+export type ReviewTransition = 'submit' | 'approve' | 'reject' | 'reopen';
+
+export interface ReviewQueueItemDto {
+  id: number;
+  subject_name: string;
+  version: number;
+  question: string | null;
+  review_status: ReviewStatus;
+  weighted_total: number | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export interface ReviewEventDto {
+  id: number;
+  record_id: number;
+  action: 'submitted' | 'approved' | 'rejected' | 'reopened' | 'adjusted' | 'commented';
+  from_status: ReviewStatus | null;
+  to_status: ReviewStatus | null;
+  comment: string | null;
+  details: {
+    changes?: Array<{
+      driver_key: string;
+      from_score: number | null;
+      to_score: number;
+      from_reasoning: string | null;
+      to_reasoning: string | null;
+    }>;
+    released_total?: boolean;
+  };
+  created_by: string | null;
+  created_at: string;
+  author?: { email: string | null; full_name: string | null } | null;
+}
+
+export interface ScoreAdjustmentRequest {
+  driver_key: string;
+  score: number;
+  reasoning?: string;
+}
+
+export interface ReviewQueueResponse {
+  evaluations: ReviewQueueItemDto[];
+}
+
+export interface EvaluationReviewResponse {
+  evaluation: EvaluationRecordDto;
+  events: ReviewEventDto[];
+}
+
+// Team Evaluations
+export type TeamEvaluationStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type TeamMemberStatus = 'pending' | 'completed' | 'skipped' | 'failed';
+
+export interface TeamEvaluationJobDto {
+  status: string;
+  progress: number;
+  processed_items: number;
+  total_items: number | null;
+  error_message: string | null;
+}
+
+export interface TeamEvaluationDto {
+  id: number;
+  client_id: number;
+  job_id: number | null;
+  title: string;
+  question: string;
+  date_from: string | null;
+  date_to: string | null;
+  room_ids: number[] | null;
+  min_chunks: number;
+  rubric_version_id: number | null;
+  rubric_version: number | null;
+  status: TeamEvaluationStatus;
+  member_count: number;
+  created_by: string | null;
+  created_at: string;
+  completed_at: string | null;
+  job?: TeamEvaluationJobDto | null;
+}
+
+export interface TeamEvaluationMemberDto {
+  id: number;
+  subject_name: string;
+  chunk_count: number;
+  status: TeamMemberStatus;
+  evaluation_record_id: number | null;
+  reason: string | null;
+  evaluated_at: string | null;
+  // Scores are only reported once the member's evaluation is approved
+  review_status: ReviewStatus | null;
+  weighted_total: number | null;
+  confidence: number | null;
+  total_withheld: boolean;
+  // Driver key -> score (null when not scored)
+  scores: Record<string, number | null>;
+}
+
+export interface TeamEvaluationReportDto {
+  team_evaluation: TeamEvaluationDto;
+  job: TeamEvaluationJobDto | null;
+  drivers: Array<{ key: string; name: string; weight: number }>;
+  members: TeamEvaluationMemberDto[];
+  driver_averages: Record<string, number | null>;
+  average_weighted_total: number | null;
+}
+
+export interface StartTeamEvaluationRequest {
+  client_id: number;
+  title?: string;
+  question?: string;
+  date_from?: string;
+  date_to?: string;
+  room_ids?: number[];
+  min_chunks?: number;
+}
+
+export interface StartTeamEvaluationResponse {
+  team_evaluation: TeamEvaluationDto;
+  job_id: number;
+}
+
+export interface TeamEvaluationsResponse {
+  team_evaluations: TeamEvaluationDto[];
+}
+
+export interface TeamEvaluationReportResponse {
+  report: TeamEvaluationReportDto;
+}
+
+// People Directory
+export type PersonAliasType = 'name' | 'phone' | 'cliq_user_id';
+
+export interface PersonAliasDto {
+  id: number;
+  person_id: number;
+  alias_type: PersonAliasType;
+  value: string;
+  normalized: string;
+  // manual: added in the directory; ingest: learned from a Cliq user id
+  source: 'manual' | 'ingest' | 'suggestion';
+  created_at: string;
+}
+
+export interface PersonDto {
+  id: number;
+  client_id: number;
+  display_name: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  aliases: PersonAliasDto[];
+}
+
+export interface NewPersonAlias {
+  alias_type: PersonAliasType;
+  value: string;
+}
+
+export interface AliasSuggestionDto {
+  id: number;
+  alias_type: PersonAliasType;
+  value: string;
+  // Known person the sender probably is, or null when paired with another unknown sender
+  person_id: number | null;
+  candidate_value: string | null;
+  reason: string;
+  score: number;
+  status: 'pending' | 'accepted' | 'dismissed';
+  source_upload_id: number | null;
+  created_at: string;
+  person?: { display_name: string } | null;
+}
+
+export interface UnlinkedParticipantDto {
+  participant: string;
+  chunk_count: number;
+}
+
+export interface PeopleResponse {
+  people: PersonDto[];
+}
+
+export interface PersonResponse {
+  person: PersonDto;
+}
+
+export interface AliasSuggestionsResponse {
+  suggestions: AliasSuggestionDto[];
+}
+
+export interface UnlinkedParticipantsResponse {
+  participants: UnlinkedParticipantDto[];
+}
+
+// PII Redaction
+export type PiiCategory =
+  | 'email'
+  | 'phone'
+  | 'card'
+  | 'iban'
+  | 'bank_account'
+  | 'ifsc'
+  | 'pan'
+  | 'aadhaar'
+  | 'address';
+
+// tokenize: stable token, original kept in the vault; mask: category label only
+export type RedactionAction = 'tokenize' | 'mask' | 'keep';
+
+export interface RedactionPolicyDto {
+  client_id: number;
+  enabled: boolean;
+  categories: Record<PiiCategory, RedactionAction>;
+  updated_at: string | null;
+}
+
+export interface RedactedMatchDto {
+  category: PiiCategory;
+  value: string;
+  action: RedactionAction;
+  replacement: string;
+}
+
+export interface RedactionPolicyResponse {
+  policy: RedactionPolicyDto;
+}
+
+export interface RedactionPreviewResponse {
+  text: string;
+  matches: RedactedMatchDto[];
+}
+
+export interface RevealedValueDto {
+  token: string;
+  category: PiiCategory;
+  value: string;
+}
+
+export interface RevealResponse {
+  values: RevealedValueDto[];
+}
+
 // Reindex
 export interface ReindexRequest {
   client_id: number;
   room_ids?: number[];
   date_from?: string;
   date_to?: string;
+  // Model to re-embed with; defaults to the client's current embedding model
+  embedding_model?: string;
 }
 
 export interface ReindexResponse {
-  job_id: number;
-  client_id: number;
-  scope: {
-    room_ids?: number[];
-    date_from?: string;
-    date_to?: string;
-    estimated_chunks: number;
-  };
-  status: string;
-  created_at: string;
+  reindexed: boolean;
+  chunks_processed: number;
+  jobs_created: number;
+  target_model: string;
+  active_model: string;
+  // True while search still uses active_model; the client switches once every chunk is re-embedded
+  switch_pending: boolean;
+  message?: string;
 }
 
 // Upload Flow Types
@@ -252,6 +888,8 @@ export interface UploadProgress {
   message: string;
   job_id?: number;
   upload_id?: number;
+  // Set when a saved session was picked up instead of starting over
+  resumed?: boolean;
 }
 
 // Chat Message Types